@@ -0,0 +1,141 @@
+// Service worker for offline use in the field. The app shell is served
+// network-first with the cached copy as a fallback, built assets (hashed file
+// names) cache-first, and map tiles cache-first so areas viewed or saved
+// beforehand still render without a connection. API data is not cached
+// here; the app keeps its own copies in IndexedDB (src/lib/offlineStore.ts).
+
+const SHELL_CACHE = 'drp-shell-v1';
+const TILE_CACHE = 'drp-tiles-v1';
+const MAX_TILES = 4000;
+const TILE_FETCH_CONCURRENCY = 4;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+const TILE_HOSTS = [
+  /(^|\.)tile\.openstreetmap\.org$/,
+  /(^|\.)tile\.opentopomap\.org$/,
+  /^server\.arcgisonline\.com$/
+];
+
+let tilesSinceTrim = 0;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, TILE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('drp-') && !current.includes(key))
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isTile = (url) => TILE_HOSTS.some(host => host.test(url.hostname));
+
+// Oldest tiles go first; Cache.keys() lists entries in insertion order
+async function trimTiles() {
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(keys.length - MAX_TILES, 0)).map(key => cache.delete(key)));
+}
+
+// Tiles are cross-origin images, so the (opaque) response is stored as is
+async function fetchTile(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    if (++tilesSinceTrim >= 100) {
+      tilesSinceTrim = 0;
+      trimTiles();
+    }
+  }
+  return response;
+}
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(fallbackUrl || request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (isTile(url)) {
+    event.respondWith(fetchTile(request));
+  } else if (url.origin === self.location.origin) {
+    if (request.mode === 'navigate') {
+      event.respondWith(networkFirst(request, '/index.html'));
+    } else if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(cacheFirst(request));
+    } else if (SHELL_URLS.includes(url.pathname)) {
+      event.respondWith(networkFirst(request));
+    }
+  }
+});
+
+// { type: 'cache-tiles', urls } from the page (src/lib/tiles.ts); replies on
+// the transferred port with { cached } or { error }
+async function cacheTileUrls(urls) {
+  let cached = 0;
+  const queue = urls.filter(url => isTile(new URL(url)));
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const url = queue.shift();
+      try {
+        await fetchTile(new Request(url, { mode: 'no-cors' }));
+        cached++;
+      } catch {
+        // A missing tile leaves a gap in the saved area, not a failed save
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: TILE_FETCH_CONCURRENCY }, worker));
+  await trimTiles();
+  return cached;
+}
+
+self.addEventListener('message', (event) => {
+  const port = event.ports[0];
+  if (event.data?.type !== 'cache-tiles' || !port) return;
+
+  event.waitUntil(
+    cacheTileUrls(event.data.urls || [])
+      .then(cached => port.postMessage({ cached }))
+      .catch(error => port.postMessage({ error: error.message }))
+  );
+});
@@ -11,8 +11,94 @@ export const config = {
     googleApiKey: process.env.GOOGLE_MAPS_API_KEY,
     mapboxToken: process.env.MAPBOX_TOKEN
   },
+  auth: {
+    jwtSecret: process.env.JWT_SECRET,
+    accessTokenTtl: process.env.JWT_ACCESS_TTL || '15m',
+    refreshTokenTtl: process.env.JWT_REFRESH_TTL || '30d'
+  },
   twitter: {
     apiKey: process.env.TWITTER_API_KEY,
-    apiSecret: process.env.TWITTER_API_SECRET
+    apiSecret: process.env.TWITTER_API_SECRET,
+    bearerToken: process.env.TWITTER_BEARER_TOKEN
+  },
+  scheduler: {
+    enabled: process.env.POLLING_ENABLED !== 'false',
+    intervalSeconds: parseInt(process.env.POLLING_INTERVAL_SECONDS || '60', 10),
+    maxBackoffMinutes: parseInt(process.env.POLLING_MAX_BACKOFF_MINUTES || '30', 10)
+  },
+  cap: {
+    // CAP <sender>: a globally unique id for this system, usually a domain or email
+    sender: process.env.CAP_SENDER || 'disaster-response-platform.local'
+  },
+  uploads: {
+    // local (default) or s3
+    storage: process.env.UPLOAD_STORAGE || 'local',
+    maxFileSizeMb: parseInt(process.env.UPLOAD_MAX_FILE_SIZE_MB || '10', 10),
+    localDirectory: process.env.UPLOAD_DIR || 'uploads',
+    publicUrl: process.env.UPLOAD_PUBLIC_URL || '/uploads',
+    s3: {
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      publicUrl: process.env.S3_PUBLIC_URL
+    }
+  },
+  verification: {
+    // Optional Hugging Face image classifier used as one verification signal
+    classifierToken: process.env.HUGGINGFACE_API_KEY || process.env.GEMINI_API_KEY,
+    classifierModel: process.env.VERIFICATION_CLASSIFIER_MODEL || 'google/vit-base-patch16-224'
+  },
+  officialUpdates: {
+    offline: process.env.OFFICIAL_UPDATES_OFFLINE === 'true'
+  },
+  socialMedia: {
+    connectors: (process.env.SOCIAL_CONNECTORS || 'replay').split(',').map(name => name.trim()).filter(Boolean),
+    replayFile: process.env.SOCIAL_REPLAY_FILE,
+    replayBatchSize: parseInt(process.env.SOCIAL_REPLAY_BATCH_SIZE || '50', 10),
+    blueskyServiceUrl: process.env.BLUESKY_SERVICE_URL || 'https://public.api.bsky.app',
+    mastodonInstanceUrl: process.env.MASTODON_INSTANCE_URL || 'https://mastodon.social',
+    mastodonAccessToken: process.env.MASTODON_ACCESS_TOKEN
+  },
+  triage: {
+    // JSON file overriding sections of config/triageRules.js
+    rulesFile: process.env.TRIAGE_RULES_FILE
+  },
+  routing: {
+    // OpenStreetMap extract (.osm XML or Overpass JSON) routes are computed
+    // on; defaults to the Midtown Manhattan sample in server/data/osm
+    graphFile: process.env.ROUTING_GRAPH_FILE
+  },
+  notifications: {
+    // Transport per channel: smtp or stub for email, twilio or stub for SMS,
+    // http or stub for webhooks. Stubs log messages instead of sending them.
+    emailTransport: process.env.NOTIFY_EMAIL_TRANSPORT || 'stub',
+    smsTransport: process.env.NOTIFY_SMS_TRANSPORT || 'stub',
+    webhookTransport: process.env.NOTIFY_WEBHOOK_TRANSPORT || 'http',
+    // JSONL file the stub transports also append their messages to
+    stubFile: process.env.NOTIFY_STUB_FILE,
+    maxAttempts: parseInt(process.env.NOTIFY_MAX_ATTEMPTS || '5', 10),
+    retryBaseSeconds: parseInt(process.env.NOTIFY_RETRY_BASE_SECONDS || '30', 10),
+    webhookTimeoutSeconds: parseInt(process.env.NOTIFY_WEBHOOK_TIMEOUT_SECONDS || '10', 10),
+    // Plain http webhook URLs are only accepted in development
+    allowHttpWebhooks: process.env.NODE_ENV === 'development',
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      // true for implicit TLS (port 465); otherwise STARTTLS is used when offered
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      // Only for relays on a trusted network that offer no TLS
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      from: process.env.SMTP_FROM || 'alerts@disaster-response-platform.local'
+    },
+    twilio: {
+      accountSid: process.env.TWILIO_ACCOUNT_SID,
+      authToken: process.env.TWILIO_AUTH_TOKEN,
+      from: process.env.TWILIO_FROM_NUMBER
+    }
   }
 };
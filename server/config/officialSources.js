@@ -0,0 +1,129 @@
+// Registry of official update sources.
+//
+// Each source declares how to read it:
+//   type       - 'html' (scraped with `selectors`), 'rss', 'atom' or 'cap'
+//                ('cap' accepts a CAP 1.2 <alert> or an Atom feed of CAP entries)
+//   url        - Page or feed to fetch
+//   selectors  - For 'html' only: CSS selectors for each item and, relative to
+//                it, the title, body, date and link
+//   regions    - Lower-case place names the source covers; '*' means anywhere.
+//                A disaster is polled against a source when one of these
+//                appears in its location name
+//   priority   - Default priority plus keywords that raise it. CAP items use
+//                their severity instead (see CAP_SEVERITY_PRIORITY)
+//   fixture    - Saved copy under server/data/official/, read instead of `url`
+//                when OFFICIAL_UPDATES_OFFLINE=true
+//   ttlMinutes - How long a fetched source is reused across disasters
+
+const NYC_REGIONS = ['new york', 'nyc', 'manhattan', 'brooklyn', 'queens', 'bronx', 'staten island', 'kings', 'richmond'];
+
+// Names that refer to the same place. When a disaster's location mentions one
+// of them, an update mentioning any other counts as a region match.
+export const REGION_ALIASES = [
+  NYC_REGIONS,
+  ['los angeles', 'santa monica', 'pasadena', 'long beach', 'malibu'],
+  ['san francisco', 'bay area', 'oakland', 'san jose']
+];
+
+export const OFFICIAL_SOURCES = [
+  {
+    id: 'fema',
+    name: 'FEMA',
+    type: 'rss',
+    url: 'https://www.fema.gov/feeds/news.rss',
+    regions: ['*'],
+    priority: {
+      default: 'medium',
+      high: ['major disaster declaration', 'emergency declaration', 'evacuat']
+    },
+    fixture: 'fema.rss',
+    ttlMinutes: 15
+  },
+  {
+    id: 'nws',
+    name: 'National Weather Service',
+    type: 'cap',
+    url: 'https://api.weather.gov/alerts/active.atom',
+    regions: ['*'],
+    priority: { default: 'medium' },
+    fixture: 'nws_alerts.atom',
+    ttlMinutes: 5
+  },
+  {
+    id: 'usgs',
+    name: 'USGS Earthquakes',
+    type: 'atom',
+    url: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_day.atom',
+    regions: ['*'],
+    priority: {
+      default: 'low',
+      high: ['m 6', 'm 7', 'm 8', 'm 9'],
+      medium: ['m 5']
+    },
+    fixture: 'usgs_earthquakes.atom',
+    ttlMinutes: 5
+  },
+  {
+    id: 'gdacs',
+    name: 'GDACS',
+    type: 'rss',
+    url: 'https://www.gdacs.org/xml/rss.xml',
+    regions: ['*'],
+    priority: {
+      default: 'low',
+      urgent: ['red alert'],
+      high: ['orange alert']
+    },
+    fixture: 'gdacs.rss',
+    ttlMinutes: 15
+  },
+  {
+    id: 'redcross',
+    name: 'American Red Cross',
+    type: 'html',
+    url: 'https://www.redcross.org/about-us/news-and-events/latest-news.html',
+    selectors: {
+      item: '.news-list .news-item',
+      title: '.news-item__title',
+      body: '.news-item__summary',
+      date: 'time[datetime]',
+      link: 'a.news-item__link'
+    },
+    regions: ['*'],
+    priority: {
+      default: 'medium',
+      high: ['shelter', 'evacuat']
+    },
+    fixture: 'redcross.html',
+    ttlMinutes: 30
+  },
+  {
+    id: 'nyc_em',
+    name: 'NYC Emergency Management',
+    type: 'html',
+    url: 'https://www.nyc.gov/site/em/about/press-releases.page',
+    selectors: {
+      item: '.about-description .press-release',
+      title: 'h3',
+      body: 'p.summary',
+      date: 'span.date',
+      link: 'h3 a'
+    },
+    regions: NYC_REGIONS,
+    priority: {
+      default: 'medium',
+      urgent: ['evacuation order', 'shelter in place'],
+      high: ['advisory', 'warning', 'evacuat']
+    },
+    fixture: 'nyc_em.html',
+    ttlMinutes: 15
+  }
+];
+
+export const CAP_SEVERITY_PRIORITY = {
+  Extreme: 'urgent',
+  Severe: 'high',
+  Moderate: 'medium',
+  Minor: 'low',
+  Unknown: 'low'
+};
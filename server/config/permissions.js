@@ -0,0 +1,95 @@
+// Declarative permission matrix: role -> actions it may perform.
+//
+// A user's effective roles on a disaster are their platform role (users.role)
+// plus any per-disaster assignments in disaster_role_assignments. The owner of
+// a disaster may also edit and delete it (OWNER_ACTIONS), but gets no other
+// rights on it: anyone who can create a disaster owns it, citizens included.
+
+export const ACTIONS = [
+  'disasters:create',
+  'disasters:update',
+  'disasters:delete',
+  'disasters:assign_roles',
+  'disasters:revert',
+  'reports:create',
+  'reports:update',
+  'reports:delete',
+  'resources:create',
+  'resources:update',
+  'resources:delete',
+  'tasks:create',
+  'tasks:update',
+  'needs:create',
+  'needs:update',
+  'inventory:update',
+  'closures:update',
+  'verification:submit',
+  'verification:review'
+];
+
+export const ROLE_PERMISSIONS = {
+  admin: ACTIONS,
+  incident_commander: [
+    'disasters:create',
+    'disasters:update',
+    'disasters:delete',
+    'disasters:assign_roles',
+    'reports:create',
+    'reports:update',
+    'reports:delete',
+    'resources:create',
+    'resources:update',
+    'resources:delete',
+    'tasks:create',
+    'tasks:update',
+    'needs:create',
+    'needs:update',
+    'inventory:update',
+    'closures:update',
+    'verification:submit',
+    'verification:review'
+  ],
+  field_responder: [
+    'disasters:create',
+    'reports:create',
+    'resources:update',
+    'needs:create',
+    'inventory:update',
+    'closures:update',
+    'verification:submit'
+  ],
+  verifier: [
+    'reports:create',
+    'reports:update',
+    'needs:create',
+    'verification:submit',
+    'verification:review'
+  ],
+  resource_coordinator: [
+    'reports:create',
+    'resources:create',
+    'resources:update',
+    'resources:delete',
+    'tasks:create',
+    'tasks:update',
+    'needs:create',
+    'needs:update',
+    'inventory:update',
+    'closures:update',
+    'verification:submit'
+  ],
+  citizen: [
+    'disasters:create',
+    'reports:create',
+    'needs:create',
+    'verification:submit'
+  ]
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS);
+
+// What owning a disaster allows on it
+export const OWNER_ACTIONS = ['disasters:update', 'disasters:delete'];
+
+// Roles that can be granted on a single disaster
+export const ASSIGNABLE_ROLES = ['incident_commander', 'field_responder', 'verifier', 'resource_coordinator'];
@@ -0,0 +1,129 @@
+// Default triage rules for reports and social posts.
+//
+// A deployment can replace them with a JSON file of the same shape at
+// TRIAGE_RULES_FILE; sections left out of the file keep these defaults.
+// Changes should be checked against the labelled corpus with
+// `npm run triage:evaluate`.
+//
+//   thresholds  - Lowest score (0-100) for each priority; anything below
+//                 medium is low
+//   negation    - Words that cancel a phrase when they appear up to `window`
+//                 words before it ("no one is trapped")
+//   categories  - Phrase groups and the points a match is worth. A phrase
+//                 ending in `*` matches any word starting with it. Each
+//                 category counts once, however many of its phrases match;
+//                 `lifeSafety` marks threats to life, and every life-safety
+//                 category after the first adds `additionalLifeSafety`.
+//                 Negative points lower the score (offers of help, all clear)
+//   credibility - Points for verified authors, the reporter's platform role
+//                 and the image verification verdict of a report
+//   recency     - Full points up to `fullHours` old, falling to none at
+//                 `zeroHours`
+//   proximity   - Points for being inside the disaster's area, within
+//                 `nearKm` or within `withinKm` of its location
+
+export const TRIAGE_RULES = {
+  thresholds: { urgent: 70, high: 45, medium: 20 },
+
+  negation: {
+    window: 3,
+    words: ['no', 'not', 'never', 'nobody', 'none', 'without', 'isn\'t', 'aren\'t', 'wasn\'t', 'weren\'t', 'don\'t', 'doesn\'t', 'didn\'t', 'no-one']
+  },
+
+  additionalLifeSafety: 10,
+
+  categories: [
+    {
+      id: 'trapped',
+      label: 'People trapped',
+      lifeSafety: true,
+      points: 70,
+      phrases: ['trapped', 'stuck on the roof', 'stuck on roof', 'stuck inside', 'still inside', 'pinned under', 'buried under', 'cannot get out', 'can\'t get out', 'stranded on']
+    },
+    {
+      id: 'medical',
+      label: 'Medical emergency',
+      lifeSafety: true,
+      points: 70,
+      phrases: ['injured', 'injury', 'injuries', 'bleeding', 'unconscious', 'not breathing', 'heart attack', 'need an ambulance', 'need ambulance', 'need a doctor', 'insulin', 'dialysis', 'oxygen tank']
+    },
+    {
+      id: 'missing',
+      label: 'Missing person',
+      lifeSafety: true,
+      points: 70,
+      phrases: ['missing person', 'missing child', 'cannot find my', 'can\'t find my', 'lost contact with', 'unaccounted for']
+    },
+    {
+      id: 'water',
+      label: 'Life-threatening water',
+      lifeSafety: true,
+      points: 70,
+      phrases: ['swept away', 'drowning', 'water up to our', 'water rising fast', 'chest deep', 'neck deep']
+    },
+    {
+      id: 'fire',
+      label: 'Fire threat to people',
+      lifeSafety: true,
+      points: 60,
+      phrases: ['house on fire', 'building on fire', 'fire spreading', 'flames approaching', 'smoke inhalation', 'surrounded by fire']
+    },
+    {
+      id: 'distress',
+      label: 'Call for help',
+      points: 30,
+      phrases: ['sos', 'mayday', 'please help', 'need help', 'help us', 'help me', 'send help', 'urgent', 'emergency alert']
+    },
+    {
+      id: 'evacuation',
+      label: 'Evacuation',
+      points: 45,
+      phrases: ['evacuation order', 'evacuate now', 'evacuate immediately', 'mandatory evacuation', 'evacuating']
+    },
+    {
+      id: 'hazard',
+      label: 'Hazard',
+      points: 25,
+      phrases: ['gas leak', 'power line down', 'power lines down', 'downed power line', 'collapsed', 'bridge out', 'washed out', 'danger*']
+    },
+    {
+      id: 'needs',
+      label: 'Basic needs',
+      points: 20,
+      phrases: ['need water', 'need food', 'out of water', 'out of food', 'no power', 'power outage', 'shelter full', 'need shelter', 'supplies running low']
+    },
+    {
+      id: 'offers',
+      label: 'Offer of help',
+      points: -10,
+      phrases: ['volunteers needed', 'volunteering', 'volunteers helping', 'donate', 'donations', 'distribution', 'available at', 'thoughts and prayers']
+    },
+    {
+      id: 'all_clear',
+      label: 'All clear',
+      points: -30,
+      phrases: ['all clear', 'false alarm', 'everyone is safe', 'we are safe', 'been rescued', 'were rescued', 'no injuries', 'lifted']
+    }
+  ],
+
+  credibility: {
+    verifiedAuthor: 10,
+    roles: {
+      field_responder: 15,
+      incident_commander: 15,
+      verifier: 10,
+      resource_coordinator: 10,
+      admin: 5,
+      citizen: 0
+    },
+    verification: {
+      authentic: 10,
+      suspicious: -5,
+      manipulated: -25
+    }
+  },
+
+  recency: { points: 10, fullHours: 1, zeroHours: 24 },
+
+  proximity: { insideArea: 15, nearKm: 10, near: 10, withinKm: 50, within: 5 }
+};
@@ -9,13 +9,25 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import { config } from './config/config.js';
 import { initializeSupabase } from './config/supabase.js';
-import { errorHandler, logger } from './middleware/middleware.js';
+import { authenticateSocket, errorHandler, logger } from './middleware/middleware.js';
+import authRoutes from './routes/auth.js';
 import disasterRoutes from './routes/disasters.js';
 import socialMediaRoutes from './routes/socialMedia.js';
 import resourceRoutes from './routes/resources.js';
 import updatesRoutes from './routes/updates.js';
 import verificationRoutes from './routes/verification.js';
 import geocodingRoutes from './routes/geocoding.js';
+import mapRoutes from './routes/map.js';
+import moderationRoutes from './routes/moderation.js';
+import searchRoutes from './routes/search.js';
+import volunteerRoutes from './routes/volunteers.js';
+import needRoutes from './routes/needs.js';
+import inventoryRoutes from './routes/inventory.js';
+import routingRoutes from './routes/routing.js';
+import notificationRoutes from './routes/notifications.js';
+import { NotificationDispatcher } from './services/notifications.js';
+import { PollingScheduler } from './services/scheduler.js';
+import { UPLOAD_DIRECTORY, getStorage } from './services/storage/index.js';
 
 
 import path from 'path';
@@ -37,6 +49,12 @@ const io = new Server(server, {
 // Initialize Supabase
 const supabase = initializeSupabase();
 
+// Outbound alert notifications to subscribers
+const notifications = new NotificationDispatcher(supabase);
+
+// Background polling of social media and official updates
+const scheduler = new PollingScheduler(supabase, io, notifications);
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000,
@@ -48,26 +66,42 @@ app.use(cors());
 app.use(express.json());
 app.use(limiter);
 
-// Make io and supabase available to routes
+// Make io, supabase, the scheduler and the notification dispatcher available to routes
 app.use((req, res, next) => {
   req.io = io;
   req.supabase = supabase;
+  req.scheduler = scheduler;
+  req.notifications = notifications;
   next();
 });
 
 // Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/disasters', disasterRoutes);
 app.use('/api/social-media', socialMediaRoutes);
 app.use('/api/resources', resourceRoutes);
 app.use('/api/updates', updatesRoutes);
 app.use('/api/verification', verificationRoutes);
 app.use('/api/geocoding', geocodingRoutes);
+app.use('/api/map', mapRoutes);
+app.use('/api/moderation', moderationRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/volunteers', volunteerRoutes);
+app.use('/api/needs', needRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/routing', routingRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
+// Images uploaded with reports when they are stored on local disk
+if (getStorage().name === 'local' && config.uploads.publicUrl.startsWith('/')) {
+  app.use(config.uploads.publicUrl, express.static(UPLOAD_DIRECTORY, { maxAge: '7d', index: false }));
+}
+
 // Serve frontend
 app.use(express.static(path.join(__dirname, 'dist')));
 app.get('*', (req, res) => {
@@ -78,14 +112,27 @@ app.get('*', (req, res) => {
 app.use(errorHandler);
 
 // Socket.IO setup
+io.use(authenticateSocket);
+
 io.on('connection', (socket) => {
-  logger('info', `Socket connected: ${socket.id}`);
+  const username = socket.data.user?.username || 'anonymous';
+  logger('info', `Socket connected: ${socket.id} (${username})`);
+
+  // Per-user room for notifications meant for one person, e.g. review outcomes
+  if (socket.data.user) {
+    socket.join(`user_${socket.data.user.id}`);
+  }
 
   socket.on('join_disaster', (disasterId) => {
     socket.join(`disaster_${disasterId}`);
     logger('info', `Socket ${socket.id} joined disaster_${disasterId}`);
   });
 
+  socket.on('leave_disaster', (disasterId) => {
+    socket.leave(`disaster_${disasterId}`);
+    logger('info', `Socket ${socket.id} left disaster_${disasterId}`);
+  });
+
   socket.on('disconnect', () => {
     logger('info', `Socket disconnected: ${socket.id}`);
   });
@@ -94,6 +141,8 @@ io.on('connection', (socket) => {
 const PORT = process.env.PORT || 3001;
 server.listen(PORT, () => {
   logger('info', `Server running on port ${PORT}`);
+  scheduler.start();
+  notifications.start();
 });
 
 export { io };
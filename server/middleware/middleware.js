@@ -1,3 +1,6 @@
+import { getBearerToken, verifyAccessToken } from '../services/tokens.js';
+import { PermissionService } from '../services/permissions.js';
+
 export const logger = (level, message) => {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] ${level.toUpperCase()}: ${message}`);
@@ -15,20 +18,55 @@ export const errorHandler = (err, req, res, next) => {
 };
 
 export const authenticateUser = (req, res, next) => {
-  // Mock authentication - hardcoded users
-  const mockUsers = {
-    'netrunnerX': { id: 'netrunnerX', role: 'admin' },
-    'reliefAdmin': { id: 'reliefAdmin', role: 'admin' },
-    'citizen1': { id: 'citizen1', role: 'contributor' }
-  };
-
-  const userId = req.headers['x-user-id'] || 'netrunnerX';
-  const user = mockUsers[userId];
+  const token = getBearerToken(req.headers.authorization);
 
-  if (!user) {
+  if (!token) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  req.user = user;
-  next();
-};
\ No newline at end of file
+  try {
+    req.user = verifyAccessToken(token);
+    next();
+  } catch (error) {
+    logger('warn', `Rejected access token: ${error.message}`);
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+};
+
+// Checks the permission matrix for an action. Must run after authenticateUser;
+// when the route has a disaster `:id`, per-disaster roles are included.
+export const authorize = (action) => async (req, res, next) => {
+  try {
+    const permissionService = new PermissionService(req.supabase);
+    const access = await permissionService.resolve(req.user, req.params.id);
+
+    if (!access.actions.includes(action)) {
+      logger('warn', `Access denied: ${req.user.id} cannot ${action}`);
+      return res.status(403).json({ error: 'Access denied', required: action });
+    }
+
+    req.access = access;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Socket.IO handshake auth. Anonymous sockets may still follow public rooms,
+// but a token that is present must be valid.
+export const authenticateSocket = (socket, next) => {
+  const token = socket.handshake.auth?.token;
+
+  if (!token) {
+    socket.data.user = null;
+    return next();
+  }
+
+  try {
+    socket.data.user = verifyAccessToken(token);
+    next();
+  } catch (error) {
+    logger('warn', `Rejected socket token: ${error.message}`);
+    next(new Error('Unauthorized'));
+  }
+};
@@ -0,0 +1,93 @@
+import express from 'express';
+import { AuthService, toPublicUser } from '../services/auth.js';
+import { authenticateUser, logger } from '../middleware/middleware.js';
+
+const router = express.Router();
+
+// Credentials must be strings; anything else in the body is a bad request
+// rather than a crash further down
+function credentialError(body, fields) {
+  const invalid = fields.filter(field => body[field] !== undefined && body[field] !== null && typeof body[field] !== 'string');
+  return invalid.length > 0 ? `${invalid.join(' and ')} must be text` : null;
+}
+
+// POST /register - Create a contributor account and start a session
+router.post('/register', async (req, res) => {
+  try {
+    const invalid = credentialError(req.body, ['username', 'email', 'password']);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const authService = new AuthService(req.supabase);
+    const session = await authService.register(req.body);
+
+    res.status(201).json(session);
+  } catch (error) {
+    logger('error', `Registration error: ${error.message}`);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// POST /login - Exchange username (or email) and password for tokens
+router.post('/login', async (req, res) => {
+  try {
+    const invalid = credentialError(req.body, ['username', 'password']);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const authService = new AuthService(req.supabase);
+    const session = await authService.login(req.body);
+
+    res.json(session);
+  } catch (error) {
+    logger('error', `Login error: ${error.message}`);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// POST /refresh - Rotate a refresh token into a new token pair
+router.post('/refresh', async (req, res) => {
+  try {
+    const authService = new AuthService(req.supabase);
+    const session = await authService.refresh(req.body.refresh_token);
+
+    res.json(session);
+  } catch (error) {
+    logger('error', `Token refresh error: ${error.message}`);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// POST /logout - Revoke a refresh token
+router.post('/logout', async (req, res) => {
+  try {
+    const authService = new AuthService(req.supabase);
+    await authService.logout(req.body.refresh_token);
+
+    res.status(204).send();
+  } catch (error) {
+    logger('error', `Logout error: ${error.message}`);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// GET /me - Current user profile
+router.get('/me', authenticateUser, async (req, res) => {
+  try {
+    const authService = new AuthService(req.supabase);
+    const user = await authService.getUserById(req.user.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(toPublicUser(user));
+  } catch (error) {
+    logger('error', `Profile fetch error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,20 +1,61 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { authenticateUser, logger } from '../middleware/middleware.js';
+import { authenticateUser, authorize, logger } from '../middleware/middleware.js';
+import { ASSIGNABLE_ROLES } from '../config/permissions.js';
+import { PermissionService } from '../services/permissions.js';
 import { CacheService } from '../services/cache.js';
+import { GeocodingService } from '../services/geocoding.js';
+import {
+  multiPolygonGeometryToWkt,
+  parseCoordinates,
+  toMultiPolygonGeometry,
+  toPointWkt,
+  withCoordinates
+} from '../services/geometry.js';
+import { buildCapAlert, capAlertToDisaster, parseCapAlerts, validateCapFields } from '../services/cap.js';
+import { disasterFeature, featureCollection, reportFeature, resourceFeature } from '../services/geojson.js';
+import { AuditService, ENTITY_TYPES, audited, presentEntry, revertValues } from '../services/audit.js';
+import { ARCHIVED_STATUSES, DISASTER_STATUSES, READ_ONLY_STATUSES, parseStatusFilter, validateTransition } from '../services/lifecycle.js';
+import { statusChangeEvent } from '../services/notifications.js';
 
 const router = express.Router();
 
+// Resolve the point to store for a disaster: explicit coordinates win,
+// otherwise the location name is geocoded.
+async function resolveLocation(req, coordinates, locationName) {
+  if (coordinates !== undefined && coordinates !== null) {
+    return parseCoordinates(coordinates);
+  }
+
+  if (!locationName) return null;
+
+  const geocodingService = new GeocodingService(new CacheService(req.supabase));
+  return geocodingService.geocodeLocation(locationName);
+}
+
 // GET /disasters - List disasters with optional filtering
+// `status` takes a comma-separated list of lifecycle statuses. Archived
+// disasters are left out unless asked for by status or include_archived=true;
+// deleted disasters are never listed here.
 router.get('/', async (req, res) => {
   try {
-    const { tag, limit = 50, offset = 0 } = req.query;
-    let query = req.supabase.from('disasters').select('*');
+    const { tag, status, include_archived, limit = 50, offset = 0 } = req.query;
+    let query = req.supabase.from('disasters').select('*').is('deleted_at', null);
 
     if (tag) {
       query = query.contains('tags', [tag]);
     }
 
+    if (status) {
+      const { errors, statuses } = parseStatusFilter(status);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors.join('; ') });
+      }
+      query = query.in('status', statuses);
+    } else if (include_archived !== 'true') {
+      query = query.not('status', 'in', `(${ARCHIVED_STATUSES.join(',')})`);
+    }
+
     query = query.range(offset, offset + limit - 1).order('created_at', { ascending: false });
 
     const { data, error } = await query;
@@ -24,12 +65,158 @@ router.get('/', async (req, res) => {
     }
 
     logger('info', `Retrieved ${data.length} disasters`);
-    res.json(data);
+    res.json(data.map(withCoordinates));
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// POST /disasters/import/cap - Create disasters from CAP 1.2 alerts
+// Accepts the XML as the request body (application/xml, text/xml or
+// application/cap+xml) or as { "xml": "..." }. Alerts already imported
+// (same identifier) are skipped.
+router.post(
+  '/import/cap',
+  authenticateUser,
+  authorize('disasters:create'),
+  express.text({ type: ['application/xml', 'text/xml', 'application/cap+xml'], limit: '1mb' }),
+  async (req, res) => {
+    try {
+      const xml = typeof req.body === 'string' ? req.body : req.body?.xml;
+      if (!xml || typeof xml !== 'string') {
+        return res.status(400).json({ error: 'CAP XML is required' });
+      }
+
+      const { alerts, skipped } = parseCapAlerts(xml);
+      if (alerts.length === 0 && skipped.length === 0) {
+        return res.status(400).json({ error: 'No CAP alerts found' });
+      }
+
+      const identifiers = alerts.map(alert => alert.cap_identifier);
+      const { data: existing, error: existingError } = identifiers.length > 0
+        ? await req.supabase.from('disasters').select('id, cap_identifier').in('cap_identifier', identifiers)
+        : { data: [], error: null };
+
+      if (existingError) {
+        return res.status(500).json({ error: existingError.message });
+      }
+
+      // cap_identifier is unique, so an alert repeated within the payload is
+      // skipped like one imported before
+      const existingIds = new Map(existing.map(row => [row.cap_identifier, row.id]));
+      const queuedIds = new Set();
+      const rows = [];
+
+      for (const alert of alerts) {
+        if (queuedIds.has(alert.cap_identifier)) {
+          skipped.push({ identifier: alert.cap_identifier, reason: 'Repeated in this import', disaster_id: existingIds.get(alert.cap_identifier) });
+          continue;
+        }
+        if (existingIds.has(alert.cap_identifier)) {
+          skipped.push({ identifier: alert.cap_identifier, reason: 'Already imported', disaster_id: existingIds.get(alert.cap_identifier) });
+          continue;
+        }
+
+        const row = {
+          id: uuidv4(),
+          ...capAlertToDisaster(alert),
+          owner_id: req.user.id,
+          created_at: new Date().toISOString()
+        };
+
+        // Alerts that only describe their area in words are geocoded
+        if (!row.location) {
+          const point = await resolveLocation(req, null, alert.location_name);
+          if (point) row.location = toPointWkt(point.lat, point.lng);
+        }
+
+        rows.push(row);
+        existingIds.set(alert.cap_identifier, row.id);
+        queuedIds.add(alert.cap_identifier);
+      }
+
+      let imported = [];
+      if (rows.length > 0) {
+        const { data, error } = await audited(req.supabase
+          .from('disasters')
+          .insert(rows)
+          .select(), req.user.id, 'import_cap');
+
+        if (error) {
+          return res.status(500).json({ error: error.message });
+        }
+
+        imported = data.map(withCoordinates);
+        imported.forEach(disaster => req.io.emit('disaster_updated', { action: 'create', disaster }));
+        data.forEach(row => req.scheduler.pollDisaster(row).catch(error => {
+          logger('error', `Initial poll for disaster ${row.id} failed: ${error.message}`);
+        }));
+      }
+
+      logger('info', `CAP import by ${req.user.id}: ${imported.length} imported, ${skipped.length} skipped`);
+      res.status(imported.length > 0 ? 201 : 200).json({ imported, skipped });
+    } catch (error) {
+      logger('error', `CAP import error: ${error.message}`);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// GET /disasters/at?lat=&lon= - Disasters whose footprint covers a point,
+// smallest area first
+router.get('/at', async (req, res) => {
+  try {
+    const point = parseCoordinates(req.query);
+    if (!point) {
+      return res.status(400).json({ error: 'lat and lon must be valid coordinates' });
+    }
+
+    const { data, error } = await req.supabase
+      .rpc('find_disasters_at_point', { point_lat: point.lat, point_lon: point.lng });
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    res.json({ lat: point.lat, lng: point.lng, disasters: data || [] });
+  } catch (error) {
+    logger('error', `Point-in-area lookup error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /disasters/deleted - Deleted disasters that can still be restored,
+// most recently deleted first. Only for platform roles that may delete
+// (and so restore) disasters.
+router.get('/deleted', authenticateUser, authorize('disasters:delete'), async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit ?? 50, 10);
+    const offset = parseInt(req.query.offset ?? 0, 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'limit must be between 1 and 200' });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+
+    const { data, error } = await req.supabase
+      .from('disasters')
+      .select('*')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    res.json(data.map(withCoordinates));
+  } catch (error) {
+    logger('error', `Deleted disasters lookup error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // GET /disasters/:id - Get specific disaster
 router.get('/:id', async (req, res) => {
   try {
@@ -37,151 +224,533 @@ router.get('/:id', async (req, res) => {
       .from('disasters')
       .select('*')
       .eq('id', req.params.id)
+      .is('deleted_at', null)
       .single();
 
     if (error) {
       return res.status(404).json({ error: 'Disaster not found' });
     }
 
-    res.json(data);
+    res.json(withCoordinates(data));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /disasters/:id/cap - Export a disaster as a CAP 1.2 alert
+router.get('/:id/cap', async (req, res) => {
+  try {
+    const { data, error } = await req.supabase
+      .from('disasters')
+      .select('*')
+      .eq('id', req.params.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (error || !data) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    res.type('application/cap+xml');
+    res.attachment(`disaster-${data.id}.cap.xml`);
+    res.send(buildCapAlert(withCoordinates(data)));
+  } catch (error) {
+    logger('error', `CAP export error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /disasters/:id/geojson - Export a disaster with its resources and reports
+// as a GeoJSON FeatureCollection
+router.get('/:id/geojson', async (req, res) => {
+  try {
+    const { data: disaster, error } = await req.supabase
+      .from('disasters')
+      .select('*')
+      .eq('id', req.params.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (error || !disaster) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const [resources, reports] = await Promise.all([
+      req.supabase.from('resources').select('*').eq('disaster_id', disaster.id).order('created_at', { ascending: true }),
+      req.supabase.from('reports').select('*').eq('disaster_id', disaster.id).order('created_at', { ascending: false })
+    ]);
+
+    const failed = resources.error || reports.error;
+    if (failed) {
+      return res.status(500).json({ error: failed.message });
+    }
+
+    const collection = featureCollection([
+      disasterFeature(withCoordinates(disaster)),
+      ...resources.data.map(row => resourceFeature(withCoordinates(row))),
+      ...reports.data.map(row => reportFeature(withCoordinates(row)))
+    ], {
+      name: disaster.title,
+      generated_at: new Date().toISOString()
+    });
+
+    res.type('application/geo+json');
+    if (req.query.download !== undefined) {
+      res.attachment(`disaster-${disaster.id}.geojson`);
+    }
+    res.send(JSON.stringify(collection));
+  } catch (error) {
+    logger('error', `GeoJSON export error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /disasters/:id/area - Resources, reports and located social posts
+// inside the disaster's footprint
+router.get('/:id/area', async (req, res) => {
+  try {
+    const { data: disaster, error } = await req.supabase
+      .from('disasters')
+      .select('id, footprint')
+      .eq('id', req.params.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (error || !disaster) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    if (!disaster.footprint) {
+      return res.status(409).json({ error: 'Disaster has no footprint' });
+    }
+
+    const [resources, reports, socialPosts] = await Promise.all([
+      req.supabase.rpc('find_nearby_resources', {
+        target_disaster_id: disaster.id,
+        search_mode: 'footprint',
+        sort_by: 'name',
+        result_limit: 1000
+      }),
+      req.supabase.rpc('find_reports_in_footprint', { target_disaster_id: disaster.id }),
+      req.supabase.rpc('find_social_posts_in_footprint', { target_disaster_id: disaster.id })
+    ]);
+
+    const failed = resources.error || reports.error || socialPosts.error;
+    if (failed) {
+      return res.status(500).json({ error: failed.message });
+    }
+
+    res.json({
+      disaster_id: disaster.id,
+      footprint: withCoordinates(disaster).footprint,
+      resources: resources.data.map(({ total_count, ...resource }) => resource),
+      reports: reports.data,
+      social_posts: socialPosts.data
+    });
+  } catch (error) {
+    logger('error', `Area contents error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /disasters/:id/footprints - Footprint history, oldest first
+router.get('/:id/footprints', async (req, res) => {
+  try {
+    const { data, error } = await req.supabase
+      .from('disaster_footprints')
+      .select('*')
+      .eq('disaster_id', req.params.id)
+      .order('recorded_at', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    res.json({ disaster_id: req.params.id, footprints: data.map(withCoordinates) });
+  } catch (error) {
+    logger('error', `Footprint history error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /disasters/:id/history - Recorded changes to the disaster and its
+// resources and reports, newest first. `entity` narrows it to some of
+// disaster, resource and report; paged with limit and offset.
+router.get('/:id/history', authenticateUser, async (req, res) => {
+  try {
+    const entityTypes = req.query.entity
+      ? String(req.query.entity).split(',').map(type => type.trim()).filter(Boolean)
+      : ENTITY_TYPES;
+    const invalid = entityTypes.filter(type => !ENTITY_TYPES.includes(type));
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `entity must be one of ${ENTITY_TYPES.join(', ')}` });
+    }
+
+    const limit = parseInt(req.query.limit ?? 50, 10);
+    const offset = parseInt(req.query.offset ?? 0, 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'limit must be between 1 and 200' });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+
+    const auditService = new AuditService(req.supabase);
+    const { entries, total } = await auditService.getDisasterHistory(req.params.id, { entityTypes, limit, offset });
+
+    res.json({ disaster_id: req.params.id, entries, total, limit, offset });
+  } catch (error) {
+    logger('error', `Disaster history error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /disasters/:id/history/:entryId/revert - Restore the disaster to how
+// it was right after a recorded change. The revert is itself recorded.
+router.post('/:id/history/:entryId/revert', authenticateUser, authorize('disasters:revert'), async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const auditService = new AuditService(req.supabase);
+    const entry = await auditService.getEntry(req.params.entryId);
+
+    if (!entry || entry.entity_type !== 'disaster' || entry.entity_id !== disasterId) {
+      return res.status(404).json({ error: 'Version not found for this disaster' });
+    }
+    if (!entry.after) {
+      return res.status(400).json({ error: 'This change did not leave a version to revert to' });
+    }
+
+    const { data: existing, error: fetchError } = await req.supabase
+      .from('disasters')
+      .select('*')
+      .eq('id', disasterId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (fetchError) {
+      return res.status(500).json({ error: fetchError.message });
+    }
+    if (!existing) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const values = revertValues(entry.after, existing);
+
+    // Keep the footprint history in step with the disaster's area
+    if ('footprint' in values && values.footprint !== existing.footprint) {
+      const { error: historyError } = await req.supabase
+        .from('disaster_footprints')
+        .insert([{
+          disaster_id: disasterId,
+          footprint: values.footprint,
+          note: `Reverted to version ${entry.id}`,
+          recorded_by: req.user.id,
+          recorded_at: new Date().toISOString()
+        }]);
+
+      if (historyError) {
+        return res.status(500).json({ error: historyError.message });
+      }
+    }
+
+    const { data, error } = await audited(req.supabase
+      .from('disasters')
+      .update(values)
+      .eq('id', disasterId)
+      .select(), req.user.id, 'revert');
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    const disaster = withCoordinates(data[0]);
+    req.io.emit('disaster_updated', { action: 'update', disaster });
+
+    logger('info', `Disaster ${disasterId} reverted to version ${entry.id} by ${req.user.id}`);
+    res.json({ disaster, reverted_to: presentEntry(entry) });
+  } catch (error) {
+    logger('error', `Disaster revert error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /disasters/:id/footprint - Replace the affected area
+// Body: { footprint: <GeoJSON Polygon, MultiPolygon, Feature or
+// FeatureCollection> | null, note }. null clears the area. Every change is
+// kept in the footprint history; archived disasters cannot be changed.
+router.put('/:id/footprint', authenticateUser, authorize('disasters:update'), async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { footprint: input, note } = req.body;
+
+    if (input === undefined) {
+      return res.status(400).json({ error: 'footprint is required (GeoJSON polygons, or null to clear)' });
+    }
+
+    const geometry = input === null ? null : toMultiPolygonGeometry(input);
+    if (input !== null && !geometry) {
+      return res.status(400).json({ error: 'footprint must be a GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection of polygons with closed rings' });
+    }
+
+    const { data: existing, error: fetchError } = await req.supabase
+      .from('disasters')
+      .select('*')
+      .eq('id', disasterId)
+      .is('deleted_at', null)
+      .single();
+
+    if (fetchError || !existing) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    if (READ_ONLY_STATUSES.includes(existing.status)) {
+      return res.status(409).json({ error: `Disaster is ${existing.status}` });
+    }
+
+    const wkt = geometry ? multiPolygonGeometryToWkt(geometry) : null;
+    const timestamp = new Date().toISOString();
+
+    const { error: historyError } = await req.supabase
+      .from('disaster_footprints')
+      .insert([{ disaster_id: disasterId, footprint: wkt, note: note || null, recorded_by: req.user.id, recorded_at: timestamp }]);
+
+    if (historyError) {
+      return res.status(500).json({ error: historyError.message });
+    }
+
+    const { data, error } = await audited(req.supabase
+      .from('disasters')
+      .update({ footprint: wkt })
+      .eq('id', disasterId)
+      .select(), req.user.id, geometry ? 'update_footprint' : 'clear_footprint');
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    const disaster = withCoordinates(data[0]);
+    req.io.emit('disaster_updated', { action: 'update', disaster });
+
+    logger('info', `Disaster footprint ${geometry ? 'updated' : 'cleared'}: ${disasterId} by ${req.user.id}`);
+    res.json(disaster);
   } catch (error) {
+    logger('error', `Footprint update error: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
 
 // POST /disasters - Create new disaster
-router.post('/', authenticateUser, async (req, res) => {
+router.post('/', authenticateUser, authorize('disasters:create'), async (req, res) => {
   try {
-    const { title, location_name, description, tags = [] } = req.body;
+    const { title, location_name, description, tags = [], coordinates } = req.body;
 
     if (!title || !description) {
       return res.status(400).json({ error: 'Title and description are required' });
     }
 
+    if (coordinates && !parseCoordinates(coordinates)) {
+      return res.status(400).json({ error: 'Coordinates must include a valid lat and lng' });
+    }
+
+    const { errors: capErrors, values: capValues } = validateCapFields(req.body);
+    if (capErrors.length > 0) {
+      return res.status(400).json({ error: capErrors.join('; ') });
+    }
+
+    const point = await resolveLocation(req, coordinates, location_name);
+
     const newDisaster = {
       id: uuidv4(),
       title,
       location_name: location_name || '',
       description,
       tags,
+      ...capValues,
       owner_id: req.user.id,
-      created_at: new Date().toISOString(),
-      audit_trail: [{
-        action: 'create',
-        user_id: req.user.id,
-        timestamp: new Date().toISOString()
-      }]
+      created_at: new Date().toISOString()
     };
 
-    const { data, error } = await req.supabase
+    if (point) {
+      newDisaster.location = toPointWkt(point.lat, point.lng);
+    }
+
+    const { data, error } = await audited(req.supabase
       .from('disasters')
       .insert([newDisaster])
-      .select();
+      .select(), req.user.id);
 
     if (error) {
       return res.status(500).json({ error: error.message });
     }
 
+    const disaster = withCoordinates(data[0]);
+
     // Emit real-time update
-    req.io.emit('disaster_updated', { action: 'create', disaster: data[0] });
+    req.io.emit('disaster_updated', { action: 'create', disaster });
+
+    // Fill the new disaster's feeds without waiting for the next poll
+    req.scheduler.pollDisaster(data[0]).catch(error => {
+      logger('error', `Initial poll for disaster ${data[0].id} failed: ${error.message}`);
+    });
     
     logger('info', `Disaster created: ${title} by ${req.user.id}`);
-    res.status(201).json(data[0]);
+    res.status(201).json(disaster);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
 // PUT /disasters/:id - Update disaster
-router.put('/:id', authenticateUser, async (req, res) => {
+router.put('/:id', authenticateUser, authorize('disasters:update'), async (req, res) => {
   try {
-    const { title, location_name, description, tags } = req.body;
+    const { title, location_name, description, tags, coordinates } = req.body;
     const disasterId = req.params.id;
 
-    // Get existing disaster to check ownership
+    if (coordinates && !parseCoordinates(coordinates)) {
+      return res.status(400).json({ error: 'Coordinates must include a valid lat and lng' });
+    }
+
+    const { errors: capErrors, values: capValues } = validateCapFields(req.body);
+    if (capErrors.length > 0) {
+      return res.status(400).json({ error: capErrors.join('; ') });
+    }
+
+    // Get existing disaster
     const { data: existing, error: fetchError } = await req.supabase
       .from('disasters')
       .select('*')
       .eq('id', disasterId)
+      .is('deleted_at', null)
       .single();
 
     if (fetchError || !existing) {
       return res.status(404).json({ error: 'Disaster not found' });
     }
 
-    // Check ownership or admin role
-    if (existing.owner_id !== req.user.id && req.user.role !== 'admin') {
-      return res.status(403).json({ error: 'Access denied' });
-    }
-
     // Prepare update data
-    const updateData = {};
+    const updateData = { ...capValues };
     if (title !== undefined) updateData.title = title;
     if (location_name !== undefined) updateData.location_name = location_name;
     if (description !== undefined) updateData.description = description;
     if (tags !== undefined) updateData.tags = tags;
 
-    // Add to audit trail
-    const newAuditEntry = {
-      action: 'update',
-      user_id: req.user.id,
-      timestamp: new Date().toISOString(),
-      changes: Object.keys(updateData)
-    };
-    updateData.audit_trail = [...existing.audit_trail, newAuditEntry];
+    // Re-geocode when the location name changes, unless coordinates were given
+    const locationChanged = location_name !== undefined && location_name !== existing.location_name;
+    if (coordinates || locationChanged) {
+      const point = await resolveLocation(req, coordinates, location_name);
+      if (point) {
+        updateData.location = toPointWkt(point.lat, point.lng);
+      } else if (locationChanged) {
+        updateData.location = null;
+      }
+    }
 
-    const { data, error } = await req.supabase
+    const { data, error } = await audited(req.supabase
       .from('disasters')
       .update(updateData)
       .eq('id', disasterId)
-      .select();
+      .select(), req.user.id);
 
     if (error) {
       return res.status(500).json({ error: error.message });
     }
 
+    const disaster = withCoordinates(data[0]);
+
     // Emit real-time update
-    req.io.emit('disaster_updated', { action: 'update', disaster: data[0] });
+    req.io.emit('disaster_updated', { action: 'update', disaster });
     
     logger('info', `Disaster updated: ${disasterId} by ${req.user.id}`);
-    res.json(data[0]);
+    res.json(disaster);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// DELETE /disasters/:id - Delete disaster
-router.delete('/:id', authenticateUser, async (req, res) => {
+// POST /disasters/:id/status - Move a disaster along its lifecycle
+// Body: { status, note }. Only the transitions in TRANSITIONS are allowed.
+router.post('/:id/status', authenticateUser, authorize('disasters:update'), async (req, res) => {
   try {
     const disasterId = req.params.id;
 
-    // Get existing disaster to check ownership
     const { data: existing, error: fetchError } = await req.supabase
       .from('disasters')
       .select('*')
       .eq('id', disasterId)
+      .is('deleted_at', null)
       .single();
 
     if (fetchError || !existing) {
       return res.status(404).json({ error: 'Disaster not found' });
     }
 
-    // Check ownership or admin role
-    if (existing.owner_id !== req.user.id && req.user.role !== 'admin') {
-      return res.status(403).json({ error: 'Access denied' });
+    // An unknown status is a bad request; a known one out of turn is a conflict
+    const { errors, values } = validateTransition(existing.status, req.body);
+    if (errors.length > 0) {
+      return res.status(DISASTER_STATUSES.includes(req.body.status) ? 409 : 400).json({ error: errors.join('; ') });
     }
 
-    const { error } = await req.supabase
+    // Matching on the old status keeps two racing changes from both applying
+    const { data, error } = await audited(req.supabase
       .from('disasters')
-      .delete()
-      .eq('id', disasterId);
+      .update({ ...values, status_changed_at: new Date().toISOString() })
+      .eq('id', disasterId)
+      .eq('status', existing.status)
+      .select(), req.user.id, `status_${values.status}`);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (data.length === 0) {
+      return res.status(409).json({ error: 'The disaster status changed in the meantime; reload and try again' });
+    }
+
+    const disaster = withCoordinates(data[0]);
+    req.io.emit('disaster_updated', { action: 'update', disaster });
+
+    // Subscribers are notified in the background
+    req.notifications.publish(statusChangeEvent(disaster, existing.status)).catch(publishError => {
+      logger('error', `Status notifications for disaster ${disasterId} failed: ${publishError.message}`);
+    });
+
+    logger('info', `Disaster ${disasterId} moved from ${existing.status} to ${values.status} by ${req.user.id}`);
+    res.json(disaster);
+  } catch (error) {
+    logger('error', `Disaster status error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /disasters/:id - Delete disaster
+// The row is only marked as deleted; its reports and resources stay in place
+// and come back with it on restore.
+router.delete('/:id', authenticateUser, authorize('disasters:delete'), async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+
+    // Get existing disaster
+    const { data: existing, error: fetchError } = await req.supabase
+      .from('disasters')
+      .select('*')
+      .eq('id', disasterId)
+      .is('deleted_at', null)
+      .single();
+
+    if (fetchError || !existing) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const { error } = await audited(req.supabase
+      .from('disasters')
+      .update({ deleted_at: new Date().toISOString(), deleted_by: req.user.id })
+      .eq('id', disasterId), req.user.id, 'soft_delete');
 
     if (error) {
       return res.status(500).json({ error: error.message });
     }
 
     // Emit real-time update
-    req.io.emit('disaster_updated', { action: 'delete', disaster: existing });
+    req.io.emit('disaster_updated', { action: 'delete', disaster: withCoordinates(existing) });
     
     logger('info', `Disaster deleted: ${disasterId} by ${req.user.id}`);
     res.status(204).send();
@@ -190,4 +759,123 @@ router.delete('/:id', authenticateUser, async (req, res) => {
   }
 });
 
+// POST /disasters/:id/restore - Bring back a deleted disaster with its
+// reports and resources
+router.post('/:id/restore', authenticateUser, authorize('disasters:delete'), async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+
+    const { data, error } = await audited(req.supabase
+      .from('disasters')
+      .update({ deleted_at: null, deleted_by: null })
+      .eq('id', disasterId)
+      .not('deleted_at', 'is', null)
+      .select(), req.user.id, 'restore');
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (data.length === 0) {
+      return res.status(404).json({ error: 'No deleted disaster with this id' });
+    }
+
+    const disaster = withCoordinates(data[0]);
+    req.io.emit('disaster_updated', { action: 'restore', disaster });
+
+    logger('info', `Disaster restored: ${disasterId} by ${req.user.id}`);
+    res.json(disaster);
+  } catch (error) {
+    logger('error', `Disaster restore error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /disasters/:id/permissions - Current user's roles and allowed actions on a disaster
+router.get('/:id/permissions', authenticateUser, async (req, res) => {
+  try {
+    const permissionService = new PermissionService(req.supabase);
+    const access = await permissionService.resolve(req.user, req.params.id);
+
+    res.json({ disaster_id: req.params.id, ...access });
+  } catch (error) {
+    logger('error', `Permission lookup error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /disasters/:id/roles - List per-disaster role assignments
+router.get('/:id/roles', authenticateUser, async (req, res) => {
+  try {
+    const { data, error } = await req.supabase
+      .from('disaster_role_assignments')
+      .select('*')
+      .eq('disaster_id', req.params.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    res.json({ disaster_id: req.params.id, assignments: data });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /disasters/:id/roles - Assign a role on this disaster to a user
+router.post('/:id/roles', authenticateUser, authorize('disasters:assign_roles'), async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { user_id, role } = req.body;
+
+    if (!user_id || !ASSIGNABLE_ROLES.includes(role)) {
+      return res.status(400).json({
+        error: `user_id and a role (${ASSIGNABLE_ROLES.join(', ')}) are required`
+      });
+    }
+
+    const { data, error } = await req.supabase
+      .from('disaster_role_assignments')
+      .upsert({
+        disaster_id: disasterId,
+        user_id,
+        role,
+        assigned_by: req.user.id
+      }, { onConflict: 'disaster_id,user_id,role' })
+      .select();
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    logger('info', `Role ${role} on disaster ${disasterId} assigned to ${user_id} by ${req.user.id}`);
+    res.status(201).json(data[0]);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /disasters/:id/roles/:userId/:role - Revoke a per-disaster role
+router.delete('/:id/roles/:userId/:role', authenticateUser, authorize('disasters:assign_roles'), async (req, res) => {
+  try {
+    const { id: disasterId, userId, role } = req.params;
+
+    const { error } = await req.supabase
+      .from('disaster_role_assignments')
+      .delete()
+      .eq('disaster_id', disasterId)
+      .eq('user_id', userId)
+      .eq('role', role);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    logger('info', `Role ${role} on disaster ${disasterId} revoked from ${userId} by ${req.user.id}`);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
\ No newline at end of file
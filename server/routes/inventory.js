@@ -0,0 +1,412 @@
+import express from 'express';
+import { validate as isUuid } from 'uuid';
+import { authenticateUser, authorize, logger } from '../middleware/middleware.js';
+import { READ_ONLY_STATUSES } from '../services/lifecycle.js';
+import {
+  InventoryService,
+  LEDGER_KINDS,
+  SHIPMENT_STATUSES,
+  validateItem,
+  validateMovement,
+  validateShipment
+} from '../services/inventory.js';
+
+const router = express.Router();
+
+const MAX_PAGE_SIZE = 200;
+
+function parseList(value) {
+  return value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+async function findDisaster(req) {
+  const { data, error } = await req.supabase
+    .from('disasters')
+    .select('id, status')
+    .eq('id', req.params.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Checks the disaster exists and is not read-only. Sends the error response
+// and returns null otherwise.
+async function writableDisaster(req, res) {
+  const disaster = await findDisaster(req);
+  if (!disaster) {
+    res.status(404).json({ error: 'Disaster not found' });
+    return null;
+  }
+  if (READ_ONLY_STATUSES.includes(disaster.status)) {
+    res.status(409).json({ error: `Disaster is ${disaster.status}` });
+    return null;
+  }
+  return disaster;
+}
+
+async function findResource(req, resourceId) {
+  if (!isUuid(String(resourceId ?? ''))) return null;
+
+  const { data, error } = await req.supabase
+    .from('resources')
+    .select('id, name, disaster_id')
+    .eq('id', resourceId)
+    .eq('disaster_id', req.params.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+function emitInventoryChange(req, action, stocks, entries = []) {
+  req.io.to(`disaster_${req.params.id}`).emit('inventory_updated', {
+    disaster_id: req.params.id,
+    action,
+    stock: stocks,
+    entries
+  });
+}
+
+// Alerts the disaster room when a movement takes stock down to or below its
+// threshold; stock that was already low does not alert again
+function alertIfLow(req, stock, entry) {
+  if (!stock?.low_stock || entry.quantity >= 0) return;
+
+  const before = Number(entry.balance_after) - Number(entry.quantity);
+  if (before <= stock.low_stock_threshold) return;
+
+  req.io.to(`disaster_${req.params.id}`).emit('inventory_low_stock', {
+    disaster_id: req.params.id,
+    stock
+  });
+  logger('warn', `Low stock: ${stock.quantity} ${stock.item.unit} of ${stock.item.name} at ${stock.resource.name}`);
+}
+
+// GET /inventory/items - The item catalogue
+router.get('/items', authenticateUser, async (req, res) => {
+  try {
+    const items = await new InventoryService(req.supabase).listItems();
+    res.json({ items });
+  } catch (error) {
+    logger('error', `Item list error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /inventory/items - Add an item to the catalogue
+router.post('/items', authenticateUser, authorize('inventory:update'), async (req, res) => {
+  try {
+    const { errors, values } = validateItem(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    const { item, error, status } = await new InventoryService(req.supabase).createItem(values, req.user.id);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    logger('info', `Inventory item created: ${item.name} (${item.unit}) by ${req.user.id}`);
+    res.status(201).json(item);
+  } catch (error) {
+    logger('error', `Item creation error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /inventory/disasters/:id/stock - Stock at the disaster's resources;
+// `resource_id` narrows it to one resource and `low=true` to low stock
+router.get('/disasters/:id/stock', authenticateUser, async (req, res) => {
+  try {
+    if (req.query.resource_id && !isUuid(String(req.query.resource_id))) {
+      return res.status(400).json({ error: 'resource_id must be a resource id' });
+    }
+
+    if (!await findDisaster(req)) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const stock = await new InventoryService(req.supabase).listStock(req.params.id, {
+      resourceId: req.query.resource_id || null,
+      lowOnly: req.query.low === 'true'
+    });
+    res.json({ disaster_id: req.params.id, stock });
+  } catch (error) {
+    logger('error', `Stock list error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PATCH /inventory/disasters/:id/resources/:resourceId/stock/:itemId - Set
+// the low-stock threshold (null turns alerts off)
+router.patch('/disasters/:id/resources/:resourceId/stock/:itemId', authenticateUser, authorize('inventory:update'), async (req, res) => {
+  try {
+    const raw = req.body.low_stock_threshold;
+    const threshold = raw === null || raw === '' ? null : Number(raw);
+    if (raw === undefined || (threshold !== null && (!Number.isFinite(threshold) || threshold < 0))) {
+      return res.status(400).json({ error: 'low_stock_threshold must be a non-negative number or null' });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const inventory = new InventoryService(req.supabase);
+    const resource = await findResource(req, req.params.resourceId);
+    if (!resource) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+    if (!await inventory.getItem(req.params.itemId)) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const stock = await inventory.setThreshold(resource.id, req.params.itemId, threshold);
+    emitInventoryChange(req, 'threshold', [stock]);
+
+    res.json(stock);
+  } catch (error) {
+    logger('error', `Threshold update error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /inventory/disasters/:id/resources/:resourceId/stock/:itemId/movements
+// - Record a receipt, consumption or stock count
+router.post('/disasters/:id/resources/:resourceId/stock/:itemId/movements', authenticateUser, authorize('inventory:update'), async (req, res) => {
+  try {
+    const { errors, values } = validateMovement(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const inventory = new InventoryService(req.supabase);
+    const resource = await findResource(req, req.params.resourceId);
+    if (!resource) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+    if (!await inventory.getItem(req.params.itemId)) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const { entry, stock, error, status } = await inventory.move(resource.id, req.params.itemId, values, req.user.id);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    emitInventoryChange(req, values.kind, [stock], [entry]);
+    alertIfLow(req, stock, entry);
+
+    logger('info', `Stock ${values.kind} of ${entry.quantity} ${stock.item.name} at ${resource.name} by ${req.user.id} (now ${stock.quantity})`);
+    res.status(201).json({ entry, stock });
+  } catch (error) {
+    logger('error', `Stock movement error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /inventory/disasters/:id/transfers - Move stock between two resources
+// of the disaster (`from_resource_id`, `to_resource_id`, `item_id`,
+// `quantity`, `note`)
+router.post('/disasters/:id/transfers', authenticateUser, authorize('inventory:update'), async (req, res) => {
+  try {
+    const { from_resource_id: fromId, to_resource_id: toId, item_id: itemId } = req.body;
+    const quantity = Number(req.body.quantity);
+
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      return res.status(400).json({ error: 'quantity must be a positive number' });
+    }
+    if (fromId && fromId === toId) {
+      return res.status(400).json({ error: 'Stock can only be transferred to another resource' });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const inventory = new InventoryService(req.supabase);
+    const [source, destination, item] = await Promise.all([
+      findResource(req, fromId),
+      findResource(req, toId),
+      inventory.getItem(itemId)
+    ]);
+    if (!source || !destination) {
+      return res.status(400).json({ error: 'from_resource_id and to_resource_id must be resources of this disaster' });
+    }
+    if (!item) {
+      return res.status(400).json({ error: 'item_id must be a catalogue item' });
+    }
+
+    const note = req.body.note ? String(req.body.note).trim() : null;
+    const { entries, stocks, error, status } = await inventory.transfer(source.id, destination.id, item.id, quantity, note, req.user.id);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    emitInventoryChange(req, 'transfer', stocks, entries);
+    alertIfLow(req, stocks[0], entries.find(entry => entry.kind === 'transfer_out'));
+
+    logger('info', `Transferred ${quantity} ${item.unit} of ${item.name} from ${source.name} to ${destination.name} by ${req.user.id}`);
+    res.status(201).json({ entries, stock: stocks });
+  } catch (error) {
+    logger('error', `Stock transfer error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /inventory/disasters/:id/ledger - Every stock movement, newest first;
+// narrowed by `resource_id`, `item_id` and `kind`
+router.get('/disasters/:id/ledger', authenticateUser, async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit ?? 50, 10);
+    const offset = parseInt(req.query.offset ?? 0, 10);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+    for (const field of ['resource_id', 'item_id']) {
+      if (req.query[field] && !isUuid(String(req.query[field]))) {
+        return res.status(400).json({ error: `${field} must be an id` });
+      }
+    }
+    const kinds = parseList(req.query.kind);
+    const unknownKind = kinds.find(kind => !LEDGER_KINDS.includes(kind));
+    if (unknownKind) {
+      return res.status(400).json({ error: `Unknown movement kind: ${unknownKind}` });
+    }
+
+    if (!await findDisaster(req)) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const { entries, total } = await new InventoryService(req.supabase).ledger(req.params.id, {
+      resourceId: req.query.resource_id || null,
+      itemId: req.query.item_id || null,
+      kinds,
+      limit,
+      offset
+    });
+    res.json({ disaster_id: req.params.id, total, limit, offset, entries });
+  } catch (error) {
+    logger('error', `Ledger error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /inventory/disasters/:id/shipments - Inbound shipments; `status` takes
+// a comma-separated list
+router.get('/disasters/:id/shipments', authenticateUser, async (req, res) => {
+  try {
+    const statuses = parseList(req.query.status);
+    const unknown = statuses.find(status => !SHIPMENT_STATUSES.includes(status));
+    if (unknown) {
+      return res.status(400).json({ error: `Unknown shipment status: ${unknown}` });
+    }
+
+    if (!await findDisaster(req)) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const shipments = await new InventoryService(req.supabase).listShipments(req.params.id, { statuses });
+    res.json({ disaster_id: req.params.id, shipments });
+  } catch (error) {
+    logger('error', `Shipment list error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /inventory/disasters/:id/shipments - Record a shipment on its way to
+// a resource
+router.post('/disasters/:id/shipments', authenticateUser, authorize('inventory:update'), async (req, res) => {
+  try {
+    const { errors, values } = validateShipment(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    if (!await findResource(req, values.resource_id)) {
+      return res.status(400).json({ error: 'resource_id must be a resource of this disaster' });
+    }
+
+    const itemIds = [...new Set(values.items.map(line => line.item_id))];
+    const { data: items, error: itemError } = await req.supabase
+      .from('inventory_items')
+      .select('id')
+      .in('id', itemIds);
+    if (itemError) throw new Error(itemError.message);
+    if (items.length !== itemIds.length) {
+      return res.status(400).json({ error: 'Every item_id must be a catalogue item' });
+    }
+
+    const shipment = await new InventoryService(req.supabase).createShipment(req.params.id, values, req.user.id);
+    req.io.to(`disaster_${req.params.id}`).emit('shipment_updated', { disaster_id: req.params.id, action: 'create', shipment });
+
+    logger('info', `Shipment ${shipment.id} to ${shipment.resource?.name} recorded by ${req.user.id}`);
+    res.status(201).json(shipment);
+  } catch (error) {
+    logger('error', `Shipment creation error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /inventory/disasters/:id/shipments/:shipmentId/receive - Book an
+// arrived shipment into stock
+router.post('/disasters/:id/shipments/:shipmentId/receive', authenticateUser, authorize('inventory:update'), async (req, res) => {
+  try {
+    if (!await writableDisaster(req, res)) return;
+
+    const inventory = new InventoryService(req.supabase);
+    const existing = await inventory.getShipment(req.params.id, req.params.shipmentId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Shipment not found' });
+    }
+
+    const shipment = await inventory.receiveShipment(existing, req.user.id);
+    if (!shipment) {
+      return res.status(409).json({ error: `Shipment is ${existing.status.replace('_', ' ')}` });
+    }
+
+    const stock = await inventory.listStock(req.params.id, { resourceId: shipment.resource_id });
+    req.io.to(`disaster_${req.params.id}`).emit('shipment_updated', { disaster_id: req.params.id, action: 'receive', shipment });
+    emitInventoryChange(req, 'receipt', stock);
+
+    logger('info', `Shipment ${shipment.id} received at ${shipment.resource?.name} by ${req.user.id}`);
+    res.json({ shipment, stock });
+  } catch (error) {
+    logger('error', `Shipment receipt error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /inventory/disasters/:id/shipments/:shipmentId/cancel - Cancel a
+// shipment that will not arrive
+router.post('/disasters/:id/shipments/:shipmentId/cancel', authenticateUser, authorize('inventory:update'), async (req, res) => {
+  try {
+    if (!await writableDisaster(req, res)) return;
+
+    const inventory = new InventoryService(req.supabase);
+    const existing = await inventory.getShipment(req.params.id, req.params.shipmentId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Shipment not found' });
+    }
+
+    const shipment = await inventory.cancelShipment(existing);
+    if (!shipment) {
+      return res.status(409).json({ error: `Shipment is ${existing.status.replace('_', ' ')}` });
+    }
+
+    req.io.to(`disaster_${req.params.id}`).emit('shipment_updated', { disaster_id: req.params.id, action: 'cancel', shipment });
+
+    logger('info', `Shipment ${shipment.id} cancelled by ${req.user.id}`);
+    res.json(shipment);
+  } catch (error) {
+    logger('error', `Shipment cancellation error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
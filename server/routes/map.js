@@ -0,0 +1,86 @@
+import express from 'express';
+import { logger } from '../middleware/middleware.js';
+import { parseBbox } from '../services/geometry.js';
+
+const router = express.Router();
+
+const POINT_KINDS = ['disaster', 'resource', 'report', 'social_post', 'need'];
+const MAX_POINTS = 5000;
+
+// Below this zoom level points are grouped into grid cells on the server
+const AGGREGATE_BELOW_ZOOM = 13;
+// Grid cell edge in screen pixels at the requested zoom (256px tiles)
+const CELL_PIXELS = 60;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function cellSizeFor(zoom) {
+  return zoom < AGGREGATE_BELOW_ZOOM ? (360 / (256 * 2 ** zoom)) * CELL_PIXELS : null;
+}
+
+// GET /points - Map points inside a bounding box
+// Query: bbox (required), zoom (required, 0-22), disaster_id, kinds
+// (comma-separated: disaster, resource, report, social_post, need).
+// Below AGGREGATE_BELOW_ZOOM points come back as grid cells with a
+// point_count; cells holding one point keep its id and details.
+router.get('/points', async (req, res) => {
+  try {
+    const bbox = parseBbox(req.query.bbox);
+    if (!bbox) {
+      return res.status(400).json({ error: 'bbox must be minLng,minLat,maxLng,maxLat' });
+    }
+
+    const zoom = Number(req.query.zoom);
+    if (!Number.isInteger(zoom) || zoom < 0 || zoom > 22) {
+      return res.status(400).json({ error: 'zoom must be an integer between 0 and 22' });
+    }
+
+    const disasterId = req.query.disaster_id || null;
+    if (disasterId && !UUID_PATTERN.test(disasterId)) {
+      return res.status(400).json({ error: 'disaster_id must be a UUID' });
+    }
+
+    const kinds = req.query.kinds
+      ? String(req.query.kinds).split(',').map(kind => kind.trim()).filter(Boolean)
+      : POINT_KINDS;
+    const invalidKind = kinds.find(kind => !POINT_KINDS.includes(kind));
+    if (invalidKind) {
+      return res.status(400).json({ error: `Unknown kind: ${invalidKind}` });
+    }
+
+    const cellSize = cellSizeFor(zoom);
+    const { data, error } = await req.supabase
+      .rpc('find_map_points', {
+        min_lat: bbox.minLat,
+        min_lon: bbox.minLng,
+        max_lat: bbox.maxLat,
+        max_lon: bbox.maxLng,
+        cell_size: cellSize,
+        target_disaster_id: disasterId,
+        kinds,
+        point_limit: MAX_POINTS + 1
+      });
+
+    if (error) {
+      logger('error', `Map points query error: ${error.message}`);
+      return res.status(500).json({ error: error.message });
+    }
+
+    const truncated = data.length > MAX_POINTS;
+    const points = truncated ? data.slice(0, MAX_POINTS) : data;
+
+    res.json({
+      bbox,
+      zoom,
+      aggregated: cellSize !== null,
+      cell_size: cellSize,
+      truncated,
+      points: points.map(point => ({ ...point, point_count: Number(point.point_count) }))
+    });
+  } catch (error) {
+    logger('error', `Map points error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
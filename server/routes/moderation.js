@@ -0,0 +1,125 @@
+import express from 'express';
+import { authenticateUser, authorize, logger } from '../middleware/middleware.js';
+import { ModerationService, validateReview } from '../services/moderation.js';
+
+const router = express.Router();
+
+const MAX_PAGE_SIZE = 200;
+
+function parsePage(query) {
+  const limit = parseInt(query.limit ?? 50, 10);
+  const offset = parseInt(query.offset ?? 0, 10);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { error: 'offset must be a non-negative integer' };
+  }
+  return { page: { limit, offset } };
+}
+
+async function sendQueue(req, res, disasterId) {
+  const { page, error } = parsePage(req.query);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  const moderation = new ModerationService(req.supabase);
+  const { reports, total } = await moderation.getQueue({ disasterId, ...page });
+
+  res.json({ disaster_id: disasterId || null, reports, total, ...page });
+}
+
+async function findReport(req) {
+  const { data, error } = await req.supabase
+    .from('reports')
+    .select('*')
+    .eq('id', req.params.reportId)
+    .eq('disaster_id', req.params.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// GET /moderation/queue - Reports waiting for review on every disaster
+router.get('/queue', authenticateUser, authorize('verification:review'), async (req, res) => {
+  try {
+    await sendQueue(req, res, null);
+  } catch (error) {
+    logger('error', `Moderation queue error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /moderation/disasters/:id/queue - Reports waiting for review on a disaster
+router.get('/disasters/:id/queue', authenticateUser, authorize('verification:review'), async (req, res) => {
+  try {
+    await sendQueue(req, res, req.params.id);
+  } catch (error) {
+    logger('error', `Moderation queue error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /moderation/disasters/:id/reports/:reportId/reviews - Decision history
+router.get('/disasters/:id/reports/:reportId/reviews', authenticateUser, authorize('verification:review'), async (req, res) => {
+  try {
+    const report = await findReport(req);
+    if (!report) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    const moderation = new ModerationService(req.supabase);
+    const reviews = await moderation.getReviews(report.id);
+    res.json({ report_id: report.id, reviews });
+  } catch (error) {
+    logger('error', `Review history error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /moderation/disasters/:id/reports/:reportId/review - Approve, reject,
+// mark as duplicate or escalate a report
+router.post('/disasters/:id/reports/:reportId/review', authenticateUser, authorize('verification:review'), async (req, res) => {
+  try {
+    const { errors, values } = validateReview(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    const existing = await findReport(req);
+    if (!existing) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    const moderation = new ModerationService(req.supabase);
+    const { report, review, error, status } = await moderation.review(existing, values, req.user.id, req.access.roles);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const event = {
+      disaster_id: report.disaster_id,
+      report_id: report.id,
+      decision: review.decision,
+      note: review.note,
+      moderation_status: report.moderation_status,
+      verification_status: report.verification_status,
+      reviewed_at: review.created_at
+    };
+
+    // Other reviewers drop it from their queue; the submitter hears the outcome
+    req.io.to(`disaster_${report.disaster_id}`).emit('report_moderated', { ...event, report });
+    req.io.to(`user_${report.user_id}`).emit('report_reviewed', event);
+
+    logger('info', `Report ${report.id} reviewed by ${req.user.id}: ${review.decision}`);
+    res.json({ report, review });
+  } catch (error) {
+    logger('error', `Report review error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
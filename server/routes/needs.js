@@ -0,0 +1,239 @@
+import express from 'express';
+import { validate as isUuid } from 'uuid';
+import { authenticateUser, authorize, logger } from '../middleware/middleware.js';
+import { READ_ONLY_STATUSES } from '../services/lifecycle.js';
+import {
+  CATEGORY_RESOURCE_TYPES,
+  MAX_NEED_QUANTITY,
+  NEED_CATEGORIES,
+  NEED_STATUSES,
+  NeedService,
+  validateNeed,
+  visibleNeed
+} from '../services/needs.js';
+import { PermissionService } from '../services/permissions.js';
+
+const router = express.Router();
+
+const MAX_MATCHES = 50;
+
+function parseList(value) {
+  return value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+async function findDisaster(req) {
+  const { data, error } = await req.supabase
+    .from('disasters')
+    .select('id, status')
+    .eq('id', req.params.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Checks the disaster exists and is not read-only. Sends the error response
+// and returns null otherwise.
+async function writableDisaster(req, res) {
+  const disaster = await findDisaster(req);
+  if (!disaster) {
+    res.status(404).json({ error: 'Disaster not found' });
+    return null;
+  }
+  if (READ_ONLY_STATUSES.includes(disaster.status)) {
+    res.status(409).json({ error: `Disaster is ${disaster.status}` });
+    return null;
+  }
+  return disaster;
+}
+
+// Anyone can follow the disaster room, so the contact is never sent there
+function emitNeedChange(req, action, need) {
+  req.io.to(`disaster_${need.disaster_id}`).emit('need_updated', {
+    disaster_id: need.disaster_id,
+    action,
+    need: visibleNeed(need, null)
+  });
+}
+
+// GET /needs/disasters/:id/needs - Needs on a disaster, most urgent first;
+// `status` and `category` take comma-separated lists. Contacts are only
+// included for coordinators and on the caller's own needs.
+router.get('/disasters/:id/needs', authenticateUser, async (req, res) => {
+  try {
+    const statuses = parseList(req.query.status);
+    const categories = parseList(req.query.category);
+
+    const unknownStatus = statuses.find(status => !NEED_STATUSES.includes(status));
+    if (unknownStatus) {
+      return res.status(400).json({ error: `Unknown need status: ${unknownStatus}` });
+    }
+    const unknownCategory = categories.find(category => !NEED_CATEGORIES.includes(category));
+    if (unknownCategory) {
+      return res.status(400).json({ error: `Unknown need category: ${unknownCategory}` });
+    }
+
+    if (!await findDisaster(req)) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const [needs, access] = await Promise.all([
+      new NeedService(req.supabase).list(req.params.id, { statuses, categories }),
+      new PermissionService(req.supabase).resolve(req.user, req.params.id)
+    ]);
+    res.json({ disaster_id: req.params.id, needs: needs.map(need => visibleNeed(need, req.user, access.actions)) });
+  } catch (error) {
+    logger('error', `Need list error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /needs/disasters/:id/needs - Raise a need
+router.post('/disasters/:id/needs', authenticateUser, authorize('needs:create'), async (req, res) => {
+  try {
+    const { errors, values } = validateNeed(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const need = await new NeedService(req.supabase).create(req.params.id, values, req.user.id);
+    emitNeedChange(req, 'create', need);
+
+    logger('info', `Need raised: ${need.quantity} ${need.category} (${need.urgency}) for disaster ${req.params.id} by ${req.user.id}`);
+    res.status(201).json(need);
+  } catch (error) {
+    logger('error', `Need creation error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PATCH /needs/disasters/:id/needs/:needId - Edit, cancel or reopen a need
+router.patch('/disasters/:id/needs/:needId', authenticateUser, authorize('needs:update'), async (req, res) => {
+  try {
+    const { errors, values } = validateNeed(req.body, { partial: true });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const needs = new NeedService(req.supabase);
+    const existing = await needs.get(req.params.id, req.params.needId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Need not found' });
+    }
+
+    if (values.quantity !== undefined && values.quantity < existing.quantity_met) {
+      return res.status(400).json({ error: `quantity cannot go below the ${existing.quantity_met} already allocated` });
+    }
+
+    const need = await needs.update(existing, values);
+    emitNeedChange(req, 'update', need);
+
+    logger('info', `Need ${need.id} updated by ${req.user.id} (${need.status})`);
+    res.json(need);
+  } catch (error) {
+    logger('error', `Need update error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /needs/disasters/:id/needs/:needId/matches - Resources proposed for a
+// need: the right type with capacity left, those that can cover all of it
+// first, then the nearest within `radius` km
+router.get('/disasters/:id/needs/:needId/matches', authenticateUser, authorize('needs:update'), async (req, res) => {
+  try {
+    const radiusKm = parseFloat(req.query.radius ?? 25);
+    const limit = parseInt(req.query.limit ?? 10, 10);
+
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0) {
+      return res.status(400).json({ error: 'radius must be a positive number of kilometres' });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MATCHES) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_MATCHES}` });
+    }
+
+    const needs = new NeedService(req.supabase);
+    const need = await needs.get(req.params.id, req.params.needId);
+    if (!need) {
+      return res.status(404).json({ error: 'Need not found' });
+    }
+
+    const matches = await needs.match(need, { radiusKm, limit });
+    res.json({
+      need_id: need.id,
+      outstanding: need.quantity - need.quantity_met,
+      resource_types: CATEGORY_RESOURCE_TYPES[need.category],
+      matches
+    });
+  } catch (error) {
+    logger('error', `Need matching error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /needs/disasters/:id/needs/:needId/allocations - Confirm an
+// allocation of `quantity` (default: the rest of the need) at `resource_id`
+router.post('/disasters/:id/needs/:needId/allocations', authenticateUser, authorize('needs:update'), async (req, res) => {
+  try {
+    if (!isUuid(String(req.body.resource_id ?? ''))) {
+      return res.status(400).json({ error: 'resource_id must be a resource id' });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const needs = new NeedService(req.supabase);
+    const existing = await needs.get(req.params.id, req.params.needId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Need not found' });
+    }
+
+    const quantity = req.body.quantity === undefined
+      ? existing.quantity - existing.quantity_met
+      : Number(req.body.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_NEED_QUANTITY) {
+      return res.status(400).json({ error: `quantity must be between 1 and ${MAX_NEED_QUANTITY}` });
+    }
+
+    const { data: resource, error: resourceError } = await req.supabase
+      .from('resources')
+      .select('*')
+      .eq('id', String(req.body.resource_id))
+      .eq('disaster_id', req.params.id)
+      .maybeSingle();
+    if (resourceError) throw new Error(resourceError.message);
+
+    if (!resource) {
+      return res.status(400).json({ error: 'resource_id must be a resource of this disaster' });
+    }
+    if (!CATEGORY_RESOURCE_TYPES[existing.category].includes(resource.type)) {
+      return res.status(400).json({ error: `A ${resource.type} resource cannot meet a ${existing.category} need` });
+    }
+    if (resource.capacity === null) {
+      return res.status(409).json({ error: 'Resource has no capacity set' });
+    }
+
+    const { allocation, need, resource: updated, error, status } = await needs.allocate(existing, resource, quantity, req.user.id);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    emitNeedChange(req, 'allocate', need);
+    req.io.to(`disaster_${req.params.id}`).emit('resources_updated', {
+      disaster_id: req.params.id,
+      action: 'allocate',
+      resource: updated
+    });
+
+    logger('info', `Allocated ${quantity} of resource ${resource.id} to need ${need.id} by ${req.user.id} (${need.status})`);
+    res.status(201).json({ allocation, need, resource: updated });
+  } catch (error) {
+    logger('error', `Allocation error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,197 @@
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import { validate as isUuid } from 'uuid';
+import { authenticateUser, logger } from '../middleware/middleware.js';
+import { DELIVERY_STATUSES, NotificationService, validateSubscription } from '../services/notifications.js';
+
+// Subscriptions and deliveries belong to the signed-in user: every route
+// looks them up by req.user, so nobody else can see or change them.
+
+const router = express.Router();
+
+// Test messages go out at once to a target the user chose, so each user
+// may only send a few
+const testLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  keyGenerator: req => req.user.id,
+  message: { error: 'Too many test messages, try again later' }
+});
+
+// Checks a subscription's disaster exists. Sends the error response and
+// returns false otherwise.
+async function checkDisaster(req, res, disasterId) {
+  if (!disasterId) return true;
+
+  const { data, error } = await req.supabase
+    .from('disasters')
+    .select('id')
+    .eq('id', disasterId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) {
+    res.status(400).json({ error: 'disaster_id must be an existing disaster' });
+    return false;
+  }
+  return true;
+}
+
+// GET /notifications/subscriptions - The user's alert subscriptions
+router.get('/subscriptions', authenticateUser, async (req, res) => {
+  try {
+    const subscriptions = await new NotificationService(req.supabase).list(req.user.id);
+    res.json({ subscriptions });
+  } catch (error) {
+    logger('error', `Subscription list error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /notifications/subscriptions - Subscribe to alerts. A webhook
+// subscription's signing secret is in this response only.
+router.post('/subscriptions', authenticateUser, async (req, res) => {
+  try {
+    const { errors, values } = validateSubscription(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await checkDisaster(req, res, values.disaster_id)) return;
+
+    const subscription = await new NotificationService(req.supabase).create(req.user.id, values);
+
+    logger('info', `Subscription ${subscription.id} (${subscription.channel}) created by ${req.user.id}`);
+    res.status(201).json(subscription);
+  } catch (error) {
+    logger('error', `Subscription creation error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PATCH /notifications/subscriptions/:id - Change a subscription; a new
+// channel needs a new target
+router.patch('/subscriptions/:id', authenticateUser, async (req, res) => {
+  try {
+    const notifications = new NotificationService(req.supabase);
+    const existing = await notifications.get(req.user.id, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const { errors, values } = validateSubscription(req.body, { partial: true, channel: existing.channel });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await checkDisaster(req, res, values.disaster_id)) return;
+
+    const subscription = await notifications.update(existing, values);
+
+    logger('info', `Subscription ${subscription.id} updated by ${req.user.id}`);
+    res.json(subscription);
+  } catch (error) {
+    logger('error', `Subscription update error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /notifications/subscriptions/:id - Unsubscribe. Its deliveries stay
+// in the log.
+router.delete('/subscriptions/:id', authenticateUser, async (req, res) => {
+  try {
+    const notifications = new NotificationService(req.supabase);
+    const existing = await notifications.get(req.user.id, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    await notifications.remove(existing);
+
+    logger('info', `Subscription ${existing.id} deleted by ${req.user.id}`);
+    res.json({ message: 'Subscription deleted successfully' });
+  } catch (error) {
+    logger('error', `Subscription deletion error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /notifications/subscriptions/:id/test - Send a test message to the
+// subscription's target now and return its delivery
+router.post('/subscriptions/:id/test', authenticateUser, testLimiter, async (req, res) => {
+  try {
+    const subscription = await new NotificationService(req.supabase).get(req.user.id, req.params.id);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const delivery = await req.notifications.sendTest(subscription);
+
+    logger('info', `Test notification for subscription ${subscription.id}: ${delivery.status}`);
+    res.status(201).json(delivery);
+  } catch (error) {
+    logger('error', `Test notification error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /notifications/deliveries - The user's delivery log, newest first;
+// filtered by `subscription_id` and `status`, paged with limit and offset
+router.get('/deliveries', authenticateUser, async (req, res) => {
+  try {
+    const { subscription_id: subscriptionId, status } = req.query;
+    if (subscriptionId && !isUuid(String(subscriptionId))) {
+      return res.status(400).json({ error: 'subscription_id must be a subscription id' });
+    }
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${DELIVERY_STATUSES.join(', ')}` });
+    }
+
+    const limit = parseInt(req.query.limit ?? 50, 10);
+    const offset = parseInt(req.query.offset ?? 0, 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'limit must be between 1 and 200' });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+
+    const deliveries = await new NotificationService(req.supabase).deliveries(req.user.id, {
+      subscriptionId: subscriptionId || null,
+      status: status || null,
+      limit,
+      offset
+    });
+    res.json({ deliveries, limit, offset });
+  } catch (error) {
+    logger('error', `Delivery list error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /notifications/deliveries/:id/retry - Try a failed delivery once more
+router.post('/deliveries/:id/retry', authenticateUser, async (req, res) => {
+  try {
+    const existing = await new NotificationService(req.supabase).getDelivery(req.user.id, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+    if (existing.status !== 'failed') {
+      return res.status(409).json({ error: `Delivery is ${existing.status}` });
+    }
+
+    const delivery = await req.notifications.retry(existing);
+    if (!delivery) {
+      return res.status(409).json({ error: 'Delivery is already being retried' });
+    }
+
+    logger('info', `Delivery ${delivery.id} retried by ${req.user.id}: ${delivery.status}`);
+    res.json(delivery);
+  } catch (error) {
+    logger('error', `Delivery retry error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
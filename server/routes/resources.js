@@ -1,67 +1,239 @@
 import express from 'express';
-import { logger } from '../middleware/middleware.js';
+import { authenticateUser, authorize, logger } from '../middleware/middleware.js';
 import { v4 as uuidv4 } from 'uuid';
+import { parseCoordinates, withCoordinates } from '../services/geometry.js';
+import { parseResourceFeatures } from '../services/geojson.js';
+import { audited } from '../services/audit.js';
+import { READ_ONLY_STATUSES } from '../services/lifecycle.js';
+import {
+  AVAILABILITY_STATUSES,
+  RESOURCE_TYPES,
+  statusForOccupancy,
+  validateResource
+} from '../services/resources.js';
 
 const router = express.Router();
 
-// GET /disasters/:id/resources - Get resources near a disaster location
+async function findDisaster(req) {
+  const { data, error } = await req.supabase
+    .from('disasters')
+    .select('id, status')
+    .eq('id', req.params.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Checks the disaster exists and is not read-only. Sends the error response
+// and returns null otherwise.
+async function writableDisaster(req, res) {
+  const disaster = await findDisaster(req);
+  if (!disaster) {
+    res.status(404).json({ error: 'Disaster not found' });
+    return null;
+  }
+  if (READ_ONLY_STATUSES.includes(disaster.status)) {
+    res.status(409).json({ error: `Disaster is ${disaster.status}` });
+    return null;
+  }
+  return disaster;
+}
+
+async function findResource(req) {
+  const { data, error } = await req.supabase
+    .from('resources')
+    .select('*')
+    .eq('id', req.params.resourceId)
+    .eq('disaster_id', req.params.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+function emitResourceChange(req, action, resource) {
+  req.io.to(`disaster_${req.params.id}`).emit('resources_updated', {
+    disaster_id: req.params.id,
+    action,
+    resource
+  });
+}
+
+const SORT_OPTIONS = ['distance', 'name'];
+const SEARCH_MODES = ['radius', 'footprint'];
+const MAX_PAGE_SIZE = 200;
+
+function parseList(value) {
+  return value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+// Parses search filters from the query string. Returns { error } or { filters }.
+function parseSearchFilters(query) {
+  const types = parseList(query.type);
+  const statuses = parseList(query.availability_status);
+  const sort = query.sort || 'distance';
+  const mode = query.mode || 'radius';
+  const radius = parseFloat(query.radius ?? 10);
+  const limit = parseInt(query.limit ?? 50, 10);
+  const offset = parseInt(query.offset ?? 0, 10);
+
+  const invalidType = types.find(type => !RESOURCE_TYPES.includes(type));
+  if (invalidType) {
+    return { error: `Unknown resource type: ${invalidType}` };
+  }
+
+  const invalidStatus = statuses.find(status => !AVAILABILITY_STATUSES.includes(status));
+  if (invalidStatus) {
+    return { error: `Unknown availability_status: ${invalidStatus}` };
+  }
+
+  if (!SORT_OPTIONS.includes(sort)) {
+    return { error: `sort must be one of ${SORT_OPTIONS.join(', ')}` };
+  }
+
+  if (!SEARCH_MODES.includes(mode)) {
+    return { error: `mode must be one of ${SEARCH_MODES.join(', ')}` };
+  }
+
+  if (!Number.isFinite(radius) || radius <= 0) {
+    return { error: 'radius must be a positive number of kilometres' };
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { error: 'offset must be a non-negative integer' };
+  }
+
+  return { filters: { types, statuses, sort, mode, radius, limit, offset } };
+}
+
+// Plain table query used when there is no search centre or the RPC fails
+async function listResources(req, disasterId, filters) {
+  let query = req.supabase
+    .from('resources')
+    .select('*', { count: 'exact' })
+    .eq('disaster_id', disasterId);
+
+  if (filters.types.length > 0) query = query.in('type', filters.types);
+  if (filters.statuses.length > 0) query = query.in('availability_status', filters.statuses);
+
+  const { data, count, error } = await query
+    .order(filters.sort === 'name' ? 'name' : 'created_at', { ascending: filters.sort === 'name' })
+    .range(filters.offset, filters.offset + filters.limit - 1);
+
+  if (error) throw new Error(error.message);
+  return { resources: (data || []).map(withCoordinates), total: count ?? 0 };
+}
+
+// GET /disasters/:id/resources - Get resources near a point, defaulting to the
+// disaster location, or with mode=footprint the resources inside its affected area
 router.get('/disasters/:id/resources', async (req, res) => {
   try {
     const disasterId = req.params.id;
-    const { lat, lon, radius = 10 } = req.query; // radius in km
+    const { filters, error: filterError } = parseSearchFilters(req.query);
 
-    if (!lat || !lon) {
-      return res.status(400).json({ error: 'Latitude and longitude are required' });
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
     }
 
     // Get disaster to verify it exists
-    const { data: disaster, error: disasterError } = await req.supabase
+    const { data: disasterRow, error: disasterError } = await req.supabase
       .from('disasters')
       .select('*')
       .eq('id', disasterId)
+      .is('deleted_at', null)
       .single();
 
-    if (disasterError || !disaster) {
+    if (disasterError || !disasterRow) {
       return res.status(404).json({ error: 'Disaster not found' });
     }
 
+    const disaster = withCoordinates(disasterRow);
+    const queryCenter = req.query.lat || req.query.lon ? parseCoordinates(req.query) : null;
+
+    if ((req.query.lat || req.query.lon) && !queryCenter) {
+      return res.status(400).json({ error: 'lat and lon must be valid coordinates' });
+    }
+
+    const center = queryCenter || (disaster.lat !== null ? { lat: disaster.lat, lng: disaster.lng } : null);
+    const searchParams = {
+      mode: filters.mode,
+      lat: center?.lat ?? null,
+      lon: center?.lng ?? null,
+      center_source: queryCenter ? 'query' : center ? 'disaster' : null,
+      radius: filters.mode === 'radius' ? filters.radius : null,
+      type: filters.types,
+      availability_status: filters.statuses,
+      sort: filters.sort,
+      limit: filters.limit,
+      offset: filters.offset
+    };
+
+    if (filters.mode === 'footprint' && !disaster.footprint) {
+      return res.status(409).json({ error: 'Disaster has no footprint, use radius search' });
+    }
+
+    if (!center && filters.mode === 'radius') {
+      const { resources, total } = await listResources(req, disasterId, filters);
+      return res.json({
+        disaster_id: disasterId,
+        resources,
+        total,
+        search_params: searchParams,
+        note: 'Disaster has no location and no lat/lon was given, showing all resources'
+      });
+    }
+
     // Geospatial query to find resources within radius
-    const { data: resources, error } = await req.supabase
+    const { data, error } = await req.supabase
       .rpc('find_nearby_resources', {
         target_disaster_id: disasterId,
-        center_lat: parseFloat(lat),
-        center_lon: parseFloat(lon),
-        radius_km: parseFloat(radius)
+        center_lat: center?.lat ?? null,
+        center_lon: center?.lng ?? null,
+        radius_km: filters.radius,
+        search_mode: filters.mode,
+        resource_types: filters.types.length > 0 ? filters.types : null,
+        statuses: filters.statuses.length > 0 ? filters.statuses : null,
+        sort_by: filters.sort,
+        result_limit: filters.limit,
+        result_offset: filters.offset
       });
 
+    // Without PostGIS there is no way to test the footprint, so only radius
+    // searches fall back to listing
+    if (error && filters.mode === 'footprint') {
+      logger('error', `Footprint query error: ${error.message}`);
+      return res.status(500).json({ error: error.message });
+    }
+
     if (error) {
       logger('error', `Geospatial query error: ${error.message}`);
       // Fallback to regular query if geospatial function fails
-      const { data: fallbackResources } = await req.supabase
-        .from('resources')
-        .select('*')
-        .eq('disaster_id', disasterId);
+      const { resources, total } = await listResources(req, disasterId, filters);
 
       return res.json({
         disaster_id: disasterId,
-        resources: fallbackResources || [],
-        search_params: { lat, lon, radius },
+        resources,
+        total,
+        search_params: searchParams,
         note: 'Geospatial search unavailable, showing all resources'
       });
     }
 
-    // Emit real-time update
-    req.io.to(`disaster_${disasterId}`).emit('resources_updated', {
-      disaster_id: disasterId,
-      resources,
-      location: { lat, lon }
-    });
+    const total = data?.length > 0 ? Number(data[0].total_count) : 0;
+    const resources = (data || []).map(({ total_count, ...resource }) => resource);
 
-    logger('info', `Found ${resources?.length || 0} resources near disaster ${disasterId}`);
+    logger('info', `Found ${resources.length} of ${total} resources ${filters.mode === 'footprint' ? 'inside' : 'near'} disaster ${disasterId}`);
     res.json({
       disaster_id: disasterId,
-      resources: resources || [],
-      search_params: { lat, lon, radius },
+      resources,
+      total,
+      search_params: searchParams,
       last_updated: new Date().toISOString()
     });
   } catch (error) {
@@ -71,62 +243,260 @@ router.get('/disasters/:id/resources', async (req, res) => {
 });
 
 // POST /disasters/:id/resources - Add a new resource
-router.post('/disasters/:id/resources', async (req, res) => {
+router.post('/disasters/:id/resources', authenticateUser, authorize('resources:create'), async (req, res) => {
   try {
     const disasterId = req.params.id;
-    const { name, location_name, type, lat, lon } = req.body;
+    const { errors, values } = validateResource(req.body);
 
-    if (!name || !type) {
-      return res.status(400).json({ error: 'Name and type are required' });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; ') });
     }
 
-    // Verify disaster exists
-    const { data: disaster, error: disasterError } = await req.supabase
-      .from('disasters')
-      .select('id')
-      .eq('id', disasterId)
-      .single();
-
-    if (disasterError || !disaster) {
-      return res.status(404).json({ error: 'Disaster not found' });
-    }
+    if (!await writableDisaster(req, res)) return;
 
     const newResource = {
       id: uuidv4(),
       disaster_id: disasterId,
-      name,
-      location_name: location_name || '',
-      type,
+      location_name: '',
+      ...values,
       created_at: new Date().toISOString()
     };
 
-    // Add geospatial data if coordinates provided
-    if (lat && lon) {
-      newResource.location = `POINT(${lon} ${lat})`;
-    }
-
-    const { data, error } = await req.supabase
+    const { data, error } = await audited(req.supabase
       .from('resources')
       .insert([newResource])
-      .select();
+      .select(), req.user.id);
 
     if (error) {
       return res.status(500).json({ error: error.message });
     }
 
+    const resource = withCoordinates(data[0]);
+
     // Emit real-time update
-    req.io.to(`disaster_${disasterId}`).emit('resources_updated', {
-      disaster_id: disasterId,
-      action: 'create',
-      resource: data[0]
-    });
+    emitResourceChange(req, 'create', resource);
 
-    logger('info', `Resource created: ${name} for disaster ${disasterId}`);
-    res.status(201).json(data[0]);
+    logger('info', `Resource created: ${resource.name} for disaster ${disasterId}`);
+    res.status(201).json(resource);
   } catch (error) {
     logger('error', `Resource creation error: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
 
+// POST /disasters/:id/resources/import/geojson - Bulk-create resources from a
+// GeoJSON FeatureCollection. Large files should be sent as
+// application/geo+json, which is accepted up to 5mb. Features that fail
+// validation are reported by index and the rest are imported.
+router.post(
+  '/disasters/:id/resources/import/geojson',
+  authenticateUser,
+  authorize('resources:create'),
+  express.json({ type: 'application/geo+json', limit: '5mb' }),
+  async (req, res) => {
+    try {
+      const disasterId = req.params.id;
+      const defaultType = req.query.default_type;
+
+      if (defaultType !== undefined && !RESOURCE_TYPES.includes(defaultType)) {
+        return res.status(400).json({ error: `default_type must be one of ${RESOURCE_TYPES.join(', ')}` });
+      }
+
+      if (!await writableDisaster(req, res)) return;
+
+      const { resources: parsed, errors } = parseResourceFeatures(req.body, { defaultType });
+      if (parsed.length === 0) {
+        return res.status(400).json({ error: 'No valid features to import', errors });
+      }
+
+      const createdAt = new Date().toISOString();
+      const { data, error } = await audited(req.supabase
+        .from('resources')
+        .insert(parsed.map(values => ({ id: uuidv4(), disaster_id: disasterId, ...values, created_at: createdAt })))
+        .select(), req.user.id, 'import');
+
+      if (error) {
+        return res.status(500).json({ error: error.message });
+      }
+
+      const imported = data.map(withCoordinates);
+      imported.forEach(resource => emitResourceChange(req, 'create', resource));
+
+      logger('info', `GeoJSON import by ${req.user.id}: ${imported.length} resources for disaster ${disasterId}, ${errors.length} rejected`);
+      res.status(201).json({ imported, errors });
+    } catch (error) {
+      logger('error', `GeoJSON import error: ${error.message}`);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// True when the resource was changed after the `updated_at` the client based
+// its edit on. Edits replayed from an offline outbox send it as
+// `expected_updated_at`; without it the last write wins as before.
+function isStale(existing, expectedUpdatedAt) {
+  if (expectedUpdatedAt === undefined || expectedUpdatedAt === null) return false;
+  return new Date(existing.updated_at).getTime() !== new Date(expectedUpdatedAt).getTime();
+}
+
+// PUT replaces the editable fields (name and type required), PATCH updates only what is sent
+const updateResource = (partial) => async (req, res) => {
+  try {
+    const { errors, values } = validateResource(req.body, { partial });
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; ') });
+    }
+
+    if (Object.keys(values).length === 0) {
+      return res.status(400).json({ error: 'No updatable fields provided' });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const existing = await findResource(req);
+    if (!existing) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+
+    const expectedUpdatedAt = req.body.expected_updated_at;
+    if (isStale(existing, expectedUpdatedAt)) {
+      return res.status(409).json({
+        error: 'Resource was changed by someone else',
+        resource: withCoordinates(existing)
+      });
+    }
+
+    // A capacity change moves the status unless one was set explicitly
+    if (values.capacity !== undefined && values.availability_status === undefined) {
+      values.availability_status = statusForOccupancy(
+        existing.occupancy,
+        values.capacity,
+        existing.availability_status
+      );
+    }
+
+    // Matching on updated_at as well closes the window between the check
+    // above and the write
+    let query = req.supabase
+      .from('resources')
+      .update(values)
+      .eq('id', existing.id);
+    if (expectedUpdatedAt != null) {
+      query = query.eq('updated_at', existing.updated_at);
+    }
+
+    const { data, error } = await audited(query.select(), req.user.id);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    if (data.length === 0) {
+      const current = await findResource(req);
+      return res.status(409).json({
+        error: 'Resource was changed by someone else',
+        resource: current ? withCoordinates(current) : null
+      });
+    }
+
+    const resource = withCoordinates(data[0]);
+    emitResourceChange(req, 'update', resource);
+
+    logger('info', `Resource updated: ${resource.id} by ${req.user.id}`);
+    res.json(resource);
+  } catch (error) {
+    logger('error', `Resource update error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// PUT /disasters/:id/resources/:resourceId - Replace a resource
+router.put('/disasters/:id/resources/:resourceId', authenticateUser, authorize('resources:update'), updateResource(false));
+
+// PATCH /disasters/:id/resources/:resourceId - Partially update a resource
+router.patch('/disasters/:id/resources/:resourceId', authenticateUser, authorize('resources:update'), updateResource(true));
+
+// DELETE /disasters/:id/resources/:resourceId - Remove a resource
+router.delete('/disasters/:id/resources/:resourceId', authenticateUser, authorize('resources:delete'), async (req, res) => {
+  try {
+    if (!await writableDisaster(req, res)) return;
+
+    const existing = await findResource(req);
+    if (!existing) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+
+    const { error } = await audited(req.supabase
+      .from('resources')
+      .delete()
+      .eq('id', existing.id), req.user.id);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    emitResourceChange(req, 'delete', withCoordinates(existing));
+
+    logger('info', `Resource deleted: ${existing.id} by ${req.user.id}`);
+    res.status(204).send();
+  } catch (error) {
+    logger('error', `Resource deletion error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Check-in adds occupants, check-out removes them; status follows capacity
+const adjustOccupancy = (direction) => async (req, res) => {
+  try {
+    const count = req.body.count === undefined ? 1 : Number(req.body.count);
+
+    if (!Number.isInteger(count) || count <= 0) {
+      return res.status(400).json({ error: 'count must be a positive integer' });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const existing = await findResource(req);
+    if (!existing) {
+      return res.status(404).json({ error: 'Resource not found' });
+    }
+
+    const { data, error } = await audited(req.supabase
+      .rpc('adjust_resource_occupancy', {
+        target_resource_id: existing.id,
+        delta: direction * count
+      }), req.user.id, direction > 0 ? 'check_in' : 'check_out');
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(409).json({
+        error: existing.availability_status === 'closed'
+          ? 'Resource is closed'
+          : 'Check-in would exceed capacity',
+        occupancy: existing.occupancy,
+        capacity: existing.capacity
+      });
+    }
+
+    const resource = withCoordinates(data[0]);
+    emitResourceChange(req, direction > 0 ? 'check_in' : 'check_out', resource);
+
+    logger('info', `Resource ${resource.id} occupancy ${resource.occupancy}/${resource.capacity ?? '-'} (${resource.availability_status})`);
+    res.json(resource);
+  } catch (error) {
+    logger('error', `Occupancy update error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// POST /disasters/:id/resources/:resourceId/check-in - Check people in
+router.post('/disasters/:id/resources/:resourceId/check-in', authenticateUser, authorize('resources:update'), adjustOccupancy(1));
+
+// POST /disasters/:id/resources/:resourceId/check-out - Check people out
+router.post('/disasters/:id/resources/:resourceId/check-out', authenticateUser, authorize('resources:update'), adjustOccupancy(-1));
+
 export default router;
\ No newline at end of file
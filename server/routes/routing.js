@@ -0,0 +1,157 @@
+import express from 'express';
+import { validate as isUuid } from 'uuid';
+import { authenticateUser, authorize, logger } from '../middleware/middleware.js';
+import { READ_ONLY_STATUSES } from '../services/lifecycle.js';
+import { parseCoordinates } from '../services/geometry.js';
+import { ROUTING_MODES } from '../services/roadGraph.js';
+import { RoutingService, validateClosure } from '../services/routing.js';
+
+const router = express.Router();
+
+async function findDisaster(req) {
+  const { data, error } = await req.supabase
+    .from('disasters')
+    .select('id, status')
+    .eq('id', req.params.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Checks the disaster exists and is not read-only. Sends the error response
+// and returns null otherwise.
+async function writableDisaster(req, res) {
+  const disaster = await findDisaster(req);
+  if (!disaster) {
+    res.status(404).json({ error: 'Disaster not found' });
+    return null;
+  }
+  if (READ_ONLY_STATUSES.includes(disaster.status)) {
+    res.status(409).json({ error: `Disaster is ${disaster.status}` });
+    return null;
+  }
+  return disaster;
+}
+
+function emitClosureChange(req, action, closure) {
+  req.io.to(`disaster_${req.params.id}`).emit('road_closure_updated', {
+    disaster_id: req.params.id,
+    action,
+    closure
+  });
+}
+
+// GET /routing/shelter-route - Route from `lat`/`lon` to the nearest open
+// shelter; `mode` is walking (default) or driving and `disaster_id` limits
+// the shelters to one disaster
+router.get('/shelter-route', async (req, res) => {
+  try {
+    const origin = parseCoordinates(req.query);
+    if (!origin) {
+      return res.status(400).json({ error: 'lat and lon must be valid coordinates' });
+    }
+
+    const mode = req.query.mode || 'walking';
+    if (!ROUTING_MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of ${ROUTING_MODES.join(', ')}` });
+    }
+
+    const disasterId = req.query.disaster_id || null;
+    if (disasterId && !isUuid(String(disasterId))) {
+      return res.status(400).json({ error: 'disaster_id must be a disaster id' });
+    }
+
+    const { route, error, status } = await new RoutingService(req.supabase).route(origin, mode, { disasterId });
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    logger('info', `${mode} route to shelter ${route.shelter.name}: ${route.distance_m} m, ${route.steps.length} steps`);
+    res.json(route);
+  } catch (error) {
+    logger('error', `Routing error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /routing/disasters/:id/closures - Roads closed on the disaster;
+// `include_lifted=true` adds the ones reopened since
+router.get('/disasters/:id/closures', async (req, res) => {
+  try {
+    if (!await findDisaster(req)) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const closures = await new RoutingService(req.supabase).listClosures(req.params.id, {
+      includeLifted: req.query.include_lifted === 'true'
+    });
+    res.json({ disaster_id: req.params.id, closures });
+  } catch (error) {
+    logger('error', `Road closure list error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /routing/disasters/:id/closures - Report a closed road
+router.post('/disasters/:id/closures', authenticateUser, authorize('closures:update'), async (req, res) => {
+  try {
+    const { errors, values } = validateClosure(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    if (values.report_id) {
+      const { data: report, error: reportError } = await req.supabase
+        .from('reports')
+        .select('id')
+        .eq('id', values.report_id)
+        .eq('disaster_id', req.params.id)
+        .maybeSingle();
+      if (reportError) throw new Error(reportError.message);
+      if (!report) {
+        return res.status(400).json({ error: 'report_id must be a report on this disaster' });
+      }
+    }
+
+    const closure = await new RoutingService(req.supabase).createClosure(req.params.id, values, req.user.id);
+    emitClosureChange(req, 'create', closure);
+
+    logger('info', `Road closure ${closure.id} on disaster ${req.params.id} reported by ${req.user.id}: ${closure.reason}`);
+    res.status(201).json(closure);
+  } catch (error) {
+    logger('error', `Road closure creation error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /routing/disasters/:id/closures/:closureId/lift - Reopen the road
+router.post('/disasters/:id/closures/:closureId/lift', authenticateUser, authorize('closures:update'), async (req, res) => {
+  try {
+    if (!await writableDisaster(req, res)) return;
+
+    const routing = new RoutingService(req.supabase);
+    const existing = await routing.getClosure(req.params.id, req.params.closureId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Road closure not found' });
+    }
+
+    const closure = await routing.liftClosure(existing, req.user.id);
+    if (!closure) {
+      return res.status(409).json({ error: 'Road closure was already lifted' });
+    }
+
+    emitClosureChange(req, 'lift', closure);
+
+    logger('info', `Road closure ${closure.id} lifted by ${req.user.id}`);
+    res.json(closure);
+  } catch (error) {
+    logger('error', `Road closure lift error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
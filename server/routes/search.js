@@ -0,0 +1,29 @@
+import express from 'express';
+import { logger } from '../middleware/middleware.js';
+import { SearchService, validateSearch } from '../services/search.js';
+
+const router = express.Router();
+
+// GET /search?q= - Ranked full-text search across disasters, reports,
+// official updates and social posts
+// Query: q (required), kinds, tag, status, priority and source
+// (comma-separated), from and to (dates), bbox (minLng,minLat,maxLng,maxLat),
+// limit and offset. Facet counts cover every match, not just the page.
+router.get('/', async (req, res) => {
+  try {
+    const { errors, values } = validateSearch(req.query);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; ') });
+    }
+
+    const searchService = new SearchService(req.supabase);
+    const { results, total, facets } = await searchService.search(values);
+
+    res.json({ query: values.q, results, total, facets, limit: values.limit, offset: values.offset });
+  } catch (error) {
+    logger('error', `Search error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
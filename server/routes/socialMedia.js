@@ -1,6 +1,7 @@
 import express from 'express';
-import { CacheService } from '../services/cache.js';
-import { SocialMediaService } from '../services/socialMedia.js';
+import { SocialMediaService, matchReportToDisaster, triagePost } from '../services/socialMedia.js';
+import { ReplayConnector } from '../services/connectors/replay.js';
+import { config } from '../config/config.js';
 import { logger } from '../middleware/middleware.js';
 
 const router = express.Router();
@@ -14,31 +15,23 @@ router.get('/disasters/:id/social-media', async (req, res) => {
     // Get disaster to verify it exists
     const { data: disaster, error: disasterError } = await req.supabase
       .from('disasters')
-      .select('tags')
+      .select('id')
       .eq('id', disasterId)
+      .is('deleted_at', null)
       .single();
 
     if (disasterError || !disaster) {
       return res.status(404).json({ error: 'Disaster not found' });
     }
 
-    const cache = new CacheService(req.supabase);
-    const socialMediaService = new SocialMediaService(cache);
+    // Posts are ingested in the background by the polling scheduler
+    const socialMediaService = new SocialMediaService(req.supabase);
 
-    const searchTags = tags ? tags.split(',') : disaster.tags || [];
-    const reports = await socialMediaService.fetchSocialMediaReports(disasterId, searchTags);
+    const searchTags = tags ? tags.split(',') : [];
+    const reports = await socialMediaService.fetchSocialMediaReports(disasterId, { tags: searchTags });
 
-    // Detect priority alerts
-    const priorityAlerts = await socialMediaService.detectPriorityAlerts(reports);
-
-    // Emit real-time update if there are new reports
-    if (reports.length > 0) {
-      req.io.to(`disaster_${disasterId}`).emit('social_media_updated', {
-        disaster_id: disasterId,
-        reports,
-        priority_alerts: priorityAlerts
-      });
-    }
+    // Urgent and high priority posts, by triage score
+    const priorityAlerts = socialMediaService.detectPriorityAlerts(reports);
 
     logger('info', `Retrieved ${reports.length} social media reports for disaster ${disasterId}`);
     res.json({
@@ -53,20 +46,25 @@ router.get('/disasters/:id/social-media', async (req, res) => {
   }
 });
 
-// GET /mock-social-media - Mock social media endpoint for testing
+// GET /mock-social-media - Replayed posts from the local JSONL source, for testing
 router.get('/mock-social-media', async (req, res) => {
   try {
     const { keywords = '', location = '' } = req.query;
-    
-    const cache = new CacheService(req.supabase);
-    const socialMediaService = new SocialMediaService(cache);
+
+    const replay = new ReplayConnector({
+      filePath: config.socialMedia.replayFile,
+      batchSize: Number.MAX_SAFE_INTEGER
+    });
+    const { reports: replayed } = await replay.pull(null, {});
 
     const tags = keywords ? keywords.split(',') : ['flood', 'emergency'];
-    const reports = await socialMediaService.fetchSocialMediaReports('mock', tags);
+    const reports = replayed
+      .filter(report => matchReportToDisaster(report, { tags, location_name: location }))
+      .map(report => ({ ...report, id: report.external_id, ...triagePost(report) }));
 
     logger('info', `Mock social media endpoint accessed with keywords: ${keywords}`);
     res.json({
-      source: 'mock_api',
+      source: 'replay',
       query: { keywords, location },
       reports,
       count: reports.length,
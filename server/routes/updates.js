@@ -13,21 +13,18 @@ router.get('/disasters/:id/official-updates', async (req, res) => {
     // Get disaster to verify it exists and get location
     const { data: disaster, error: disasterError } = await req.supabase
       .from('disasters')
-      .select('location_name, title')
+      .select('location_name')
       .eq('id', disasterId)
+      .is('deleted_at', null)
       .single();
 
     if (disasterError || !disaster) {
       return res.status(404).json({ error: 'Disaster not found' });
     }
 
-    const cache = new CacheService(req.supabase);
-    const updatesService = new UpdatesService(cache);
-
-    const updates = await updatesService.fetchOfficialUpdates(
-      disasterId, 
-      disaster.location_name || disaster.title
-    );
+    // Sources are polled in the background by the polling scheduler
+    const updatesService = new UpdatesService(req.supabase, new CacheService(req.supabase));
+    const updates = await updatesService.fetchOfficialUpdates(disasterId);
 
     logger('info', `Retrieved ${updates.length} official updates for disaster ${disasterId}`);
     res.json({
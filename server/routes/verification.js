@@ -1,54 +1,151 @@
 import express from 'express';
-import { CacheService } from '../services/cache.js';
-import { GeminiService } from '../services/gemini.js';
-import { authenticateUser, logger } from '../middleware/middleware.js';
-import { v4 as uuidv4 } from 'uuid';
+import { authenticateUser, authorize, logger } from '../middleware/middleware.js';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { parseCoordinates, toPointWkt, withCoordinates } from '../services/geometry.js';
+import { acceptImage, deleteReportImage, storeReportImage } from '../services/uploads.js';
+import { fetchImage, recordFingerprint, verifyImage } from '../services/imageVerification.js';
+import { audited } from '../services/audit.js';
+import { READ_ONLY_STATUSES } from '../services/lifecycle.js';
+import { triage } from '../services/triage.js';
 
 const router = express.Router();
 
+// Optional lat/lon (or lng) where a report was made. Returns { location }
+// ready to store, { location: null } when none was sent, or { error }.
+function reportLocation(body) {
+  if (body.lat === undefined && body.lon === undefined && body.lng === undefined) {
+    return { location: null };
+  }
+
+  const point = parseCoordinates(body);
+  return point ? { location: toPointWkt(point.lat, point.lng) } : { error: 'lat and lon must be valid coordinates' };
+}
+
+// Clients that queue reports while offline send their own id so a report
+// replayed after a lost response is not stored twice. Returns { id } to
+// insert with, { existing } when the same user already submitted it, or
+// { error, status }.
+async function reportId(req) {
+  if (req.body.id === undefined) {
+    return { id: uuidv4() };
+  }
+
+  if (!isUuid(String(req.body.id))) {
+    return { error: 'id must be a UUID', status: 400 };
+  }
+
+  const { data, error } = await req.supabase
+    .from('reports')
+    .select('*')
+    .eq('id', req.body.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return { id: req.body.id };
+
+  if (data.user_id !== req.user.id || data.disaster_id !== req.params.id) {
+    return { error: 'A different report already uses this id', status: 409 };
+  }
+  return { existing: data };
+}
+
+// Priority, triage score and reasons for a new report. The reporter's roles
+// come from authorize(), so per-disaster roles count too.
+function reportTriage(report, req, disaster) {
+  const { score, priority, reasons } = triage({
+    content: report.content,
+    reporter_roles: req.access.roles,
+    verification_status: report.verification_status,
+    timestamp: report.created_at,
+    location: report.location
+  }, { disaster });
+
+  return { priority, triage_score: score, triage_reasons: reasons };
+}
+
+// The disaster a report is for, with what image verification compares
+// against, or null when it does not exist
+async function findDisaster(supabase, id) {
+  const { data, error } = await supabase
+    .from('disasters')
+    .select('id, status, created_at, location, footprint')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .single();
+
+  return error || !data ? null : withCoordinates(data);
+}
+
 // POST /disasters/:id/verify-image - Verify image authenticity
-router.post('/disasters/:id/verify-image', authenticateUser, async (req, res) => {
+router.post('/disasters/:id/verify-image', authenticateUser, authorize('verification:submit'), async (req, res) => {
   try {
     const disasterId = req.params.id;
     const { image_url, content = '' } = req.body;
+    const { location, error: locationError } = reportLocation(req.body);
+
+    if (locationError) {
+      return res.status(400).json({ error: locationError });
+    }
 
-    // Verify disaster exists
-    const { data: disaster, error: disasterError } = await req.supabase
-      .from('disasters')
-      .select('id')
-      .eq('id', disasterId)
-      .single();
+    const { id, existing, error: idError, status: idStatus } = await reportId(req);
+    if (idError) {
+      return res.status(idStatus).json({ error: idError });
+    }
+    if (existing) {
+      return res.json({
+        verification: {
+          status: existing.verification_status,
+          score: existing.verification_analysis?.score ?? null,
+          analysis: existing.verification_analysis
+        },
+        report: withCoordinates(existing)
+      });
+    }
 
-    if (disasterError || !disaster) {
+    const disaster = await findDisaster(req.supabase, disasterId);
+    if (!disaster) {
       return res.status(404).json({ error: 'Disaster not found' });
     }
+    if (READ_ONLY_STATUSES.includes(disaster.status)) {
+      return res.status(409).json({ error: `Disaster is ${disaster.status}` });
+    }
 
     let verification = {
-      status: 'not_provided',
-      analysis: 'No image was provided for verification.'
+      status: 'pending',
+      score: null,
+      analysis: { summary: 'No image was provided for verification', checks: [] }
     };
+    let phash = null;
 
     if (image_url) {
-      const cache = new CacheService(req.supabase);
-      const geminiService = new GeminiService(cache);
-      verification = await geminiService.verifyImage(image_url);
+      try {
+        const buffer = await fetchImage(image_url);
+        ({ phash, ...verification } = await verifyImage({ supabase: req.supabase, buffer, disaster, reportId: id }));
+      } catch (error) {
+        verification = {
+          status: 'error',
+          score: null,
+          analysis: { summary: `Image could not be fetched: ${error.message}`, checks: [] }
+        };
+      }
     }
 
     const newReport = {
-      id: uuidv4(),
+      id,
       disaster_id: disasterId,
       user_id: req.user.id,
       content: content || 'Report submitted',
       image_url: image_url || null,
+      location,
       verification_status: verification.status,
       verification_analysis: verification.analysis,
       created_at: new Date().toISOString()
     };
 
-    const { data, error } = await req.supabase
+    const { data, error } = await audited(req.supabase
       .from('reports')
-      .insert([newReport])
-      .select();
+      .insert([{ ...newReport, ...reportTriage(newReport, req, disaster) }])
+      .select(), req.user.id);
 
     if (error) {
       logger('error', `Report creation error: ${error.message}`);
@@ -58,10 +155,12 @@ router.post('/disasters/:id/verify-image', authenticateUser, async (req, res) =>
       });
     }
 
+    await recordFingerprint(req.supabase, { reportId: id, disasterId, phash, imageUrl: image_url });
+
     logger('info', `Image verified: ${verification.status} for disaster ${disasterId}`);
     res.json({
       verification,
-      report: data[0]
+      report: withCoordinates(data[0])
     });
   } catch (error) {
     logger('error', `Image verification error: ${error.message}`);
@@ -87,7 +186,7 @@ router.get('/disasters/:id/reports', async (req, res) => {
     logger('info', `Retrieved ${data.length} reports for disaster ${disasterId}`);
     res.json({
       disaster_id: disasterId,
-      reports: data,
+      reports: data.map(withCoordinates),
       count: data.length
     });
   } catch (error) {
@@ -96,8 +195,36 @@ router.get('/disasters/:id/reports', async (req, res) => {
   }
 });
 
+// GET /disasters/:id/reports/:reportId - Get one report
+router.get('/disasters/:id/reports/:reportId', async (req, res) => {
+  try {
+    const { data, error } = await req.supabase
+      .from('reports')
+      .select('*')
+      .eq('id', req.params.reportId)
+      .eq('disaster_id', req.params.id)
+      .maybeSingle();
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (!data) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    res.json(withCoordinates(data));
+  } catch (error) {
+    logger('error', `Report fetch error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // POST /disasters/:id/reports - Create a new report
-router.post('/disasters/:id/reports', authenticateUser, async (req, res) => {
+// JSON, or multipart/form-data with the photo in `image`. A photo's EXIF GPS
+// position replaces the submitted lat/lon.
+router.post('/disasters/:id/reports', authenticateUser, authorize('reports:create'), acceptImage('image'), async (req, res) => {
+  let image = null;
+
   try {
     const disasterId = req.params.id;
     const { content, image_url } = req.body;
@@ -106,40 +233,89 @@ router.post('/disasters/:id/reports', authenticateUser, async (req, res) => {
       return res.status(400).json({ error: 'Content is required' });
     }
 
-    // Verify disaster exists
-    const { data: disaster, error: disasterError } = await req.supabase
-      .from('disasters')
-      .select('id')
-      .eq('id', disasterId)
-      .single();
+    const { location: submittedLocation, error: locationError } = reportLocation(req.body);
+    if (locationError) {
+      return res.status(400).json({ error: locationError });
+    }
 
-    if (disasterError || !disaster) {
+    const { id, existing, error: idError, status: idStatus } = await reportId(req);
+    if (idError) {
+      return res.status(idStatus).json({ error: idError });
+    }
+    if (existing) {
+      return res.json(withCoordinates(existing));
+    }
+
+    const disaster = await findDisaster(req.supabase, disasterId);
+    if (!disaster) {
       return res.status(404).json({ error: 'Disaster not found' });
     }
+    if (READ_ONLY_STATUSES.includes(disaster.status)) {
+      return res.status(409).json({ error: `Disaster is ${disaster.status}` });
+    }
+
+    let location = submittedLocation;
+    let locationSource = location ? 'client' : null;
+    let verification = null;
+    if (req.file) {
+      const stored = await storeReportImage(id, req.file);
+      if (stored.error) {
+        return res.status(415).json({ error: stored.error });
+      }
+
+      image = stored;
+      if (image.exif_point) {
+        location = toPointWkt(image.exif_point.lat, image.exif_point.lng);
+        locationSource = 'exif';
+      }
+
+      // The stored copy has no EXIF left, so the original is verified
+      verification = await verifyImage({
+        supabase: req.supabase,
+        buffer: req.file.buffer,
+        disaster,
+        reportId: id,
+        exif: { point: image.exif_point, captured_at: image.captured_at }
+      });
+    }
 
     const newReport = {
-      id: uuidv4(),
+      id,
       disaster_id: disasterId,
       user_id: req.user.id,
       content,
-      image_url: image_url || null,
-      verification_status: 'pending',
+      image_url: image?.image_url || image_url || null,
+      image_thumbnail_url: image?.image_thumbnail_url || null,
+      image_metadata: image?.image_metadata || null,
+      captured_at: image?.captured_at || null,
+      location,
+      location_source: locationSource,
+      verification_status: verification?.status || 'pending',
+      verification_analysis: verification?.analysis || null,
       created_at: new Date().toISOString()
     };
 
-    const { data, error } = await req.supabase
+    const { data, error } = await audited(req.supabase
       .from('reports')
-      .insert([newReport])
-      .select();
+      .insert([{ ...newReport, ...reportTriage(newReport, req, disaster) }])
+      .select(), req.user.id);
 
     if (error) {
+      if (image) await deleteReportImage(image.image_metadata);
       return res.status(500).json({ error: error.message });
     }
 
-    logger('info', `Report created for disaster ${disasterId} by ${req.user.id}`);
-    res.status(201).json(data[0]);
+    if (verification) {
+      await recordFingerprint(req.supabase, { reportId: id, disasterId, phash: verification.phash, imageUrl: image.image_url });
+    }
+
+    logger('info', `Report created for disaster ${disasterId} by ${req.user.id}${image ? ' with an uploaded image' : ''}`);
+    res.status(201).json(withCoordinates(data[0]));
   } catch (error) {
     logger('error', `Report creation error: ${error.message}`);
+    if (image) {
+      await deleteReportImage(image.image_metadata).catch(() => {});
+    }
     res.status(500).json({ error: error.message });
   }
 });
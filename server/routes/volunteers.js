@@ -0,0 +1,294 @@
+import express from 'express';
+import { authenticateUser, authorize, logger } from '../middleware/middleware.js';
+import { READ_ONLY_STATUSES } from '../services/lifecycle.js';
+import {
+  TASK_RESPONSES,
+  TASK_STATUSES,
+  VolunteerService,
+  validateTask,
+  validateVolunteer
+} from '../services/volunteers.js';
+
+const router = express.Router();
+
+const MAX_SUGGESTIONS = 100;
+
+async function findDisaster(req) {
+  const { data, error } = await req.supabase
+    .from('disasters')
+    .select('id, status')
+    .eq('id', req.params.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Checks the disaster exists and is not read-only. Sends the error response
+// and returns null otherwise.
+async function writableDisaster(req, res) {
+  const disaster = await findDisaster(req);
+  if (!disaster) {
+    res.status(404).json({ error: 'Disaster not found' });
+    return null;
+  }
+  if (READ_ONLY_STATUSES.includes(disaster.status)) {
+    res.status(409).json({ error: `Disaster is ${disaster.status}` });
+    return null;
+  }
+  return disaster;
+}
+
+// A task's resource must belong to the same disaster
+async function checkResource(req, resourceId) {
+  if (!resourceId) return true;
+
+  const { data } = await req.supabase
+    .from('resources')
+    .select('id')
+    .eq('id', resourceId)
+    .eq('disaster_id', req.params.id)
+    .maybeSingle();
+
+  return Boolean(data);
+}
+
+// Everyone following the disaster sees the change, and so does every
+// volunteer on the task wherever they are in the app
+function emitTaskChange(req, action, task) {
+  const rooms = [
+    `disaster_${task.disaster_id}`,
+    ...task.assignments.filter(assignment => assignment.user_id).map(assignment => `user_${assignment.user_id}`)
+  ];
+  req.io.to(rooms).emit('volunteer_task_updated', { disaster_id: task.disaster_id, action, task });
+}
+
+// GET /volunteers/me - The signed-in user's volunteer profile and the tasks
+// they were offered or accepted
+router.get('/me', authenticateUser, async (req, res) => {
+  try {
+    const volunteers = new VolunteerService(req.supabase);
+    const volunteer = await volunteers.getByUser(req.user.id);
+    if (!volunteer) {
+      return res.status(404).json({ error: 'Not registered as a volunteer' });
+    }
+
+    const assignments = await volunteers.getAssignments(volunteer.id);
+    res.json({ volunteer, assignments });
+  } catch (error) {
+    logger('error', `Volunteer profile error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /volunteers/me - Register as a volunteer or update the profile
+router.put('/me', authenticateUser, async (req, res) => {
+  try {
+    const volunteers = new VolunteerService(req.supabase);
+    const existing = await volunteers.getByUser(req.user.id);
+
+    const { errors, values } = validateVolunteer(req.body, { partial: Boolean(existing) });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    const volunteer = await volunteers.saveProfile(req.user.id, values);
+
+    logger('info', `Volunteer profile ${existing ? 'updated' : 'registered'} by ${req.user.id}`);
+    res.status(existing ? 200 : 201).json(volunteer);
+  } catch (error) {
+    logger('error', `Volunteer registration error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /volunteers/disasters/:id/tasks - Tasks on a disaster with who is
+// assigned; `status` takes a comma-separated list
+router.get('/disasters/:id/tasks', authenticateUser, async (req, res) => {
+  try {
+    const statuses = req.query.status ? String(req.query.status).split(',').map(status => status.trim()) : [];
+    const unknown = statuses.find(status => !TASK_STATUSES.includes(status));
+    if (unknown) {
+      return res.status(400).json({ error: `Unknown task status: ${unknown}` });
+    }
+
+    if (!await findDisaster(req)) {
+      return res.status(404).json({ error: 'Disaster not found' });
+    }
+
+    const volunteers = new VolunteerService(req.supabase);
+    const tasks = await volunteers.listTasks(req.params.id, { statuses });
+    res.json({ disaster_id: req.params.id, tasks });
+  } catch (error) {
+    logger('error', `Task list error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /volunteers/disasters/:id/tasks - Create a task
+router.post('/disasters/:id/tasks', authenticateUser, authorize('tasks:create'), async (req, res) => {
+  try {
+    const { errors, values } = validateTask(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    if (!await checkResource(req, values.resource_id)) {
+      return res.status(400).json({ error: 'resource_id must be a resource of this disaster' });
+    }
+
+    const volunteers = new VolunteerService(req.supabase);
+    const task = await volunteers.createTask(req.params.id, values, req.user.id);
+    emitTaskChange(req, 'create', task);
+
+    logger('info', `Task created: ${task.title} for disaster ${req.params.id} by ${req.user.id}`);
+    res.status(201).json(task);
+  } catch (error) {
+    logger('error', `Task creation error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PATCH /volunteers/disasters/:id/tasks/:taskId - Edit, cancel, complete or
+// reopen a task
+router.patch('/disasters/:id/tasks/:taskId', authenticateUser, authorize('tasks:update'), async (req, res) => {
+  try {
+    const { errors, values } = validateTask(req.body, { partial: true });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const volunteers = new VolunteerService(req.supabase);
+    const existing = await volunteers.getTask(req.params.id, req.params.taskId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (!await checkResource(req, values.resource_id)) {
+      return res.status(400).json({ error: 'resource_id must be a resource of this disaster' });
+    }
+
+    const startsAt = values.starts_at !== undefined ? values.starts_at : existing.starts_at;
+    const endsAt = values.ends_at !== undefined ? values.ends_at : existing.ends_at;
+    if (startsAt && endsAt && new Date(endsAt) <= new Date(startsAt)) {
+      return res.status(400).json({ error: 'ends_at must be after starts_at' });
+    }
+
+    const task = await volunteers.updateTask(existing, values);
+    emitTaskChange(req, 'update', task);
+
+    logger('info', `Task ${task.id} updated by ${req.user.id} (${task.status})`);
+    res.json(task);
+  } catch (error) {
+    logger('error', `Task update error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /volunteers/disasters/:id/tasks/:taskId/suggestions - Volunteers to
+// offer the task to, by skill match, availability and distance
+router.get('/disasters/:id/tasks/:taskId/suggestions', authenticateUser, authorize('tasks:update'), async (req, res) => {
+  try {
+    const radiusKm = parseFloat(req.query.radius ?? 50);
+    const limit = parseInt(req.query.limit ?? 20, 10);
+
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0) {
+      return res.status(400).json({ error: 'radius must be a positive number of kilometres' });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTIONS) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_SUGGESTIONS}` });
+    }
+
+    const volunteers = new VolunteerService(req.supabase);
+    const task = await volunteers.getTask(req.params.id, req.params.taskId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const suggestions = await volunteers.suggest(task.id, { radiusKm, limit });
+    res.json({ task_id: task.id, suggestions });
+  } catch (error) {
+    logger('error', `Volunteer suggestion error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /volunteers/disasters/:id/tasks/:taskId/offers - Offer the task to
+// volunteers (`volunteer_ids`)
+router.post('/disasters/:id/tasks/:taskId/offers', authenticateUser, authorize('tasks:update'), async (req, res) => {
+  try {
+    const volunteerIds = req.body.volunteer_ids;
+    if (!Array.isArray(volunteerIds) || volunteerIds.length === 0 || volunteerIds.length > MAX_SUGGESTIONS) {
+      return res.status(400).json({ error: `volunteer_ids must list 1 to ${MAX_SUGGESTIONS} volunteers` });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const volunteers = new VolunteerService(req.supabase);
+    const existing = await volunteers.getTask(req.params.id, req.params.taskId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!['open', 'filled'].includes(existing.status)) {
+      return res.status(409).json({ error: `Task is ${existing.status}` });
+    }
+
+    const offered = await volunteers.offer(existing, volunteerIds.map(String), req.user.id);
+    const task = await volunteers.getTask(req.params.id, existing.id);
+
+    offered.forEach(volunteer => {
+      req.io.to(`user_${volunteer.user_id}`).emit('task_offered', { disaster_id: task.disaster_id, task });
+    });
+    emitTaskChange(req, 'offer', task);
+
+    logger('info', `Task ${task.id} offered to ${offered.length} volunteers by ${req.user.id}`);
+    res.json({ task, offered: offered.map(volunteer => volunteer.id) });
+  } catch (error) {
+    logger('error', `Task offer error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /volunteers/disasters/:id/tasks/:taskId/accept|decline|complete -
+// The signed-in volunteer's answer to a task
+router.post('/disasters/:id/tasks/:taskId/:response', authenticateUser, async (req, res) => {
+  try {
+    const { response } = req.params;
+    if (!TASK_RESPONSES.includes(response)) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    if (!await writableDisaster(req, res)) return;
+
+    const volunteers = new VolunteerService(req.supabase);
+    const volunteer = await volunteers.getByUser(req.user.id);
+    if (!volunteer) {
+      return res.status(409).json({ error: 'Register as a volunteer first' });
+    }
+
+    const existing = await volunteers.getTask(req.params.id, req.params.taskId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const { assignment, task, error, status } = await volunteers.respond(existing, volunteer, response);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    emitTaskChange(req, response, task);
+
+    logger('info', `Volunteer ${volunteer.id} ${assignment.status} task ${task.id}`);
+    res.json({ assignment, task });
+  } catch (error) {
+    logger('error', `Task response error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
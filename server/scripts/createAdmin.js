@@ -0,0 +1,30 @@
+import 'dotenv/config';
+import { initializeSupabase } from '../config/supabase.js';
+import { AuthService } from '../services/auth.js';
+
+// Creates an admin account, e.g. the first one of a new deployment. No
+// accounts are seeded by the migrations.
+//
+//   ADMIN_PASSWORD=... npm run users:create-admin -- <username> [email]
+//
+// The username and email may also come from ADMIN_USERNAME and ADMIN_EMAIL.
+// The password is only read from the environment so it does not end up in
+// the shell history or the process list.
+
+async function main() {
+  const username = process.argv[2] || process.env.ADMIN_USERNAME;
+  const email = process.argv[3] || process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!username || !password) {
+    throw new Error('Usage: ADMIN_PASSWORD=... npm run users:create-admin -- <username> [email]');
+  }
+
+  const user = await new AuthService(initializeSupabase()).createUser({ username, email, password }, 'admin');
+  console.log(`Admin ${user.username} created with id ${user.id}`);
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
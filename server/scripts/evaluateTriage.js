@@ -0,0 +1,43 @@
+import 'dotenv/config';
+import { PRIORITIES } from '../services/triage.js';
+import { DEFAULT_CORPUS, MIN_ACCURACY, evaluateCorpus, readCorpus } from '../services/triageEvaluation.js';
+
+// Scores the labelled corpus with the deployment's triage rules and reports
+// how often the priority matches the label.
+//
+//   npm run triage:evaluate [-- path/to/corpus.jsonl]
+//
+// Exits with 1 when accuracy falls below MIN_ACCURACY or an urgent item is
+// scored below high, so rule changes can be checked before they are deployed.
+// `npm test` runs the same check on the bundled corpus with the default rules.
+
+async function main() {
+  const file = process.argv[2] || DEFAULT_CORPUS;
+  const corpus = await readCorpus(file);
+  const { accuracy, confusion, misses, missedUrgent } = evaluateCorpus(corpus);
+
+  console.log(`Triage evaluation: ${corpus.length} items from ${file}\n`);
+  console.log(`expected \\ scored  ${PRIORITIES.map(p => p.padStart(7)).join('')}`);
+  PRIORITIES.forEach(expected => {
+    console.log(`${expected.padEnd(18)} ${PRIORITIES.map(p => String(confusion[expected][p]).padStart(7)).join('')}`);
+  });
+
+  if (misses.length > 0) {
+    console.log('\nMismatches:');
+    misses.forEach(({ entry, result }) => {
+      const reasons = result.reasons.map(reason => `${reason.rule} ${reason.points >= 0 ? '+' : ''}${reason.points}`).join(', ');
+      console.log(`  ${entry.id}: expected ${entry.expected}, scored ${result.priority} (${result.score}; ${reasons || 'no rules matched'})`);
+      console.log(`    ${entry.content}`);
+    });
+  }
+
+  console.log(`\nAccuracy: ${(accuracy * 100).toFixed(1)}% (minimum ${MIN_ACCURACY * 100}%)`);
+  if (missedUrgent > 0) console.log(`${missedUrgent} urgent item(s) scored below high`);
+
+  process.exitCode = accuracy < MIN_ACCURACY || missedUrgent > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,194 @@
+import bcrypt from 'bcryptjs';
+import { logger } from '../middleware/middleware.js';
+import { actionsForRoles } from './permissions.js';
+import { signAccessToken, signRefreshToken, verifyRefreshToken } from './tokens.js';
+
+const PASSWORD_MIN_LENGTH = 8;
+
+function authError(message, status) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+export function toPublicUser(user) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    permissions: actionsForRoles([user.role]),
+    created_at: user.created_at
+  };
+}
+
+export class AuthService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  // Self-registered accounts are public citizens; other roles are granted by admins
+  async register({ username, email, password }) {
+    const user = await this.createUser({ username, email, password }, 'citizen');
+    return this.issueSession(user);
+  }
+
+  // Creates an account with `role`. Used by registration and by the
+  // create-admin script that bootstraps a deployment.
+  async createUser({ username, email, password }, role) {
+    if (!username || !password) {
+      throw authError('Username and password are required', 400);
+    }
+
+    if (!/^[A-Za-z0-9_.-]{3,32}$/.test(username)) {
+      throw authError('Username must be 3-32 letters, numbers, dots, dashes or underscores', 400);
+    }
+
+    if (password.length < PASSWORD_MIN_LENGTH) {
+      throw authError(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`, 400);
+    }
+
+    const existing = await this.findUser(username);
+    if (existing) {
+      throw authError('Username is already taken', 409);
+    }
+
+    const { data, error } = await this.supabase
+      .from('users')
+      .insert([{
+        username,
+        email: email || null,
+        password_hash: await bcrypt.hash(password, 10),
+        role
+      }])
+      .select();
+
+    if (error) {
+      throw authError(error.message, 500);
+    }
+
+    logger('info', `User created: ${username} (${role})`);
+    return data[0];
+  }
+
+  async login({ username, password }) {
+    if (!username || !password) {
+      throw authError('Username and password are required', 400);
+    }
+
+    const user = await this.findUser(username);
+    const valid = user && await bcrypt.compare(password, user.password_hash);
+
+    if (!valid) {
+      throw authError('Invalid username or password', 401);
+    }
+
+    await this.supabase
+      .from('users')
+      .update({ last_login_at: new Date().toISOString() })
+      .eq('id', user.id);
+
+    logger('info', `User logged in: ${user.username}`);
+    return this.issueSession(user);
+  }
+
+  // Rotates the refresh token: the presented token is revoked and a new pair issued
+  async refresh(refreshToken) {
+    const { userId, tokenId } = this.decodeRefreshToken(refreshToken);
+
+    const { data: stored, error } = await this.supabase
+      .from('refresh_tokens')
+      .select('*')
+      .eq('id', tokenId)
+      .single();
+
+    if (error || !stored || stored.revoked_at || stored.user_id !== userId) {
+      throw authError('Refresh token has been revoked', 401);
+    }
+
+    await this.revokeToken(tokenId);
+
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw authError('User no longer exists', 401);
+    }
+
+    return this.issueSession(user);
+  }
+
+  async logout(refreshToken) {
+    const { tokenId } = this.decodeRefreshToken(refreshToken);
+    await this.revokeToken(tokenId);
+  }
+
+  async getUserById(id) {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    return error ? null : data;
+  }
+
+  async findUser(usernameOrEmail) {
+    const column = usernameOrEmail.includes('@') ? 'email' : 'username';
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('*')
+      .eq(column, usernameOrEmail)
+      .maybeSingle();
+
+    if (error) {
+      throw authError(error.message, 500);
+    }
+
+    return data;
+  }
+
+  async issueSession(user) {
+    const accessToken = signAccessToken(user);
+    const refresh = signRefreshToken(user);
+
+    const { error } = await this.supabase
+      .from('refresh_tokens')
+      .insert([{
+        id: refresh.tokenId,
+        user_id: user.id,
+        expires_at: refresh.expiresAt
+      }]);
+
+    if (error) {
+      throw authError(error.message, 500);
+    }
+
+    return {
+      user: toPublicUser(user),
+      access_token: accessToken,
+      refresh_token: refresh.token
+    };
+  }
+
+  decodeRefreshToken(refreshToken) {
+    if (!refreshToken) {
+      throw authError('Refresh token is required', 400);
+    }
+
+    try {
+      return verifyRefreshToken(refreshToken);
+    } catch (error) {
+      throw authError(`Invalid refresh token: ${error.message}`, 401);
+    }
+  }
+
+  async revokeToken(tokenId) {
+    const { error } = await this.supabase
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', tokenId);
+
+    if (error) {
+      logger('error', `Refresh token revoke error: ${error.message}`);
+    }
+  }
+}
@@ -30,8 +30,8 @@ export class CacheService {
 
   async set(key, value, ttlHours = 1) {
     try {
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + ttlHours);
+      // Computed in milliseconds so fractional TTLs (e.g. 0.5 hours) are honoured
+      const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
 
       const { error } = await this.supabase
         .from('cache')
@@ -0,0 +1,256 @@
+import * as cheerio from 'cheerio';
+import { config } from '../config/config.js';
+import { circleToRing, parseCoordinates, ringsCenter, toMultiPolygonWkt, toPointWkt } from './geometry.js';
+
+// Common Alerting Protocol 1.2 (OASIS) import and export for disasters.
+// https://docs.oasis-open.org/emergency/cap/v1.2/CAP-v1.2.html
+
+export const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+
+export const CAP_SEVERITIES = ['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown'];
+export const CAP_URGENCIES = ['Immediate', 'Expected', 'Future', 'Past', 'Unknown'];
+export const CAP_CERTAINTIES = ['Observed', 'Likely', 'Possible', 'Unlikely', 'Unknown'];
+
+const CAP_FIELDS = {
+  severity: CAP_SEVERITIES,
+  urgency: CAP_URGENCIES,
+  certainty: CAP_CERTAINTIES
+};
+
+// Event words that say what kind of message it is rather than what happened
+const EVENT_SUFFIX = /\s+(warning|watch|advisory|statement|alert|emergency|outlook|update)$/i;
+
+// First match wins when exporting a disaster's tags as a CAP category
+const TAG_CATEGORIES = [
+  [/flood|storm|hurricane|tornado|cyclone|snow|blizzard|heat|wind|rain|weather/, 'Met'],
+  [/fire/, 'Fire'],
+  [/earthquake|landslide|tsunami|volcan|sinkhole/, 'Geo'],
+  [/chemical|hazmat|spill|radiolog|nuclear|biolog/, 'CBRNE'],
+  [/disease|outbreak|epidemic|pandemic|health/, 'Health'],
+  [/power|outage|infrastructure|bridge|water main|gas leak/, 'Infra'],
+  [/subway|rail|traffic|transport|aviation/, 'Transport'],
+  [/rescue|missing/, 'Rescue'],
+  [/shooting|attack|terror|security/, 'Security']
+];
+
+// Validates severity/urgency/certainty in a disaster payload. Values are
+// accepted in any case and stored in CAP's capitalization.
+export function validateCapFields(body) {
+  const errors = [];
+  const values = {};
+
+  for (const [field, allowed] of Object.entries(CAP_FIELDS)) {
+    if (body[field] === undefined) continue;
+
+    const match = allowed.find(value => value.toLowerCase() === String(body[field]).toLowerCase());
+    if (!match) {
+      errors.push(`${field} must be one of ${allowed.join(', ')}`);
+    } else {
+      values[field] = match;
+    }
+  }
+
+  return { errors, values };
+}
+
+function canonical(value, allowed) {
+  return allowed.find(option => option.toLowerCase() === (value || '').toLowerCase()) || 'Unknown';
+}
+
+// CAP writes points as "lat,lon" pairs separated by spaces
+function parsePoint(pair) {
+  const [lat, lng] = pair.split(',');
+  return parseCoordinates({ lat, lng });
+}
+
+function parsePolygon(text) {
+  const points = text.trim().split(/\s+/).map(parsePoint);
+  return points.length >= 4 && points.every(Boolean) ? points : null;
+}
+
+function parseCircle(text) {
+  const [pair, radius] = text.trim().split(/\s+/);
+  const center = parsePoint(pair || '');
+  const radiusKm = parseFloat(radius);
+  if (!center || !Number.isFinite(radiusKm) || radiusKm < 0) return null;
+  return { center, radiusKm };
+}
+
+function pickInfo($, alert) {
+  const infos = alert.children('info').toArray().map(element => $(element));
+  return infos.find(info => /^en/i.test(info.children('language').first().text().trim())) || infos[0];
+}
+
+// Parses one or more CAP alerts. Each alert becomes a disaster draft:
+//   { cap_identifier, title, description, tags, location_name, severity,
+//     urgency, certainty, rings, point }
+// `rings` are the area polygons and circles as closed rings of { lat, lng };
+// `point` is their centre (or a zero-radius circle's centre). Alerts that
+// cannot become disasters are returned in `skipped` with a reason.
+export function parseCapAlerts(xml) {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const alerts = [];
+  const skipped = [];
+
+  $('alert').each((_, element) => {
+    const alert = $(element);
+    const field = (parent, name) => parent.children(name).first().text().trim();
+    const identifier = field(alert, 'identifier');
+
+    if (!identifier) {
+      skipped.push({ identifier: null, reason: 'Alert has no identifier' });
+      return;
+    }
+
+    const status = field(alert, 'status');
+    const msgType = field(alert, 'msgType');
+    if (msgType === 'Cancel' || status === 'Test' || status === 'Exercise' || status === 'Draft') {
+      skipped.push({ identifier, reason: `${status} ${msgType} messages are not imported` });
+      return;
+    }
+
+    const info = pickInfo($, alert);
+    if (!info) {
+      skipped.push({ identifier, reason: 'Alert has no info block' });
+      return;
+    }
+
+    const event = field(info, 'event');
+    const title = field(info, 'headline') || event;
+    if (!title) {
+      skipped.push({ identifier, reason: 'Alert has no event or headline' });
+      return;
+    }
+
+    const rings = [];
+    const centers = [];
+    const areaDescriptions = [];
+
+    info.children('area').each((_, areaElement) => {
+      const area = $(areaElement);
+      areaDescriptions.push(field(area, 'areaDesc'));
+
+      area.children('polygon').each((_, polygon) => {
+        const ring = parsePolygon($(polygon).text());
+        if (ring) rings.push(ring);
+      });
+
+      area.children('circle').each((_, circleElement) => {
+        const circle = parseCircle($(circleElement).text());
+        if (!circle) return;
+        if (circle.radiusKm > 0) {
+          rings.push(circleToRing(circle.center, circle.radiusKm));
+        } else {
+          centers.push(circle.center);
+        }
+      });
+    });
+
+    const eventTag = event.replace(EVENT_SUFFIX, '').trim().toLowerCase();
+
+    alerts.push({
+      cap_identifier: identifier,
+      title,
+      description: [field(info, 'description'), field(info, 'instruction')].filter(Boolean).join('\n\n') || title,
+      tags: eventTag ? [eventTag] : [],
+      location_name: areaDescriptions.filter(Boolean).join('; '),
+      severity: canonical(field(info, 'severity'), CAP_SEVERITIES),
+      urgency: canonical(field(info, 'urgency'), CAP_URGENCIES),
+      certainty: canonical(field(info, 'certainty'), CAP_CERTAINTIES),
+      rings,
+      point: rings.length > 0 ? ringsCenter(rings) : centers[0] || null
+    });
+  });
+
+  return { alerts, skipped };
+}
+
+// Columns to insert for a parsed alert, apart from id, owner and audit data
+export function capAlertToDisaster(alert) {
+  const row = {
+    title: alert.title,
+    description: alert.description,
+    tags: alert.tags,
+    location_name: alert.location_name,
+    severity: alert.severity,
+    urgency: alert.urgency,
+    certainty: alert.certainty,
+    cap_identifier: alert.cap_identifier
+  };
+
+  if (alert.rings.length > 0) {
+    row.footprint = toMultiPolygonWkt(alert.rings);
+  }
+  if (alert.point) {
+    row.location = toPointWkt(alert.point.lat, alert.point.lng);
+  }
+
+  return row;
+}
+
+function escapeXml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// CAP dateTime: no fractional seconds, and UTC written as -00:00 ("Z" is not allowed)
+function capDateTime(value) {
+  return new Date(value).toISOString().replace(/\.\d{3}Z$/, '-00:00');
+}
+
+function categoryFor(tags) {
+  const text = tags.join(' ').toLowerCase();
+  return TAG_CATEGORIES.find(([pattern]) => pattern.test(text))?.[1] || 'Other';
+}
+
+// Outer rings of a Polygon or MultiPolygon GeoJSON geometry
+function footprintRings(footprint) {
+  if (footprint?.type === 'Polygon') return [footprint.coordinates[0]];
+  if (footprint?.type === 'MultiPolygon') return footprint.coordinates.map(polygon => polygon[0]);
+  return [];
+}
+
+// Builds a CAP 1.2 alert from a disaster as returned by withCoordinates
+export function buildCapAlert(disaster) {
+  const sent = disaster.updated_at || disaster.created_at || new Date().toISOString();
+  const tags = disaster.tags || [];
+  const rings = footprintRings(disaster.footprint);
+
+  const areaLines = [`      <areaDesc>${escapeXml(disaster.location_name || disaster.title)}</areaDesc>`];
+  rings.forEach(ring => {
+    areaLines.push(`      <polygon>${ring.map(([lng, lat]) => `${lat},${lng}`).join(' ')}</polygon>`);
+  });
+  if (rings.length === 0 && disaster.lat != null && disaster.lng != null) {
+    areaLines.push(`      <circle>${disaster.lat},${disaster.lng} 0</circle>`);
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<alert xmlns="${CAP_NAMESPACE}">`,
+    `  <identifier>${escapeXml(`${config.cap.sender}.disaster.${disaster.id}.${Math.floor(new Date(sent).getTime() / 1000)}`)}</identifier>`,
+    `  <sender>${escapeXml(config.cap.sender)}</sender>`,
+    `  <sent>${capDateTime(sent)}</sent>`,
+    '  <status>Actual</status>',
+    '  <msgType>Alert</msgType>',
+    '  <scope>Public</scope>',
+    '  <info>',
+    '    <language>en-US</language>',
+    `    <category>${categoryFor(tags)}</category>`,
+    `    <event>${escapeXml(tags[0] || disaster.title)}</event>`,
+    `    <urgency>${escapeXml(disaster.urgency || 'Unknown')}</urgency>`,
+    `    <severity>${escapeXml(disaster.severity || 'Unknown')}</severity>`,
+    `    <certainty>${escapeXml(disaster.certainty || 'Unknown')}</certainty>`,
+    `    <headline>${escapeXml(disaster.title)}</headline>`,
+    `    <description>${escapeXml(disaster.description)}</description>`,
+    '    <area>',
+    ...areaLines,
+    '    </area>',
+    '  </info>',
+    '</alert>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,25 @@
+// Base class for outbound notification channels.
+//
+// A channel delivers one message to one target: an email address, a phone
+// number or a webhook URL. Messages are built by the NotificationDispatcher:
+//
+//   { id, event_type, target, secret, subject, text, payload }
+//
+// `id` is the delivery id, stable across retries so receivers can drop
+// duplicates. `send` resolves once the message is accepted and throws
+// otherwise; the dispatcher retries failed sends.
+
+export class NotificationChannel {
+  constructor(name, options = {}) {
+    this.name = name;
+    this.options = options;
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  async send(_message) {
+    throw new Error(`${this.constructor.name} must implement send`);
+  }
+}
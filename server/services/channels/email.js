@@ -0,0 +1,188 @@
+import { randomUUID } from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { NotificationChannel } from './base.js';
+
+// Sends email through an SMTP relay. The client is deliberately small: one
+// message per connection, STARTTLS when the server offers it (or implicit
+// TLS with `secure`), AUTH PLAIN or LOGIN, and a plain-text UTF-8 body.
+// Credentials are only sent over TLS unless `allowInsecureAuth` is set.
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+
+// Collects SMTP replies from the socket. A reply is one or more lines such
+// as `250-First` ... `250 Last`; the returned function resolves with the next
+// complete reply as { code, lines }.
+function replyReader(socket) {
+  let buffer = '';
+  let lines = [];
+  let failure = null;
+  const replies = [];
+  const waiting = [];
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let end;
+    while ((end = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines };
+        lines = [];
+        if (waiting.length > 0) waiting.shift().resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  });
+
+  const fail = error => {
+    failure = failure || error;
+    while (waiting.length > 0) waiting.shift().reject(failure);
+  };
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('SMTP connection closed')));
+
+  return () => {
+    if (replies.length > 0) return Promise.resolve(replies.shift());
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+}
+
+function expectReply(reply, codes, step) {
+  if (!codes.includes(reply.code)) {
+    throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`.trim());
+  }
+  return reply;
+}
+
+// The argument of an EHLO extension, e.g. 'PLAIN LOGIN' for AUTH, or null
+// when the server does not offer it
+function extension(ehlo, keyword) {
+  for (const line of ehlo.lines.slice(1)) {
+    const [name, ...rest] = line.split(' ');
+    if (name.toUpperCase() === keyword) return rest.join(' ').toUpperCase();
+  }
+  return null;
+}
+
+// Header values must stay on one line; non-ASCII text is encoded per RFC 2047
+function headerValue(value) {
+  const line = String(value).replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`;
+}
+
+function mailbox(address) {
+  return /<([^>]+)>/.exec(address)?.[1] || address;
+}
+
+// The message with a base64 body, whose lines never start with a dot so
+// need no dot-stuffing. Ends with CRLF, ready for the closing `.`.
+function buildMessage({ from, to, subject, text }) {
+  const body = Buffer.from(text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  const domain = mailbox(from).split('@')[1] || os.hostname();
+
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(to)}`,
+    `Subject: ${headerValue(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+}
+
+function withTimeout(socket, seconds) {
+  socket.setTimeout(seconds * 1000, () => socket.destroy(new Error('SMTP server timed out')));
+  return socket;
+}
+
+// Sends one message through the server in `options` ({ host, port, secure,
+// user, password, allowInsecureAuth, timeoutSeconds }). Throws with the
+// server's reply when a step is refused.
+export async function sendMail(options, { from, to, subject, text }) {
+  const timeout = options.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+  let encrypted = Boolean(options.secure);
+  let socket = withTimeout(options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port }), timeout);
+  let read = replyReader(socket);
+
+  const command = async (line, codes, step = line.split(' ')[0]) => {
+    socket.write(`${line}\r\n`);
+    return expectReply(await read(), codes, step);
+  };
+
+  try {
+    expectReply(await read(), [220], 'greeting');
+    let ehlo = await command(`EHLO ${os.hostname()}`, [250]);
+
+    if (!options.secure && extension(ehlo, 'STARTTLS') !== null) {
+      await command('STARTTLS', [220]);
+
+      const plain = socket;
+      plain.removeAllListeners('data');
+      plain.setTimeout(0);
+      socket = withTimeout(tls.connect({ socket: plain, servername: options.host }), timeout);
+      read = replyReader(socket);
+      await new Promise((resolve, reject) => {
+        socket.once('secureConnect', resolve);
+        socket.once('error', reject);
+      });
+      encrypted = true;
+
+      ehlo = await command(`EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (options.user) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted');
+      }
+
+      const mechanisms = extension(ehlo, 'AUTH') || '';
+      if (mechanisms.split(' ').includes('LOGIN') && !mechanisms.split(' ').includes('PLAIN')) {
+        await command('AUTH LOGIN', [334]);
+        await command(Buffer.from(options.user).toString('base64'), [334], 'AUTH');
+        await command(Buffer.from(options.password || '').toString('base64'), [235], 'AUTH');
+      } else {
+        const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`).toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+    }
+
+    await command(`MAIL FROM:<${mailbox(from)}>`, [250]);
+    await command(`RCPT TO:<${mailbox(to)}>`, [250, 251]);
+    await command('DATA', [354]);
+    await command(`${buildMessage({ from, to, subject, text })}.`, [250], 'DATA');
+
+    socket.write('QUIT\r\n');
+  } finally {
+    socket.end();
+  }
+}
+
+export class EmailChannel extends NotificationChannel {
+  constructor(options = {}) {
+    super('smtp', options);
+  }
+
+  isConfigured() {
+    return Boolean(this.options.host && this.options.from);
+  }
+
+  async send(message) {
+    await sendMail(this.options, {
+      from: this.options.from,
+      to: message.target,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
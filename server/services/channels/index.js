@@ -0,0 +1,62 @@
+import { config } from '../../config/config.js';
+import { logger } from '../../middleware/middleware.js';
+import { EmailChannel } from './email.js';
+import { TwilioProvider } from './sms.js';
+import { StubChannel } from './stub.js';
+import { WebhookChannel } from './webhook.js';
+
+export { NotificationChannel } from './base.js';
+export { SmsProvider } from './sms.js';
+export { publicUrlProblem, signPayload } from './webhook.js';
+export { stubOutbox } from './stub.js';
+
+const stub = channel => () => new StubChannel(channel, { file: config.notifications.stubFile });
+
+// Transports per subscription channel
+const TRANSPORTS = {
+  email: {
+    smtp: () => new EmailChannel(config.notifications.smtp),
+    stub: stub('email')
+  },
+  sms: {
+    twilio: () => new TwilioProvider(config.notifications.twilio),
+    stub: stub('sms')
+  },
+  webhook: {
+    http: () => new WebhookChannel({
+      timeoutSeconds: config.notifications.webhookTimeoutSeconds,
+      allowHttp: config.notifications.allowHttpWebhooks
+    }),
+    stub: stub('webhook')
+  }
+};
+
+export const CHANNEL_NAMES = Object.keys(TRANSPORTS);
+
+const SELECTED = {
+  email: config.notifications.emailTransport,
+  sms: config.notifications.smsTransport,
+  webhook: config.notifications.webhookTransport
+};
+
+// Builds the transport chosen for each channel by NOTIFY_*_TRANSPORT. An
+// unknown or unconfigured transport falls back to the stub, so messages are
+// still logged rather than lost.
+export function createChannels(selected = SELECTED) {
+  return Object.fromEntries(CHANNEL_NAMES.map(channel => {
+    const name = selected[channel];
+    const create = TRANSPORTS[channel][name];
+    if (!create) {
+      logger('warn', `Unknown ${channel} transport: ${name}, using stub`);
+      return [channel, TRANSPORTS[channel].stub()];
+    }
+
+    const transport = create();
+    if (!transport.isConfigured()) {
+      logger('warn', `${channel} transport ${name} is not configured, using stub`);
+      return [channel, TRANSPORTS[channel].stub()];
+    }
+
+    return [channel, transport];
+  }));
+}
@@ -0,0 +1,41 @@
+import axios from 'axios';
+import { NotificationChannel } from './base.js';
+
+// Text messages are cut to what fits in a few concatenated SMS segments
+export const MAX_SMS_LENGTH = 480;
+
+// Base class for SMS providers. A provider implements `sendSms(to, body)`
+// with `to` an E.164 number; the subject line and text of the message are
+// joined and shortened here.
+export class SmsProvider extends NotificationChannel {
+  async sendSms(_to, _body) {
+    throw new Error(`${this.constructor.name} must implement sendSms`);
+  }
+
+  async send(message) {
+    const body = `${message.subject}\n${message.text}`;
+    await this.sendSms(message.target, body.length > MAX_SMS_LENGTH ? `${body.slice(0, MAX_SMS_LENGTH - 1)}…` : body);
+  }
+}
+
+// Twilio Programmable Messaging
+export class TwilioProvider extends SmsProvider {
+  constructor(options = {}) {
+    super('twilio', options);
+    this.baseUrl = options.baseUrl || 'https://api.twilio.com';
+  }
+
+  isConfigured() {
+    return Boolean(this.options.accountSid && this.options.authToken && this.options.from);
+  }
+
+  async sendSms(to, body) {
+    const form = new URLSearchParams({ To: to, From: this.options.from, Body: body });
+
+    await axios.post(`${this.baseUrl}/2010-04-01/Accounts/${this.options.accountSid}/Messages.json`, form.toString(), {
+      auth: { username: this.options.accountSid, password: this.options.authToken },
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 10000
+    });
+  }
+}
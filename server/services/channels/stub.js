@@ -0,0 +1,47 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { logger } from '../../middleware/middleware.js';
+import { NotificationChannel } from './base.js';
+
+// Records messages instead of sending them, for development and testing
+// without a mail server, SMS account or webhook receiver. Every message is
+// logged and kept in memory; with a `file` it is also appended to that file
+// as one JSON line.
+
+const OUTBOX_SIZE = 100;
+const outbox = [];
+
+// Messages the stubs recorded since start, newest last
+export function stubOutbox() {
+  return [...outbox];
+}
+
+export class StubChannel extends NotificationChannel {
+  constructor(channel, options = {}) {
+    super('stub', options);
+    this.channel = channel;
+  }
+
+  async send(message) {
+    const record = {
+      channel: this.channel,
+      sent_at: new Date().toISOString(),
+      id: message.id,
+      event_type: message.event_type,
+      target: message.target,
+      subject: message.subject,
+      text: message.text,
+      payload: message.payload
+    };
+
+    outbox.push(record);
+    if (outbox.length > OUTBOX_SIZE) outbox.shift();
+
+    if (this.options.file) {
+      await mkdir(path.dirname(path.resolve(this.options.file)), { recursive: true });
+      await appendFile(this.options.file, `${JSON.stringify(record)}\n`);
+    }
+
+    logger('info', `[stub ${this.channel}] to ${message.target}: ${message.subject}`);
+  }
+}
@@ -0,0 +1,119 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { NotificationChannel } from './base.js';
+
+// Posts the event payload as JSON to the subscriber's URL. Every request is
+// signed with the subscription secret so the receiver can check it came
+// from us and was not replayed:
+//
+//   X-Alert-Timestamp: <unix seconds>
+//   X-Alert-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+//
+// Subscribers choose the URL, so requests only go to public addresses: the
+// host is checked when it is resolved for the connection itself, which a
+// DNS answer that changes after validation cannot get around.
+
+// Loopback, private, link-local, shared, multicast and reserved ranges.
+// BlockList checks IPv4-mapped IPv6 addresses against the IPv4 ranges.
+const PRIVATE_RANGES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address, prefix, 'ipv6'));
+
+export function isPublicAddress(address) {
+  const family = net.isIP(address);
+  return family !== 0 && !PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Why the server may not send requests to `target`, or null when it may.
+// Plain http is only accepted with `allowHttp`.
+export function publicUrlProblem(target, { allowHttp = false } = {}) {
+  let url;
+  try {
+    url = new URL(target);
+  } catch {
+    return 'must be a valid URL';
+  }
+
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    return allowHttp ? 'must use http or https' : 'must use https';
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && !isPublicAddress(host))) {
+    return 'must not point to a private or local address';
+  }
+  return null;
+}
+
+// dns.lookup for outgoing connections that fails unless every address the
+// host resolves to is public
+export function publicLookup(hostname, options, callback) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      const refusal = new Error(`${hostname} resolves to a private or local address`);
+      refusal.code = 'ENOTPUBLIC';
+      return callback(refusal);
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// HTTP and HTTPS agents that only connect to public addresses, for axios'
+// httpAgent and httpsAgent
+export function createPublicAgents() {
+  return {
+    httpAgent: new http.Agent({ lookup: publicLookup }),
+    httpsAgent: new https.Agent({ lookup: publicLookup })
+  };
+}
+
+// The signature header value for a raw JSON body sent at `timestamp`
+export function signPayload(secret, timestamp, body) {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export class WebhookChannel extends NotificationChannel {
+  constructor(options = {}) {
+    super('http', options);
+    this.agents = createPublicAgents();
+  }
+
+  async send(message) {
+    const problem = publicUrlProblem(message.target, { allowHttp: this.options.allowHttp });
+    if (problem) throw new Error(`Webhook URL ${problem}`);
+
+    const body = JSON.stringify(message.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    // Any response outside 2xx, including redirects, counts as a failure.
+    // No proxy, so the connection is made to the checked address.
+    await axios.post(message.target, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'disaster-response-platform-webhooks',
+        'X-Alert-Event': message.event_type,
+        'X-Alert-Delivery': message.id,
+        'X-Alert-Timestamp': String(timestamp),
+        'X-Alert-Signature': signPayload(message.secret, timestamp, body)
+      },
+      maxRedirects: 0,
+      proxy: false,
+      ...this.agents,
+      timeout: (this.options.timeoutSeconds || 10) * 1000
+    });
+  }
+}
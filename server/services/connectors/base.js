@@ -0,0 +1,62 @@
+// Base class for social media connectors.
+//
+// A connector knows how to fetch posts from one source since an opaque cursor
+// and how to normalize a raw post into the SocialMediaReport shape served to
+// the client:
+//
+//   { external_id, user, content, timestamp, location, coordinates, keywords,
+//     platform, verified, engagement: { likes, shares, replies }, url }
+//
+// Priority is assigned later by the SocialMediaService, not by connectors.
+
+export class SocialConnector {
+  constructor(source, platform, options = {}) {
+    this.source = source;
+    this.platform = platform;
+    this.options = options;
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  // Returns { items, cursor } where items are raw posts newer than `cursor`
+  // and cursor is the value to pass on the next call.
+  // `query` is { tags, location } built from the disaster being ingested.
+  async fetchSince(_cursor, _query) {
+    throw new Error(`${this.constructor.name} must implement fetchSince`);
+  }
+
+  normalize(_item) {
+    throw new Error(`${this.constructor.name} must implement normalize`);
+  }
+
+  async pull(cursor, query) {
+    const { items, cursor: nextCursor } = await this.fetchSince(cursor, query);
+    const reports = items
+      .map(item => this.normalize(item))
+      .filter(report => report && report.external_id && report.content);
+
+    return { reports, cursor: nextCursor ?? cursor };
+  }
+}
+
+export function extractHashtags(text = '') {
+  return [...new Set((text.match(/#[\p{L}\p{N}_]+/gu) || []).map(tag => tag.slice(1).toLowerCase()))];
+}
+
+export function makeReport(fields) {
+  return {
+    location: 'Unknown',
+    coordinates: null,
+    keywords: extractHashtags(fields.content),
+    verified: false,
+    url: null,
+    ...fields,
+    engagement: {
+      likes: fields.engagement?.likes ?? 0,
+      shares: fields.engagement?.shares ?? 0,
+      replies: fields.engagement?.replies ?? 0
+    }
+  };
+}
@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { SocialConnector, extractHashtags, makeReport } from './base.js';
+
+// Bluesky public AppView search. No credentials are needed; the cursor is the
+// creation time of the newest post seen so far.
+export class BlueskyConnector extends SocialConnector {
+  constructor(options = {}) {
+    super('bluesky', 'Bluesky', options);
+    this.serviceUrl = options.serviceUrl || 'https://public.api.bsky.app';
+  }
+
+  async fetchSince(cursor, { tags = [] } = {}) {
+    const posts = new Map();
+    let newest = cursor;
+
+    // searchPosts has no OR operator, so each tag is searched separately
+    for (const tag of tags.slice(0, 5)) {
+      const response = await axios.get(`${this.serviceUrl}/xrpc/app.bsky.feed.searchPosts`, {
+        params: { q: tag, sort: 'latest', limit: 50, since: cursor || undefined },
+        timeout: 10000
+      });
+
+      for (const post of response.data.posts || []) {
+        posts.set(post.uri, post);
+        const createdAt = post.record?.createdAt;
+        if (createdAt && (!newest || createdAt > newest)) newest = createdAt;
+      }
+    }
+
+    return { items: [...posts.values()], cursor: newest };
+  }
+
+  normalize(post) {
+    const text = post.record?.text || '';
+    const facetTags = (post.record?.facets || [])
+      .flatMap(facet => facet.features || [])
+      .filter(feature => feature.$type === 'app.bsky.richtext.facet#tag')
+      .map(feature => feature.tag.toLowerCase());
+    const handle = post.author?.handle;
+
+    return makeReport({
+      external_id: post.uri,
+      platform: this.platform,
+      user: handle,
+      content: text,
+      timestamp: post.record?.createdAt || post.indexedAt,
+      keywords: [...new Set([...facetTags, ...extractHashtags(text)])],
+      verified: post.author?.verification?.verifiedStatus === 'valid',
+      url: handle ? `https://bsky.app/profile/${handle}/post/${post.uri.split('/').pop()}` : null,
+      engagement: {
+        likes: post.likeCount,
+        shares: (post.repostCount || 0) + (post.quoteCount || 0),
+        replies: post.replyCount
+      }
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { config } from '../../config/config.js';
+import { logger } from '../../middleware/middleware.js';
+import { BlueskyConnector } from './bluesky.js';
+import { MastodonConnector } from './mastodon.js';
+import { ReplayConnector } from './replay.js';
+import { TwitterConnector } from './twitter.js';
+
+export { SocialConnector } from './base.js';
+
+const CONNECTORS = {
+  twitter: () => new TwitterConnector({
+    apiKey: config.twitter.apiKey,
+    apiSecret: config.twitter.apiSecret,
+    bearerToken: config.twitter.bearerToken
+  }),
+  bluesky: () => new BlueskyConnector({ serviceUrl: config.socialMedia.blueskyServiceUrl }),
+  mastodon: () => new MastodonConnector({
+    instanceUrl: config.socialMedia.mastodonInstanceUrl,
+    accessToken: config.socialMedia.mastodonAccessToken
+  }),
+  replay: () => new ReplayConnector({
+    filePath: config.socialMedia.replayFile,
+    batchSize: config.socialMedia.replayBatchSize
+  })
+};
+
+export const CONNECTOR_NAMES = Object.keys(CONNECTORS);
+
+// Builds the connectors listed in SOCIAL_CONNECTORS, skipping unknown names
+// and connectors that are missing credentials.
+export function createConnectors(names = config.socialMedia.connectors) {
+  return names
+    .map(name => {
+      const create = CONNECTORS[name];
+      if (!create) {
+        logger('warn', `Unknown social media connector: ${name}`);
+        return null;
+      }
+
+      const connector = create();
+      if (!connector.isConfigured()) {
+        logger('warn', `Social media connector ${name} is not configured, skipping`);
+        return null;
+      }
+
+      return connector;
+    })
+    .filter(Boolean);
+}
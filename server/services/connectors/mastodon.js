@@ -0,0 +1,55 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { SocialConnector, makeReport } from './base.js';
+
+// Mastodon hashtag timelines on a single instance. The cursor is a JSON map of
+// tag -> newest status id, since each tag is its own timeline.
+export class MastodonConnector extends SocialConnector {
+  constructor(options = {}) {
+    super('mastodon', 'Mastodon', options);
+    this.instanceUrl = (options.instanceUrl || 'https://mastodon.social').replace(/\/$/, '');
+    this.accessToken = options.accessToken;
+  }
+
+  async fetchSince(cursor, { tags = [] } = {}) {
+    const cursors = cursor ? JSON.parse(cursor) : {};
+    const statuses = new Map();
+
+    for (const tag of tags.slice(0, 5)) {
+      const hashtag = tag.replace(/\s+/g, '');
+      const response = await axios.get(`${this.instanceUrl}/api/v1/timelines/tag/${encodeURIComponent(hashtag)}`, {
+        params: { limit: 40, min_id: cursors[hashtag] },
+        headers: this.accessToken ? { Authorization: `Bearer ${this.accessToken}` } : {},
+        timeout: 10000
+      });
+
+      for (const status of response.data || []) {
+        const original = status.reblog || status;
+        statuses.set(original.id, original);
+        if (!cursors[hashtag] || BigInt(status.id) > BigInt(cursors[hashtag])) {
+          cursors[hashtag] = status.id;
+        }
+      }
+    }
+
+    return { items: [...statuses.values()], cursor: JSON.stringify(cursors) };
+  }
+
+  normalize(status) {
+    return makeReport({
+      external_id: status.uri || status.id,
+      platform: this.platform,
+      user: status.account?.acct,
+      content: cheerio.load(status.content || '').text().trim(),
+      timestamp: status.created_at,
+      keywords: (status.tags || []).map(tag => tag.name.toLowerCase()),
+      verified: (status.account?.fields || []).some(field => field.verified_at),
+      url: status.url,
+      engagement: {
+        likes: status.favourites_count,
+        shares: status.reblogs_count,
+        replies: status.replies_count
+      }
+    });
+  }
+}
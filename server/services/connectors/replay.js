@@ -0,0 +1,51 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SocialConnector, makeReport } from './base.js';
+
+const DEFAULT_REPLAY_FILE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../data/social_replay.jsonl');
+
+// Replays recorded posts from a JSONL file, one post per line, for offline
+// development and demos. The cursor is the number of lines already consumed,
+// so each poll hands out the next `batchSize` posts.
+//
+// Lines use the normalized report fields. Instead of a fixed `timestamp`, a
+// line may give `minutes_ago` so replayed posts always look recent.
+export class ReplayConnector extends SocialConnector {
+  constructor(options = {}) {
+    super('replay', 'Replay', options);
+    this.filePath = options.filePath || DEFAULT_REPLAY_FILE;
+    this.batchSize = options.batchSize || 50;
+  }
+
+  async readEntries() {
+    const lines = (await readFile(this.filePath, 'utf8')).split('\n').filter(line => line.trim());
+
+    return lines.map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${index + 1} of ${this.filePath}`);
+      }
+    });
+  }
+
+  async fetchSince(cursor) {
+    const entries = await this.readEntries();
+    const start = cursor ? parseInt(cursor, 10) : 0;
+    const end = Math.min(start + this.batchSize, entries.length);
+
+    return { items: entries.slice(start, end), cursor: String(end) };
+  }
+
+  normalize(entry) {
+    const { id, minutes_ago: minutesAgo, ...fields } = entry;
+
+    return makeReport({
+      ...fields,
+      external_id: entry.external_id || id,
+      platform: entry.platform || this.platform,
+      timestamp: entry.timestamp || new Date(Date.now() - (minutesAgo || 0) * 60 * 1000).toISOString()
+    });
+  }
+}
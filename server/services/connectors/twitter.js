@@ -0,0 +1,87 @@
+import axios from 'axios';
+import { SocialConnector, makeReport } from './base.js';
+
+// Twitter/X API v2 recent search. Uses TWITTER_BEARER_TOKEN when set,
+// otherwise exchanges the API key and secret for an app-only bearer token.
+export class TwitterConnector extends SocialConnector {
+  constructor(options = {}) {
+    super('twitter', 'Twitter', options);
+    this.baseUrl = options.baseUrl || 'https://api.twitter.com';
+    this.bearerToken = options.bearerToken;
+  }
+
+  isConfigured() {
+    return Boolean(this.bearerToken || (this.options.apiKey && this.options.apiSecret));
+  }
+
+  async getBearerToken() {
+    if (this.bearerToken) return this.bearerToken;
+
+    const response = await axios.post(`${this.baseUrl}/oauth2/token`, 'grant_type=client_credentials', {
+      auth: { username: this.options.apiKey, password: this.options.apiSecret },
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8' },
+      timeout: 10000
+    });
+
+    this.bearerToken = response.data.access_token;
+    return this.bearerToken;
+  }
+
+  buildQuery(tags) {
+    const terms = tags.flatMap(tag => [`#${tag.replace(/\s+/g, '')}`, `"${tag}"`]);
+    return `(${terms.join(' OR ')}) -is:retweet`;
+  }
+
+  async fetchSince(cursor, { tags = [] } = {}) {
+    if (tags.length === 0) return { items: [], cursor };
+
+    const token = await this.getBearerToken();
+    const response = await axios.get(`${this.baseUrl}/2/tweets/search/recent`, {
+      params: {
+        query: this.buildQuery(tags),
+        max_results: 50,
+        since_id: cursor || undefined,
+        'tweet.fields': 'created_at,public_metrics,entities,geo',
+        expansions: 'author_id,geo.place_id',
+        'user.fields': 'username,verified',
+        'place.fields': 'full_name,geo'
+      },
+      headers: { Authorization: `Bearer ${token}` },
+      timeout: 10000
+    });
+
+    const users = new Map((response.data.includes?.users || []).map(user => [user.id, user]));
+    const places = new Map((response.data.includes?.places || []).map(place => [place.id, place]));
+    const items = (response.data.data || []).map(tweet => ({
+      tweet,
+      user: users.get(tweet.author_id),
+      place: places.get(tweet.geo?.place_id)
+    }));
+
+    return { items, cursor: response.data.meta?.newest_id || cursor };
+  }
+
+  normalize({ tweet, user, place }) {
+    const metrics = tweet.public_metrics || {};
+    const bbox = place?.geo?.bbox;
+    const username = user?.username || tweet.author_id;
+
+    return makeReport({
+      external_id: tweet.id,
+      platform: this.platform,
+      user: username,
+      content: tweet.text,
+      timestamp: tweet.created_at,
+      location: place?.full_name || 'Unknown',
+      coordinates: bbox ? { lat: (bbox[1] + bbox[3]) / 2, lng: (bbox[0] + bbox[2]) / 2 } : null,
+      keywords: (tweet.entities?.hashtags || []).map(hashtag => hashtag.tag.toLowerCase()),
+      verified: Boolean(user?.verified),
+      url: `https://x.com/${username}/status/${tweet.id}`,
+      engagement: {
+        likes: metrics.like_count,
+        shares: (metrics.retweet_count || 0) + (metrics.quote_count || 0),
+        replies: metrics.reply_count
+      }
+    });
+  }
+}
@@ -6,7 +6,6 @@ export class GeminiService {
     this.cache = cacheService;
     this.hfToken = process.env.GEMINI_API_KEY || process.env.HUGGINGFACE_API_KEY;
     this.textModel = 'dslim/bert-base-NER'; // Hugging Face model for NER
-    this.imageModel = 'google/vit-base-patch16-224'; // Vision model for image analysis
   }
 
   async extractLocation(description) {
@@ -127,174 +126,4 @@ export class GeminiService {
 
     return filteredLocations.length > 0 ? filteredLocations[0] : null;
   }
-
-  async verifyImage(imageUrl) {
-    const cacheKey = `image_verify_${Buffer.from(imageUrl).toString('base64').substring(0, 50)}`;
-  
-    try {
-      const cached = await this.cache.get(cacheKey);
-      if (cached) {
-        logger('info', 'Image verification cache hit');
-        return cached;
-      }
-
-      // Enhanced image verification with multiple checks
-      const verificationResult = await this.performImageVerification(imageUrl);
-      
-      await this.cache.set(cacheKey, verificationResult);
-      logger('info', `Image verification completed: ${verificationResult.status}`);
-      return verificationResult;
-  
-    } catch (error) {
-      logger('error', `Image verification error: ${error.message}`);
-      return {
-        status: 'error',
-        analysis: 'Image verification failed due to technical error',
-        confidence: 0,
-        details: {
-          error: error.message,
-          timestamp: new Date().toISOString()
-        }
-      };
-    }
-  }
-
-  async performImageVerification(imageUrl) {
-    try {
-      // Basic URL validation
-      if (!this.isValidImageUrl(imageUrl)) {
-        return {
-          status: 'invalid',
-          analysis: 'Invalid image URL provided',
-          confidence: 0,
-          details: { reason: 'Invalid URL format' }
-        };
-      }
-
-      // Try to fetch and analyze the image
-      if (this.hfToken) {
-        return await this.analyzeImageWithHuggingFace(imageUrl);
-      } else {
-        return await this.analyzeImageBasic(imageUrl);
-      }
-
-    } catch (error) {
-      return {
-        status: 'error',
-        analysis: `Image analysis failed: ${error.message}`,
-        confidence: 0,
-        details: { error: error.message }
-      };
-    }
-  }
-
-  async analyzeImageWithHuggingFace(imageUrl) {
-    try {
-      // Get image as binary
-      const imageResp = await axios.get(imageUrl, { 
-        responseType: 'arraybuffer',
-        timeout: 15000,
-        headers: {
-          'User-Agent': 'DisasterResponsePlatform/1.0'
-        }
-      });
-
-      // Send to Hugging Face for analysis
-      const response = await axios.post(
-        `https://api-inference.huggingface.co/models/${this.imageModel}`,
-        imageResp.data,
-        {
-          headers: {
-            Authorization: `Bearer ${this.hfToken}`,
-            'Content-Type': 'application/octet-stream'
-          },
-          timeout: 20000
-        }
-      );
-
-      // Process the response
-      const analysis = response.data;
-      let status = 'analyzed';
-      let confidence = 0.7;
-      let analysisText = 'Image analyzed successfully';
-
-      if (Array.isArray(analysis) && analysis.length > 0) {
-        const topResult = analysis[0];
-        analysisText = `Image classification: ${topResult.label} (confidence: ${(topResult.score * 100).toFixed(1)}%)`;
-        confidence = topResult.score;
-        
-        // Check for disaster-related content
-        const disasterKeywords = ['flood', 'fire', 'damage', 'destruction', 'emergency', 'disaster'];
-        const isDisasterRelated = disasterKeywords.some(keyword => 
-          topResult.label.toLowerCase().includes(keyword)
-        );
-        
-        if (isDisasterRelated) {
-          status = 'authentic';
-          analysisText += ' - Appears to be disaster-related content';
-        }
-      }
-
-      return {
-        status,
-        analysis: analysisText,
-        confidence,
-        details: {
-          raw_analysis: analysis,
-          image_size: imageResp.data.length,
-          timestamp: new Date().toISOString()
-        }
-      };
-
-    } catch (error) {
-      throw new Error(`Hugging Face analysis failed: ${error.message}`);
-    }
-  }
-
-  async analyzeImageBasic(imageUrl) {
-    try {
-      // Basic image validation without AI
-      const response = await axios.head(imageUrl, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'DisasterResponsePlatform/1.0'
-        }
-      });
-
-      const contentType = response.headers['content-type'];
-      const contentLength = response.headers['content-length'];
-
-      if (!contentType || !contentType.startsWith('image/')) {
-        return {
-          status: 'invalid',
-          analysis: 'URL does not point to a valid image',
-          confidence: 0,
-          details: { content_type: contentType }
-        };
-      }
-
-      return {
-        status: 'basic_check',
-        analysis: `Image URL validated. Type: ${contentType}, Size: ${contentLength} bytes`,
-        confidence: 0.5,
-        details: {
-          content_type: contentType,
-          content_length: contentLength,
-          method: 'basic_validation'
-        }
-      };
-
-    } catch (error) {
-      throw new Error(`Basic image validation failed: ${error.message}`);
-    }
-  }
-
-  isValidImageUrl(url) {
-    try {
-      const urlObj = new URL(url);
-      return urlObj.protocol === 'http:' || urlObj.protocol === 'https:';
-    } catch {
-      return false;
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { ringsCenter } from './geometry.js';
+import { RESOURCE_TYPES, validateResource } from './resources.js';
+
+// GeoJSON (RFC 7946) export of a disaster with its resources and reports, and
+// bulk import of resources from a FeatureCollection such as a county's
+// shelter list. Every exported feature has a `feature_type` property so a
+// single collection can be styled by layer in GIS tools.
+
+export const MAX_IMPORT_FEATURES = 2000;
+
+function pointGeometry(row) {
+  return row.lat != null && row.lng != null ? { type: 'Point', coordinates: [row.lng, row.lat] } : null;
+}
+
+// Expects a disaster as returned by withCoordinates; the footprint wins over
+// the point when both are set
+export function disasterFeature(disaster) {
+  return {
+    type: 'Feature',
+    id: disaster.id,
+    geometry: disaster.footprint || pointGeometry(disaster),
+    properties: {
+      feature_type: 'disaster',
+      id: disaster.id,
+      title: disaster.title,
+      description: disaster.description,
+      location_name: disaster.location_name,
+      tags: disaster.tags || [],
+      severity: disaster.severity ?? null,
+      urgency: disaster.urgency ?? null,
+      certainty: disaster.certainty ?? null,
+      created_at: disaster.created_at,
+      updated_at: disaster.updated_at ?? null
+    }
+  };
+}
+
+export function resourceFeature(resource) {
+  return {
+    type: 'Feature',
+    id: resource.id,
+    geometry: pointGeometry(resource),
+    properties: {
+      feature_type: 'resource',
+      id: resource.id,
+      disaster_id: resource.disaster_id,
+      name: resource.name,
+      type: resource.type,
+      availability_status: resource.availability_status,
+      capacity: resource.capacity ?? null,
+      occupancy: resource.occupancy ?? null,
+      location_name: resource.location_name,
+      description: resource.description ?? null,
+      contact_info: resource.contact_info ?? null,
+      created_at: resource.created_at
+    }
+  };
+}
+
+// Reports made without a location have a null geometry
+export function reportFeature(report) {
+  return {
+    type: 'Feature',
+    id: report.id,
+    geometry: pointGeometry(report),
+    properties: {
+      feature_type: 'report',
+      id: report.id,
+      disaster_id: report.disaster_id,
+      user_id: report.user_id,
+      content: report.content,
+      image_url: report.image_url,
+      verification_status: report.verification_status,
+      created_at: report.created_at
+    }
+  };
+}
+
+export function featureCollection(features, metadata = {}) {
+  return { type: 'FeatureCollection', ...metadata, features };
+}
+
+// First non-empty value among property names, in order. Shapefile exports
+// often upper-case their column names, so each name is also tried that way.
+function pick(properties, names) {
+  for (const name of names) {
+    for (const key of [name, name.toUpperCase()]) {
+      const value = properties[key];
+      if (value !== undefined && value !== null && value !== '') return value;
+    }
+  }
+  return undefined;
+}
+
+function resourceType(value, defaultType) {
+  const type = String(value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return RESOURCE_TYPES.includes(type) ? type : defaultType;
+}
+
+const isPosition = value => Array.isArray(value) && value.length >= 2 && Number.isFinite(value[0]) && Number.isFinite(value[1]);
+
+// A polygon's outer ring as { lat, lng } points, or null when the polygon
+// has no valid outer ring (a closed ring has at least four positions)
+function outerRing(polygon) {
+  const ring = Array.isArray(polygon) ? polygon[0] : null;
+  if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition)) return null;
+  return ring.map(([lng, lat]) => ({ lat, lng }));
+}
+
+// Where a feature's resource goes, or null when the geometry is missing,
+// of another type or malformed
+function featurePoint(geometry) {
+  const coordinates = geometry?.coordinates;
+
+  switch (geometry?.type) {
+    case 'Point':
+      return isPosition(coordinates) ? { lng: coordinates[0], lat: coordinates[1] } : null;
+    case 'Polygon': {
+      const ring = outerRing(coordinates);
+      return ring ? ringsCenter([ring]) : null;
+    }
+    case 'MultiPolygon': {
+      const rings = Array.isArray(coordinates) ? coordinates.map(outerRing) : [];
+      return rings.length > 0 && rings.every(Boolean) ? ringsCenter(rings) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Turns the features of a GeoJSON object into resource values ready to
+// insert. Properties are matched loosely (name/title, type/category,
+// address/location_name, ...); an unknown or missing type falls back to
+// `defaultType`. Polygons are placed at their centre. Returns
+// { resources, errors } where each error names the feature index.
+export function parseResourceFeatures(geojson, { defaultType } = {}) {
+  const features = geojson?.type === 'FeatureCollection' ? geojson.features
+    : geojson?.type === 'Feature' ? [geojson]
+      : null;
+
+  if (!Array.isArray(features)) {
+    return { resources: [], errors: [{ index: null, error: 'Body must be a GeoJSON Feature or FeatureCollection' }] };
+  }
+
+  if (features.length > MAX_IMPORT_FEATURES) {
+    return { resources: [], errors: [{ index: null, error: `At most ${MAX_IMPORT_FEATURES} features can be imported at once` }] };
+  }
+
+  const resources = [];
+  const errors = [];
+
+  features.forEach((feature, index) => {
+    const properties = feature?.properties || {};
+    const point = featurePoint(feature?.geometry);
+
+    if (!point) {
+      errors.push({ index, error: 'Feature must have a valid Point, Polygon or MultiPolygon geometry' });
+      return;
+    }
+
+    const body = {
+      name: pick(properties, ['name', 'title', 'facility_name', 'site_name']),
+      type: resourceType(pick(properties, ['type', 'resource_type', 'category']), defaultType),
+      lat: point.lat,
+      lng: point.lng
+    };
+
+    const optional = {
+      location_name: pick(properties, ['location_name', 'address']),
+      description: pick(properties, ['description', 'notes']),
+      capacity: pick(properties, ['capacity']),
+      availability_status: pick(properties, ['availability_status', 'status'])
+    };
+    for (const [field, value] of Object.entries(optional)) {
+      if (value !== undefined) body[field] = typeof value === 'string' ? value.trim() : value;
+    }
+    if (typeof body.availability_status === 'string') {
+      body.availability_status = body.availability_status.toLowerCase();
+    }
+
+    const { errors: fieldErrors, values } = validateResource(body);
+    if (fieldErrors.length > 0) {
+      errors.push({ index, name: body.name ?? null, error: fieldErrors.join('; ') });
+    } else {
+      resources.push({ location_name: '', ...values });
+    }
+  });
+
+  return { resources, errors };
+}
@@ -0,0 +1,268 @@
+// Helpers for moving points in and out of PostGIS geography columns.
+// Supabase returns geography values as hex-encoded EWKB, so rows are decoded
+// here before they are sent to clients as plain lat/lng pairs.
+
+export function toPointWkt(lat, lng) {
+  return `POINT(${lng} ${lat})`;
+}
+
+// Accepts { lat, lng }, { lat, lon } or { latitude, longitude } and returns
+// a normalized { lat, lng } pair, or null when the input is not a valid point.
+export function parseCoordinates(input) {
+  if (!input || typeof input !== 'object') return null;
+
+  const lat = parseFloat(input.lat ?? input.latitude);
+  const lng = parseFloat(input.lng ?? input.lon ?? input.longitude);
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+
+  return { lat, lng };
+}
+
+// Parses `bbox=minLng,minLat,maxLng,maxLat` (the order Leaflet's
+// LatLngBounds.toBBoxString() produces). Returns null when invalid.
+export function parseBbox(value) {
+  const parts = String(value || '').split(',').map(Number);
+  if (parts.length !== 4 || !parts.every(Number.isFinite)) return null;
+
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLng >= maxLng || minLat >= maxLat) return null;
+
+  // Views wider than the world are clamped rather than rejected
+  return {
+    minLng: Math.max(minLng, -180),
+    minLat: Math.max(minLat, -90),
+    maxLng: Math.min(maxLng, 180),
+    maxLat: Math.min(maxLat, 90)
+  };
+}
+
+// Builds a MULTIPOLYGON from rings of { lat, lng } points. Rings are closed
+// automatically when their last point differs from the first.
+export function toMultiPolygonWkt(rings) {
+  const polygons = rings.map(ring => {
+    const closed = ring[0].lat === ring[ring.length - 1].lat && ring[0].lng === ring[ring.length - 1].lng
+      ? ring
+      : [...ring, ring[0]];
+    return `((${closed.map(point => `${point.lng} ${point.lat}`).join(', ')}))`;
+  });
+  return `MULTIPOLYGON(${polygons.join(', ')})`;
+}
+
+const isPosition = (position) =>
+  Array.isArray(position) && position.length >= 2 &&
+  Number.isFinite(position[0]) && Number.isFinite(position[1]) &&
+  Math.abs(position[0]) <= 180 && Math.abs(position[1]) <= 90;
+
+// A GeoJSON linear ring: at least four positions, closed
+const isRing = (ring) =>
+  Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition) &&
+  ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+
+const isPolygon = (coordinates) => Array.isArray(coordinates) && coordinates.length > 0 && coordinates.every(isRing);
+
+// Collects the polygons of a GeoJSON Polygon, MultiPolygon, Feature or
+// FeatureCollection into one MultiPolygon geometry. Returns null when the
+// input holds no polygons or any of them is malformed.
+export function toMultiPolygonGeometry(input) {
+  const polygons = [];
+
+  const collect = (value) => {
+    switch (value?.type) {
+      case 'Polygon':
+        if (!isPolygon(value.coordinates)) return false;
+        polygons.push(value.coordinates);
+        return true;
+      case 'MultiPolygon':
+        if (!Array.isArray(value.coordinates) || !value.coordinates.every(isPolygon)) return false;
+        polygons.push(...value.coordinates);
+        return true;
+      case 'Feature':
+        return collect(value.geometry);
+      case 'FeatureCollection':
+        return Array.isArray(value.features) && value.features.every(collect);
+      default:
+        return false;
+    }
+  };
+
+  if (!collect(input) || polygons.length === 0) return null;
+  return { type: 'MultiPolygon', coordinates: polygons };
+}
+
+// WKT for a GeoJSON MultiPolygon, keeping holes
+export function multiPolygonGeometryToWkt(geometry) {
+  const ring = (positions) => `(${positions.map(([lng, lat]) => `${lng} ${lat}`).join(', ')})`;
+  return `MULTIPOLYGON(${geometry.coordinates.map(polygon => `(${polygon.map(ring).join(', ')})`).join(', ')})`;
+}
+
+// Whether a { lat, lng } point lies inside a GeoJSON Polygon or MultiPolygon
+// (ray casting on lng/lat, holes excluded). Good enough for the small areas
+// disasters cover; PostGIS does the exact test for stored data.
+export function pointInArea(point, geometry) {
+  const inRing = (ring) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > point.lat) !== (yj > point.lat) &&
+        point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  };
+  const inPolygon = ([outer, ...holes]) => inRing(outer) && !holes.some(inRing);
+
+  if (geometry?.type === 'Polygon') return inPolygon(geometry.coordinates);
+  if (geometry?.type === 'MultiPolygon') return geometry.coordinates.some(inPolygon);
+  return false;
+}
+
+// Approximates a circle as a closed ring of { lat, lng } points
+export function circleToRing(center, radiusKm, segments = 32) {
+  const latRadius = radiusKm / 111.32;
+  const lngRadius = radiusKm / (111.32 * Math.cos(center.lat * Math.PI / 180));
+  const ring = [];
+
+  for (let i = 0; i < segments; i++) {
+    const angle = (2 * Math.PI * i) / segments;
+    ring.push({ lat: center.lat + latRadius * Math.sin(angle), lng: center.lng + lngRadius * Math.cos(angle) });
+  }
+
+  return [...ring, ring[0]];
+}
+
+// Rough centre of closed rings: the mean of each ring's vertex average, so a
+// finely segmented circle does not outweigh a simple polygon
+export function ringsCenter(rings) {
+  const centers = rings.map(ring => {
+    const points = ring.length > 1 ? ring.slice(0, -1) : ring;
+    return {
+      lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+      lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length
+    };
+  });
+
+  return {
+    lat: centers.reduce((sum, center) => sum + center.lat, 0) / centers.length,
+    lng: centers.reduce((sum, center) => sum + center.lng, 0) / centers.length
+  };
+}
+
+export function decodePoint(value) {
+  const geometry = decodeGeometry(value);
+  if (geometry?.type !== 'Point') return null;
+  return { lat: geometry.coordinates[1], lng: geometry.coordinates[0] };
+}
+
+// Decodes a geography value into a GeoJSON geometry. Accepts GeoJSON, WKT
+// points and hex EWKB (points, lines, polygons and their multi variants).
+export function decodeGeometry(value) {
+  if (!value) return null;
+
+  // GeoJSON (returned by some PostgREST versions and by ST_AsGeoJSON)
+  if (typeof value === 'object') {
+    return typeof value.type === 'string' && Array.isArray(value.coordinates) ? value : null;
+  }
+
+  if (typeof value !== 'string') return null;
+
+  // WKT, optionally prefixed with an SRID
+  const wkt = value.match(/POINT\s*\(\s*(-?[\d.]+)\s+(-?[\d.]+)\s*\)/i);
+  if (wkt) {
+    return { type: 'Point', coordinates: [parseFloat(wkt[1]), parseFloat(wkt[2])] };
+  }
+
+  if (!/^[0-9a-fA-F]+$/.test(value) || value.length < 18) return null;
+
+  try {
+    return readEwkb(Buffer.from(value, 'hex'), { offset: 0 });
+  } catch {
+    return null;
+  }
+}
+
+const EWKB_TYPES = {
+  1: 'Point',
+  2: 'LineString',
+  3: 'Polygon',
+  4: 'MultiPoint',
+  5: 'MultiLineString',
+  6: 'MultiPolygon'
+};
+
+function readEwkb(buffer, cursor) {
+  const littleEndian = buffer.readUInt8(cursor.offset) === 1;
+  cursor.offset += 1;
+
+  const readUInt32 = () => {
+    const value = littleEndian ? buffer.readUInt32LE(cursor.offset) : buffer.readUInt32BE(cursor.offset);
+    cursor.offset += 4;
+    return value;
+  };
+  const readDouble = () => {
+    const value = littleEndian ? buffer.readDoubleLE(cursor.offset) : buffer.readDoubleBE(cursor.offset);
+    cursor.offset += 8;
+    return value;
+  };
+
+  const typeWithFlags = readUInt32();
+  const type = EWKB_TYPES[typeWithFlags & 0xff];
+  const dimensions = 2 + ((typeWithFlags & 0x80000000) ? 1 : 0) + ((typeWithFlags & 0x40000000) ? 1 : 0);
+  if (typeWithFlags & 0x20000000) readUInt32(); // SRID
+  if (!type) return null;
+
+  const readPosition = () => {
+    const position = [];
+    for (let i = 0; i < dimensions; i++) position.push(readDouble());
+    return position.slice(0, 2);
+  };
+  const readPositions = () => Array.from({ length: readUInt32() }, readPosition);
+
+  switch (type) {
+    case 'Point':
+      return { type, coordinates: readPosition() };
+    case 'LineString':
+      return { type, coordinates: readPositions() };
+    case 'Polygon':
+      return { type, coordinates: Array.from({ length: readUInt32() }, readPositions) };
+    default:
+      // Multi geometries hold complete geometries, each with its own header
+      return {
+        type,
+        coordinates: Array.from({ length: readUInt32() }, () => readEwkb(buffer, cursor).coordinates)
+      };
+  }
+}
+
+// Great-circle distance between two { lat, lng } points in kilometres
+export function distanceKm(a, b) {
+  const toRadians = (degrees) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// Replaces the raw `location` column of a row with `lat`/`lng` fields, and a
+// raw `footprint` column with its GeoJSON geometry.
+export function withCoordinates(row) {
+  if (!row) return row;
+
+  const { location, ...rest } = row;
+  const point = decodePoint(location);
+
+  if ('footprint' in rest) {
+    rest.footprint = decodeGeometry(rest.footprint);
+  }
+
+  return {
+    ...rest,
+    lat: rest.lat ?? point?.lat ?? null,
+    lng: rest.lng ?? point?.lng ?? null
+  };
+}
@@ -0,0 +1,368 @@
+import axios from 'axios';
+import sharp from 'sharp';
+import { config } from '../config/config.js';
+import { logger } from '../middleware/middleware.js';
+import { createPublicAgents, publicUrlProblem } from './channels/webhook.js';
+import { distanceKm, pointInArea } from './geometry.js';
+import { readExif } from './uploads.js';
+
+// Image verification as a set of independent checks combined into one
+// weighted score. Each check scores 0 (points to a fake or reused image) to 1
+// (consistent with an authentic photo of this disaster) and says why; checks
+// that cannot run (no EXIF, not a JPEG, no classifier) are skipped and do not
+// count. The score maps onto the report's verification_status.
+//
+// None of these checks proves anything on its own: EXIF can be edited or
+// stripped, and error-level analysis is a coarse signal. They are meant to
+// sort reports for a human reviewer, with the reasons shown.
+
+const CHECK_WEIGHTS = {
+  capture_time: 2,
+  capture_location: 2,
+  reuse: 3,
+  error_level: 1,
+  content: 1
+};
+
+// Score bounds for each status
+const AUTHENTIC_MIN_SCORE = 0.7;
+const MANIPULATED_MAX_SCORE = 0.35;
+
+// Disasters are often recorded some time after they start
+const START_GRACE_HOURS = 48;
+const OLD_PHOTO_DAYS = 7;
+const NEAR_DISASTER_KM = 50;
+const NEAR_FOOTPRINT_KM = 25;
+const FAR_DISASTER_KM = 150;
+
+// Hamming distance between perceptual hashes still treated as the same picture
+const SAME_IMAGE_DISTANCE = 10;
+
+const ELA_QUALITY = 90;
+const ELA_GRID = 8;
+const ELA_MAX_PIXELS = 25_000_000;
+// Long edge the difference image is scaled down to before it is scanned
+const ELA_MAX_EDGE = 1024;
+
+const DISASTER_LABELS = ['flood', 'fire', 'smoke', 'storm', 'tornado', 'wreck', 'rubble', 'damage', 'destruction', 'debris', 'volcano', 'landslide', 'ambulance', 'fireboat', 'lifeboat'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function check(name, status, score, detail, data = {}) {
+  return { name, status, score, weight: CHECK_WEIGHTS[name], detail, ...data };
+}
+
+const skipped = (name, detail) => check(name, 'skipped', null, detail);
+
+// Capture time against the disaster's start (its creation time)
+export function checkCaptureTime(capturedAt, disaster, now = new Date()) {
+  if (!capturedAt) return skipped('capture_time', 'The image has no capture time');
+
+  const captured = new Date(capturedAt);
+  const start = new Date(disaster.created_at);
+  const data = { captured_at: capturedAt, disaster_start: disaster.created_at };
+
+  if (captured.getTime() > now.getTime() + HOUR_MS) {
+    return check('capture_time', 'fail', 0, 'Capture time is in the future', data);
+  }
+
+  const hoursBefore = (start.getTime() - captured.getTime()) / HOUR_MS;
+  if (hoursBefore <= START_GRACE_HOURS) {
+    return check('capture_time', 'pass', 1, 'Taken after the disaster started', data);
+  }
+  if (hoursBefore <= OLD_PHOTO_DAYS * 24) {
+    return check('capture_time', 'warn', 0.4, `Taken ${Math.round(hoursBefore / 24)} day(s) before the disaster was reported`, data);
+  }
+  return check('capture_time', 'fail', 0, `Taken ${Math.round(hoursBefore / 24)} days before the disaster was reported`, data);
+}
+
+// EXIF GPS position against the disaster's footprint, or its point
+export function checkCaptureLocation(point, disaster) {
+  if (!point) return skipped('capture_location', 'The image has no GPS position');
+
+  const center = disaster.lat != null && disaster.lng != null ? { lat: disaster.lat, lng: disaster.lng } : null;
+  const distance = center ? Math.round(distanceKm(point, center) * 10) / 10 : null;
+  const data = { lat: point.lat, lng: point.lng, distance_km: distance };
+
+  if (disaster.footprint) {
+    if (pointInArea(point, disaster.footprint)) {
+      return check('capture_location', 'pass', 1, 'Taken inside the affected area', data);
+    }
+    if (distance !== null && distance <= NEAR_FOOTPRINT_KM) {
+      return check('capture_location', 'warn', 0.6, `Taken outside the affected area, ${distance} km from its centre`, data);
+    }
+    return check('capture_location', 'fail', 0, 'Taken far from the affected area', data);
+  }
+
+  if (distance === null) return skipped('capture_location', 'The disaster has no location');
+
+  if (distance <= NEAR_DISASTER_KM) {
+    return check('capture_location', 'pass', 1, `Taken ${distance} km from the disaster`, data);
+  }
+  if (distance <= FAR_DISASTER_KM) {
+    return check('capture_location', 'warn', 0.5, `Taken ${distance} km from the disaster`, data);
+  }
+  return check('capture_location', 'fail', 0, `Taken ${distance} km from the disaster`, data);
+}
+
+// 64-bit DCT perceptual hash as a string of 0s and 1s. Survives resizing and
+// recompression, so a photo re-shared from elsewhere still matches.
+export async function perceptualHash(buffer) {
+  const size = 32;
+  const { data } = await sharp(buffer)
+    .rotate()
+    .greyscale()
+    .resize(size, size, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const cosines = Array.from({ length: 8 }, (_, u) =>
+    Array.from({ length: size }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size))));
+
+  const coefficients = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          sum += data[y * size + x] * cosines[u][x] * cosines[v][y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is the overall brightness and would skew the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  return coefficients.map(value => (value > median ? '1' : '0')).join('');
+}
+
+// Earlier images with a similar hash, from the image_fingerprints table
+export async function checkReuse(supabase, hash, disaster, reportId) {
+  const { data, error } = await supabase.rpc('find_similar_images', {
+    target_hash: hash,
+    max_distance: SAME_IMAGE_DISTANCE,
+    exclude_report_id: reportId
+  });
+
+  if (error) {
+    logger('error', `Image reuse lookup error: ${error.message}`);
+    return skipped('reuse', 'Previously seen images could not be searched');
+  }
+
+  if (!data || data.length === 0) {
+    return check('reuse', 'pass', 1, 'Not seen in earlier reports');
+  }
+
+  const [match] = data;
+  const matchData = {
+    matches: data.map(({ report_id, disaster_id, distance, seen_at }) => ({ report_id, disaster_id, distance, seen_at }))
+  };
+  const seenBeforeStart = new Date(match.seen_at).getTime() < new Date(disaster.created_at).getTime() - START_GRACE_HOURS * HOUR_MS;
+
+  if (match.disaster_id !== disaster.id || seenBeforeStart) {
+    return check('reuse', 'fail', 0, seenBeforeStart
+      ? 'The same image was submitted before this disaster started'
+      : 'The same image was submitted for another disaster', matchData);
+  }
+  return check('reuse', 'warn', 0.5, 'The same image was already submitted for this disaster', matchData);
+}
+
+// Error-level analysis: re-saves the JPEG at a known quality and compares.
+// An untouched photo changes about evenly everywhere; a pasted-in region
+// that was compressed differently stands out. The score compares the
+// brightest block of the difference with the typical one. libvips takes the
+// difference at full size; only the result, scaled down to ELA_MAX_EDGE, is
+// scanned here, so large photos do not hold up the event loop.
+export async function checkErrorLevel(buffer, info) {
+  if (info.format !== 'jpeg') {
+    return skipped('error_level', 'Error-level analysis only applies to JPEG images');
+  }
+  if (info.width * info.height > ELA_MAX_PIXELS) {
+    return skipped('error_level', 'Image is too large for error-level analysis');
+  }
+
+  const original = await sharp(buffer).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const resaved = await sharp(original.data, { raw: original.info }).jpeg({ quality: ELA_QUALITY }).toBuffer();
+  const difference = await sharp(original.data, { raw: original.info })
+    .composite([{ input: resaved, blend: 'difference' }])
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { data: scaled, info: { width, height, channels } } = await sharp(difference.data, { raw: difference.info })
+    .resize({ width: ELA_MAX_EDGE, height: ELA_MAX_EDGE, fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const blockWidth = Math.ceil(width / ELA_GRID);
+  const blockHeight = Math.ceil(height / ELA_GRID);
+  const sums = new Float64Array(ELA_GRID * ELA_GRID);
+  const counts = new Uint32Array(ELA_GRID * ELA_GRID);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / blockHeight) * ELA_GRID;
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * channels;
+      let level = 0;
+      for (let c = 0; c < channels; c++) {
+        level = Math.max(level, scaled[offset + c]);
+      }
+      const block = row + Math.floor(x / blockWidth);
+      sums[block] += level;
+      counts[block]++;
+    }
+  }
+
+  const means = Array.from(sums, (sum, i) => (counts[i] ? sum / counts[i] : 0)).filter((_, i) => counts[i]);
+  const sorted = [...means].sort((a, b) => a - b);
+  const median = Math.max(sorted[Math.floor(sorted.length / 2)], 0.5);
+  const ratio = Math.round((sorted[sorted.length - 1] / median) * 10) / 10;
+  const data = { max_to_median_ratio: ratio };
+
+  if (ratio < 3) return check('error_level', 'pass', 1, 'Compression is even across the image', data);
+  if (ratio < 6) return check('error_level', 'warn', 0.5, 'Some regions compress differently from the rest', data);
+  return check('error_level', 'fail', 0.1, 'One region compresses very differently, a sign of editing', data);
+}
+
+// Optional image classifier on the Hugging Face inference API. It only says
+// whether the picture shows disaster-like content, so it weighs little.
+export async function checkContent(buffer) {
+  const token = config.verification.classifierToken;
+  if (!token) return skipped('content', 'No image classifier is configured');
+
+  try {
+    const response = await axios.post(
+      `https://api-inference.huggingface.co/models/${config.verification.classifierModel}`,
+      buffer,
+      {
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/octet-stream' },
+        timeout: 20000
+      }
+    );
+
+    const labels = Array.isArray(response.data) ? response.data.slice(0, 5) : [];
+    const data = { labels: labels.map(({ label, score }) => ({ label, score })) };
+    const related = labels.find(({ label }) => DISASTER_LABELS.some(word => label.toLowerCase().includes(word)));
+
+    return related
+      ? check('content', 'pass', 0.9, `Shows ${related.label}`, data)
+      : check('content', 'warn', 0.5, 'No disaster-related content recognised', data);
+  } catch (error) {
+    logger('warn', `Image classifier error: ${error.message}`);
+    return skipped('content', 'The image classifier is unavailable');
+  }
+}
+
+export function statusForScore(score) {
+  if (score === null) return 'pending';
+  if (score >= AUTHENTIC_MIN_SCORE) return 'authentic';
+  if (score <= MANIPULATED_MAX_SCORE) return 'manipulated';
+  return 'suspicious';
+}
+
+function summarize(status, score, checks) {
+  if (score === null) return 'No verification check could be run on this image';
+
+  const concerns = checks.filter(c => c.status === 'fail' || c.status === 'warn').map(c => c.detail);
+  return `${status} (score ${score.toFixed(2)})${concerns.length ? `: ${concerns.join('; ')}` : ': no concerns found'}`;
+}
+
+// Runs every check on an image for `disaster` (as returned by
+// withCoordinates). `exif` may be passed when it was read before the image
+// lost its metadata. Returns { status, score, analysis, phash } where
+// analysis is stored in reports.verification_analysis.
+export async function verifyImage({ supabase, buffer, disaster, reportId, exif }) {
+  let info;
+  try {
+    info = await sharp(buffer).metadata();
+  } catch {
+    return {
+      status: 'error',
+      score: null,
+      phash: null,
+      analysis: { summary: 'File is not a readable image', checks: [], verified_at: new Date().toISOString() }
+    };
+  }
+
+  const metadata = exif || await readExif(buffer);
+  const phash = await perceptualHash(buffer);
+
+  const checks = await Promise.all([
+    checkCaptureTime(metadata.captured_at, disaster),
+    checkCaptureLocation(metadata.point, disaster),
+    checkReuse(supabase, phash, disaster, reportId),
+    checkErrorLevel(buffer, info).catch(error => skipped('error_level', `Error-level analysis failed: ${error.message}`)),
+    checkContent(buffer)
+  ]);
+
+  const counted = checks.filter(c => c.score !== null);
+  const totalWeight = counted.reduce((sum, c) => sum + c.weight, 0);
+  const score = totalWeight > 0
+    ? Math.round((counted.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight) * 100) / 100
+    : null;
+  const status = statusForScore(score);
+
+  logger('info', `Image verification for report ${reportId}: ${status} (${score ?? 'no score'})`);
+
+  return {
+    status,
+    score,
+    phash,
+    analysis: {
+      summary: summarize(status, score, checks),
+      score,
+      checks,
+      verified_at: new Date().toISOString()
+    }
+  };
+}
+
+// The URL comes from the reporter, so images are only fetched from public
+// addresses (checked again when the host is resolved to connect) and
+// redirects are not followed
+const imageAgents = createPublicAgents();
+
+// Downloads an image to verify; refuses anything that is not an image or is
+// larger than uploads may be. Connection failures are not described, so the
+// errors say nothing about what answered where.
+export async function fetchImage(imageUrl) {
+  const problem = publicUrlProblem(imageUrl, { allowHttp: true });
+  if (problem) throw new Error(`Image URL ${problem}`);
+
+  let response;
+  try {
+    response = await axios.get(imageUrl, {
+      responseType: 'arraybuffer',
+      timeout: 15000,
+      maxContentLength: config.uploads.maxFileSizeMb * 1024 * 1024,
+      maxRedirects: 0,
+      proxy: false,
+      ...imageAgents,
+      headers: { 'User-Agent': 'DisasterResponsePlatform/1.0' }
+    });
+  } catch (error) {
+    if (error.code === 'ENOTPUBLIC') throw new Error('Image URL must not point to a private or local address');
+    throw new Error(error.response ? `Image server answered ${error.response.status}` : 'Image could not be downloaded');
+  }
+
+  const contentType = response.headers['content-type'] || '';
+  if (!contentType.startsWith('image/')) {
+    throw new Error(`URL does not point to an image (${contentType || 'unknown type'})`);
+  }
+
+  return Buffer.from(response.data);
+}
+
+// Remembers an image's hash so later reports reusing it are caught
+export async function recordFingerprint(supabase, { reportId, disasterId, phash, imageUrl }) {
+  if (!phash) return;
+
+  const { error } = await supabase
+    .from('image_fingerprints')
+    .insert([{ report_id: reportId, disaster_id: disasterId, phash, image_url: imageUrl }]);
+
+  if (error) {
+    logger('error', `Image fingerprint error: ${error.message}`);
+  }
+}
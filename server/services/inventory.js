@@ -0,0 +1,382 @@
+import { validate as isUuid } from 'uuid';
+
+// Item catalogue, stock held at resources and the ledger of every movement
+// (see the inventory migration). Stock only changes through the Postgres
+// functions, which lock the stock row and write the ledger in the same
+// transaction.
+
+export const ITEM_CATEGORIES = ['food', 'water', 'medical', 'hygiene', 'bedding', 'clothing', 'fuel', 'equipment', 'other'];
+
+// Movements that can be recorded directly; transfers and shipments have their
+// own endpoints
+export const MOVEMENT_KINDS = ['receipt', 'consumption', 'adjustment'];
+export const LEDGER_KINDS = [...MOVEMENT_KINDS, 'transfer_out', 'transfer_in'];
+export const SHIPMENT_STATUSES = ['in_transit', 'received', 'cancelled'];
+
+// Stock expiring within this many days is flagged
+const EXPIRY_WARNING_DAYS = 7;
+const MAX_SHIPMENT_LINES = 100;
+
+const STOCK_SELECT = '*, item:inventory_items(id, name, category, unit), resource:resources!inner(id, name, type, disaster_id)';
+
+function positiveQuantity(value, name, errors) {
+  const quantity = Number(value);
+  if (value === null || value === '' || !Number.isFinite(quantity) || quantity <= 0) {
+    errors.push(`${name} must be a positive number`);
+    return null;
+  }
+  return quantity;
+}
+
+function optionalDate(value, name, errors) {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    errors.push(`${name} must be a date`);
+    return null;
+  }
+  return date.toISOString();
+}
+
+// Validates a catalogue item. Returns { errors, values }.
+export function validateItem(body) {
+  const errors = [];
+  const values = {};
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    errors.push('name is required');
+  } else {
+    values.name = body.name.trim();
+  }
+
+  if (body.category !== undefined) {
+    if (!ITEM_CATEGORIES.includes(body.category)) {
+      errors.push(`category must be one of ${ITEM_CATEGORIES.join(', ')}`);
+    } else {
+      values.category = body.category;
+    }
+  }
+
+  if (body.unit !== undefined) {
+    if (typeof body.unit !== 'string' || !body.unit.trim()) {
+      errors.push('unit must be a name such as each, box or litre');
+    } else {
+      values.unit = body.unit.trim();
+    }
+  }
+
+  if (body.description !== undefined) {
+    values.description = body.description ? String(body.description) : null;
+  }
+
+  return { errors, values };
+}
+
+// Validates a stock movement. `receipt` and `consumption` take a positive
+// `quantity`; `adjustment` takes the `counted` amount on hand and a `note`
+// saying why it differs. Returns { errors, values }.
+export function validateMovement(body) {
+  const errors = [];
+  const values = { kind: body.kind, note: body.note ? String(body.note).trim() : null };
+
+  if (!MOVEMENT_KINDS.includes(body.kind)) {
+    errors.push(`kind must be one of ${MOVEMENT_KINDS.join(', ')}`);
+    return { errors, values };
+  }
+
+  if (body.kind === 'adjustment') {
+    const counted = Number(body.counted);
+    if (body.counted === null || body.counted === '' || !Number.isFinite(counted) || counted < 0) {
+      errors.push('counted must be the amount on hand');
+    } else {
+      values.counted = counted;
+    }
+    if (!values.note) {
+      errors.push('note is required for an adjustment');
+    }
+  } else {
+    const quantity = positiveQuantity(body.quantity, 'quantity', errors);
+    values.delta = body.kind === 'consumption' ? -quantity : quantity;
+  }
+
+  if (body.kind === 'receipt') {
+    values.expires_at = optionalDate(body.expires_at, 'expires_at', errors);
+  } else if (body.expires_at !== undefined) {
+    errors.push('expires_at can only be given for a receipt');
+  }
+
+  return { errors, values };
+}
+
+// Validates an inbound shipment. Returns { errors, values }.
+export function validateShipment(body) {
+  const errors = [];
+  const values = {};
+
+  if (!isUuid(String(body.resource_id ?? ''))) {
+    errors.push('resource_id must be a resource id');
+  } else {
+    values.resource_id = String(body.resource_id);
+  }
+
+  if (body.origin !== undefined) {
+    values.origin = body.origin ? String(body.origin).trim() : null;
+  }
+
+  values.expected_at = optionalDate(body.expected_at, 'expected_at', errors);
+
+  if (!Array.isArray(body.items) || body.items.length === 0 || body.items.length > MAX_SHIPMENT_LINES) {
+    errors.push(`items must list 1 to ${MAX_SHIPMENT_LINES} lines`);
+  } else {
+    values.items = body.items.map((line, index) => {
+      if (!isUuid(String(line?.item_id ?? ''))) {
+        errors.push(`items[${index}].item_id must be an item id`);
+      }
+      return {
+        item_id: String(line?.item_id),
+        quantity: positiveQuantity(line?.quantity, `items[${index}].quantity`, errors),
+        expires_at: optionalDate(line?.expires_at, `items[${index}].expires_at`, errors)
+      };
+    });
+  }
+
+  return { errors, values };
+}
+
+export function isLowStock(stock) {
+  return stock.low_stock_threshold != null && Number(stock.quantity) <= Number(stock.low_stock_threshold);
+}
+
+// Stock row with flags for the board
+function presentStock(row, now = Date.now()) {
+  const expiresAt = row.expires_at ? new Date(row.expires_at).getTime() : null;
+
+  return {
+    ...row,
+    quantity: Number(row.quantity),
+    low_stock_threshold: row.low_stock_threshold == null ? null : Number(row.low_stock_threshold),
+    low_stock: isLowStock(row),
+    expiring: expiresAt !== null && expiresAt - now <= EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000
+  };
+}
+
+export class InventoryService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  async listItems() {
+    const { data, error } = await this.supabase
+      .from('inventory_items')
+      .select('*')
+      .order('name');
+
+    if (error) throw new Error(`Item lookup failed: ${error.message}`);
+    return data;
+  }
+
+  // Returns { item } or { error, status } when the name is taken
+  async createItem(values, userId) {
+    const { data, error } = await this.supabase
+      .from('inventory_items')
+      .insert([{ ...values, created_by: userId }])
+      .select()
+      .single();
+
+    if (error?.code === '23505') {
+      return { error: `An item named ${values.name} already exists`, status: 409 };
+    }
+    if (error) throw new Error(`Item could not be created: ${error.message}`);
+    return { item: data };
+  }
+
+  async getItem(itemId) {
+    if (!isUuid(String(itemId))) return null;
+
+    const { data, error } = await this.supabase
+      .from('inventory_items')
+      .select('*')
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Item lookup failed: ${error.message}`);
+    return data;
+  }
+
+  // Stock at the disaster's resources, by resource then item name
+  async listStock(disasterId, { resourceId = null, lowOnly = false } = {}) {
+    let query = this.supabase
+      .from('resource_stock')
+      .select(STOCK_SELECT)
+      .eq('resource.disaster_id', disasterId);
+
+    if (resourceId) query = query.eq('resource_id', resourceId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Stock lookup failed: ${error.message}`);
+
+    return data
+      .map(row => presentStock(row))
+      .filter(stock => !lowOnly || stock.low_stock)
+      .sort((a, b) => a.resource.name.localeCompare(b.resource.name) || a.item.name.localeCompare(b.item.name));
+  }
+
+  async getStock(resourceId, itemId) {
+    const { data, error } = await this.supabase
+      .from('resource_stock')
+      .select(STOCK_SELECT)
+      .eq('resource_id', resourceId)
+      .eq('item_id', itemId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Stock lookup failed: ${error.message}`);
+    return data ? presentStock(data) : null;
+  }
+
+  async setThreshold(resourceId, itemId, threshold) {
+    const { error } = await this.supabase
+      .from('resource_stock')
+      .upsert({ resource_id: resourceId, item_id: itemId, low_stock_threshold: threshold }, { onConflict: 'resource_id,item_id' });
+
+    if (error) throw new Error(`Threshold could not be saved: ${error.message}`);
+    return this.getStock(resourceId, itemId);
+  }
+
+  // Records a movement. Returns { entry, stock } or { error, status } when it
+  // would take the stock below zero.
+  async move(resourceId, itemId, values, userId) {
+    const { data, error } = await this.supabase.rpc('record_stock_movement', {
+      target_resource_id: resourceId,
+      target_item_id: itemId,
+      movement_kind: values.kind,
+      delta: values.delta ?? null,
+      counted: values.counted ?? null,
+      actor: String(userId),
+      movement_note: values.note,
+      expiry: values.expires_at ?? null
+    });
+    if (error) throw new Error(`Stock movement failed: ${error.message}`);
+
+    if (!data || data.length === 0) {
+      const current = await this.getStock(resourceId, itemId);
+      return { error: `Only ${current?.quantity ?? 0} in stock`, status: 409 };
+    }
+
+    return { entry: data[0], stock: await this.getStock(resourceId, itemId) };
+  }
+
+  // Moves stock between two resources. Returns { entries, stocks } (source
+  // first) or { error, status } when the source does not hold that much.
+  async transfer(sourceId, destinationId, itemId, quantity, note, userId) {
+    const { data, error } = await this.supabase.rpc('transfer_stock', {
+      source_resource_id: sourceId,
+      destination_resource_id: destinationId,
+      target_item_id: itemId,
+      amount: quantity,
+      actor: String(userId),
+      movement_note: note
+    });
+    if (error) throw new Error(`Stock transfer failed: ${error.message}`);
+
+    if (!data || data.length === 0) {
+      const current = await this.getStock(sourceId, itemId);
+      return { error: `Only ${current?.quantity ?? 0} in stock at the source`, status: 409 };
+    }
+
+    const stocks = await Promise.all([this.getStock(sourceId, itemId), this.getStock(destinationId, itemId)]);
+    return { entries: data, stocks };
+  }
+
+  // Ledger of the disaster, newest first
+  async ledger(disasterId, { resourceId = null, itemId = null, kinds = [], limit = 50, offset = 0 } = {}) {
+    let query = this.supabase
+      .from('inventory_transactions')
+      .select('*, item:inventory_items(name, unit)', { count: 'exact' })
+      .eq('disaster_id', disasterId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (resourceId) query = query.eq('resource_id', resourceId);
+    if (itemId) query = query.eq('item_id', itemId);
+    if (kinds.length > 0) query = query.in('kind', kinds);
+
+    const { data, error, count } = await query;
+    if (error) throw new Error(`Ledger lookup failed: ${error.message}`);
+
+    return {
+      total: count ?? data.length,
+      entries: data.map(entry => ({
+        ...entry,
+        quantity: Number(entry.quantity),
+        balance_after: Number(entry.balance_after)
+      }))
+    };
+  }
+
+  async listShipments(disasterId, { statuses = [] } = {}) {
+    let query = this.supabase
+      .from('inventory_shipments')
+      .select('*, resource:resources(name)')
+      .eq('disaster_id', disasterId)
+      .order('expected_at', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: false });
+
+    if (statuses.length > 0) query = query.in('status', statuses);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Shipment lookup failed: ${error.message}`);
+    return data;
+  }
+
+  async getShipment(disasterId, shipmentId) {
+    if (!isUuid(String(shipmentId))) return null;
+
+    const { data, error } = await this.supabase
+      .from('inventory_shipments')
+      .select('*, resource:resources(name)')
+      .eq('id', shipmentId)
+      .eq('disaster_id', disasterId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Shipment lookup failed: ${error.message}`);
+    return data;
+  }
+
+  async createShipment(disasterId, values, userId) {
+    const { data, error } = await this.supabase
+      .from('inventory_shipments')
+      .insert([{ disaster_id: disasterId, ...values, created_by: userId }])
+      .select('id')
+      .single();
+
+    if (error) throw new Error(`Shipment could not be recorded: ${error.message}`);
+    return this.getShipment(disasterId, data.id);
+  }
+
+  // Books an in-transit shipment into stock. Returns the shipment, or null
+  // when it is no longer in transit.
+  async receiveShipment(shipment, userId) {
+    const { data, error } = await this.supabase.rpc('receive_shipment', {
+      target_shipment_id: shipment.id,
+      actor: String(userId)
+    });
+    if (error) throw new Error(`Shipment could not be received: ${error.message}`);
+
+    if (!data || data.length === 0) return null;
+    return this.getShipment(shipment.disaster_id, shipment.id);
+  }
+
+  async cancelShipment(shipment) {
+    const { data, error } = await this.supabase
+      .from('inventory_shipments')
+      .update({ status: 'cancelled' })
+      .eq('id', shipment.id)
+      .eq('status', 'in_transit')
+      .select('id');
+
+    if (error) throw new Error(`Shipment could not be cancelled: ${error.message}`);
+    if (data.length === 0) return null;
+    return this.getShipment(shipment.disaster_id, shipment.id);
+  }
+}
@@ -0,0 +1,56 @@
+// Disaster lifecycle. A disaster is reported, becomes active once responders
+// confirm it, is contained, moves into recovery and is eventually closed and
+// archived. Each status lists the ones it may move to; a closed disaster can
+// be reopened if it flares up again.
+export const TRANSITIONS = {
+  reported: ['active', 'closed'],
+  active: ['contained', 'closed'],
+  contained: ['active', 'recovery'],
+  recovery: ['contained', 'closed'],
+  closed: ['active', 'archived'],
+  archived: ['closed']
+};
+
+export const DISASTER_STATUSES = Object.keys(TRANSITIONS);
+
+// Statuses left out of lists unless archived disasters are asked for
+export const ARCHIVED_STATUSES = ['archived'];
+
+// Statuses that no longer take new reports or resources
+export const READ_ONLY_STATUSES = ['archived'];
+
+// Statuses whose feeds are no longer polled
+export const DORMANT_STATUSES = ['closed', 'archived'];
+
+// Validates a status change body against the disaster's current status.
+// Returns { errors, values }.
+export function validateTransition(current, body) {
+  const errors = [];
+  const values = {};
+
+  if (!DISASTER_STATUSES.includes(body.status)) {
+    errors.push(`status must be one of ${DISASTER_STATUSES.join(', ')}`);
+  } else if (body.status === current) {
+    errors.push(`Disaster is already ${current}`);
+  } else if (!TRANSITIONS[current]?.includes(body.status)) {
+    errors.push(`A disaster that is ${current} can only move to ${TRANSITIONS[current].join(' or ')}`);
+  } else {
+    values.status = body.status;
+  }
+
+  const note = typeof body.note === 'string' ? body.note.trim() : '';
+  values.status_note = note || null;
+
+  return { errors, values };
+}
+
+// Parses a comma-separated status filter. Returns { errors, statuses }.
+export function parseStatusFilter(value) {
+  const statuses = String(value).split(',').map(status => status.trim()).filter(Boolean);
+  const invalid = statuses.filter(status => !DISASTER_STATUSES.includes(status));
+
+  return {
+    errors: invalid.length > 0 ? [`status must be one of ${DISASTER_STATUSES.join(', ')}`] : [],
+    statuses
+  };
+}
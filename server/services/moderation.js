@@ -0,0 +1,164 @@
+import { logger } from '../middleware/middleware.js';
+import { audited } from './audit.js';
+import { withCoordinates } from './geometry.js';
+
+// Reviewer decisions and what each does to the report. Approving or rejecting
+// settles verification_status; a duplicate keeps the automated verdict and an
+// escalation leaves the report in the queue for an incident commander.
+export const DECISIONS = {
+  approve: { moderation_status: 'approved', verification_status: 'authentic' },
+  reject: { moderation_status: 'rejected', verification_status: 'manipulated' },
+  duplicate: { moderation_status: 'duplicate' },
+  escalate: { moderation_status: 'escalated' }
+};
+
+// Only these roles may decide on an escalated report
+const ESCALATION_ROLES = ['admin', 'incident_commander'];
+
+// Decisions that must say why
+const NOTE_REQUIRED = ['reject', 'escalate'];
+
+// Validates a review body. Returns { errors, values }.
+export function validateReview(body) {
+  const errors = [];
+  const values = {};
+
+  if (!DECISIONS[body.decision]) {
+    errors.push(`decision must be one of ${Object.keys(DECISIONS).join(', ')}`);
+  } else {
+    values.decision = body.decision;
+  }
+
+  const note = typeof body.note === 'string' ? body.note.trim() : '';
+  if (NOTE_REQUIRED.includes(body.decision) && !note) {
+    errors.push(`A note is required to ${body.decision} a report`);
+  }
+  values.note = note || null;
+
+  if (body.decision === 'duplicate') {
+    if (!body.duplicate_of) {
+      errors.push('duplicate_of is required to mark a report as duplicate');
+    } else {
+      values.duplicate_of = String(body.duplicate_of);
+    }
+  }
+
+  return { errors, values };
+}
+
+export class ModerationService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  // Reports waiting for a reviewer, most urgent first: escalated, then by
+  // priority and triage score, suspicious before pending, and the
+  // longest-waiting first (see the moderation_queue function). Without a
+  // disaster the queue covers every disaster that has not been deleted.
+  async getQueue({ disasterId, limit = 50, offset = 0 } = {}) {
+    const target = { target_disaster_id: disasterId || null };
+    const [page, size] = await Promise.all([
+      this.supabase.rpc('moderation_queue', { ...target, result_limit: limit, result_offset: offset }),
+      this.supabase.rpc('moderation_queue_size', target)
+    ]);
+
+    const failed = page.error || size.error;
+    if (failed) throw new Error(`Moderation queue lookup failed: ${failed.message}`);
+
+    return {
+      reports: page.data.map(withCoordinates),
+      total: Number(size.data)
+    };
+  }
+
+  async getReviews(reportId) {
+    const { data, error } = await this.supabase
+      .from('report_reviews')
+      .select('*')
+      .eq('report_id', reportId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Review history lookup failed: ${error.message}`);
+    return data;
+  }
+
+  // Applies a validated decision to `report` and records it. Returns
+  // { report, review } or { error, status }. Nobody reviews their own report,
+  // and escalated reports are left to `ESCALATION_ROLES`.
+  async review(report, { decision, note, duplicate_of }, reviewerId, reviewerRoles = []) {
+    if (report.user_id === reviewerId) {
+      return { error: 'You cannot review your own report', status: 403 };
+    }
+
+    if (report.moderation_status === 'escalated' && !reviewerRoles.some(role => ESCALATION_ROLES.includes(role))) {
+      return { error: 'Only an incident commander can decide on an escalated report', status: 403 };
+    }
+
+    if (decision === 'duplicate') {
+      if (duplicate_of === report.id) {
+        return { error: 'A report cannot duplicate itself', status: 400 };
+      }
+
+      const { data: original } = await this.supabase
+        .from('reports')
+        .select('id, disaster_id')
+        .eq('id', duplicate_of)
+        .maybeSingle();
+
+      if (!original || original.disaster_id !== report.disaster_id) {
+        return { error: 'duplicate_of must be another report on the same disaster', status: 400 };
+      }
+    }
+
+    const reviewedAt = new Date().toISOString();
+    const { data: updated, error: updateError } = await audited(this.supabase
+      .from('reports')
+      .update({
+        ...DECISIONS[decision],
+        duplicate_of: decision === 'duplicate' ? duplicate_of : null,
+        reviewed_by: reviewerId,
+        reviewed_at: reviewedAt
+      })
+      .eq('id', report.id)
+      .select()
+      .single(), reviewerId, `review_${decision}`);
+
+    if (updateError) {
+      return { error: updateError.message, status: 500 };
+    }
+
+    const { data: review, error: reviewError } = await this.supabase
+      .from('report_reviews')
+      .insert([{
+        report_id: report.id,
+        disaster_id: report.disaster_id,
+        reviewer_id: reviewerId,
+        decision,
+        note,
+        duplicate_of: decision === 'duplicate' ? duplicate_of : null,
+        previous_moderation_status: report.moderation_status,
+        previous_verification_status: report.verification_status,
+        created_at: reviewedAt
+      }])
+      .select()
+      .single();
+
+    // A decision that was not recorded is undone rather than left unaudited
+    if (reviewError) {
+      logger('error', `Review record error for report ${report.id}: ${reviewError.message}`);
+      await audited(this.supabase
+        .from('reports')
+        .update({
+          moderation_status: report.moderation_status,
+          verification_status: report.verification_status,
+          duplicate_of: report.duplicate_of,
+          reviewed_by: report.reviewed_by,
+          reviewed_at: report.reviewed_at
+        })
+        .eq('id', report.id), reviewerId, 'review_undone');
+      return { error: reviewError.message, status: 500 };
+    }
+
+    return { report: withCoordinates(updated), review };
+  }
+}
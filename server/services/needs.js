@@ -0,0 +1,256 @@
+import { validate as isUuid } from 'uuid';
+import { audited } from './audit.js';
+import { parseCoordinates, toPointWkt, withCoordinates } from './geometry.js';
+import { PRIORITIES } from './triage.js';
+
+// Structured needs raised on a disaster and the resource capacity allocated
+// to them (see the needs migration). Matching and allocation run in Postgres
+// so two coordinators cannot allocate the same capacity twice.
+
+export const NEED_CATEGORIES = ['shelter', 'medical', 'food', 'water', 'rescue', 'transportation', 'supplies', 'other'];
+export const NEED_URGENCIES = PRIORITIES;
+export const NEED_STATUSES = ['open', 'partially_met', 'met', 'cancelled'];
+
+// Statuses that still want resources
+export const UNMET_STATUSES = ['open', 'partially_met'];
+
+// Resource types that can meet a need of each category
+export const CATEGORY_RESOURCE_TYPES = {
+  shelter: ['shelter'],
+  medical: ['medical'],
+  food: ['food'],
+  water: ['food', 'other'],
+  rescue: ['emergency_services'],
+  transportation: ['transportation'],
+  supplies: ['other', 'food'],
+  other: ['other']
+};
+
+export const MAX_NEED_QUANTITY = 100000;
+
+const NEED_SELECT = '*, allocations:need_allocations(id, resource_id, quantity, allocated_by, created_at, resource:resources(name, type))';
+
+// open / partially_met / met from how much of the need has been met
+export function statusForFulfilment(quantityMet, quantity) {
+  if (quantityMet >= quantity) return 'met';
+  return quantityMet > 0 ? 'partially_met' : 'open';
+}
+
+// Validates a need. With `partial`, only the supplied fields are checked and
+// `status` may be set to cancelled or back to open; otherwise category and
+// description are required. Returns { errors, values }.
+export function validateNeed(body, { partial = false } = {}) {
+  const errors = [];
+  const values = {};
+  const has = (field) => body[field] !== undefined;
+
+  if (!partial || has('category')) {
+    if (!NEED_CATEGORIES.includes(body.category)) {
+      errors.push(`category must be one of ${NEED_CATEGORIES.join(', ')}`);
+    } else {
+      values.category = body.category;
+    }
+  }
+
+  if (!partial || has('description')) {
+    if (typeof body.description !== 'string' || !body.description.trim()) {
+      errors.push('description is required');
+    } else {
+      values.description = body.description.trim();
+    }
+  }
+
+  if (has('quantity')) {
+    const quantity = Number(body.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_NEED_QUANTITY) {
+      errors.push(`quantity must be between 1 and ${MAX_NEED_QUANTITY}`);
+    } else {
+      values.quantity = quantity;
+    }
+  }
+
+  if (has('urgency')) {
+    if (!NEED_URGENCIES.includes(body.urgency)) {
+      errors.push(`urgency must be one of ${NEED_URGENCIES.join(', ')}`);
+    } else {
+      values.urgency = body.urgency;
+    }
+  }
+
+  if (has('location_name')) {
+    values.location_name = body.location_name ? String(body.location_name).trim() : null;
+  }
+
+  if (has('contact')) {
+    values.contact = body.contact ? String(body.contact).trim() : null;
+  }
+
+  if (has('lat') || has('lon') || has('lng')) {
+    const point = parseCoordinates(body);
+    if (!point) {
+      errors.push('lat and lon must be valid coordinates');
+    } else {
+      values.location = toPointWkt(point.lat, point.lng);
+    }
+  }
+
+  if (has('status')) {
+    if (!partial || !['open', 'cancelled'].includes(body.status)) {
+      errors.push('status can be set to open or cancelled on an existing need');
+    } else {
+      values.status = body.status;
+    }
+  }
+
+  return { errors, values };
+}
+
+// Need row with lat/lng and its allocations with the resource names
+function presentNeed(row) {
+  const { allocations = [], ...need } = withCoordinates(row);
+
+  return {
+    ...need,
+    allocations: allocations
+      .map(({ resource, ...allocation }) => ({
+        ...allocation,
+        resource_name: resource?.name ?? null,
+        resource_type: resource?.type ?? null
+      }))
+      .sort((a, b) => (a.created_at < b.created_at ? -1 : 1))
+  };
+}
+
+// The need as `user` may see it: its contact is only for roles that may
+// update needs on the disaster (`actions` on it) and for whoever raised it
+export function visibleNeed(need, user, actions = []) {
+  if (actions.includes('needs:update') || (user && need.created_by === String(user.id))) return need;
+
+  const { contact, ...rest } = need;
+  return rest;
+}
+
+export class NeedService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  // Most urgent first, then oldest, so the board reads as a queue
+  async list(disasterId, { statuses = [], categories = [] } = {}) {
+    let query = this.supabase
+      .from('needs')
+      .select(NEED_SELECT)
+      .eq('disaster_id', disasterId)
+      .order('created_at', { ascending: true });
+
+    if (statuses.length > 0) query = query.in('status', statuses);
+    if (categories.length > 0) query = query.in('category', categories);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Need lookup failed: ${error.message}`);
+
+    return data
+      .map(presentNeed)
+      .sort((a, b) => NEED_URGENCIES.indexOf(a.urgency) - NEED_URGENCIES.indexOf(b.urgency));
+  }
+
+  async get(disasterId, needId) {
+    if (!isUuid(String(needId))) return null;
+
+    const { data, error } = await this.supabase
+      .from('needs')
+      .select(NEED_SELECT)
+      .eq('id', needId)
+      .eq('disaster_id', disasterId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Need lookup failed: ${error.message}`);
+    return data ? presentNeed(data) : null;
+  }
+
+  async create(disasterId, values, userId) {
+    const { data, error } = await this.supabase
+      .from('needs')
+      .insert([{ disaster_id: disasterId, ...values, created_by: userId }])
+      .select('id')
+      .single();
+
+    if (error) throw new Error(`Need could not be created: ${error.message}`);
+    return this.get(disasterId, data.id);
+  }
+
+  // Applies validated changes. Unless the need is cancelled its status follows
+  // the quantity, which may have changed, so reopening one that is fully met
+  // leaves it met.
+  async update(need, values) {
+    const quantity = values.quantity ?? need.quantity;
+    const status = values.status ?? need.status;
+
+    const { error } = await this.supabase
+      .from('needs')
+      .update({
+        ...values,
+        status: status === 'cancelled' ? status : statusForFulfilment(need.quantity_met, quantity)
+      })
+      .eq('id', need.id);
+    if (error) throw new Error(`Need could not be updated: ${error.message}`);
+
+    return this.get(need.disaster_id, need.id);
+  }
+
+  // Resources of the need's disaster that could meet it
+  async match(need, { radiusKm = 25, limit = 10 } = {}) {
+    const { data, error } = await this.supabase.rpc('match_need_resources', {
+      target_need_id: need.id,
+      resource_types: CATEGORY_RESOURCE_TYPES[need.category],
+      radius_km: radiusKm,
+      result_limit: limit
+    });
+
+    if (error) throw new Error(`Resource matching failed: ${error.message}`);
+    return data;
+  }
+
+  // Allocates `quantity` of `resource` to `need`. Returns { allocation, need,
+  // resource } or { error, status } when it is not possible.
+  async allocate(need, resource, quantity, userId) {
+    const { data, error } = await audited(this.supabase.rpc('allocate_need_resource', {
+      target_need_id: need.id,
+      target_resource_id: resource.id,
+      amount: quantity,
+      allocated_by: String(userId)
+    }), userId, 'allocate');
+    if (error) throw new Error(`Allocation failed: ${error.message}`);
+
+    if (!data || data.length === 0) {
+      return { error: allocationRefusal(need, resource, quantity), status: 409 };
+    }
+
+    const { data: updatedResource, error: resourceError } = await this.supabase
+      .from('resources')
+      .select('*')
+      .eq('id', resource.id)
+      .single();
+    if (resourceError) throw new Error(`Resource lookup failed: ${resourceError.message}`);
+
+    return {
+      allocation: data[0],
+      need: await this.get(need.disaster_id, need.id),
+      resource: withCoordinates(updatedResource)
+    };
+  }
+}
+
+// Why allocate_need_resource returned nothing, from the state before it ran
+function allocationRefusal(need, resource, quantity) {
+  if (!UNMET_STATUSES.includes(need.status)) {
+    return `Need is ${need.status.replace('_', ' ')}`;
+  }
+  if (quantity > need.quantity - need.quantity_met) {
+    return `Need only asks for ${need.quantity - need.quantity_met} more`;
+  }
+  if (resource.availability_status === 'closed') {
+    return 'Resource is closed';
+  }
+  return `Resource only has ${Math.max((resource.capacity ?? 0) - resource.occupancy, 0)} left`;
+}
@@ -0,0 +1,592 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { validate as isUuid } from 'uuid';
+import { config } from '../config/config.js';
+import { logger } from '../middleware/middleware.js';
+import { createChannels, publicUrlProblem } from './channels/index.js';
+import {
+  circleToRing,
+  decodeGeometry,
+  multiPolygonGeometryToWkt,
+  parseCoordinates,
+  pointInArea,
+  toMultiPolygonGeometry,
+  toMultiPolygonWkt,
+  withCoordinates
+} from './geometry.js';
+import { PRIORITIES } from './triage.js';
+
+// Alert subscriptions and the outbound messages sent for them (see the
+// notifications migration). The scheduler and the status route publish
+// events; the dispatcher finds the subscriptions that match, records one
+// delivery per subscription and sends it through the subscription's
+// channel, retrying failures with exponential backoff.
+
+export const NOTIFICATION_CHANNELS = ['email', 'sms', 'webhook'];
+export const EVENT_TYPES = ['priority_alert', 'official_update', 'disaster_status'];
+export const DELIVERY_STATUSES = ['pending', 'sent', 'failed'];
+
+export const MAX_SUBSCRIPTION_TAGS = 20;
+export const MAX_AREA_RADIUS_KM = 500;
+
+// How a status change ranks against subscribers' minimum priority
+export const STATUS_CHANGE_PRIORITIES = {
+  active: 'high',
+  reported: 'medium',
+  contained: 'medium',
+  closed: 'medium',
+  recovery: 'low',
+  archived: 'low'
+};
+
+const TARGET_FORMATS = {
+  email: { pattern: /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/, description: 'an email address' },
+  sms: { pattern: /^\+[1-9]\d{6,14}$/, description: 'a phone number in international format, e.g. +15551234567' },
+  webhook: { pattern: /^https?:\/\/[^\s]+$/i, description: 'an http or https URL' }
+};
+
+// Everything but the webhook secret, which is only shown when it is created
+const SUBSCRIPTION_COLUMNS = 'id, user_id, name, channel, target, event_types, disaster_id, area, tags, min_priority, active, created_at, updated_at';
+const DELIVERY_SELECT = '*, subscription:notification_subscriptions(name, secret)';
+
+// How long a claimed delivery is left alone by the retry loop while it is sent
+const CLAIM_SECONDS = 120;
+
+// Validates a subscription. With `partial`, only the supplied fields are
+// checked and a new target is checked against `channel`, the current one.
+// An area is GeoJSON polygons or a circle { lat, lon, radius_km }.
+// Returns { errors, values }.
+export function validateSubscription(body, { partial = false, channel = null } = {}) {
+  const errors = [];
+  const values = {};
+  const has = (field) => body[field] !== undefined;
+
+  if (!partial || has('name')) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      errors.push('name is required');
+    } else {
+      values.name = body.name.trim().slice(0, 100);
+    }
+  }
+
+  if (!partial || has('channel')) {
+    if (!NOTIFICATION_CHANNELS.includes(body.channel)) {
+      errors.push(`channel must be one of ${NOTIFICATION_CHANNELS.join(', ')}`);
+    } else {
+      values.channel = body.channel;
+    }
+  }
+
+  // A new channel needs a target of its kind
+  if (!partial || has('target') || values.channel) {
+    const targetChannel = values.channel || channel;
+    const target = typeof body.target === 'string' ? body.target.trim() : '';
+    const format = TARGET_FORMATS[targetChannel];
+    const webhookProblem = targetChannel === 'webhook' && target
+      ? publicUrlProblem(target, { allowHttp: config.notifications.allowHttpWebhooks })
+      : null;
+    if (!target) {
+      errors.push('target is required');
+    } else if (format && !format.pattern.test(target)) {
+      errors.push(`target must be ${format.description}`);
+    } else if (webhookProblem) {
+      errors.push(`target ${webhookProblem}`);
+    } else {
+      values.target = target;
+    }
+  }
+
+  if (has('event_types')) {
+    const types = Array.isArray(body.event_types) ? [...new Set(body.event_types)] : [];
+    if (types.length === 0 || !types.every(type => EVENT_TYPES.includes(type))) {
+      errors.push(`event_types must list one or more of ${EVENT_TYPES.join(', ')}`);
+    } else {
+      values.event_types = types;
+    }
+  }
+
+  if (has('disaster_id')) {
+    if (body.disaster_id !== null && !isUuid(String(body.disaster_id))) {
+      errors.push('disaster_id must be a disaster id');
+    } else {
+      values.disaster_id = body.disaster_id;
+    }
+  }
+
+  if (has('tags')) {
+    if (!Array.isArray(body.tags) || !body.tags.every(tag => typeof tag === 'string')) {
+      errors.push('tags must be a list of strings');
+    } else {
+      const tags = [...new Set(body.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+      if (tags.length > MAX_SUBSCRIPTION_TAGS) {
+        errors.push(`at most ${MAX_SUBSCRIPTION_TAGS} tags are allowed`);
+      } else {
+        values.tags = tags;
+      }
+    }
+  }
+
+  if (has('min_priority')) {
+    if (!PRIORITIES.includes(body.min_priority)) {
+      errors.push(`min_priority must be one of ${PRIORITIES.join(', ')}`);
+    } else {
+      values.min_priority = body.min_priority;
+    }
+  }
+
+  if (has('area')) {
+    if (body.area === null) {
+      values.area = null;
+    } else if (body.area?.radius_km !== undefined) {
+      const center = parseCoordinates(body.area);
+      const radius = Number(body.area.radius_km);
+      if (!center || !Number.isFinite(radius) || radius <= 0 || radius > MAX_AREA_RADIUS_KM) {
+        errors.push(`area must have valid lat and lon and a radius_km up to ${MAX_AREA_RADIUS_KM}`);
+      } else {
+        values.area = toMultiPolygonWkt([circleToRing(center, radius)]);
+      }
+    } else {
+      const geometry = toMultiPolygonGeometry(body.area);
+      if (!geometry) {
+        errors.push('area must be a GeoJSON Polygon or MultiPolygon, or a circle with lat, lon and radius_km');
+      } else {
+        values.area = multiPolygonGeometryToWkt(geometry);
+      }
+    }
+  }
+
+  if (has('active')) {
+    if (typeof body.active !== 'boolean') {
+      errors.push('active must be true or false');
+    } else {
+      values.active = body.active;
+    }
+  }
+
+  return { errors, values };
+}
+
+function presentSubscription(row) {
+  return { ...row, area: decodeGeometry(row.area) };
+}
+
+function presentDelivery({ subscription, ...delivery }) {
+  return { ...delivery, subscription_name: subscription?.name ?? null };
+}
+
+// Whether two areas touch, approximated by any vertex of one lying in the other
+function areasOverlap(a, b) {
+  const vertices = (geometry) => (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates)
+    .flatMap(polygon => polygon[0])
+    .map(([lng, lat]) => ({ lat, lng }));
+
+  return vertices(a).some(point => pointInArea(point, b)) || vertices(b).some(point => pointInArea(point, a));
+}
+
+// Whether `event` is something `subscription` asked to hear about
+export function matchesEvent(subscription, event) {
+  if (!subscription.active || !subscription.event_types.includes(event.type)) return false;
+  if (subscription.disaster_id && subscription.disaster_id !== event.disaster_id) return false;
+  if (PRIORITIES.indexOf(event.priority) > PRIORITIES.indexOf(subscription.min_priority)) return false;
+
+  if (subscription.tags.length > 0) {
+    const tags = new Set(event.tags.map(tag => tag.toLowerCase()));
+    if (!subscription.tags.some(tag => tags.has(tag.toLowerCase()))) return false;
+  }
+
+  const area = decodeGeometry(subscription.area);
+  if (area) {
+    const inside = event.points.some(point => pointInArea(point, area)) ||
+      (event.footprint && areasOverlap(area, event.footprint));
+    if (!inside) return false;
+  }
+
+  return true;
+}
+
+function disasterSummary(disaster) {
+  return {
+    id: disaster.id,
+    title: disaster.title,
+    status: disaster.status ?? null,
+    location_name: disaster.location_name ?? null,
+    tags: disaster.tags || []
+  };
+}
+
+// Common fields of an event about `disaster` (a row as stored or with
+// lat/lng already decoded)
+function baseEvent(type, key, rawDisaster, priority, point = null) {
+  const disaster = withCoordinates(rawDisaster);
+  const disasterPoint = disaster.lat !== null && disaster.lng !== null ? { lat: disaster.lat, lng: disaster.lng } : null;
+
+  return {
+    type,
+    key,
+    disaster_id: disaster.id,
+    priority,
+    tags: disaster.tags || [],
+    points: [point, disasterPoint].filter(Boolean),
+    footprint: disaster.footprint || null,
+    disaster: disasterSummary(disaster)
+  };
+}
+
+const priorityLabel = (priority) => `[${priority.toUpperCase()}]`;
+
+// A social media report triaged urgent or high on a disaster
+export function priorityAlertEvent(disaster, report) {
+  const event = baseEvent('priority_alert', `priority_alert:${report.id ?? report.external_id}`, disaster, report.priority, report.coordinates);
+  const source = [report.user && `@${report.user}`, report.platform].filter(Boolean).join(' on ');
+
+  return {
+    ...event,
+    tags: [...event.tags, ...(report.keywords || [])],
+    subject: `${priorityLabel(report.priority)} ${event.disaster.title}: priority alert`,
+    text: [report.content, source && `- ${source}`, report.url].filter(Boolean).join('\n'),
+    payload: {
+      event: 'priority_alert',
+      disaster: event.disaster,
+      report: {
+        id: report.id ?? null,
+        content: report.content,
+        priority: report.priority,
+        user: report.user ?? null,
+        platform: report.platform ?? null,
+        url: report.url ?? null,
+        coordinates: report.coordinates ?? null,
+        timestamp: report.timestamp ?? null
+      }
+    }
+  };
+}
+
+// A new official update ingested for a disaster
+export function officialUpdateEvent(disaster, update) {
+  const event = baseEvent('official_update', `official_update:${update.id}`, disaster, update.priority);
+
+  return {
+    ...event,
+    subject: `${priorityLabel(update.priority)} ${event.disaster.title}: ${update.title}`,
+    text: [update.content, update.source && `- ${update.source}`, update.url].filter(Boolean).join('\n'),
+    payload: {
+      event: 'official_update',
+      disaster: event.disaster,
+      update: {
+        id: update.id,
+        source: update.source ?? null,
+        title: update.title,
+        content: update.content ?? null,
+        url: update.url ?? null,
+        priority: update.priority,
+        severity: update.severity ?? null,
+        timestamp: update.timestamp ?? null
+      }
+    }
+  };
+}
+
+// A disaster moved from `previousStatus` to its current status
+export function statusChangeEvent(disaster, previousStatus) {
+  const priority = STATUS_CHANGE_PRIORITIES[disaster.status] || 'medium';
+  const event = baseEvent('disaster_status', `disaster_status:${disaster.id}:${disaster.status_changed_at || Date.now()}`, disaster, priority);
+
+  return {
+    ...event,
+    subject: `${event.disaster.title} is now ${disaster.status}`,
+    text: `The status of ${event.disaster.title}${event.disaster.location_name ? ` (${event.disaster.location_name})` : ''} changed from ${previousStatus} to ${disaster.status}.`,
+    payload: {
+      event: 'disaster_status',
+      disaster: event.disaster,
+      previous_status: previousStatus,
+      status: disaster.status
+    }
+  };
+}
+
+export class NotificationService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  async list(userId) {
+    const { data, error } = await this.supabase
+      .from('notification_subscriptions')
+      .select(SUBSCRIPTION_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Subscription lookup failed: ${error.message}`);
+    return data.map(presentSubscription);
+  }
+
+  async get(userId, subscriptionId, { withSecret = false } = {}) {
+    if (!isUuid(String(subscriptionId))) return null;
+
+    const { data, error } = await this.supabase
+      .from('notification_subscriptions')
+      .select(withSecret ? `${SUBSCRIPTION_COLUMNS}, secret` : SUBSCRIPTION_COLUMNS)
+      .eq('id', subscriptionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Subscription lookup failed: ${error.message}`);
+    return data ? presentSubscription(data) : null;
+  }
+
+  // Webhooks get a signing secret, returned with the new subscription only
+  async create(userId, values) {
+    const secret = values.channel === 'webhook' ? randomBytes(32).toString('hex') : null;
+
+    const { data, error } = await this.supabase
+      .from('notification_subscriptions')
+      .insert([{ ...values, user_id: userId, secret }])
+      .select(SUBSCRIPTION_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Subscription could not be created: ${error.message}`);
+    return { ...presentSubscription(data), ...(secret && { secret }) };
+  }
+
+  // A subscription switched to webhook gets a secret as on create
+  async update(subscription, values) {
+    const secret = values.channel === 'webhook' && subscription.channel !== 'webhook'
+      ? randomBytes(32).toString('hex')
+      : null;
+
+    const { data, error } = await this.supabase
+      .from('notification_subscriptions')
+      .update({ ...values, ...(secret && { secret }) })
+      .eq('id', subscription.id)
+      .select(SUBSCRIPTION_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Subscription could not be updated: ${error.message}`);
+    return { ...presentSubscription(data), ...(secret && { secret }) };
+  }
+
+  async remove(subscription) {
+    const { error } = await this.supabase
+      .from('notification_subscriptions')
+      .delete()
+      .eq('id', subscription.id);
+
+    if (error) throw new Error(`Subscription could not be deleted: ${error.message}`);
+  }
+
+  // The user's delivery log, newest first
+  async deliveries(userId, { subscriptionId = null, status = null, limit = 50, offset = 0 } = {}) {
+    let query = this.supabase
+      .from('notification_deliveries')
+      .select(DELIVERY_SELECT)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (subscriptionId) query = query.eq('subscription_id', subscriptionId);
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Delivery lookup failed: ${error.message}`);
+    return data.map(presentDelivery);
+  }
+
+  async getDelivery(userId, deliveryId) {
+    if (!isUuid(String(deliveryId))) return null;
+
+    const { data, error } = await this.supabase
+      .from('notification_deliveries')
+      .select(DELIVERY_SELECT)
+      .eq('id', deliveryId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Delivery lookup failed: ${error.message}`);
+    return data ? presentDelivery(data) : null;
+  }
+}
+
+// Sends the deliveries. One instance runs per server, created in index.js;
+// deliveries are claimed in the database before they are sent, so several
+// servers can share the table without sending a message twice.
+export class NotificationDispatcher {
+  constructor(supabase, channels = createChannels(), options = config.notifications) {
+    this.supabase = supabase;
+    this.channels = channels;
+    this.options = options;
+    this.timer = null;
+    this.stopped = true;
+  }
+
+  // Retries due deliveries every retryBaseSeconds
+  start() {
+    if (!this.stopped) return;
+
+    this.stopped = false;
+    logger('info', `Notification dispatcher started: ${Object.entries(this.channels).map(([channel, transport]) => `${channel} via ${transport.name}`).join(', ')}`);
+    this.schedule();
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  schedule() {
+    this.timer = setTimeout(async () => {
+      await this.retryDue();
+      if (!this.stopped) this.schedule();
+    }, this.options.retryBaseSeconds * 1000);
+    this.timer.unref();
+  }
+
+  // Records and sends a delivery for every subscription matching `event`.
+  // An event already delivered to a subscription is not sent again.
+  // Returns the deliveries created.
+  async publish(event) {
+    const { data: subscriptions, error } = await this.supabase
+      .from('notification_subscriptions')
+      .select('*')
+      .eq('active', true)
+      .contains('event_types', [event.type])
+      .or(`disaster_id.is.null,disaster_id.eq.${event.disaster_id}`);
+    if (error) throw new Error(`Subscription lookup failed: ${error.message}`);
+
+    const matching = subscriptions.filter(subscription => matchesEvent(subscription, event));
+    if (matching.length === 0) return [];
+
+    const { data: deliveries, error: insertError } = await this.supabase
+      .from('notification_deliveries')
+      .upsert(matching.map(subscription => ({
+        subscription_id: subscription.id,
+        user_id: subscription.user_id,
+        channel: subscription.channel,
+        target: subscription.target,
+        event_type: event.type,
+        event_key: event.key,
+        disaster_id: event.disaster_id,
+        subject: event.subject,
+        body: event.text,
+        payload: event.payload
+      })), { onConflict: 'subscription_id,event_key', ignoreDuplicates: true })
+      .select('id, attempts');
+    if (insertError) throw new Error(`Deliveries could not be recorded: ${insertError.message}`);
+
+    logger('info', `${event.type} ${event.key}: ${deliveries.length} notifications to send`);
+    return Promise.all(deliveries.map(delivery => this.deliver(delivery)));
+  }
+
+  // Sends a test message through the subscription's channel right away
+  async sendTest(subscription) {
+    const { data, error } = await this.supabase
+      .from('notification_deliveries')
+      .insert([{
+        subscription_id: subscription.id,
+        user_id: subscription.user_id,
+        channel: subscription.channel,
+        target: subscription.target,
+        event_type: 'test',
+        event_key: `test:${randomUUID()}`,
+        subject: `Test notification: ${subscription.name}`,
+        body: `This is a test of the "${subscription.name}" alert subscription. Alerts matching it will be sent here.`,
+        payload: { event: 'test', subscription: { id: subscription.id, name: subscription.name } }
+      }])
+      .select('id, attempts')
+      .single();
+    if (error) throw new Error(`Test delivery could not be recorded: ${error.message}`);
+
+    return this.deliver(data);
+  }
+
+  // Puts a delivery back in the queue and tries it once more. Returns the
+  // delivery, or null when it was already sent or is being sent.
+  async retry(delivery) {
+    const { data, error } = await this.supabase
+      .from('notification_deliveries')
+      .update({ status: 'pending', next_attempt_at: new Date().toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', 'failed')
+      .select('id, attempts')
+      .maybeSingle();
+    if (error) throw new Error(`Delivery could not be retried: ${error.message}`);
+
+    return data ? this.deliver(data) : null;
+  }
+
+  async retryDue() {
+    try {
+      const { data, error } = await this.supabase
+        .from('notification_deliveries')
+        .select('id, attempts')
+        .eq('status', 'pending')
+        .lte('next_attempt_at', new Date().toISOString())
+        .order('next_attempt_at', { ascending: true })
+        .limit(50);
+      if (error) throw new Error(error.message);
+
+      for (const delivery of data) {
+        await this.deliver(delivery);
+      }
+    } catch (error) {
+      logger('error', `Notification retry failed: ${error.message}`);
+    }
+  }
+
+  // Claims the delivery by bumping its attempt count, sends it and records
+  // the outcome. A failed send is retried after retryBaseSeconds * 2^(n-1)
+  // until maxAttempts is reached. Returns the delivery, or null when another
+  // send claimed it first.
+  async deliver({ id, attempts }) {
+    const { data: claimed, error } = await this.supabase
+      .from('notification_deliveries')
+      .update({ attempts: attempts + 1, next_attempt_at: new Date(Date.now() + CLAIM_SECONDS * 1000).toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .eq('attempts', attempts)
+      .select(DELIVERY_SELECT)
+      .maybeSingle();
+    if (error) throw new Error(`Delivery could not be claimed: ${error.message}`);
+    if (!claimed) return null;
+
+    let outcome;
+    try {
+      if (claimed.channel === 'webhook' && !claimed.subscription?.secret) {
+        throw new Error('Subscription was deleted');
+      }
+
+      await this.channels[claimed.channel].send({
+        id: claimed.id,
+        event_type: claimed.event_type,
+        target: claimed.target,
+        secret: claimed.subscription?.secret,
+        subject: claimed.subject,
+        text: claimed.body,
+        payload: { id: claimed.id, created_at: claimed.created_at, ...claimed.payload }
+      });
+      outcome = { status: 'sent', sent_at: new Date().toISOString(), last_error: null, next_attempt_at: null };
+    } catch (sendError) {
+      const message = sendError.response
+        ? `${sendError.response.status} ${sendError.response.statusText || ''}`.trim()
+        : sendError.message;
+      const failed = claimed.attempts >= this.options.maxAttempts;
+      const delayMs = this.options.retryBaseSeconds * 1000 * 2 ** (claimed.attempts - 1);
+
+      outcome = {
+        status: failed ? 'failed' : 'pending',
+        last_error: message,
+        next_attempt_at: failed ? null : new Date(Date.now() + delayMs).toISOString()
+      };
+      logger('warn', `Notification ${claimed.id} to ${claimed.channel} failed (attempt ${claimed.attempts}${failed ? ', giving up' : ''}): ${message}`);
+    }
+
+    const { data: updated, error: updateError } = await this.supabase
+      .from('notification_deliveries')
+      .update(outcome)
+      .eq('id', claimed.id)
+      .select(DELIVERY_SELECT)
+      .single();
+    if (updateError) throw new Error(`Delivery outcome could not be recorded: ${updateError.message}`);
+
+    return presentDelivery(updated);
+  }
+}
@@ -0,0 +1,165 @@
+import * as cheerio from 'cheerio';
+
+// Parsers for official update sources. Each returns a list of items:
+//
+//   { external_id, title, content, url, published_at, area,
+//     event, severity, urgency, certainty }
+//
+// `area` and the CAP fields are only filled by CAP sources. `published_at`
+// is an ISO string, or null when the source gives no usable date.
+
+const MAX_CONTENT_LENGTH = 1000;
+
+function cleanText(value = '') {
+  // Feed descriptions are often HTML-escaped markup; keep a space between
+  // adjacent elements so their text does not run together
+  const text = /<[a-z][\s\S]*>/i.test(value) ? cheerio.load(value.replace(/></g, '> <')).text() : value;
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_CONTENT_LENGTH ? `${collapsed.substring(0, MAX_CONTENT_LENGTH)}...` : collapsed;
+}
+
+function toIsoDate(value) {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function resolveUrl(href, base) {
+  if (!href) return null;
+  try {
+    return new URL(href.trim(), base).toString();
+  } catch {
+    return null;
+  }
+}
+
+export function parseHtml(source, html) {
+  const $ = cheerio.load(html);
+  const { selectors } = source;
+  const items = [];
+
+  $(selectors.item).each((_, element) => {
+    const item = $(element);
+    const title = cleanText(item.find(selectors.title).first().text());
+    if (!title) return;
+
+    const dateElement = item.find(selectors.date).first();
+    const link = resolveUrl(item.find(selectors.link).first().attr('href'), source.url);
+
+    items.push({
+      external_id: link || title,
+      title,
+      content: cleanText(item.find(selectors.body).first().text()),
+      url: link,
+      published_at: toIsoDate(dateElement.attr('datetime') || dateElement.text())
+    });
+  });
+
+  return items;
+}
+
+export function parseRss(source, xml) {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  return $('item').toArray().map(element => {
+    const item = $(element);
+    const link = item.children('link').first().text().trim() || null;
+
+    return {
+      external_id: item.children('guid').first().text().trim() || link || item.children('title').text().trim(),
+      title: cleanText(item.children('title').first().text()),
+      content: cleanText(item.children('description').first().text()),
+      url: resolveUrl(link, source.url),
+      published_at: toIsoDate(item.children('pubDate').first().text() || item.children('dc\\:date').first().text())
+    };
+  }).filter(item => item.title);
+}
+
+function atomLink(entry) {
+  const links = entry.children('link');
+  const alternate = links.filter((_, link) => !link.attribs.rel || link.attribs.rel === 'alternate').first();
+  return (alternate.length ? alternate : links.first()).attr('href') || null;
+}
+
+export function parseAtom(source, xml) {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  return $('entry').toArray().map(element => {
+    const entry = $(element);
+    const link = atomLink(entry);
+
+    return {
+      external_id: entry.children('id').first().text().trim() || link,
+      title: cleanText(entry.children('title').first().text()),
+      content: cleanText(entry.children('summary').first().text() || entry.children('content').first().text()),
+      url: resolveUrl(link, source.url),
+      published_at: toIsoDate(entry.children('published').first().text() || entry.children('updated').first().text())
+    };
+  }).filter(item => item.title);
+}
+
+// CAP 1.2, either a single <alert> document or an Atom feed whose entries carry
+// cap:-prefixed summary fields (the format used by api.weather.gov).
+export function parseCap(source, xml) {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  if ($('alert').length > 0) {
+    return $('alert').toArray().flatMap(element => {
+      const alert = $(element);
+      const identifier = alert.children('identifier').first().text().trim();
+      const sent = alert.children('sent').first().text();
+
+      return alert.children('info').toArray().map((infoElement, index) => {
+        const info = $(infoElement);
+        const field = (name) => info.children(name).first().text().trim();
+
+        return {
+          external_id: index === 0 ? identifier : `${identifier}#${index}`,
+          title: cleanText(field('headline') || field('event')),
+          content: cleanText([field('description'), field('instruction')].filter(Boolean).join(' ')),
+          url: resolveUrl(field('web'), source.url),
+          published_at: toIsoDate(field('effective') || sent),
+          area: info.find('area > areaDesc').toArray().map(area => $(area).text().trim()).join('; '),
+          event: field('event'),
+          severity: field('severity') || null,
+          urgency: field('urgency') || null,
+          certainty: field('certainty') || null
+        };
+      });
+    }).filter(item => item.title);
+  }
+
+  return $('entry').toArray().map(element => {
+    const entry = $(element);
+    const field = (name) => entry.children(`cap\\:${name}`).first().text().trim();
+    const link = atomLink(entry);
+
+    return {
+      external_id: entry.children('id').first().text().trim() || link,
+      title: cleanText(entry.children('title').first().text()),
+      content: cleanText(entry.children('summary').first().text()),
+      url: resolveUrl(link, source.url),
+      published_at: toIsoDate(field('effective') || entry.children('published').first().text() || entry.children('updated').first().text()),
+      area: field('areaDesc'),
+      event: field('event'),
+      severity: field('severity') || null,
+      urgency: field('urgency') || null,
+      certainty: field('certainty') || null
+    };
+  }).filter(item => item.title);
+}
+
+const PARSERS = {
+  html: parseHtml,
+  rss: parseRss,
+  atom: parseAtom,
+  cap: parseCap
+};
+
+export function parseSource(source, body) {
+  const parse = PARSERS[source.type];
+  if (!parse) {
+    throw new Error(`Unknown official source type: ${source.type}`);
+  }
+  return parse(source, body);
+}
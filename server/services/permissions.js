@@ -0,0 +1,62 @@
+import { OWNER_ACTIONS, ROLE_PERMISSIONS } from '../config/permissions.js';
+
+export function actionsForRoles(roles) {
+  const actions = new Set();
+  roles.forEach(role => {
+    (ROLE_PERMISSIONS[role] || []).forEach(action => actions.add(action));
+  });
+  return [...actions];
+}
+
+export class PermissionService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  // Whether the user owns a specific disaster and the roles assigned to them
+  // on it
+  async getDisasterAccess(userId, disasterId) {
+    const { data: disaster } = await this.supabase
+      .from('disasters')
+      .select('owner_id')
+      .eq('id', disasterId)
+      .maybeSingle();
+
+    const { data: assignments, error } = await this.supabase
+      .from('disaster_role_assignments')
+      .select('role')
+      .eq('disaster_id', disasterId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Role assignment lookup failed: ${error.message}`);
+    }
+
+    return {
+      owner: Boolean(disaster) && disaster.owner_id === userId,
+      roles: (assignments || []).map(assignment => assignment.role)
+    };
+  }
+
+  async resolve(user, disasterId) {
+    const roles = [user.role];
+    let owner = false;
+
+    if (disasterId) {
+      const access = await this.getDisasterAccess(user.id, disasterId);
+      owner = access.owner;
+      access.roles.forEach(role => {
+        if (!roles.includes(role)) roles.push(role);
+      });
+    }
+
+    const actions = actionsForRoles(roles);
+    if (owner) {
+      OWNER_ACTIONS.forEach(action => {
+        if (!actions.includes(action)) actions.push(action);
+      });
+    }
+
+    return { roles, owner, actions };
+  }
+}
@@ -0,0 +1,87 @@
+import { parseCoordinates, toPointWkt } from './geometry.js';
+
+export const RESOURCE_TYPES = ['shelter', 'medical', 'food', 'emergency_services', 'transportation', 'other'];
+export const AVAILABILITY_STATUSES = ['available', 'limited', 'full', 'closed'];
+
+// Share of capacity at which a resource is reported as `limited`.
+// Keep in sync with adjust_resource_occupancy in the migrations.
+const LIMITED_THRESHOLD = 0.8;
+
+export function statusForOccupancy(occupancy, capacity, currentStatus) {
+  if (currentStatus === 'closed' || !capacity || capacity <= 0) {
+    return currentStatus;
+  }
+  if (occupancy >= capacity) return 'full';
+  if (occupancy >= Math.ceil(capacity * LIMITED_THRESHOLD)) return 'limited';
+  return 'available';
+}
+
+// Validates a resource payload. With `partial`, only the supplied fields are
+// checked (PATCH); otherwise name and type are required (POST/PUT).
+// Returns { errors, values } where values are ready to write to the table.
+export function validateResource(body, { partial = false } = {}) {
+  const errors = [];
+  const values = {};
+  const has = (field) => body[field] !== undefined;
+
+  if (!partial || has('name')) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      errors.push('name is required');
+    } else {
+      values.name = body.name.trim();
+    }
+  }
+
+  if (!partial || has('type')) {
+    if (!RESOURCE_TYPES.includes(body.type)) {
+      errors.push(`type must be one of ${RESOURCE_TYPES.join(', ')}`);
+    } else {
+      values.type = body.type;
+    }
+  }
+
+  if (has('location_name')) {
+    values.location_name = String(body.location_name || '');
+  }
+
+  if (has('description')) {
+    values.description = String(body.description || '');
+  }
+
+  if (has('contact_info')) {
+    if (body.contact_info !== null && (typeof body.contact_info !== 'object' || Array.isArray(body.contact_info))) {
+      errors.push('contact_info must be an object');
+    } else {
+      values.contact_info = body.contact_info || {};
+    }
+  }
+
+  if (has('capacity')) {
+    if (body.capacity === null || body.capacity === '') {
+      values.capacity = null;
+    } else if (!Number.isInteger(Number(body.capacity)) || Number(body.capacity) < 0) {
+      errors.push('capacity must be a non-negative integer');
+    } else {
+      values.capacity = Number(body.capacity);
+    }
+  }
+
+  if (has('availability_status')) {
+    if (!AVAILABILITY_STATUSES.includes(body.availability_status)) {
+      errors.push(`availability_status must be one of ${AVAILABILITY_STATUSES.join(', ')}`);
+    } else {
+      values.availability_status = body.availability_status;
+    }
+  }
+
+  if (has('lat') || has('lon') || has('lng')) {
+    const point = parseCoordinates(body);
+    if (!point) {
+      errors.push('lat and lon must be valid coordinates');
+    } else {
+      values.location = toPointWkt(point.lat, point.lng);
+    }
+  }
+
+  return { errors, values };
+}
@@ -0,0 +1,439 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { pointInArea } from './geometry.js';
+
+// Road graph for evacuation routing, built in memory from an OpenStreetMap
+// extract so routes can be computed without any online service. Every pair
+// of consecutive nodes on a highway way becomes an edge; one-way streets
+// only get a reverse edge for walking.
+
+export const DEFAULT_GRAPH_FILE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../data/osm/midtown_manhattan.osm');
+
+export const ROUTING_MODES = ['walking', 'driving'];
+
+// km/h by highway type when a way has no usable maxspeed tag
+const DRIVING_SPEEDS = {
+  motorway: 90,
+  motorway_link: 50,
+  trunk: 70,
+  trunk_link: 40,
+  primary: 50,
+  primary_link: 40,
+  secondary: 45,
+  secondary_link: 35,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  residential: 30,
+  living_street: 10,
+  service: 15
+};
+
+const WALKING_SPEED = 5;
+
+// Walkable in addition to every drivable type except the fast roads below
+const FOOT_ONLY_HIGHWAYS = ['footway', 'path', 'pedestrian', 'steps', 'cycleway', 'track', 'bridleway'];
+const NO_FOOT_HIGHWAYS = ['motorway', 'motorway_link', 'trunk', 'trunk_link'];
+
+// Roads inside a disaster footprint are closed to routes, except inside a
+// footprint the route starts in, where they cost this many times their
+// travel time so the route leaves the area by the shortest way out
+export const FOOTPRINT_PENALTY = 20;
+
+const METRES_PER_DEGREE = 111320;
+
+// Local flat projection around `origin`, in metres; accurate enough over the
+// few kilometres an evacuation route covers
+function projector(origin) {
+  const lngScale = METRES_PER_DEGREE * Math.cos(origin.lat * Math.PI / 180);
+  return (point) => ({ x: (point.lng - origin.lng) * lngScale, y: (point.lat - origin.lat) * METRES_PER_DEGREE });
+}
+
+export function metresBetween(a, b) {
+  const { x, y } = projector(a)(b);
+  return Math.hypot(x, y);
+}
+
+// Compass bearing from a to b in degrees, 0 being north
+function bearing(a, b) {
+  const { x, y } = projector(a)(b);
+  return (Math.atan2(x, y) * 180 / Math.PI + 360) % 360;
+}
+
+function pointToSegment(p, a, b) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function segmentsCross(a, b, c, d) {
+  const side = (p, q, r) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+  return side(a, b, c) !== side(a, b, d) && side(c, d, a) !== side(c, d, b);
+}
+
+// Shortest distance in metres between the segment a-b and a polyline of
+// { lat, lng } points (a single point is a polyline of one)
+function segmentToLineMetres(a, b, line) {
+  const project = projector(a);
+  const [pa, pb] = [project(a), project(b)];
+  const points = line.map(project);
+
+  if (points.length === 1) return pointToSegment(points[0], pa, pb);
+
+  let best = Infinity;
+  for (let i = 0; i < points.length - 1; i++) {
+    const [pc, pd] = [points[i], points[i + 1]];
+    if (segmentsCross(pa, pb, pc, pd)) return 0;
+    best = Math.min(best, pointToSegment(pa, pc, pd), pointToSegment(pb, pc, pd), pointToSegment(pc, pa, pb), pointToSegment(pd, pa, pb));
+  }
+  return best;
+}
+
+// km/h from an OSM maxspeed tag ("50", "25 mph"), or null
+function parseMaxspeed(value) {
+  const match = String(value ?? '').match(/^\s*(\d+(?:\.\d+)?)\s*(mph)?/i);
+  if (!match) return null;
+  return parseFloat(match[1]) * (match[2] ? 1.609 : 1);
+}
+
+function decodeEntities(value) {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function attributes(text) {
+  const values = {};
+  for (const [, name, , value] of text.matchAll(/([\w:-]+)\s*=\s*(["'])(.*?)\2/g)) {
+    values[name] = decodeEntities(value);
+  }
+  return values;
+}
+
+// Nodes and ways of an .osm XML document. Relations are not needed for
+// routing and are skipped.
+function parseOsmXml(text) {
+  const nodes = new Map();
+  const ways = [];
+
+  for (const [, attrs] of text.matchAll(/<node\b([^>]*?)\/?>/g)) {
+    const { id, lat, lon } = attributes(attrs);
+    if (id) nodes.set(id, { lat: parseFloat(lat), lng: parseFloat(lon) });
+  }
+
+  for (const [, attrs, body] of text.matchAll(/<way\b([^>]*)>([\s\S]*?)<\/way>/g)) {
+    const refs = [...body.matchAll(/<nd\b([^>]*?)\/?>/g)].map(([, nd]) => attributes(nd).ref);
+    const tags = {};
+    for (const [, tag] of body.matchAll(/<tag\b([^>]*?)\/?>/g)) {
+      const { k, v } = attributes(tag);
+      if (k) tags[k] = v;
+    }
+    ways.push({ id: attributes(attrs).id, refs, tags });
+  }
+
+  return { nodes, ways };
+}
+
+// Nodes and ways of an Overpass API JSON response (`[out:json]`)
+function parseOverpassJson(text) {
+  const nodes = new Map();
+  const ways = [];
+
+  for (const element of JSON.parse(text).elements || []) {
+    if (element.type === 'node') {
+      nodes.set(String(element.id), { lat: element.lat, lng: element.lon });
+    } else if (element.type === 'way') {
+      ways.push({ id: String(element.id), refs: (element.nodes || []).map(String), tags: element.tags || {} });
+    }
+  }
+
+  return { nodes, ways };
+}
+
+// Which modes may use a way, in which direction, and how fast a car goes.
+// Returns null for ways that are not roads or paths.
+function wayAccess(tags) {
+  const highway = tags.highway;
+  if (!highway || tags.area === 'yes' || tags.access === 'no' || tags.access === 'private') return null;
+
+  const walk = (FOOT_ONLY_HIGHWAYS.includes(highway) || (highway in DRIVING_SPEEDS && !NO_FOOT_HIGHWAYS.includes(highway)))
+    && tags.foot !== 'no';
+  const drive = highway in DRIVING_SPEEDS && tags.motor_vehicle !== 'no' && tags.motorcar !== 'no';
+  if (!walk && !drive) return null;
+
+  let oneway = 0;
+  if (['yes', 'true', '1'].includes(tags.oneway) || tags.junction === 'roundabout' || highway === 'motorway') oneway = 1;
+  if (tags.oneway === '-1' || tags.oneway === 'reverse') oneway = -1;
+  if (tags.oneway === 'no') oneway = 0;
+
+  return {
+    walk,
+    drive,
+    oneway,
+    speed: parseMaxspeed(tags.maxspeed) ?? DRIVING_SPEEDS[highway] ?? WALKING_SPEED
+  };
+}
+
+export class RoadGraph {
+  constructor() {
+    // id -> { id, lat, lng, edges: [{ to, length, name, highway, walk, drive, speed }] }
+    this.nodes = new Map();
+    this.edgeCount = 0;
+  }
+
+  static fromOsm({ nodes, ways }) {
+    const graph = new RoadGraph();
+
+    const vertex = (id) => {
+      if (!graph.nodes.has(id)) graph.nodes.set(id, { id, ...nodes.get(id), edges: [] });
+      return graph.nodes.get(id);
+    };
+
+    for (const way of ways) {
+      const access = wayAccess(way.tags);
+      if (!access) continue;
+
+      const refs = way.refs.filter(ref => nodes.has(ref));
+      for (let i = 0; i < refs.length - 1; i++) {
+        const from = vertex(refs[i]);
+        const to = vertex(refs[i + 1]);
+        const edge = {
+          length: metresBetween(from, to),
+          name: way.tags.name || way.tags.ref || null,
+          highway: way.tags.highway,
+          walk: access.walk,
+          speed: access.speed
+        };
+
+        from.edges.push({ ...edge, to: to.id, drive: access.drive && access.oneway !== -1 });
+        to.edges.push({ ...edge, to: from.id, drive: access.drive && access.oneway !== 1 });
+        graph.edgeCount += 2;
+      }
+    }
+
+    return graph;
+  }
+
+  // Closest node that can be left in `mode`, within `maxMetres`, or null
+  nearestNode(point, mode, maxMetres) {
+    let best = null;
+    let bestDistance = maxMetres;
+
+    for (const node of this.nodes.values()) {
+      // Cheap latitude cut before the exact distance
+      if (Math.abs(node.lat - point.lat) * METRES_PER_DEGREE > bestDistance) continue;
+      if (!node.edges.some(edge => usable(edge, mode))) continue;
+
+      const distance = metresBetween(point, node);
+      if (distance <= bestDistance) {
+        best = node;
+        bestDistance = distance;
+      }
+    }
+
+    return best ? { node: best, distance: bestDistance } : null;
+  }
+
+  // Dijkstra by travel time from `startId` to whichever of `targetIds` is
+  // reached first. Edges closer to a closure than its radius are left out,
+  // and so are edges into an `areas` polygon: only in a polygon the start is
+  // inside may the route move on, from a node in the polygon, at
+  // FOOTPRINT_PENALTY, so it can get out but never back in. Returns
+  // { target, nodes, edges } or null when no target can be reached.
+  shortestPath(startId, targetIds, mode, { areas = [], closures = [] } = {}) {
+    const cost = new Map([[startId, 0]]);
+    const previous = new Map();
+    const heap = new MinHeap();
+    heap.push(0, startId);
+
+    const start = this.nodes.get(startId);
+    const escapeAreas = areas.filter(area => pointInArea(start, area));
+    const blockedAreas = areas.filter(area => !escapeAreas.includes(area));
+    const inside = (point, list) => list.some(area => pointInArea(point, area));
+
+    const edgeCost = (from, edge) => {
+      if (!usable(edge, mode)) return Infinity;
+
+      const to = this.nodes.get(edge.to);
+      if (closures.some(closure => segmentToLineMetres(from, to, closure.line) < closure.radius_m)) return Infinity;
+
+      const seconds = edge.length / (speedFor(edge, mode) / 3.6);
+      const middle = { lat: (from.lat + to.lat) / 2, lng: (from.lng + to.lng) / 2 };
+      if (inside(middle, blockedAreas) || inside(to, blockedAreas)) return Infinity;
+      if (!inside(middle, escapeAreas) && !inside(to, escapeAreas)) return seconds;
+      return inside(from, escapeAreas) ? seconds * FOOTPRINT_PENALTY : Infinity;
+    };
+
+    while (heap.size > 0) {
+      const [current, id] = heap.pop();
+      if (current > cost.get(id)) continue;
+
+      if (targetIds.has(id)) {
+        const nodes = [id];
+        const edges = [];
+        while (previous.has(nodes[0])) {
+          const step = previous.get(nodes[0]);
+          nodes.unshift(step.from);
+          edges.unshift(step.edge);
+        }
+        return { target: id, nodes: nodes.map(nodeId => this.nodes.get(nodeId)), edges };
+      }
+
+      const from = this.nodes.get(id);
+      for (const edge of from.edges) {
+        const next = current + edgeCost(from, edge);
+        if (next < (cost.get(edge.to) ?? Infinity)) {
+          cost.set(edge.to, next);
+          previous.set(edge.to, { from: id, edge });
+          heap.push(next, edge.to);
+        }
+      }
+    }
+
+    return null;
+  }
+}
+
+function usable(edge, mode) {
+  return mode === 'driving' ? edge.drive : edge.walk;
+}
+
+function speedFor(edge, mode) {
+  return mode === 'driving' ? edge.speed : WALKING_SPEED;
+}
+
+// Binary heap of [priority, value] pairs, smallest priority first
+class MinHeap {
+  constructor() {
+    this.items = [];
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(priority, value) {
+    const items = this.items;
+    items.push([priority, value]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+const COMPASS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+function turn(fromBearing, toBearing) {
+  const delta = ((toBearing - fromBearing + 540) % 360) - 180;
+  const side = delta < 0 ? 'left' : 'right';
+  const angle = Math.abs(delta);
+
+  if (angle < 25) return { maneuver: 'straight', verb: 'Continue onto' };
+  if (angle < 60) return { maneuver: `slight-${side}`, verb: `Bear ${side} onto` };
+  if (angle < 150) return { maneuver: `turn-${side}`, verb: `Turn ${side} onto` };
+  return { maneuver: 'u-turn', verb: 'Make a U-turn onto' };
+}
+
+// Turn-by-turn steps along a path from shortestPath: one step per stretch of
+// the same street, then the arrival at `destination`
+export function describePath({ nodes, edges }, mode, destination) {
+  const steps = [];
+
+  edges.forEach((edge, index) => {
+    const from = nodes[index];
+    const to = nodes[index + 1];
+    const name = edge.name || (FOOT_ONLY_HIGHWAYS.includes(edge.highway) ? 'the path' : 'the road');
+    const seconds = edge.length / (speedFor(edge, mode) / 3.6);
+    const last = steps[steps.length - 1];
+
+    if (last && last.name === name) {
+      last.distance_m += edge.length;
+      last.duration_s += seconds;
+      last.endBearing = bearing(from, to);
+      return;
+    }
+
+    const heading = bearing(from, to);
+    const { maneuver, verb } = last
+      ? turn(last.endBearing, heading)
+      : { maneuver: 'depart', verb: `Head ${COMPASS[Math.round(heading / 45) % 8]} on` };
+
+    steps.push({
+      maneuver,
+      instruction: `${verb} ${name}`,
+      name,
+      distance_m: edge.length,
+      duration_s: seconds,
+      lat: from.lat,
+      lng: from.lng,
+      endBearing: heading
+    });
+  });
+
+  const end = nodes[nodes.length - 1];
+  steps.push({
+    maneuver: 'arrive',
+    instruction: `Arrive at ${destination.name}`,
+    name: destination.name,
+    distance_m: 0,
+    duration_s: 0,
+    lat: end.lat,
+    lng: end.lng
+  });
+
+  return steps.map(({ endBearing, ...step }) => ({
+    ...step,
+    distance_m: Math.round(step.distance_m),
+    duration_s: Math.round(step.duration_s)
+  }));
+}
+
+const graphs = new Map();
+
+// The road graph of an OSM extract (.osm XML, or Overpass JSON when the file
+// ends in .json), parsed once per file. A failed load is not cached, so a
+// fixed file is picked up on the next request.
+export function loadRoadGraph(file = DEFAULT_GRAPH_FILE) {
+  if (!graphs.has(file)) {
+    const loading = readFile(file, 'utf8')
+      .then(text => RoadGraph.fromOsm(file.endsWith('.json') ? parseOverpassJson(text) : parseOsmXml(text)))
+      .catch(error => {
+        graphs.delete(file);
+        throw new Error(`Road graph ${file} could not be loaded: ${error.message}`);
+      });
+    graphs.set(file, loading);
+  }
+  return graphs.get(file);
+}
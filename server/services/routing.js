@@ -0,0 +1,244 @@
+import { validate as isUuid } from 'uuid';
+import { config } from '../config/config.js';
+import { decodeGeometry, parseCoordinates, toPointWkt, withCoordinates } from './geometry.js';
+import { DORMANT_STATUSES } from './lifecycle.js';
+import { DEFAULT_GRAPH_FILE, describePath, loadRoadGraph, metresBetween } from './roadGraph.js';
+
+// Evacuation routes from a point to the nearest open shelter over the road
+// graph in roadGraph.js, keeping off the footprints of live disasters and
+// off roads reported closed (see the road closures migration).
+
+// Shelters people can still be sent to
+export const OPEN_SHELTER_STATUSES = ['available', 'limited'];
+
+export const MIN_CLOSURE_RADIUS = 5;
+export const MAX_CLOSURE_RADIUS = 2000;
+
+// How far the start and a shelter may be from the nearest road node
+const START_SNAP_METRES = 1000;
+const SHELTER_SNAP_METRES = 500;
+const NEARBY_CLOSURE_METRES = 300;
+
+// A GeoJSON LineString as { lat, lng } points, or null when malformed
+function parseLine(value) {
+  if (value?.type !== 'LineString' || !Array.isArray(value.coordinates) || value.coordinates.length < 2) return null;
+
+  const points = value.coordinates.map(position => Array.isArray(position) && parseCoordinates({ lat: position[1], lng: position[0] }));
+  return points.every(Boolean) ? points : null;
+}
+
+// Validates a road closure: a `reason` and either a point (`lat`/`lon`) or
+// a GeoJSON LineString `path` along the closed street. Returns
+// { errors, values }.
+export function validateClosure(body) {
+  const errors = [];
+  const values = {};
+
+  if (typeof body.reason !== 'string' || !body.reason.trim()) {
+    errors.push('reason is required');
+  } else {
+    values.reason = body.reason.trim();
+  }
+
+  if (body.path !== undefined && body.path !== null) {
+    const line = parseLine(body.path);
+    if (!line) {
+      errors.push('path must be a GeoJSON LineString');
+    } else {
+      const middle = line[Math.floor(line.length / 2)];
+      values.location = toPointWkt(middle.lat, middle.lng);
+      values.path = `LINESTRING(${line.map(point => `${point.lng} ${point.lat}`).join(', ')})`;
+    }
+  } else {
+    const point = parseCoordinates(body);
+    if (!point) {
+      errors.push('lat and lon, or a path, must give where the road is closed');
+    } else {
+      values.location = toPointWkt(point.lat, point.lng);
+    }
+  }
+
+  if (body.radius_m !== undefined) {
+    const radius = Number(body.radius_m);
+    if (!Number.isInteger(radius) || radius < MIN_CLOSURE_RADIUS || radius > MAX_CLOSURE_RADIUS) {
+      errors.push(`radius_m must be between ${MIN_CLOSURE_RADIUS} and ${MAX_CLOSURE_RADIUS}`);
+    } else {
+      values.radius_m = radius;
+    }
+  }
+
+  if (body.report_id !== undefined && body.report_id !== null) {
+    if (!isUuid(String(body.report_id))) {
+      errors.push('report_id must be a report id');
+    } else {
+      values.report_id = String(body.report_id);
+    }
+  }
+
+  return { errors, values };
+}
+
+// Closure row with lat/lng and its path as GeoJSON
+function presentClosure(row) {
+  const closure = withCoordinates(row);
+  return { ...closure, path: decodeGeometry(row.path) };
+}
+
+export class RoutingService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  async listClosures(disasterId, { includeLifted = false } = {}) {
+    let query = this.supabase
+      .from('road_closures')
+      .select('*')
+      .eq('disaster_id', disasterId)
+      .order('created_at', { ascending: false });
+
+    if (!includeLifted) query = query.is('lifted_at', null);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Road closure lookup failed: ${error.message}`);
+    return data.map(presentClosure);
+  }
+
+  async getClosure(disasterId, closureId) {
+    if (!isUuid(String(closureId))) return null;
+
+    const { data, error } = await this.supabase
+      .from('road_closures')
+      .select('*')
+      .eq('id', closureId)
+      .eq('disaster_id', disasterId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Road closure lookup failed: ${error.message}`);
+    return data ? presentClosure(data) : null;
+  }
+
+  async createClosure(disasterId, values, userId) {
+    const { data, error } = await this.supabase
+      .from('road_closures')
+      .insert([{ disaster_id: disasterId, ...values, created_by: userId }])
+      .select('*')
+      .single();
+
+    if (error) throw new Error(`Road closure could not be recorded: ${error.message}`);
+    return presentClosure(data);
+  }
+
+  // Reopens the road. Returns the closure, or null when it was already lifted.
+  async liftClosure(closure, userId) {
+    const { data, error } = await this.supabase
+      .from('road_closures')
+      .update({ lifted_at: new Date().toISOString(), lifted_by: userId })
+      .eq('id', closure.id)
+      .is('lifted_at', null)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw new Error(`Road closure could not be lifted: ${error.message}`);
+    return data ? presentClosure(data) : null;
+  }
+
+  // Footprints of disasters that are not closed, and the roads still closed
+  // on them. Both apply to every route, whichever disaster it is for.
+  async hazards() {
+    const [{ data: disasters, error: disasterError }, { data: closures, error: closureError }] = await Promise.all([
+      this.supabase
+        .from('disasters')
+        .select('id, footprint')
+        .is('deleted_at', null)
+        .not('footprint', 'is', null)
+        .not('status', 'in', `(${DORMANT_STATUSES.join(',')})`),
+      this.supabase
+        .from('road_closures')
+        .select('*, disaster:disasters!inner(deleted_at, status)')
+        .is('lifted_at', null)
+        .is('disaster.deleted_at', null)
+        .not('disaster.status', 'in', `(${DORMANT_STATUSES.join(',')})`)
+    ]);
+    if (disasterError) throw new Error(`Disaster lookup failed: ${disasterError.message}`);
+    if (closureError) throw new Error(`Road closure lookup failed: ${closureError.message}`);
+
+    return {
+      areas: disasters.map(disaster => decodeGeometry(disaster.footprint)).filter(Boolean),
+      closures: closures.map(({ disaster, ...closure }) => presentClosure(closure))
+    };
+  }
+
+  async openShelters(disasterId) {
+    let query = this.supabase
+      .from('resources')
+      .select('id, disaster_id, name, location, location_name, availability_status, capacity, occupancy, disaster:disasters!inner(deleted_at)')
+      .eq('type', 'shelter')
+      .in('availability_status', OPEN_SHELTER_STATUSES)
+      .not('location', 'is', null)
+      .is('disaster.deleted_at', null);
+
+    if (disasterId) query = query.eq('disaster_id', disasterId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Shelter lookup failed: ${error.message}`);
+    return data.map(({ disaster, ...shelter }) => withCoordinates(shelter));
+  }
+
+  // Route from `origin` to the open shelter that is quickest to reach in
+  // `mode`, optionally among one disaster's shelters. Returns the route, or
+  // { error, status } when there is none.
+  async route(origin, mode, { disasterId = null } = {}) {
+    const graph = await loadRoadGraph(config.routing.graphFile || DEFAULT_GRAPH_FILE);
+
+    const start = graph.nearestNode(origin, mode, START_SNAP_METRES);
+    if (!start) {
+      return { error: `No road within ${START_SNAP_METRES / 1000} km of this location on the routing map`, status: 422 };
+    }
+
+    const [shelters, { areas, closures }] = await Promise.all([this.openShelters(disasterId), this.hazards()]);
+
+    // Each shelter is reached at its nearest road node; the first one listed
+    // wins when two share a node
+    const sheltersByNode = new Map();
+    for (const shelter of shelters) {
+      const snapped = graph.nearestNode(shelter, mode, SHELTER_SNAP_METRES);
+      if (snapped && !sheltersByNode.has(snapped.node.id)) sheltersByNode.set(snapped.node.id, shelter);
+    }
+    if (sheltersByNode.size === 0) {
+      return { error: 'No open shelter is near a road on the routing map', status: 404 };
+    }
+
+    const lines = closures.map(closure => ({
+      radius_m: closure.radius_m,
+      line: closure.path ? closure.path.coordinates.map(([lng, lat]) => ({ lat, lng })) : [{ lat: closure.lat, lng: closure.lng }]
+    }));
+    const path = graph.shortestPath(start.node.id, new Set(sheltersByNode.keys()), mode, { areas, closures: lines });
+    if (!path) {
+      return { error: 'No open shelter can be reached from here without crossing a closed road or a disaster area', status: 404 };
+    }
+
+    const shelter = sheltersByNode.get(path.target);
+    const steps = describePath(path, mode, shelter);
+    const coordinates = [
+      [origin.lng, origin.lat],
+      ...path.nodes.map(node => [node.lng, node.lat]),
+      [shelter.lng, shelter.lat]
+    ];
+
+    return {
+      route: {
+        mode,
+        origin,
+        shelter,
+        distance_m: steps.reduce((sum, step) => sum + step.distance_m, 0),
+        duration_s: steps.reduce((sum, step) => sum + step.duration_s, 0),
+        // Off-road legs from the start to the road and from the road to the shelter
+        approach_m: Math.round(start.distance + metresBetween(path.nodes[path.nodes.length - 1], shelter)),
+        geometry: { type: 'LineString', coordinates },
+        steps,
+        // Closures the route passes near, to show what it went around
+        closures: closures.filter(closure => path.nodes.some(node => metresBetween(node, closure) < closure.radius_m + NEARBY_CLOSURE_METRES))
+      }
+    };
+  }
+}
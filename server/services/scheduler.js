@@ -0,0 +1,139 @@
+import { config } from '../config/config.js';
+import { logger } from '../middleware/middleware.js';
+import { CacheService } from './cache.js';
+import { createConnectors } from './connectors/index.js';
+import { DORMANT_STATUSES } from './lifecycle.js';
+import { officialUpdateEvent, priorityAlertEvent } from './notifications.js';
+import { SocialMediaService } from './socialMedia.js';
+import { UpdatesService } from './updates.js';
+
+// Polls the social media connectors and official update sources of every
+// disaster that is not deleted, closed or archived, however long since it was
+// last edited, and pushes only new items to its `disaster_${id}` room.
+//
+// A source that throws is skipped with exponential backoff (interval * 2^n,
+// capped at maxBackoffMinutes) until a poll succeeds again. Ticks never
+// overlap: the next one is scheduled after the previous one finishes.
+//
+// New priority alerts and official updates are also published to the
+// `notifications` dispatcher, when given, for alert subscribers.
+export class PollingScheduler {
+  constructor(supabase, io, notifications = null, options = config.scheduler) {
+    this.supabase = supabase;
+    this.io = io;
+    this.notifications = notifications;
+    this.options = options;
+    this.connectors = createConnectors();
+    this.sourceState = new Map(); // source -> { failures, retryAt }
+    this.timer = null;
+    this.stopped = true;
+  }
+
+  start() {
+    if (!this.options.enabled || !this.stopped) return;
+
+    this.stopped = false;
+    logger('info', `Polling scheduler started: every ${this.options.intervalSeconds}s, social sources: ${this.connectors.map(c => c.source).join(', ') || 'none'}`);
+    this.schedule(0);
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  schedule(delayMs) {
+    this.timer = setTimeout(async () => {
+      await this.tick();
+      if (!this.stopped) this.schedule(this.options.intervalSeconds * 1000);
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  async tick() {
+    try {
+      const { data: disasters, error } = await this.supabase
+        .from('disasters')
+        .select('id, title, status, tags, location, location_name, footprint')
+        .is('deleted_at', null)
+        .not('status', 'in', `(${DORMANT_STATUSES.join(',')})`);
+
+      if (error) throw error;
+
+      for (const disaster of disasters) {
+        await this.pollDisaster(disaster);
+      }
+    } catch (error) {
+      logger('error', `Polling tick failed: ${error.message}`);
+    }
+  }
+
+  // Polls every source for one disaster. Also used to fill a new disaster's
+  // feeds right away instead of waiting for the next tick.
+  async pollDisaster(disaster) {
+    const room = `disaster_${disaster.id}`;
+    const cache = new CacheService(this.supabase);
+    const socialMediaService = new SocialMediaService(this.supabase);
+    const updatesService = new UpdatesService(this.supabase, cache);
+
+    for (const connector of this.connectors) {
+      await this.runSource(connector.source, async () => {
+        const reports = await socialMediaService.ingestFrom(connector, disaster);
+        if (reports.length === 0) return;
+
+        const priorityAlerts = socialMediaService.detectPriorityAlerts(reports);
+        this.io.to(room).emit('social_media_updated', {
+          disaster_id: disaster.id,
+          reports,
+          priority_alerts: priorityAlerts
+        });
+        this.notify(priorityAlerts.map(report => priorityAlertEvent(disaster, report)));
+      });
+    }
+
+    for (const source of updatesService.sourcesFor(disaster)) {
+      await this.runSource(`official:${source.id}`, async () => {
+        const updates = await updatesService.ingestFrom(source, disaster);
+        if (updates.length === 0) return;
+
+        this.io.to(room).emit('official_updates_updated', { disaster_id: disaster.id, updates });
+        this.notify(updates.map(update => officialUpdateEvent(disaster, update)));
+      });
+    }
+  }
+
+  // Sends notifications in the background; a failure there must not count
+  // against the source that produced the events
+  notify(events) {
+    if (!this.notifications) return;
+
+    for (const event of events) {
+      this.notifications.publish(event).catch(error => {
+        logger('error', `Notifications for ${event.key} failed: ${error.message}`);
+      });
+    }
+  }
+
+  async runSource(source, task) {
+    const state = this.sourceState.get(source);
+    if (state && Date.now() < state.retryAt) return;
+
+    try {
+      await task();
+      if (state) {
+        logger('info', `Source ${source} recovered after ${state.failures} failed polls`);
+        this.sourceState.delete(source);
+      }
+    } catch (error) {
+      const failures = (state?.failures || 0) + 1;
+      const delayMs = Math.min(
+        this.options.intervalSeconds * 1000 * 2 ** failures,
+        this.options.maxBackoffMinutes * 60 * 1000
+      );
+
+      this.sourceState.set(source, { failures, retryAt: Date.now() + delayMs });
+      logger('warn', `Source ${source} failed (${failures} in a row), retrying in ${Math.round(delayMs / 1000)}s: ${error.message}`);
+    }
+  }
+}
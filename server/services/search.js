@@ -0,0 +1,128 @@
+import { parseBbox } from './geometry.js';
+import { DISASTER_STATUSES } from './lifecycle.js';
+
+// Full-text search over disasters, reports, official updates and stored
+// social posts (see the search migration). Postgres parses the query with
+// websearch_to_tsquery, so quoted phrases, `or` and `-word` work as on the web.
+
+export const SEARCH_KINDS = ['disaster', 'report', 'official_update', 'social_post'];
+
+const PRIORITIES = ['urgent', 'high', 'medium', 'low'];
+const VERIFICATION_STATUSES = ['pending', 'authentic', 'suspicious', 'manipulated', 'error'];
+const STATUSES = [...DISASTER_STATUSES, ...VERIFICATION_STATUSES];
+
+const FACETS = ['kind', 'tag', 'status', 'priority', 'source'];
+const MAX_QUERY_LENGTH = 200;
+const MAX_LIMIT = 100;
+
+function listParam(value) {
+  return value === undefined
+    ? null
+    : String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function dateParam(value, name, errors) {
+  if (value === undefined || value === '') return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    errors.push(`${name} must be a date`);
+    return null;
+  }
+  return date.toISOString();
+}
+
+// Validates search query parameters. Returns { errors, values }.
+export function validateSearch(query) {
+  const errors = [];
+  const values = {};
+
+  const text = typeof query.q === 'string' ? query.q.trim() : '';
+  if (text.length < 2 || text.length > MAX_QUERY_LENGTH) {
+    errors.push(`q must be between 2 and ${MAX_QUERY_LENGTH} characters`);
+  }
+  values.q = text;
+
+  values.kinds = listParam(query.kinds) || SEARCH_KINDS;
+  if (values.kinds.length === 0 || values.kinds.some(kind => !SEARCH_KINDS.includes(kind))) {
+    errors.push(`kinds must be some of ${SEARCH_KINDS.join(', ')}`);
+  }
+
+  values.tags = listParam(query.tag);
+  values.sources = listParam(query.source);
+
+  values.statuses = listParam(query.status);
+  if (values.statuses?.some(status => !STATUSES.includes(status))) {
+    errors.push(`status must be some of ${STATUSES.join(', ')}`);
+  }
+
+  values.priorities = listParam(query.priority);
+  if (values.priorities?.some(priority => !PRIORITIES.includes(priority))) {
+    errors.push(`priority must be some of ${PRIORITIES.join(', ')}`);
+  }
+
+  values.from = dateParam(query.from, 'from', errors);
+  values.to = dateParam(query.to, 'to', errors);
+  if (values.from && values.to && values.from > values.to) {
+    errors.push('from must be before to');
+  }
+
+  values.bbox = null;
+  if (query.bbox !== undefined) {
+    values.bbox = parseBbox(query.bbox);
+    if (!values.bbox) errors.push('bbox must be minLng,minLat,maxLng,maxLat');
+  }
+
+  values.limit = parseInt(query.limit ?? 20, 10);
+  values.offset = parseInt(query.offset ?? 0, 10);
+  if (!Number.isInteger(values.limit) || values.limit < 1 || values.limit > MAX_LIMIT) {
+    errors.push(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  if (!Number.isInteger(values.offset) || values.offset < 0) {
+    errors.push('offset must be a non-negative integer');
+  }
+
+  return { errors, values };
+}
+
+export class SearchService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  // One page of matches, best first, with facet counts over every match
+  async search({ q, kinds, tags, statuses, priorities, sources, from, to, bbox, limit, offset }) {
+    const filters = {
+      search_query: q,
+      kinds,
+      filter_tags: tags,
+      filter_statuses: statuses,
+      filter_priorities: priorities,
+      filter_sources: sources,
+      date_from: from,
+      date_to: to,
+      min_lat: bbox?.minLat ?? null,
+      min_lon: bbox?.minLng ?? null,
+      max_lat: bbox?.maxLat ?? null,
+      max_lon: bbox?.maxLng ?? null
+    };
+
+    const [page, facets] = await Promise.all([
+      this.supabase.rpc('search_content', { ...filters, result_limit: limit, result_offset: offset }),
+      this.supabase.rpc('search_facets', filters)
+    ]);
+
+    const failed = page.error || facets.error;
+    if (failed) throw new Error(`Search failed: ${failed.message}`);
+
+    const counts = Object.fromEntries(FACETS.map(facet => [facet, {}]));
+    facets.data.forEach(({ facet, value, match_count }) => {
+      counts[facet][value] = Number(match_count);
+    });
+
+    return {
+      results: page.data,
+      total: Object.values(counts.kind).reduce((sum, count) => sum + count, 0),
+      facets: counts
+    };
+  }
+}
@@ -1,194 +1,244 @@
+import { createHash } from 'crypto';
 import { logger } from '../middleware/middleware.js';
+import { decodeGeometry, decodePoint, distanceKm, pointInArea, toPointWkt } from './geometry.js';
+import { compareTriage, triage } from './triage.js';
+
+// Posts with coordinates further than this from the disaster are not attached
+const LOCATION_MATCH_RADIUS_KM = 50;
+
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function contentHash(content) {
+  const normalized = content.toLowerCase().replace(/https?:\/\/\S+/g, '').replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+// Decides whether a normalized report belongs to a disaster. At least one
+// disaster tag must appear as a hashtag/keyword or whole word in the text. A post
+// with coordinates must fall inside the disaster's footprint, or without one
+// lie within LOCATION_MATCH_RADIUS_KM of its point; otherwise location names
+// are compared and recorded but do not exclude.
+// Returns { matched_tags, location_match } or null.
+export function matchReportToDisaster(report, disaster) {
+  const text = report.content.toLowerCase();
+  const keywords = (report.keywords || []).map(keyword => keyword.toLowerCase());
+  const matchedTags = (disaster.tags || [])
+    .map(tag => tag.toLowerCase())
+    .filter(tag => keywords.includes(tag) || new RegExp(`(^|[^\\p{L}\\p{N}])#?${escapeRegExp(tag)}([^\\p{L}\\p{N}]|$)`, 'u').test(text));
+
+  if (matchedTags.length === 0) return null;
+
+  const footprint = decodeGeometry(disaster.footprint);
+  const disasterPoint = decodePoint(disaster.location);
+  let locationMatch = null;
+
+  if (report.coordinates && footprint) {
+    if (!pointInArea(report.coordinates, footprint)) return null;
+    locationMatch = true;
+  } else if (report.coordinates && disasterPoint) {
+    if (distanceKm(report.coordinates, disasterPoint) > LOCATION_MATCH_RADIUS_KM) return null;
+    locationMatch = true;
+  } else if (report.location && report.location !== 'Unknown' && disaster.location_name) {
+    const words = (value) => value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 2);
+    const disasterWords = new Set(words(disaster.location_name));
+    locationMatch = words(report.location).some(word => disasterWords.has(word));
+  }
+
+  return { matched_tags: matchedTags, location_match: locationMatch };
+}
+
+// Priority, triage score and reasons for a normalized post. `disaster` is
+// optional; without it proximity is not scored.
+export function triagePost(report, disaster = null) {
+  const { score, priority, reasons } = triage({
+    content: report.content,
+    verified: report.verified,
+    timestamp: report.timestamp,
+    coordinates: report.coordinates
+  }, { disaster });
+
+  return { priority, triage_score: score, triage_reasons: reasons };
+}
+
+function toReport(row) {
+  return {
+    id: row.id,
+    external_id: row.external_id,
+    source: row.source,
+    user: row.author,
+    content: row.content,
+    timestamp: row.posted_at,
+    priority: row.priority,
+    triage_score: row.triage_score,
+    triage_reasons: row.triage_reasons || [],
+    location: row.location_name || 'Unknown',
+    coordinates: decodePoint(row.location),
+    keywords: row.keywords || [],
+    platform: row.platform,
+    verified: row.author_verified,
+    engagement: row.engagement,
+    url: row.url
+  };
+}
 
 export class SocialMediaService {
-  constructor(cacheService) {
-    this.cache = cacheService;
+  constructor(supabase) {
+    this.supabase = supabase;
   }
 
-  async fetchSocialMediaReports(disasterId, tags = []) {
-    const cacheKey = `social_media_${disasterId}_${tags.join('_')}`;
-    
-    try {
-      // Check cache first
-      const cached = await this.cache.get(cacheKey);
-      if (cached) {
-        logger('info', 'Social media cache hit');
-        return cached;
-      }
-
-      // Enhanced mock Twitter API data with more realistic content
-      const mockReports = this.generateEnhancedMockReports(tags, disasterId);
-      
-      // Cache the result
-      await this.cache.set(cacheKey, mockReports, 0.5); // 30 minutes TTL for social media
-      
-      logger('info', `Fetched ${mockReports.length} social media reports`);
-      return mockReports;
-    } catch (error) {
-      logger('error', `Social media fetch error: ${error.message}`);
-      return [];
-    }
+  // Pulls new posts from one connector for a disaster, stores them and
+  // attaches the ones that match. Returns the reports newly attached to the
+  // disaster. Connector and storage errors are thrown to the caller.
+  async ingestFrom(connector, disaster) {
+    const tags = disaster.tags || [];
+    if (tags.length === 0) return [];
+
+    const cursor = await this.getCursor(connector.source, disaster.id);
+    const { reports, cursor: nextCursor } = await connector.pull(cursor, {
+      tags,
+      location: disaster.location_name
+    });
+
+    const matches = reports
+      .map(report => ({ report, match: matchReportToDisaster(report, disaster) }))
+      .filter(({ match }) => match);
+
+    const attached = await this.storeAndAttach(connector.source, disaster, matches);
+    await this.saveCursor(connector.source, disaster.id, nextCursor);
+
+    logger('info', `${connector.source}: ${reports.length} posts fetched, ${matches.length} matched disaster ${disaster.id}`);
+    return attached;
   }
 
-  generateEnhancedMockReports(tags, disasterId) {
-    const baseReports = [
-      {
-        id: `tweet_${disasterId}_1`,
-        user: 'citizen_reporter',
-        content: '#FloodAlert Water levels rising rapidly in downtown area. Multiple streets flooded. Avoid 5th Avenue between 42nd and 50th Street. Emergency services on scene.',
-        timestamp: new Date(Date.now() - 15 * 60 * 1000).toISOString(),
-        priority: 'urgent',
-        location: 'Manhattan, NYC',
-        keywords: ['flood', 'emergency', 'water', 'streets'],
-        platform: 'Twitter',
-        verified: true,
-        engagement: { likes: 234, shares: 89, replies: 45 }
-      },
-      {
-        id: `tweet_${disasterId}_2`,
-        user: 'nyc_emergency',
-        content: '🚨 EMERGENCY ALERT: Evacuation order issued for Lower East Side residents. Proceed to designated shelters immediately. Transportation available at community centers.',
-        timestamp: new Date(Date.now() - 25 * 60 * 1000).toISOString(),
-        priority: 'urgent',
-        location: 'Lower East Side, NYC',
-        keywords: ['evacuation', 'emergency', 'shelter', 'transportation'],
-        platform: 'Twitter',
-        verified: true,
-        engagement: { likes: 567, shares: 234, replies: 78 }
-      },
-      {
-        id: `tweet_${disasterId}_3`,
-        user: 'volunteer_helper',
-        content: 'Setting up emergency food distribution at Central Park. Hot meals and water available. Volunteers needed! #DisasterRelief #NYC',
-        timestamp: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
-        priority: 'medium',
-        location: 'Central Park, NYC',
-        keywords: ['food', 'volunteers', 'relief', 'help'],
-        platform: 'Twitter',
-        verified: false,
-        engagement: { likes: 123, shares: 67, replies: 23 }
-      },
-      {
-        id: `tweet_${disasterId}_4`,
-        user: 'medical_team_nyc',
-        content: 'Mobile medical unit deployed to Brooklyn Bridge area. First aid and emergency medical care available. Follow safety protocols when approaching.',
-        timestamp: new Date(Date.now() - 35 * 60 * 1000).toISOString(),
-        priority: 'high',
-        location: 'Brooklyn Bridge, NYC',
-        keywords: ['medical', 'first aid', 'emergency', 'safety'],
-        platform: 'Twitter',
-        verified: true,
-        engagement: { likes: 189, shares: 45, replies: 12 }
-      },
-      {
-        id: `tweet_${disasterId}_5`,
-        user: 'local_resident',
-        content: 'Power outage affecting entire block on 8th Avenue. Traffic lights down. Please drive carefully and check on elderly neighbors.',
-        timestamp: new Date(Date.now() - 55 * 60 * 1000).toISOString(),
-        priority: 'medium',
-        location: '8th Avenue, NYC',
-        keywords: ['power', 'outage', 'traffic', 'safety'],
-        platform: 'Twitter',
-        verified: false,
-        engagement: { likes: 67, shares: 23, replies: 8 }
-      },
-      {
-        id: `tweet_${disasterId}_6`,
-        user: 'fire_dept_nyc',
-        content: '🔥 Structure fire contained at 123 Main St. Area secured. Residents from adjacent buildings evacuated as precaution. Air quality monitoring in progress.',
-        timestamp: new Date(Date.now() - 65 * 60 * 1000).toISOString(),
-        priority: 'high',
-        location: 'Main Street, NYC',
-        keywords: ['fire', 'evacuation', 'air quality', 'safety'],
-        platform: 'Twitter',
-        verified: true,
-        engagement: { likes: 345, shares: 123, replies: 56 }
-      },
-      {
-        id: `tweet_${disasterId}_7`,
-        user: 'community_leader',
-        content: 'Community center at 456 Oak St open as temporary shelter. Blankets, food, and phone charging stations available. Pet-friendly facility.',
-        timestamp: new Date(Date.now() - 75 * 60 * 1000).toISOString(),
-        priority: 'medium',
-        location: 'Oak Street, NYC',
-        keywords: ['shelter', 'community', 'pets', 'charging'],
-        platform: 'Twitter',
-        verified: false,
-        engagement: { likes: 156, shares: 78, replies: 34 }
-      },
-      {
-        id: `tweet_${disasterId}_8`,
-        user: 'transport_update',
-        content: 'Subway lines 4, 5, 6 suspended due to flooding. Bus service rerouted. Check MTA app for real-time updates. Free rides to evacuation centers.',
-        timestamp: new Date(Date.now() - 85 * 60 * 1000).toISOString(),
-        priority: 'high',
-        location: 'NYC Transit System',
-        keywords: ['subway', 'bus', 'transport', 'evacuation'],
-        platform: 'Twitter',
-        verified: true,
-        engagement: { likes: 445, shares: 167, replies: 89 }
-      }
-    ];
-
-    // Filter based on tags if provided
-    if (tags.length > 0) {
-      return baseReports.filter(report => 
-        tags.some(tag => 
-          report.keywords.some(keyword => 
-            keyword.toLowerCase().includes(tag.toLowerCase())
-          ) || report.content.toLowerCase().includes(tag.toLowerCase())
-        )
-      );
+  async storeAndAttach(source, disaster, matches) {
+    if (matches.length === 0) return [];
+
+    const seen = new Set();
+    const candidates = [];
+    for (const { report, match } of matches) {
+      const hash = contentHash(report.content);
+      if (seen.has(report.external_id) || seen.has(hash)) continue;
+      seen.add(report.external_id);
+      seen.add(hash);
+      candidates.push({ report: { ...report, ...triagePost(report, disaster) }, match, hash });
     }
 
-    return baseReports;
+    // Same text already stored (e.g. cross-posted or re-shared): reuse that post
+    const { data: existing, error: existingError } = await this.supabase
+      .from('social_posts')
+      .select('id, content_hash')
+      .in('content_hash', candidates.map(({ hash }) => hash));
+    if (existingError) throw existingError;
+
+    const postIdByHash = new Map(existing.map(row => [row.content_hash, row.id]));
+    const rows = candidates
+      .filter(({ hash }) => !postIdByHash.has(hash))
+      .map(({ report, hash }) => ({
+        source,
+        external_id: String(report.external_id),
+        platform: report.platform,
+        author: report.user || 'unknown',
+        author_verified: Boolean(report.verified),
+        content: report.content,
+        content_hash: hash,
+        url: report.url,
+        keywords: report.keywords,
+        location_name: report.location !== 'Unknown' ? report.location : null,
+        location: report.coordinates ? toPointWkt(report.coordinates.lat, report.coordinates.lng) : null,
+        engagement: report.engagement,
+        priority: report.priority,
+        triage_score: report.triage_score,
+        triage_reasons: report.triage_reasons,
+        posted_at: report.timestamp
+      }));
+
+    if (rows.length > 0) {
+      const { error: insertError } = await this.supabase
+        .from('social_posts')
+        .upsert(rows, { onConflict: 'source,external_id', ignoreDuplicates: true });
+      if (insertError) throw insertError;
+
+      const { data: stored, error: storedError } = await this.supabase
+        .from('social_posts')
+        .select('id, content_hash')
+        .eq('source', source)
+        .in('external_id', rows.map(row => row.external_id));
+      if (storedError) throw storedError;
+
+      stored.forEach(row => postIdByHash.set(row.content_hash, row.id));
+    }
+
+    const links = candidates
+      .filter(({ hash }) => postIdByHash.has(hash))
+      .map(({ hash, match }) => ({ disaster_id: disaster.id, post_id: postIdByHash.get(hash), ...match }));
+    if (links.length === 0) return [];
+
+    const { data: linked, error: linkError } = await this.supabase
+      .from('disaster_social_posts')
+      .upsert(links, { onConflict: 'disaster_id,post_id', ignoreDuplicates: true })
+      .select('post_id');
+    if (linkError) throw linkError;
+
+    const newPostIds = new Set(linked.map(link => link.post_id));
+    return candidates
+      .filter(({ hash }) => newPostIds.has(postIdByHash.get(hash)))
+      .map(({ report, hash }) => ({ ...report, id: postIdByHash.get(hash), source }));
   }
 
-  async detectPriorityAlerts(reports) {
-    const urgentKeywords = ['urgent', 'sos', 'emergency', 'help', 'trapped', 'critical', 'evacuation', 'danger'];
-    
-    const priorityAlerts = reports.filter(report => {
-      const content = report.content.toLowerCase();
-      return urgentKeywords.some(keyword => content.includes(keyword)) || report.priority === 'urgent';
-    });
+  async getCursor(source, scope) {
+    const { data } = await this.supabase
+      .from('social_ingest_cursors')
+      .select('cursor')
+      .eq('source', source)
+      .eq('scope', scope)
+      .maybeSingle();
 
-    // Sort by priority and timestamp
-    return priorityAlerts.sort((a, b) => {
-      const priorityOrder = { urgent: 3, high: 2, medium: 1, low: 0 };
-      const aPriority = priorityOrder[a.priority] || 0;
-      const bPriority = priorityOrder[b.priority] || 0;
-      
-      if (aPriority !== bPriority) {
-        return bPriority - aPriority; // Higher priority first
-      }
-      
-      return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(); // More recent first
-    });
+    return data?.cursor || null;
   }
 
-  async analyzeSentiment(reports) {
-    // Simple sentiment analysis based on keywords
-    return reports.map(report => {
-      const content = report.content.toLowerCase();
-      let sentiment = 'neutral';
-      
-      const positiveKeywords = ['help', 'safe', 'rescued', 'volunteer', 'support', 'relief'];
-      const negativeKeywords = ['trapped', 'danger', 'emergency', 'critical', 'urgent', 'flood', 'fire'];
-      
-      const positiveCount = positiveKeywords.filter(keyword => content.includes(keyword)).length;
-      const negativeCount = negativeKeywords.filter(keyword => content.includes(keyword)).length;
-      
-      if (negativeCount > positiveCount) {
-        sentiment = 'negative';
-      } else if (positiveCount > negativeCount) {
-        sentiment = 'positive';
-      }
-      
-      return {
-        ...report,
-        sentiment,
-        sentiment_score: positiveCount - negativeCount
-      };
-    });
+  async saveCursor(source, scope, cursor) {
+    const { error } = await this.supabase
+      .from('social_ingest_cursors')
+      .upsert({ source, scope, cursor, updated_at: new Date().toISOString() });
+
+    if (error) throw error;
+  }
+
+  // Stored reports attached to a disaster, newest first. `tags` narrows the
+  // result to posts mentioning any of them.
+  async fetchSocialMediaReports(disasterId, { tags = [], limit = 100 } = {}) {
+    try {
+      const { data, error } = await this.supabase
+        .from('social_posts')
+        .select('*, disaster_social_posts!inner(disaster_id)')
+        .eq('disaster_social_posts.disaster_id', disasterId)
+        .order('posted_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      const reports = data.map(toReport);
+      if (tags.length === 0) return reports;
+
+      const wanted = tags.map(tag => tag.toLowerCase());
+      return reports.filter(report =>
+        wanted.some(tag =>
+          report.keywords.some(keyword => keyword.toLowerCase().includes(tag)) ||
+          report.content.toLowerCase().includes(tag)
+        )
+      );
+    } catch (error) {
+      logger('error', `Social media fetch error: ${error.message}`);
+      return [];
+    }
+  }
+
+  // Urgent and high priority reports, most pressing first
+  detectPriorityAlerts(reports) {
+    return reports
+      .filter(report => report.priority === 'urgent' || report.priority === 'high')
+      .sort(compareTriage);
   }
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+// Base class for file storage backends used for uploaded report images.
+//
+// Objects are addressed by a key such as `reports/<id>/image.jpg`. `put`
+// stores the bytes and returns the public URL the client loads them from.
+
+export class StorageBackend {
+  constructor(name, options = {}) {
+    this.name = name;
+    this.options = options;
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  async put(_key, _body, _contentType) {
+    throw new Error(`${this.constructor.name} must implement put`);
+  }
+
+  async delete(_key) {
+    throw new Error(`${this.constructor.name} must implement delete`);
+  }
+
+  // Reads an object back, for checks that need the stored bytes
+  async get(_key) {
+    throw new Error(`${this.constructor.name} must implement get`);
+  }
+}
+
+// Joins a base URL and a key without doubling or dropping slashes
+export function joinUrl(base, key) {
+  return `${base.replace(/\/+$/, '')}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
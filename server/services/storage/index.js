@@ -0,0 +1,47 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { config } from '../../config/config.js';
+import { logger } from '../../middleware/middleware.js';
+import { LocalStorage } from './local.js';
+import { S3Storage } from './s3.js';
+
+export { StorageBackend } from './base.js';
+
+// A relative UPLOAD_DIR is taken from the server directory, not the working directory
+export const UPLOAD_DIRECTORY = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../..',
+  config.uploads.localDirectory
+);
+
+const BACKENDS = {
+  local: () => new LocalStorage({
+    directory: UPLOAD_DIRECTORY,
+    publicUrl: config.uploads.publicUrl
+  }),
+  s3: () => new S3Storage(config.uploads.s3)
+};
+
+export const STORAGE_BACKENDS = Object.keys(BACKENDS);
+
+let storage = null;
+
+// The backend named by UPLOAD_STORAGE, created on first use. An unknown or
+// unconfigured backend falls back to local disk so uploads keep working.
+export function getStorage() {
+  if (storage) return storage;
+
+  const name = config.uploads.storage;
+  const create = BACKENDS[name];
+  if (!create) {
+    logger('warn', `Unknown upload storage: ${name}, using local`);
+  }
+
+  storage = (create || BACKENDS.local)();
+  if (!storage.isConfigured()) {
+    logger('warn', `Upload storage ${name} is not configured, using local`);
+    storage = BACKENDS.local();
+  }
+
+  return storage;
+}
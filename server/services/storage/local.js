@@ -0,0 +1,38 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { StorageBackend, joinUrl } from './base.js';
+
+// Stores files under a directory on the server's disk. The server serves that
+// directory at `publicUrl` (see index.js), so this is the default for single
+// instance deployments; use S3 when there are several instances.
+export class LocalStorage extends StorageBackend {
+  constructor(options = {}) {
+    super('local', options);
+    this.directory = path.resolve(options.directory);
+    this.publicUrl = options.publicUrl || '/uploads';
+  }
+
+  // Keys are generated by the server, but never let one escape the directory
+  resolve(key) {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(this.directory + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key, body) {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+    return joinUrl(this.publicUrl, key);
+  }
+
+  async delete(key) {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  async get(key) {
+    return readFile(this.resolve(key));
+  }
+}
@@ -0,0 +1,50 @@
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { StorageBackend, joinUrl } from './base.js';
+
+// Stores files in an S3 bucket or an S3-compatible service (MinIO, Cloudflare
+// R2, ...) given by `endpoint`. Objects must be publicly readable through
+// `publicUrl`, e.g. a CDN or a bucket policy; without it the bucket's
+// virtual-host URL is used.
+export class S3Storage extends StorageBackend {
+  constructor(options = {}) {
+    super('s3', options);
+    this.bucket = options.bucket;
+    this.publicUrl = options.publicUrl
+      || (options.endpoint
+        ? joinUrl(options.endpoint, this.bucket || '')
+        : `https://${this.bucket}.s3.${options.region}.amazonaws.com`);
+
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint || undefined,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+    });
+  }
+
+  isConfigured() {
+    return Boolean(this.bucket && this.options.region);
+  }
+
+  async put(key, body, contentType) {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      CacheControl: 'public, max-age=31536000, immutable'
+    }));
+    return joinUrl(this.publicUrl, key);
+  }
+
+  async delete(key) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async get(key) {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+}
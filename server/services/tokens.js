@@ -0,0 +1,57 @@
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config.js';
+
+// Access and refresh tokens are both signed JWTs. The `sub` claim carries the
+// user id so it lines up with the `auth.jwt() ->> 'sub'` checks in the RLS policies.
+
+function getSecret() {
+  if (!config.auth.jwtSecret) {
+    throw new Error('JWT_SECRET must be set');
+  }
+  return config.auth.jwtSecret;
+}
+
+export function signAccessToken(user) {
+  return jwt.sign(
+    { sub: user.id, username: user.username, role: user.role, type: 'access' },
+    getSecret(),
+    { expiresIn: config.auth.accessTokenTtl }
+  );
+}
+
+export function signRefreshToken(user) {
+  const tokenId = uuidv4();
+  const token = jwt.sign(
+    { sub: user.id, type: 'refresh' },
+    getSecret(),
+    { expiresIn: config.auth.refreshTokenTtl, jwtid: tokenId }
+  );
+  const { exp } = jwt.decode(token);
+
+  return { token, tokenId, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+export function verifyAccessToken(token) {
+  const payload = jwt.verify(token, getSecret());
+  if (payload.type !== 'access') {
+    throw new Error('Not an access token');
+  }
+
+  return { id: payload.sub, username: payload.username, role: payload.role };
+}
+
+export function verifyRefreshToken(token) {
+  const payload = jwt.verify(token, getSecret());
+  if (payload.type !== 'refresh' || !payload.jti) {
+    throw new Error('Not a refresh token');
+  }
+
+  return { userId: payload.sub, tokenId: payload.jti };
+}
+
+// Extracts the token from an `Authorization: Bearer <token>` header value
+export function getBearerToken(header = '') {
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import { config } from '../config/config.js';
+import { TRIAGE_RULES } from '../config/triageRules.js';
+import { logger } from '../middleware/middleware.js';
+import { decodeGeometry, decodePoint, distanceKm, pointInArea } from './geometry.js';
+
+// Scores reports and social posts from 0 to 100 and gives the reason behind
+// every point, so a responder can see why something was flagged. The rules
+// live in config/triageRules.js and can be replaced per deployment.
+
+export const PRIORITIES = ['urgent', 'high', 'medium', 'low'];
+
+const PRIORITY_RANK = { urgent: 3, high: 2, medium: 1, low: 0 };
+
+let loadedRules = null;
+
+// Rules from TRIAGE_RULES_FILE over the defaults, section by section. A file
+// that cannot be read is logged and the defaults are used.
+export function loadTriageRules(file = config.triage.rulesFile) {
+  if (!file) return TRIAGE_RULES;
+
+  try {
+    const overrides = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return { ...TRIAGE_RULES, ...overrides };
+  } catch (error) {
+    logger('error', `Triage rules in ${file} could not be loaded, using the defaults: ${error.message}`);
+    return TRIAGE_RULES;
+  }
+}
+
+export function getTriageRules() {
+  if (!loadedRules) loadedRules = loadTriageRules();
+  return loadedRules;
+}
+
+function tokenize(text) {
+  return text.toLowerCase().replace(/[’‘]/g, '\'').match(/[\p{L}\p{N}'#-]+/gu)?.map(word => word.replace(/^#/, '')) || [];
+}
+
+// Index of the first unnegated occurrence of `phrase` in `words`, or where it
+// was negated
+function findPhrase(words, phrase, negation) {
+  const parts = tokenize(phrase);
+  const prefix = phrase.endsWith('*');
+  let negatedBy = null;
+
+  for (let i = 0; i + parts.length <= words.length; i++) {
+    const matches = parts.every((part, offset) => {
+      const word = words[i + offset];
+      return prefix && offset === parts.length - 1 ? word.startsWith(part.replace(/\*$/, '')) : word === part;
+    });
+    if (!matches) continue;
+
+    const before = words.slice(Math.max(0, i - negation.window), i);
+    const negator = before.find(word => negation.words.includes(word));
+    if (!negator) return { found: true };
+    negatedBy = negatedBy || negator;
+  }
+
+  return { found: false, negatedBy };
+}
+
+function priorityFor(score, thresholds) {
+  if (score >= thresholds.urgent) return 'urgent';
+  if (score >= thresholds.high) return 'high';
+  if (score >= thresholds.medium) return 'medium';
+  return 'low';
+}
+
+// Scores one report or social post. `item` has `content` and, when known,
+// `verified` (author), `reporter_roles`, `verification_status`, `timestamp`
+// and a location (`coordinates` { lat, lng } or a stored `location`).
+// `disaster` (stored row or with lat/lng) enables the proximity rules.
+// Returns { score, priority, life_safety, reasons }.
+export function triage(item, { disaster = null, now = new Date(), rules = getTriageRules() } = {}) {
+  const words = tokenize(item.content || '');
+  const reasons = [];
+  const lifeSafety = [];
+  let score = 0;
+
+  rules.categories.forEach(category => {
+    let negated = null;
+    const phrase = category.phrases.find(candidate => {
+      const { found, negatedBy } = findPhrase(words, candidate, rules.negation);
+      if (!found && negatedBy && !negated) negated = { phrase: candidate, by: negatedBy };
+      return found;
+    });
+
+    if (!phrase) {
+      if (negated && category.points > 0) {
+        reasons.push({ rule: category.id, points: 0, detail: `"${negated.phrase}" ignored, negated by "${negated.by}"` });
+      }
+      return;
+    }
+
+    let points = category.points;
+    if (category.lifeSafety) {
+      if (lifeSafety.length > 0) points = rules.additionalLifeSafety;
+      lifeSafety.push(category.id);
+    }
+    score += points;
+    reasons.push({ rule: category.id, points, detail: `${category.label}: "${phrase}"` });
+  });
+
+  const { credibility } = rules;
+  if (item.verified && credibility.verifiedAuthor) {
+    score += credibility.verifiedAuthor;
+    reasons.push({ rule: 'verified_author', points: credibility.verifiedAuthor, detail: 'Verified author' });
+  }
+  // The reporter's most credible role counts, platform-wide or for this disaster
+  const role = (item.reporter_roles || [])
+    .filter(name => credibility.roles[name])
+    .sort((a, b) => credibility.roles[b] - credibility.roles[a])[0];
+  if (role) {
+    score += credibility.roles[role];
+    reasons.push({ rule: 'reporter_role', points: credibility.roles[role], detail: `Reported by a ${role.replace(/_/g, ' ')}` });
+  }
+  const verificationPoints = credibility.verification[item.verification_status];
+  if (verificationPoints) {
+    score += verificationPoints;
+    reasons.push({ rule: 'image_verification', points: verificationPoints, detail: `Image verification: ${item.verification_status}` });
+  }
+
+  if (item.timestamp) {
+    const { points, fullHours, zeroHours } = rules.recency;
+    const ageHours = (now - new Date(item.timestamp)) / 3600000;
+    const share = ageHours <= fullHours ? 1 : Math.max(0, (zeroHours - ageHours) / (zeroHours - fullHours));
+    const recencyPoints = Math.round(points * share);
+    if (recencyPoints > 0) {
+      score += recencyPoints;
+      reasons.push({ rule: 'recency', points: recencyPoints, detail: `Posted ${ageHours < 1 ? 'within the hour' : `${Math.round(ageHours)}h ago`}` });
+    }
+  }
+
+  const point = item.coordinates || decodePoint(item.location);
+  if (point && disaster) {
+    const { proximity } = rules;
+    const area = decodeGeometry(disaster.footprint);
+    const center = disaster.lat != null ? { lat: disaster.lat, lng: disaster.lng } : decodePoint(disaster.location);
+    const distance = center ? distanceKm(point, center) : null;
+
+    if (area && pointInArea(point, area)) {
+      score += proximity.insideArea;
+      reasons.push({ rule: 'proximity', points: proximity.insideArea, detail: 'Inside the affected area' });
+    } else if (distance !== null && distance <= proximity.nearKm) {
+      score += proximity.near;
+      reasons.push({ rule: 'proximity', points: proximity.near, detail: `${distance.toFixed(1)} km from the disaster` });
+    } else if (distance !== null && distance <= proximity.withinKm) {
+      score += proximity.within;
+      reasons.push({ rule: 'proximity', points: proximity.within, detail: `${distance.toFixed(0)} km from the disaster` });
+    }
+  }
+
+  score = Math.max(0, Math.min(100, score));
+  return { score, priority: priorityFor(score, rules.thresholds), life_safety: lifeSafety, reasons };
+}
+
+// Most pressing first: priority, then score, then the most recent
+export function compareTriage(a, b) {
+  return (PRIORITY_RANK[b.priority] ?? 0) - (PRIORITY_RANK[a.priority] ?? 0)
+    || (b.triage_score ?? 0) - (a.triage_score ?? 0)
+    || new Date(b.timestamp || b.created_at) - new Date(a.timestamp || a.created_at);
+}
@@ -0,0 +1,50 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { PRIORITIES, getTriageRules, triage } from './triage.js';
+
+// Scores a labelled corpus with a set of triage rules, for
+// `npm run triage:evaluate` and the tests. Each corpus line has `content` and
+// the `expected` priority, and may give `verified`, `reporter_roles` and
+// `verification_status`.
+
+export const DEFAULT_CORPUS = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../data/triage_corpus.jsonl');
+export const MIN_ACCURACY = 0.85;
+
+export async function readCorpus(file = DEFAULT_CORPUS) {
+  const lines = (await readFile(file, 'utf8')).split('\n').filter(line => line.trim());
+
+  return lines.map((line, index) => {
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${index + 1} of ${file}`);
+    }
+    if (typeof entry.content !== 'string' || !PRIORITIES.includes(entry.expected)) {
+      throw new Error(`Line ${index + 1} of ${file} needs content and an expected priority`);
+    }
+    return { id: entry.id || `line ${index + 1}`, ...entry };
+  });
+}
+
+// { accuracy, confusion, misses, missedUrgent }: confusion[expected][scored]
+// counts the items, misses are the { entry, result } pairs scored differently
+// from their label and missedUrgent counts urgent items scored below high
+export function evaluateCorpus(corpus, rules = getTriageRules()) {
+  const confusion = Object.fromEntries(PRIORITIES.map(expected => [expected, Object.fromEntries(PRIORITIES.map(p => [p, 0]))]));
+  const misses = [];
+  let missedUrgent = 0;
+
+  corpus.forEach(entry => {
+    const result = triage(entry, { rules });
+    confusion[entry.expected][result.priority]++;
+
+    if (result.priority !== entry.expected) {
+      misses.push({ entry, result });
+      if (entry.expected === 'urgent' && !['urgent', 'high'].includes(result.priority)) missedUrgent++;
+    }
+  });
+
+  return { accuracy: (corpus.length - misses.length) / corpus.length, confusion, misses, missedUrgent };
+}
@@ -1,104 +1,243 @@
 import axios from 'axios';
-import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { config } from '../config/config.js';
+import { CAP_SEVERITY_PRIORITY, OFFICIAL_SOURCES, REGION_ALIASES } from '../config/officialSources.js';
 import { logger } from '../middleware/middleware.js';
+import { parseSource } from './officialFeeds.js';
 
-export class UpdatesService {
-  constructor(cacheService) {
-    this.cache = cacheService;
+const FIXTURE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../data/official');
+
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsTerm(text, term) {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}([^\\p{L}\\p{N}]|$)`, 'u').test(text);
+}
+
+// Place names for a disaster: words of its location name, widened with any
+// REGION_ALIASES group the location belongs to
+function locationTerms(disaster) {
+  const location = (disaster.location_name || '').toLowerCase();
+  const terms = new Set(location.split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 2));
+
+  for (const group of REGION_ALIASES) {
+    if (group.some(alias => containsTerm(location, alias))) {
+      group.forEach(alias => terms.add(alias));
+    }
   }
 
-  async fetchOfficialUpdates(disasterId, location) {
-    const cacheKey = `official_updates_${disasterId}_${location}`;
-    
-    try {
-      // Check cache first
-      const cached = await this.cache.get(cacheKey);
-      if (cached) {
-        logger('info', 'Official updates cache hit');
-        return cached;
-      }
-
-      // Mock official updates - in production, scrape FEMA, Red Cross, etc.
-      const updates = await this.generateMockOfficialUpdates(location);
-      
-      // Cache the result
-      await this.cache.set(cacheKey, updates);
-      
-      logger('info', `Fetched ${updates.length} official updates`);
-      return updates;
-    } catch (error) {
-      logger('error', `Official updates fetch error: ${error.message}`);
-      return [];
+  return [...terms];
+}
+
+// Tags, or the longer words of the title when a disaster has no tags
+function keywordTerms(disaster) {
+  const tags = (disaster.tags || []).map(tag => tag.toLowerCase());
+  if (tags.length > 0) return tags;
+  return (disaster.title || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 3);
+}
+
+export function sourceCoversDisaster(source, disaster) {
+  if (source.regions.includes('*')) return true;
+  const location = (disaster.location_name || '').toLowerCase();
+  return source.regions.some(region => containsTerm(location, region));
+}
+
+// An update matches when it mentions one of the disaster's keywords (as a
+// word prefix, so `flood` matches `flooding`) and, for sources that cover
+// everywhere, one of its place names. Returns the matched keywords or null.
+export function matchUpdateToDisaster(update, source, disaster) {
+  const text = `${update.title} ${update.content} ${update.area || ''}`.toLowerCase();
+  const keywords = keywordTerms(disaster).filter(keyword =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}`, 'u').test(text)
+  );
+
+  if (keywords.length === 0) return null;
+
+  if (source.regions.includes('*') && !locationTerms(disaster).some(term => containsTerm(text, term))) {
+    return null;
+  }
+
+  return keywords;
+}
+
+function priorityFor(source, item) {
+  if (item.severity && CAP_SEVERITY_PRIORITY[item.severity]) {
+    return CAP_SEVERITY_PRIORITY[item.severity];
+  }
+
+  const text = `${item.title} ${item.content}`.toLowerCase();
+  for (const priority of ['urgent', 'high', 'medium']) {
+    if ((source.priority[priority] || []).some(keyword => text.includes(keyword))) {
+      return priority;
     }
   }
+  return source.priority.default;
+}
 
-  async generateMockOfficialUpdates(location) {
-    // Mock data representing scraped official sources
-    return [
-      {
-        id: 'fema_1',
-        source: 'FEMA',
-        title: 'Flood Warning Extended for NYC Area',
-        content: 'The National Weather Service has extended the flood warning for New York City through Thursday evening. Residents in low-lying areas should remain vigilant.',
-        timestamp: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
-        url: 'https://www.fema.gov/disaster/current',
-        priority: 'high'
-      },
-      {
-        id: 'redcross_1',
-        source: 'American Red Cross',
-        title: 'Emergency Shelters Open Across NYC',
-        content: 'The American Red Cross has opened additional emergency shelters in Manhattan, Brooklyn, and Queens. Transportation to shelters is available.',
-        timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-        url: 'https://www.redcross.org/local/new-york',
-        priority: 'medium'
-      },
-      {
-        id: 'nyc_emergency_1',
-        source: 'NYC Emergency Management',
-        title: 'Travel Advisory: Avoid Flooded Streets',
-        content: 'NYC residents are advised to avoid travel on flooded streets. Several subway lines are experiencing delays due to water on tracks.',
-        timestamp: new Date(Date.now() - 1 * 60 * 60 * 1000).toISOString(),
-        url: 'https://www1.nyc.gov/site/em/index.page',
-        priority: 'medium'
-      }
-    ];
+function titleHash(title) {
+  return createHash('sha256').update(title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()).digest('hex');
+}
+
+function toUpdate(row) {
+  return {
+    id: row.id,
+    source_id: row.source_id,
+    source: row.source_name,
+    title: row.title,
+    content: row.content,
+    url: row.url,
+    timestamp: row.published_at,
+    priority: row.priority,
+    area: row.area,
+    event: row.event,
+    severity: row.severity,
+    urgency: row.urgency,
+    certainty: row.certainty
+  };
+}
+
+export class UpdatesService {
+  constructor(supabase, cacheService, sources = OFFICIAL_SOURCES) {
+    this.supabase = supabase;
+    this.cache = cacheService;
+    this.sources = sources;
   }
 
-  async scrapeWebsite(url) {
-    try {
-      const response = await axios.get(url, {
+  sourcesFor(disaster) {
+    return this.sources.filter(source => sourceCoversDisaster(source, disaster));
+  }
+
+  // Parsed items of a source, reused for `ttlMinutes` so polling many
+  // disasters fetches each source once. Errors are thrown.
+  async fetchSource(source) {
+    const cacheKey = `official_source_${source.id}`;
+    const cached = await this.cache.get(cacheKey);
+    if (cached) return cached;
+
+    let body;
+    if (config.officialUpdates.offline) {
+      body = await readFile(path.join(FIXTURE_DIR, source.fixture), 'utf8');
+    } else {
+      const response = await axios.get(source.url, {
         timeout: 10000,
+        responseType: 'text',
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; DisasterBot/1.0)'
         }
       });
+      body = response.data;
+    }
 
-      const $ = cheerio.load(response.data);
-      
-      // Generic scraping logic - would need to be customized per site
-      const updates = [];
-      $('article, .news-item, .update-item').each((i, elem) => {
-        const title = $(elem).find('h1, h2, h3, .title').first().text().trim();
-        const content = $(elem).find('p, .content, .summary').first().text().trim();
-        
-        if (title && content) {
-          updates.push({
-            id: `scraped_${i}`,
-            source: url,
-            title,
-            content: content.substring(0, 500) + (content.length > 500 ? '...' : ''),
-            timestamp: new Date().toISOString(),
-            url,
-            priority: 'medium'
-          });
-        }
-      });
+    const items = parseSource(source, body).map(item => ({ ...item, priority: priorityFor(source, item) }));
+    await this.cache.set(cacheKey, items, source.ttlMinutes / 60);
+
+    logger('info', `Fetched ${items.length} official updates from ${source.name}`);
+    return items;
+  }
+
+  // Fetches a source, stores its items and attaches the ones matching the
+  // disaster. Returns the updates newly attached to the disaster.
+  async ingestFrom(source, disaster) {
+    const matches = (await this.fetchSource(source))
+      .map(item => ({ item, keywords: matchUpdateToDisaster(item, source, disaster) }))
+      .filter(({ keywords }) => keywords);
+
+    if (matches.length === 0) return [];
+
+    const candidates = [];
+    const seen = new Set();
+    for (const match of matches) {
+      const hash = titleHash(match.item.title);
+      if (seen.has(hash)) continue;
+      seen.add(hash);
+      candidates.push({ ...match, hash });
+    }
+
+    // The same announcement is often republished by several sources
+    const { data: existing, error: existingError } = await this.supabase
+      .from('official_updates')
+      .select('id, content_hash')
+      .in('content_hash', candidates.map(({ hash }) => hash));
+    if (existingError) throw existingError;
+
+    const updateIdByHash = new Map(existing.map(row => [row.content_hash, row.id]));
+    const rows = candidates
+      .filter(({ hash }) => !updateIdByHash.has(hash))
+      .map(({ item, hash }) => ({
+        source_id: source.id,
+        source_name: source.name,
+        external_id: item.external_id,
+        title: item.title,
+        content: item.content,
+        content_hash: hash,
+        url: item.url,
+        published_at: item.published_at,
+        priority: item.priority,
+        area: item.area || null,
+        event: item.event || null,
+        severity: item.severity || null,
+        urgency: item.urgency || null,
+        certainty: item.certainty || null
+      }));
 
-      return updates;
+    if (rows.length > 0) {
+      const { error: insertError } = await this.supabase
+        .from('official_updates')
+        .upsert(rows, { onConflict: 'source_id,external_id', ignoreDuplicates: true });
+      if (insertError) throw insertError;
+
+      const { data: stored, error: storedError } = await this.supabase
+        .from('official_updates')
+        .select('id, content_hash')
+        .eq('source_id', source.id)
+        .in('external_id', rows.map(row => row.external_id));
+      if (storedError) throw storedError;
+
+      stored.forEach(row => updateIdByHash.set(row.content_hash, row.id));
+    }
+
+    const links = candidates
+      .filter(({ hash }) => updateIdByHash.has(hash))
+      .map(({ hash, keywords }) => ({ disaster_id: disaster.id, update_id: updateIdByHash.get(hash), matched_keywords: keywords }));
+    if (links.length === 0) return [];
+
+    const { data: linked, error: linkError } = await this.supabase
+      .from('disaster_official_updates')
+      .upsert(links, { onConflict: 'disaster_id,update_id', ignoreDuplicates: true })
+      .select('update_id');
+    if (linkError) throw linkError;
+
+    if (linked.length === 0) return [];
+
+    const { data: attached, error: attachedError } = await this.supabase
+      .from('official_updates')
+      .select('*')
+      .in('id', linked.map(link => link.update_id))
+      .order('published_at', { ascending: false, nullsFirst: false });
+    if (attachedError) throw attachedError;
+
+    return attached.map(toUpdate);
+  }
+
+  // Stored updates attached to a disaster, newest first
+  async fetchOfficialUpdates(disasterId, { limit = 50 } = {}) {
+    try {
+      const { data, error } = await this.supabase
+        .from('official_updates')
+        .select('*, disaster_official_updates!inner(disaster_id)')
+        .eq('disaster_official_updates.disaster_id', disasterId)
+        .order('published_at', { ascending: false, nullsFirst: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data.map(toUpdate);
     } catch (error) {
-      logger('error', `Web scraping error for ${url}: ${error.message}`);
+      logger('error', `Official updates fetch error: ${error.message}`);
       return [];
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,146 @@
+import exifr from 'exifr';
+import multer from 'multer';
+import sharp from 'sharp';
+import { config } from '../config/config.js';
+import { parseCoordinates } from './geometry.js';
+import { getStorage } from './storage/index.js';
+
+// Images uploaded with reports. The file type is checked from its content,
+// GPS position and capture time are read from EXIF, and the stored copy is
+// re-encoded without metadata so a reporter's position is not published with
+// the photo. A JPEG thumbnail is stored next to it.
+
+// sharp format name -> content type
+export const IMAGE_TYPES = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+const MAX_IMAGE_EDGE = 2560;
+const THUMBNAIL_EDGE = 320;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.uploads.maxFileSizeMb * 1024 * 1024, files: 1 }
+});
+
+// Parses a multipart/form-data body with one optional image in `field`
+// (req.file) and the other fields as strings (req.body). Other content types
+// pass through untouched.
+export function acceptImage(field) {
+  const parse = upload.single(field);
+
+  return (req, res, next) => parse(req, res, (error) => {
+    if (!error) return next();
+
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ error: `Images must be at most ${config.uploads.maxFileSizeMb} MB` });
+    }
+    res.status(400).json({ error: error.message });
+  });
+}
+
+// EXIF writes "2024:06:01 14:03:22", in the camera's local time; the UTC
+// offset is a separate tag that not every camera sets. Without it the time is
+// read in the server's time zone.
+function exifDate(value, offset) {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(typeof value === 'string' ? value : '');
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const suffix = /^[+-]\d{2}:\d{2}$/.test(offset || '') ? offset : '';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${suffix}`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Returns { point, captured_at, camera }, each null when missing
+export async function readExif(buffer) {
+  let tags;
+  try {
+    tags = await exifr.parse(buffer, { tiff: true, exif: true, gps: true, reviveValues: false });
+  } catch {
+    tags = null;
+  }
+  if (!tags) return { point: null, captured_at: null, camera: null };
+
+  // 0,0 is what some phones write when they had no fix
+  const point = parseCoordinates({ lat: tags.latitude, lng: tags.longitude });
+  const hasFix = point && !(point.lat === 0 && point.lng === 0);
+
+  const camera = [tags.Make, tags.Model].filter(Boolean).join(' ').trim();
+
+  return {
+    point: hasFix ? point : null,
+    captured_at: exifDate(tags.DateTimeOriginal, tags.OffsetTimeOriginal)
+      || exifDate(tags.CreateDate, tags.OffsetTimeDigitized),
+    camera: camera || null
+  };
+}
+
+// Validates and stores the image of report `reportId`. Returns
+// { image_url, image_thumbnail_url, image_metadata, captured_at, exif_point }
+// or { error } when the file is not a supported image.
+export async function storeReportImage(reportId, file) {
+  let info;
+  try {
+    info = await sharp(file.buffer).metadata();
+  } catch {
+    return { error: 'File is not a readable image' };
+  }
+
+  const contentType = IMAGE_TYPES[info.format];
+  if (!contentType) {
+    return { error: `Images must be one of ${Object.keys(IMAGE_TYPES).join(', ')}` };
+  }
+
+  const exif = await readExif(file.buffer);
+
+  // rotate() applies the EXIF orientation before the metadata is dropped
+  const image = await sharp(file.buffer)
+    .rotate()
+    .resize(MAX_IMAGE_EDGE, MAX_IMAGE_EDGE, { fit: 'inside', withoutEnlargement: true })
+    .toFormat(info.format)
+    .toBuffer({ resolveWithObject: true });
+
+  const thumbnail = await sharp(file.buffer)
+    .rotate()
+    .resize(THUMBNAIL_EDGE, THUMBNAIL_EDGE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+
+  const storage = getStorage();
+  const keys = {
+    image: `reports/${reportId}/image.${info.format === 'jpeg' ? 'jpg' : info.format}`,
+    thumbnail: `reports/${reportId}/thumbnail.jpg`
+  };
+
+  const [imageUrl, thumbnailUrl] = await Promise.all([
+    storage.put(keys.image, image.data, contentType),
+    storage.put(keys.thumbnail, thumbnail, 'image/jpeg')
+  ]);
+
+  return {
+    image_url: imageUrl,
+    image_thumbnail_url: thumbnailUrl,
+    image_metadata: {
+      storage: storage.name,
+      keys,
+      content_type: contentType,
+      original_name: file.originalname,
+      original_size_bytes: file.size,
+      size_bytes: image.data.length,
+      width: image.info.width,
+      height: image.info.height,
+      camera: exif.camera
+    },
+    captured_at: exif.captured_at,
+    exif_point: exif.point
+  };
+}
+
+// Removes a stored image and its thumbnail, e.g. when saving the report failed
+export async function deleteReportImage(metadata) {
+  const storage = getStorage();
+  await Promise.all(Object.values(metadata?.keys || {}).map(key => storage.delete(key)));
+}
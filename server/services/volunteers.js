@@ -0,0 +1,393 @@
+import { validate as isUuid } from 'uuid';
+import { parseCoordinates, toPointWkt, withCoordinates } from './geometry.js';
+
+// Volunteer profiles and the tasks coordinators dispatch them to (see the
+// volunteers migration). Suggestions, responses and task status are worked
+// out in Postgres so concurrent accepts cannot go over a task's headcount.
+
+export const VOLUNTEER_SKILLS = [
+  'first_aid',
+  'medical',
+  'search_and_rescue',
+  'driving',
+  'heavy_vehicles',
+  'boat_operation',
+  'cooking',
+  'food_distribution',
+  'logistics',
+  'shelter_management',
+  'childcare',
+  'elder_care',
+  'counselling',
+  'translation',
+  'construction',
+  'communications',
+  'animal_care',
+  'general_labour'
+];
+
+export const TASK_STATUSES = ['open', 'filled', 'completed', 'cancelled'];
+export const TASK_RESPONSES = ['accept', 'decline', 'complete'];
+
+// Statuses a coordinator may set; open and filled otherwise follow the
+// assignments, so reopening a task that has enough volunteers makes it filled
+const SETTABLE_TASK_STATUSES = ['open', 'completed', 'cancelled'];
+
+// Assignments that take up one of a task's places
+const FILLING_STATUSES = ['accepted', 'completed'];
+
+const MAX_AVAILABILITY_WINDOWS = 50;
+const MAX_HEADCOUNT = 500;
+
+const TASK_SELECT = '*, assignments:task_assignments(id, volunteer_id, status, responded_at, completed_at, volunteer:volunteers(user_id, display_name, skills))';
+
+function dateValue(value, name, errors) {
+  const date = new Date(value);
+  if (value === null || value === '' || Number.isNaN(date.getTime())) {
+    errors.push(`${name} must be a date`);
+    return null;
+  }
+  return date.toISOString();
+}
+
+function skillList(value, name, errors) {
+  if (!Array.isArray(value) || value.some(skill => !VOLUNTEER_SKILLS.includes(skill))) {
+    errors.push(`${name} must be a list of: ${VOLUNTEER_SKILLS.join(', ')}`);
+    return [];
+  }
+  return [...new Set(value)];
+}
+
+function locationValues(body, values, errors) {
+  const has = (field) => body[field] !== undefined;
+
+  if (has('location_name')) {
+    values.location_name = body.location_name ? String(body.location_name).trim() : null;
+  }
+
+  if (has('lat') || has('lon') || has('lng')) {
+    // lat: null clears the location
+    if (body.lat === null) {
+      values.location = null;
+      return;
+    }
+    const point = parseCoordinates(body);
+    if (!point) {
+      errors.push('lat and lon must be valid coordinates');
+    } else {
+      values.location = toPointWkt(point.lat, point.lng);
+    }
+  }
+}
+
+// Validates a volunteer profile. With `partial`, only the supplied fields are
+// checked; otherwise display_name is required. Availability is a list of
+// { starts_at, ends_at } windows. Returns { errors, values }.
+export function validateVolunteer(body, { partial = false } = {}) {
+  const errors = [];
+  const values = {};
+  const has = (field) => body[field] !== undefined;
+
+  if (!partial || has('display_name')) {
+    if (typeof body.display_name !== 'string' || !body.display_name.trim()) {
+      errors.push('display_name is required');
+    } else {
+      values.display_name = body.display_name.trim();
+    }
+  }
+
+  if (has('phone')) {
+    values.phone = body.phone ? String(body.phone).trim() : null;
+  }
+
+  if (has('skills')) {
+    values.skills = skillList(body.skills, 'skills', errors);
+  }
+
+  if (has('availability')) {
+    if (!Array.isArray(body.availability) || body.availability.length > MAX_AVAILABILITY_WINDOWS) {
+      errors.push(`availability must be a list of at most ${MAX_AVAILABILITY_WINDOWS} windows`);
+    } else {
+      values.availability = body.availability
+        .map((window, index) => {
+          const startsAt = dateValue(window?.starts_at, `availability[${index}].starts_at`, errors);
+          const endsAt = dateValue(window?.ends_at, `availability[${index}].ends_at`, errors);
+          if (startsAt && endsAt && endsAt <= startsAt) {
+            errors.push(`availability[${index}] must end after it starts`);
+          }
+          return { starts_at: startsAt, ends_at: endsAt };
+        })
+        .sort((a, b) => (a.starts_at < b.starts_at ? -1 : 1));
+    }
+  }
+
+  locationValues(body, values, errors);
+
+  if (has('max_distance_km')) {
+    if (body.max_distance_km === null || body.max_distance_km === '') {
+      values.max_distance_km = null;
+    } else if (!Number.isFinite(Number(body.max_distance_km)) || Number(body.max_distance_km) <= 0) {
+      errors.push('max_distance_km must be a positive number');
+    } else {
+      values.max_distance_km = Number(body.max_distance_km);
+    }
+  }
+
+  if (has('active')) {
+    if (typeof body.active !== 'boolean') {
+      errors.push('active must be true or false');
+    } else {
+      values.active = body.active;
+    }
+  }
+
+  return { errors, values };
+}
+
+// Validates a task. With `partial`, only the supplied fields are checked and
+// `status` may be set; otherwise title is required. Returns { errors, values }.
+export function validateTask(body, { partial = false } = {}) {
+  const errors = [];
+  const values = {};
+  const has = (field) => body[field] !== undefined;
+
+  if (!partial || has('title')) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      errors.push('title is required');
+    } else {
+      values.title = body.title.trim();
+    }
+  }
+
+  if (has('description')) {
+    values.description = body.description ? String(body.description) : null;
+  }
+
+  if (has('required_skills')) {
+    values.required_skills = skillList(body.required_skills, 'required_skills', errors);
+  }
+
+  if (has('headcount')) {
+    const headcount = Number(body.headcount);
+    if (!Number.isInteger(headcount) || headcount < 1 || headcount > MAX_HEADCOUNT) {
+      errors.push(`headcount must be between 1 and ${MAX_HEADCOUNT}`);
+    } else {
+      values.headcount = headcount;
+    }
+  }
+
+  if (has('resource_id')) {
+    if (body.resource_id === null || body.resource_id === '') {
+      values.resource_id = null;
+    } else if (!isUuid(String(body.resource_id))) {
+      errors.push('resource_id must be a resource id');
+    } else {
+      values.resource_id = String(body.resource_id);
+    }
+  }
+
+  locationValues(body, values, errors);
+
+  for (const field of ['starts_at', 'ends_at']) {
+    if (has(field)) {
+      values[field] = body[field] === null || body[field] === '' ? null : dateValue(body[field], field, errors);
+    }
+  }
+  if (values.starts_at && values.ends_at && values.ends_at <= values.starts_at) {
+    errors.push('ends_at must be after starts_at');
+  }
+
+  if (has('status')) {
+    if (!partial || !SETTABLE_TASK_STATUSES.includes(body.status)) {
+      errors.push(`status can be set to ${SETTABLE_TASK_STATUSES.join(', ')} on an existing task`);
+    } else {
+      values.status = body.status;
+    }
+  }
+
+  return { errors, values };
+}
+
+// Task row with lat/lng, how many places are taken and who is assigned
+function presentTask(row) {
+  const { assignments = [], ...task } = withCoordinates(row);
+
+  return {
+    ...task,
+    filled_count: assignments.filter(assignment => FILLING_STATUSES.includes(assignment.status)).length,
+    assignments: assignments.map(({ volunteer, ...assignment }) => ({
+      ...assignment,
+      user_id: volunteer?.user_id ?? null,
+      display_name: volunteer?.display_name ?? null,
+      skills: volunteer?.skills ?? []
+    }))
+  };
+}
+
+export class VolunteerService {
+  constructor(supabase) {
+    this.supabase = supabase;
+  }
+
+  async getByUser(userId) {
+    const { data, error } = await this.supabase
+      .from('volunteers')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Volunteer lookup failed: ${error.message}`);
+    return data ? withCoordinates(data) : null;
+  }
+
+  // Creates or updates the profile of `userId`
+  async saveProfile(userId, values) {
+    const { data, error } = await this.supabase
+      .from('volunteers')
+      .upsert({ user_id: userId, ...values }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Volunteer profile could not be saved: ${error.message}`);
+    return withCoordinates(data);
+  }
+
+  // A volunteer's assignments that are still live, with their tasks
+  async getAssignments(volunteerId) {
+    const { data, error } = await this.supabase
+      .from('task_assignments')
+      .select('*, task:volunteer_tasks(id, disaster_id, title, location_name, starts_at, ends_at, status)')
+      .eq('volunteer_id', volunteerId)
+      .in('status', ['offered', 'accepted'])
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Assignment lookup failed: ${error.message}`);
+    return data;
+  }
+
+  async listTasks(disasterId, { statuses = [] } = {}) {
+    let query = this.supabase
+      .from('volunteer_tasks')
+      .select(TASK_SELECT)
+      .eq('disaster_id', disasterId)
+      .order('starts_at', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: false });
+
+    if (statuses.length > 0) query = query.in('status', statuses);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Task lookup failed: ${error.message}`);
+    return data.map(presentTask);
+  }
+
+  async getTask(disasterId, taskId) {
+    const { data, error } = await this.supabase
+      .from('volunteer_tasks')
+      .select(TASK_SELECT)
+      .eq('id', taskId)
+      .eq('disaster_id', disasterId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Task lookup failed: ${error.message}`);
+    return data ? presentTask(data) : null;
+  }
+
+  async createTask(disasterId, values, userId) {
+    const { data, error } = await this.supabase
+      .from('volunteer_tasks')
+      .insert([{ disaster_id: disasterId, ...values, created_by: userId }])
+      .select('id')
+      .single();
+
+    if (error) throw new Error(`Task could not be created: ${error.message}`);
+    return this.getTask(disasterId, data.id);
+  }
+
+  // Applies validated changes; open/filled is recomputed afterwards since the
+  // headcount or the status may have changed
+  async updateTask(task, values) {
+    const { error } = await this.supabase
+      .from('volunteer_tasks')
+      .update(values)
+      .eq('id', task.id);
+    if (error) throw new Error(`Task could not be updated: ${error.message}`);
+
+    const { error: refreshError } = await this.supabase.rpc('refresh_volunteer_task_status', { target_task_id: task.id });
+    if (refreshError) throw new Error(`Task status could not be refreshed: ${refreshError.message}`);
+
+    return this.getTask(task.disaster_id, task.id);
+  }
+
+  async suggest(taskId, { radiusKm = 50, limit = 20 } = {}) {
+    const { data, error } = await this.supabase.rpc('suggest_volunteers', {
+      target_task_id: taskId,
+      radius_km: radiusKm,
+      result_limit: limit
+    });
+
+    if (error) throw new Error(`Volunteer suggestions failed: ${error.message}`);
+    return data;
+  }
+
+  // Offers a task to volunteers. Volunteers already offered it, or who
+  // answered, are left as they are. Returns the volunteers newly offered it.
+  async offer(task, volunteerIds, offeredBy) {
+    const { data: volunteers, error: volunteerError } = await this.supabase
+      .from('volunteers')
+      .select('id, user_id, display_name')
+      .in('id', volunteerIds)
+      .eq('active', true);
+    if (volunteerError) throw new Error(`Volunteer lookup failed: ${volunteerError.message}`);
+
+    if (volunteers.length === 0) return [];
+
+    const { data: offered, error } = await this.supabase
+      .from('task_assignments')
+      .upsert(volunteers.map(volunteer => ({
+        task_id: task.id,
+        volunteer_id: volunteer.id,
+        status: 'offered',
+        offered_by: offeredBy
+      })), { onConflict: 'task_id,volunteer_id', ignoreDuplicates: true })
+      .select('volunteer_id');
+    if (error) throw new Error(`Task could not be offered: ${error.message}`);
+
+    const offeredIds = new Set(offered.map(assignment => assignment.volunteer_id));
+    return volunteers.filter(volunteer => offeredIds.has(volunteer.id));
+  }
+
+  // Accept, decline or complete `task` for `volunteer`. Returns
+  // { assignment, task } or { error, status } when the response does not apply.
+  async respond(task, volunteer, response) {
+    const { data, error } = await this.supabase.rpc('respond_to_volunteer_task', {
+      target_task_id: task.id,
+      target_volunteer_id: volunteer.id,
+      response
+    });
+    if (error) throw new Error(`Task response failed: ${error.message}`);
+
+    if (!data || data.length === 0) {
+      return { error: refusalReason(task, volunteer, response), status: 409 };
+    }
+
+    return { assignment: data[0], task: await this.getTask(task.disaster_id, task.id) };
+  }
+}
+
+// Why respond_to_volunteer_task returned nothing, from the state before it ran
+function refusalReason(task, volunteer, response) {
+  if (['completed', 'cancelled'].includes(task.status)) {
+    return `Task is ${task.status}`;
+  }
+
+  const current = task.assignments.find(assignment => assignment.volunteer_id === volunteer.id);
+  if (response === 'accept') {
+    if (FILLING_STATUSES.includes(current?.status)) return `You have already ${current.status} this task`;
+    if (current?.status !== 'offered') return 'Only a task you were offered can be accepted';
+    return 'Task already has enough volunteers';
+  }
+  if (response === 'decline') {
+    return 'Only a task you were offered or accepted can be declined';
+  }
+  return 'Only a task you accepted can be completed';
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { buildCapAlert, capAlertToDisaster, parseCapAlerts } from '../services/cap.js';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const fixture = () => readFile(path.join(here, 'fixtures', 'cap_alert.xml'), 'utf8');
+
+const alert = (identifier, body, { status = 'Actual', msgType = 'Alert' } = {}) => `
+  <alert xmlns="urn:oasis:names:tc:emergency:cap:1.2">
+    <identifier>${identifier}</identifier>
+    <status>${status}</status>
+    <msgType>${msgType}</msgType>
+    ${body}
+  </alert>`;
+
+describe('parseCapAlerts', () => {
+  it('reads the English info block of an alert', async () => {
+    const { alerts, skipped } = parseCapAlerts(await fixture());
+
+    assert.deepEqual(skipped, []);
+    assert.deepEqual(alerts, [{
+      cap_identifier: 'NYCEM-2025-06-26-001',
+      title: 'Flash Flood Emergency for Lower Manhattan',
+      description: 'Water is entering basements and subway entrances below Canal Street.\n\nMove to higher floors now. Do not drive through flooded streets.',
+      tags: ['flash flood'],
+      location_name: 'Lower Manhattan, New York, NY',
+      severity: 'Extreme',
+      urgency: 'Immediate',
+      certainty: 'Observed',
+      rings: [],
+      point: null
+    }]);
+  });
+
+  it('reads polygons and circles as the area', () => {
+    const { alerts } = parseCapAlerts(`<feed>
+      ${alert('polygon', `<info><event>Flood Warning</event><severity>severe</severity><area>
+        <areaDesc>Lower East Side</areaDesc>
+        <polygon>40.71,-74.0 40.72,-74.0 40.72,-73.98 40.71,-73.98 40.71,-74.0</polygon>
+      </area></info>`)}
+      ${alert('circle', `<info><event>Gas Leak</event><area>
+        <areaDesc>Essex St</areaDesc><circle>40.72,-73.99 0</circle>
+      </area></info>`)}
+    </feed>`);
+
+    const [polygon, circle] = alerts;
+    assert.equal(polygon.severity, 'Severe');
+    assert.equal(polygon.urgency, 'Unknown');
+    assert.deepEqual(polygon.tags, ['flood']);
+    assert.equal(polygon.rings.length, 1);
+    assert.equal(polygon.rings[0].length, 5);
+    assert.ok(polygon.point.lat > 40.71 && polygon.point.lat < 40.72);
+    assert.match(capAlertToDisaster(polygon).footprint, /^MULTIPOLYGON/);
+
+    assert.deepEqual(circle.rings, []);
+    assert.deepEqual(circle.point, { lat: 40.72, lng: -73.99 });
+    assert.equal(capAlertToDisaster(circle).footprint, undefined);
+  });
+
+  it('skips alerts that cannot become disasters', () => {
+    const { alerts, skipped } = parseCapAlerts(`<feed>
+      ${alert('', '<info><event>Flood</event></info>')}
+      ${alert('test', '<info><event>Flood</event></info>', { status: 'Test' })}
+      ${alert('cancel', '<info><event>Flood</event></info>', { msgType: 'Cancel' })}
+      ${alert('no-info', '')}
+      ${alert('no-title', '<info><severity>Minor</severity></info>')}
+    </feed>`);
+
+    assert.deepEqual(alerts, []);
+    assert.deepEqual(skipped, [
+      { identifier: null, reason: 'Alert has no identifier' },
+      { identifier: 'test', reason: 'Test Alert messages are not imported' },
+      { identifier: 'cancel', reason: 'Actual Cancel messages are not imported' },
+      { identifier: 'no-info', reason: 'Alert has no info block' },
+      { identifier: 'no-title', reason: 'Alert has no event or headline' }
+    ]);
+  });
+});
+
+describe('buildCapAlert', () => {
+  const disaster = {
+    id: 'a1b2c3',
+    title: 'Flooding <Lower> East Side & Chinatown',
+    description: 'Streets below Canal St are flooded',
+    location_name: 'Lower East Side, NYC',
+    tags: ['flood', 'evacuation'],
+    severity: 'Severe',
+    urgency: 'Immediate',
+    certainty: 'Observed',
+    lat: 40.715,
+    lng: -73.985,
+    updated_at: '2025-06-26T16:30:00.000Z'
+  };
+
+  it('writes an escaped CAP 1.2 alert with a point area', () => {
+    const xml = buildCapAlert(disaster);
+
+    assert.match(xml, /<alert xmlns="urn:oasis:names:tc:emergency:cap:1\.2">/);
+    assert.match(xml, /<identifier>[^<]+\.disaster\.a1b2c3\.1750955400<\/identifier>/);
+    assert.ok(xml.includes('<sent>2025-06-26T16:30:00-00:00</sent>'));
+    assert.ok(xml.includes('<category>Met</category>'));
+    assert.ok(xml.includes('<headline>Flooding &lt;Lower&gt; East Side &amp; Chinatown</headline>'));
+    assert.ok(xml.includes('<circle>40.715,-73.985 0</circle>'));
+  });
+
+  it('writes the footprint as polygons and reads back as the same disaster', () => {
+    const ring = [[-74, 40.71], [-74, 40.72], [-73.98, 40.72], [-73.98, 40.71], [-74, 40.71]];
+    const xml = buildCapAlert({ ...disaster, footprint: { type: 'MultiPolygon', coordinates: [[ring]] } });
+
+    assert.ok(xml.includes('<polygon>40.71,-74 40.72,-74 40.72,-73.98 40.71,-73.98 40.71,-74</polygon>'));
+    assert.ok(!xml.includes('<circle>'));
+
+    const { alerts: [parsed] } = parseCapAlerts(xml);
+    assert.equal(parsed.title, disaster.title);
+    assert.equal(parsed.description, disaster.description);
+    assert.equal(parsed.location_name, disaster.location_name);
+    assert.deepEqual(parsed.tags, ['flood']);
+    assert.deepEqual([parsed.severity, parsed.urgency, parsed.certainty], ['Severe', 'Immediate', 'Observed']);
+    assert.deepEqual(parsed.rings[0], ring.map(([lng, lat]) => ({ lat, lng })));
+  });
+});
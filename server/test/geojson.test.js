@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_IMPORT_FEATURES, parseResourceFeatures } from '../services/geojson.js';
+
+const feature = (geometry, properties = { name: 'Shelter', type: 'shelter' }) => ({ type: 'Feature', geometry, properties });
+
+const square = [[-74.01, 40.7], [-74, 40.7], [-74, 40.71], [-74.01, 40.71], [-74.01, 40.7]];
+
+describe('parseResourceFeatures', () => {
+  it('reads points and places polygons at their centre', () => {
+    const { resources, errors } = parseResourceFeatures({
+      type: 'FeatureCollection',
+      features: [
+        feature({ type: 'Point', coordinates: [-73.99, 40.75] }, { NAME: 'PS 20 Shelter', CATEGORY: 'Shelter', CAPACITY: '150', address: ' 166 Essex St ' }),
+        feature({ type: 'Polygon', coordinates: [square] }, { title: 'Field hospital', resource_type: 'medical' }),
+        feature({ type: 'MultiPolygon', coordinates: [[square]] }, { name: 'Depot', type: 'food', status: 'Limited' })
+      ]
+    });
+
+    assert.deepEqual(errors, []);
+    assert.equal(resources.length, 3);
+    assert.equal(resources[0].name, 'PS 20 Shelter');
+    assert.equal(resources[0].type, 'shelter');
+    assert.equal(resources[0].capacity, 150);
+    assert.equal(resources[0].location_name, '166 Essex St');
+    assert.equal(resources[1].type, 'medical');
+    assert.equal(resources[1].location_name, '');
+    assert.equal(resources[2].availability_status, 'limited');
+  });
+
+  it('falls back to the default type', () => {
+    const { resources } = parseResourceFeatures(
+      feature({ type: 'Point', coordinates: [-73.99, 40.75] }, { name: 'Somewhere', type: 'warehouse' }),
+      { defaultType: 'other' }
+    );
+
+    assert.equal(resources[0].type, 'other');
+  });
+
+  it('reports malformed geometries by index and imports the rest', () => {
+    const { resources, errors } = parseResourceFeatures({
+      type: 'FeatureCollection',
+      features: [
+        feature({ type: 'Point' }),
+        feature({ type: 'Point', coordinates: ['a', 'b'] }),
+        feature({ type: 'Polygon' }),
+        feature({ type: 'Polygon', coordinates: [] }),
+        feature({ type: 'Polygon', coordinates: [[[0, 0], [1, 1]]] }),
+        feature({ type: 'MultiPolygon', coordinates: [[]] }),
+        feature({ type: 'MultiPolygon', coordinates: [] }),
+        feature({ type: 'LineString', coordinates: [[0, 0], [1, 1]] }),
+        feature(null),
+        null,
+        feature({ type: 'Point', coordinates: [-73.99, 40.75] })
+      ]
+    });
+
+    assert.deepEqual(errors.map(error => error.index), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    errors.forEach(error => assert.equal(error.error, 'Feature must have a valid Point, Polygon or MultiPolygon geometry'));
+    assert.equal(resources.length, 1);
+  });
+
+  it('reports features that fail validation with their name', () => {
+    const { errors } = parseResourceFeatures(feature({ type: 'Point', coordinates: [-73.99, 95] }, { name: 'Off the map', type: 'shelter' }));
+
+    assert.deepEqual(errors, [{ index: 0, name: 'Off the map', error: 'lat and lon must be valid coordinates' }]);
+  });
+
+  it('rejects bodies that are not features or hold too many', () => {
+    assert.equal(parseResourceFeatures({ type: 'Point', coordinates: [0, 0] }).errors[0].index, null);
+
+    const tooMany = { type: 'FeatureCollection', features: Array(MAX_IMPORT_FEATURES + 1).fill(feature({ type: 'Point', coordinates: [0, 0] })) };
+    assert.match(parseResourceFeatures(tooMany).errors[0].error, /At most/);
+  });
+});
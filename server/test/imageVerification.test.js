@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import { fetchImage } from '../services/imageVerification.js';
+
+describe('fetchImage', () => {
+  let server;
+  let received = 0;
+  before(async () => {
+    server = http.createServer((req, res) => {
+      received++;
+      res.writeHead(200, { 'Content-Type': 'image/jpeg' });
+      res.end('not really a jpeg');
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+  after(() => server.close());
+
+  it('does not fetch from loopback, private or link-local addresses', async () => {
+    const { port } = server.address();
+    const targets = [
+      `http://127.0.0.1:${port}/photo.jpg`,
+      `http://localhost:${port}/photo.jpg`,
+      `http://localhost.:${port}/photo.jpg`,
+      `http://[::ffff:127.0.0.1]:${port}/photo.jpg`,
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.0.0.8/photo.jpg'
+    ];
+
+    for (const target of targets) {
+      await assert.rejects(fetchImage(target), { message: 'Image URL must not point to a private or local address' }, target);
+    }
+    assert.equal(received, 0);
+  });
+
+  it('accepts only http and https URLs', async () => {
+    await assert.rejects(fetchImage('file:///etc/passwd'), { message: 'Image URL must use http or https' });
+    await assert.rejects(fetchImage('gopher://example.com/photo.jpg'), { message: 'Image URL must use http or https' });
+    await assert.rejects(fetchImage('not a url'), { message: 'Image URL must be a valid URL' });
+  });
+});
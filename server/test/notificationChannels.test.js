@@ -0,0 +1,214 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { EmailChannel, sendMail } from '../services/channels/email.js';
+import { StubChannel, stubOutbox } from '../services/channels/stub.js';
+
+// A plain-text SMTP server on a random local port that accepts everything
+// except what `refuse` names, e.g. { RCPT: '550 No such user' }. It offers
+// no STARTTLS. Each session's commands and message are kept in `sessions`.
+function fakeSmtpServer({ auth = 'PLAIN LOGIN', refuse = {} } = {}) {
+  const sessions = [];
+
+  const server = net.createServer(socket => {
+    const session = { commands: [], message: null };
+    sessions.push(session);
+
+    let buffer = '';
+    let data = null;
+    let loginSteps = 0;
+    const reply = line => socket.write(`${line}\r\n`);
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let end;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (data !== null) {
+          if (line === '.') {
+            session.message = data.join('\r\n');
+            data = null;
+            reply('250 Queued');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        session.commands.push(line);
+        if (loginSteps > 0) {
+          reply(--loginSteps > 0 ? '334 UGFzc3dvcmQ6' : '235 Authenticated');
+          continue;
+        }
+
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (refuse[verb]) {
+          reply(refuse[verb]);
+        } else if (verb === 'EHLO') {
+          socket.write(`250-fake.test\r\n${auth ? `250-AUTH ${auth}\r\n` : ''}250 8BITMIME\r\n`);
+        } else if (line === 'AUTH LOGIN') {
+          loginSteps = 2;
+          reply('334 VXNlcm5hbWU6');
+        } else if (verb === 'AUTH') {
+          reply('235 Authenticated');
+        } else if (verb === 'DATA') {
+          data = [];
+          reply('354 Go ahead');
+        } else if (verb === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+
+    reply('220 fake.test ESMTP');
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, sessions, port: server.address().port }));
+  });
+}
+
+// The body of a message from the fake server, decoded from base64
+function decodedBody(message) {
+  const [, body] = message.split('\r\n\r\n');
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+const mail = {
+  from: 'Alerts <alerts@relief.test>',
+  to: 'responder@relief.test',
+  subject: 'Flood warning for Lower Manhattan',
+  text: 'Move to higher floors.\n.\nDo not drive through flooded streets.'
+};
+
+describe('sendMail', () => {
+  let smtp;
+  before(async () => {
+    smtp = await fakeSmtpServer();
+  });
+  after(() => smtp.server.close());
+
+  const options = () => ({ host: '127.0.0.1', port: smtp.port, timeoutSeconds: 5 });
+  const lastSession = () => smtp.sessions[smtp.sessions.length - 1];
+
+  it('sends the envelope and a base64 UTF-8 message', async () => {
+    await sendMail(options(), { ...mail, subject: 'Überschwemmung – Evakuierung' });
+
+    const { commands, message } = lastSession();
+    assert.ok(commands[0].startsWith('EHLO '));
+    assert.deepEqual(commands.slice(1, 4), ['MAIL FROM:<alerts@relief.test>', 'RCPT TO:<responder@relief.test>', 'DATA']);
+
+    assert.match(message, /^From: Alerts <alerts@relief\.test>\r\nTo: responder@relief\.test\r\n/);
+    assert.ok(message.includes(`Subject: =?UTF-8?B?${Buffer.from('Überschwemmung – Evakuierung').toString('base64')}?=\r\n`));
+    assert.match(message, /\r\nMessage-ID: <[0-9a-f-]+@relief\.test>\r\n/);
+    assert.equal(decodedBody(message), mail.text.replace(/\n/g, '\r\n'));
+  });
+
+  it('refuses to send credentials over a connection without TLS', async () => {
+    await assert.rejects(
+      sendMail({ ...options(), user: 'relay', password: 'secret' }, mail),
+      /refusing to send credentials unencrypted/
+    );
+    assert.ok(!lastSession().commands.some(command => command.startsWith('AUTH')));
+  });
+
+  it('authenticates without TLS only when allowed', async () => {
+    await sendMail({ ...options(), user: 'relay', password: 'secret', allowInsecureAuth: true }, mail);
+
+    assert.ok(lastSession().commands.includes(`AUTH PLAIN ${Buffer.from('\0relay\0secret').toString('base64')}`));
+    assert.ok(lastSession().message);
+  });
+
+  it('uses AUTH LOGIN when the server does not offer PLAIN', async () => {
+    const loginOnly = await fakeSmtpServer({ auth: 'LOGIN' });
+    try {
+      await sendMail({ host: '127.0.0.1', port: loginOnly.port, user: 'relay', password: 'secret', allowInsecureAuth: true }, mail);
+
+      const { commands } = loginOnly.sessions[0];
+      const login = commands.indexOf('AUTH LOGIN');
+      assert.deepEqual(commands.slice(login, login + 3), ['AUTH LOGIN', Buffer.from('relay').toString('base64'), Buffer.from('secret').toString('base64')]);
+    } finally {
+      loginOnly.server.close();
+    }
+  });
+
+  it('fails with the reply of a refused step', async () => {
+    const refusing = await fakeSmtpServer({ refuse: { RCPT: '550 No such user here' } });
+    try {
+      await assert.rejects(
+        sendMail({ host: '127.0.0.1', port: refusing.port }, mail),
+        { message: 'SMTP RCPT failed: 550 No such user here' }
+      );
+      assert.equal(refusing.sessions[0].message, null);
+    } finally {
+      refusing.server.close();
+    }
+  });
+
+  it('is what EmailChannel sends with', async () => {
+    const channel = new EmailChannel({ ...options(), from: 'alerts@relief.test' });
+    assert.ok(channel.isConfigured());
+    assert.ok(!new EmailChannel({ host: '127.0.0.1' }).isConfigured());
+
+    await channel.send({ id: 'd1', target: 'commander@relief.test', subject: 'Status change', text: 'Now contained' });
+    assert.ok(lastSession().commands.includes('RCPT TO:<commander@relief.test>'));
+    assert.equal(decodedBody(lastSession().message), 'Now contained');
+  });
+});
+
+describe('StubChannel', () => {
+  let dir;
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'stub-channel-'));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  const message = {
+    id: 'delivery-1',
+    event_type: 'priority_alert',
+    target: '+12125550100',
+    secret: 'not recorded',
+    subject: 'Urgent: people trapped',
+    text: 'Family trapped on a roof at 12 Elm St',
+    payload: { priority: 'urgent' }
+  };
+
+  it('keeps messages in the outbox', async () => {
+    await new StubChannel('sms').send(message);
+
+    const recorded = stubOutbox().at(-1);
+    assert.equal(recorded.channel, 'sms');
+    assert.equal(recorded.id, 'delivery-1');
+    assert.equal(recorded.target, '+12125550100');
+    assert.deepEqual(recorded.payload, { priority: 'urgent' });
+    assert.ok(!('secret' in recorded));
+  });
+
+  it('appends messages to a file as JSON lines', async () => {
+    const file = path.join(dir, 'outbox', 'messages.jsonl');
+    const channel = new StubChannel('webhook', { file });
+    await channel.send(message);
+    await channel.send({ ...message, id: 'delivery-2' });
+
+    const lines = (await readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(lines.map(line => [line.channel, line.id]), [['webhook', 'delivery-1'], ['webhook', 'delivery-2']]);
+  });
+
+  it('keeps only the latest messages', async () => {
+    const channel = new StubChannel('email');
+    for (let i = 0; i < 120; i++) await channel.send({ ...message, id: `bulk-${i}` });
+
+    const outbox = stubOutbox();
+    assert.equal(outbox.length, 100);
+    assert.equal(outbox.at(-1).id, 'bulk-119');
+    assert.equal(outbox[0].id, 'bulk-20');
+  });
+});
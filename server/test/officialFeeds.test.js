@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { OFFICIAL_SOURCES } from '../config/officialSources.js';
+import { parseAtom, parseCap, parseHtml, parseRss } from '../services/officialFeeds.js';
+import { matchUpdateToDisaster } from '../services/updates.js';
+
+// Parses the saved pages and feeds in server/data/official/ (the ones
+// OFFICIAL_UPDATES_OFFLINE reads) with each source's own configuration.
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const source = (id) => OFFICIAL_SOURCES.find(s => s.id === id);
+const fixture = (source) => readFile(path.join(here, '../data/official', source.fixture), 'utf8');
+
+const nycFlood = { title: 'NYC Flood Emergency', location_name: 'Manhattan, NYC', tags: ['flood', 'emergency', 'nyc'] };
+
+describe('parseHtml', () => {
+  it('reads press releases with the source selectors and resolves links', async () => {
+    const nycEm = source('nyc_em');
+    const items = parseHtml(nycEm, await fixture(nycEm));
+
+    assert.equal(items.length, 3);
+    assert.deepEqual(items[1], {
+      external_id: 'https://www.nyc.gov/site/em/about/press-releases/20250626-evacuation-order-lower-east-side.page',
+      title: 'Evacuation Order Issued for Low-Lying Areas of the Lower East Side',
+      content: 'Residents of Zone 1 in the Lower East Side must evacuate. Evacuation centers are open and accessible, and pets are welcome.',
+      url: 'https://www.nyc.gov/site/em/about/press-releases/20250626-evacuation-order-lower-east-side.page',
+      published_at: new Date('June 26, 2025').toISOString()
+    });
+  });
+
+  it('prefers the datetime attribute of the date element', async () => {
+    const redcross = source('redcross');
+    const [first] = parseHtml(redcross, await fixture(redcross));
+
+    assert.equal(first.title, 'Red Cross Opens Emergency Shelters After New York City Flooding');
+    assert.equal(first.published_at, '2025-06-26T22:00:00.000Z');
+    assert.match(first.url, /^https:\/\/www\.redcross\.org\/about-us\/.*flooding\.html$/);
+  });
+});
+
+describe('parseRss', () => {
+  it('reads items with guid, date and unescaped description', async () => {
+    const fema = source('fema');
+    const items = parseRss(fema, await fixture(fema));
+
+    assert.equal(items.length, 3);
+    assert.equal(items[0].external_id, 'fema-pr-20250626-ny-flooding');
+    assert.equal(items[0].published_at, '2025-06-26T14:05:00.000Z');
+    assert.ok(items[0].content.startsWith('Federal disaster assistance has been made available'));
+    assert.ok(!items[0].content.includes('<p>'));
+  });
+});
+
+describe('parseAtom', () => {
+  it('reads entries and flattens HTML summaries to text', async () => {
+    const usgs = source('usgs');
+    const items = parseAtom(usgs, await fixture(usgs));
+
+    assert.equal(items.length, 2);
+    assert.equal(items[1].title, 'M 6.1 - 45 km E of Hualien City, Taiwan');
+    assert.equal(items[1].external_id, 'urn:earthquake-usgs-gov:us:7000q1ab');
+    assert.equal(items[1].url, 'https://earthquake.usgs.gov/earthquakes/eventpage/us7000q1ab');
+    assert.equal(items[1].content, 'Time 2025-06-26 09:03:44 UTC Depth 21.00 km');
+  });
+});
+
+describe('parseCap', () => {
+  it('reads the cap: fields of an Atom feed of alerts', async () => {
+    const nws = source('nws');
+    const items = parseCap(nws, await fixture(nws));
+
+    assert.equal(items.length, 3);
+    assert.equal(items[0].event, 'Flash Flood Warning');
+    assert.equal(items[0].severity, 'Severe');
+    assert.equal(items[0].urgency, 'Immediate');
+    assert.equal(items[0].certainty, 'Observed');
+    assert.equal(items[0].area, 'New York, NY; Kings, NY; Queens, NY');
+    assert.equal(items[0].published_at, '2025-06-26T15:42:00.000Z');
+  });
+
+  it('reads every info block of a single CAP alert', async () => {
+    const items = parseCap(source('nws'), await readFile(path.join(here, 'fixtures/cap_alert.xml'), 'utf8'));
+
+    assert.deepEqual(items.map(item => item.external_id), ['NYCEM-2025-06-26-001', 'NYCEM-2025-06-26-001#1']);
+    assert.equal(items[0].title, 'Flash Flood Emergency for Lower Manhattan');
+    assert.equal(items[0].content, 'Water is entering basements and subway entrances below Canal Street. Move to higher floors now. Do not drive through flooded streets.');
+    assert.equal(items[0].severity, 'Extreme');
+    assert.equal(items[0].area, 'Lower Manhattan, New York, NY');
+    // Without its own effective time an info block falls back to the alert's sent time
+    assert.equal(items[1].published_at, '2025-06-26T16:30:00.000Z');
+  });
+});
+
+describe('matchUpdateToDisaster', () => {
+  it('matches national updates that mention a tag and the place', async () => {
+    const fema = source('fema');
+    const items = parseRss(fema, await fixture(fema));
+
+    assert.deepEqual(matchUpdateToDisaster(items[0], fema, nycFlood), ['flood']);
+    assert.deepEqual(matchUpdateToDisaster(items[1], fema, nycFlood), ['flood']);
+    assert.equal(matchUpdateToDisaster(items[2], fema, nycFlood), null);
+  });
+
+  it('widens the place through region aliases', async () => {
+    const nws = source('nws');
+    const [flashFlood, coastalFlood, redFlag] = parseCap(nws, await fixture(nws));
+
+    // Brooklyn and Staten Island are aliases of Manhattan
+    assert.deepEqual(matchUpdateToDisaster(coastalFlood, nws, nycFlood), ['flood']);
+    assert.deepEqual(matchUpdateToDisaster(flashFlood, nws, nycFlood), ['flood']);
+    assert.equal(matchUpdateToDisaster(redFlag, nws, nycFlood), null);
+  });
+
+  it('skips the place check for regional sources', async () => {
+    const nycEm = source('nyc_em');
+    const [advisory, , heat] = parseHtml(nycEm, await fixture(nycEm));
+
+    const flood = { ...nycFlood, location_name: 'Lower East Side', tags: ['flood'] };
+
+    assert.deepEqual(matchUpdateToDisaster(advisory, nycEm, flood), ['flood']);
+    assert.equal(matchUpdateToDisaster(heat, nycEm, flood), null);
+  });
+
+  it('needs the place for sources that cover everywhere', async () => {
+    const gdacs = source('gdacs');
+    const [bangladesh] = parseRss(gdacs, await fixture(gdacs));
+
+    assert.equal(matchUpdateToDisaster(bangladesh, gdacs, nycFlood), null);
+    assert.deepEqual(matchUpdateToDisaster(bangladesh, gdacs, { ...nycFlood, location_name: 'Dhaka, Bangladesh' }), ['flood']);
+  });
+
+  it('uses title words when the disaster has no tags', async () => {
+    const fema = source('fema');
+    const [declaration] = parseRss(fema, await fixture(fema));
+
+    assert.deepEqual(matchUpdateToDisaster(declaration, fema, { ...nycFlood, tags: [], title: 'Flooding in New York' }), ['flooding', 'york']);
+  });
+});
@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { pointInArea } from '../services/geometry.js';
+import { DEFAULT_GRAPH_FILE, describePath, loadRoadGraph, metresBetween } from '../services/roadGraph.js';
+
+// Routes on the bundled Midtown Manhattan grid. Node ids run up each avenue
+// from 34th Street: 4200001 is Third Avenue at 34th, 4200027 Lexington at
+// 34th, 4200105 Fifth Avenue at 34th, and so on 26 streets per avenue.
+// Third Avenue is one-way northbound.
+
+const node = (avenue, street) => String(4200001 + avenue * 26 + (street - 34));
+const THIRD = 0;
+const LEXINGTON = 1;
+const PARK = 2;
+const FIFTH = 4;
+
+// A square footprint `metres` across centred on a node
+function squareAround(point, metres) {
+  const dLat = metres / 2 / 111320;
+  const dLng = dLat / Math.cos(point.lat * Math.PI / 180);
+  return {
+    type: 'Polygon',
+    coordinates: [[
+      [point.lng - dLng, point.lat - dLat],
+      [point.lng + dLng, point.lat - dLat],
+      [point.lng + dLng, point.lat + dLat],
+      [point.lng - dLng, point.lat + dLat],
+      [point.lng - dLng, point.lat - dLat]
+    ]]
+  };
+}
+
+const ids = (path) => path.nodes.map(n => n.id);
+const usesEdge = (path, from, to) => ids(path).some((id, i) => id === from && ids(path)[i + 1] === to);
+
+let graph;
+before(async () => {
+  graph = await loadRoadGraph(DEFAULT_GRAPH_FILE);
+});
+
+describe('RoadGraph', () => {
+  it('snaps a point to the nearest road node', () => {
+    const corner = graph.nodes.get(node(FIFTH, 42));
+    const { node: nearest, distance } = graph.nearestNode({ lat: corner.lat + 0.0001, lng: corner.lng }, 'walking', 100);
+
+    assert.equal(nearest.id, node(FIFTH, 42));
+    assert.ok(distance < 15);
+    assert.equal(graph.nearestNode({ lat: 40.6, lng: -74.2 }, 'walking', 1000), null);
+  });
+
+  it('goes to the quickest of several targets', () => {
+    const near = node(PARK, 40);
+    const far = node(FIFTH, 55);
+    const path = graph.shortestPath(node(PARK, 36), new Set([far, near]), 'walking');
+
+    assert.equal(path.target, near);
+    assert.equal(path.nodes[0].id, node(PARK, 36));
+    assert.equal(path.nodes.length, path.edges.length + 1);
+  });
+
+  it('keeps off roads near a closure', () => {
+    const from = node(PARK, 36);
+    const to = node(PARK, 40);
+    const open = graph.shortestPath(from, new Set([to]), 'walking');
+    assert.ok(usesEdge(open, node(PARK, 37), node(PARK, 38)));
+
+    const a = graph.nodes.get(node(PARK, 37));
+    const b = graph.nodes.get(node(PARK, 38));
+    const closure = { radius_m: 10, line: [{ lat: (a.lat + b.lat) / 2, lng: (a.lng + b.lng) / 2 }] };
+    const detour = graph.shortestPath(from, new Set([to]), 'walking', { closures: [closure] });
+
+    assert.equal(detour.target, to);
+    assert.ok(!usesEdge(detour, node(PARK, 37), node(PARK, 38)));
+    assert.ok(detour.edges.reduce((sum, edge) => sum + edge.length, 0) > open.edges.reduce((sum, edge) => sum + edge.length, 0));
+  });
+
+  it('keeps cars to the direction of one-way streets but not walkers', () => {
+    const from = node(THIRD, 36);
+    const to = node(THIRD, 35);
+
+    const walking = graph.shortestPath(from, new Set([to]), 'walking');
+    assert.deepEqual(ids(walking), [from, to]);
+
+    const driving = graph.shortestPath(from, new Set([to]), 'driving');
+    assert.ok(driving.nodes.length > 2);
+    assert.ok(!usesEdge(driving, from, to));
+
+    const northbound = graph.shortestPath(to, new Set([from]), 'driving');
+    assert.deepEqual(ids(northbound), [to, from]);
+  });
+
+  it('never enters a disaster footprint', () => {
+    const middle = graph.nodes.get(node(PARK, 38));
+    const area = squareAround(middle, 60);
+    const path = graph.shortestPath(node(PARK, 36), new Set([node(PARK, 40)]), 'walking', { areas: [area] });
+
+    assert.ok(path.nodes.every(n => !pointInArea(n, area)));
+    assert.equal(graph.shortestPath(node(PARK, 36), new Set([node(PARK, 38)]), 'walking', { areas: [area] }), null);
+  });
+
+  it('leaves a footprint the route starts in and does not come back', () => {
+    const start = graph.nodes.get(node(LEXINGTON, 40));
+    const area = squareAround(start, 500);
+    const path = graph.shortestPath(start.id, new Set([node(FIFTH, 40)]), 'walking', { areas: [area] });
+
+    const inside = path.nodes.map(n => pointInArea(n, area));
+    const exit = inside.indexOf(false);
+    assert.ok(exit > 0);
+    assert.ok(inside.slice(exit).every(value => !value));
+  });
+});
+
+describe('describePath', () => {
+  it('gives one step per street, with turns, then the arrival', () => {
+    const path = graph.shortestPath(node(PARK, 36), new Set([node(LEXINGTON, 40)]), 'driving');
+    const steps = describePath(path, 'driving', { name: 'Lexington Shelter' });
+
+    assert.equal(steps[0].maneuver, 'depart');
+    assert.match(steps[0].instruction, /^Head (north|south|east|west)\w* on /);
+    assert.ok(steps.slice(1, -1).every(step => /^(turn|slight)-(left|right)$/.test(step.maneuver)));
+    assert.deepEqual(steps[steps.length - 1], {
+      maneuver: 'arrive',
+      instruction: 'Arrive at Lexington Shelter',
+      name: 'Lexington Shelter',
+      distance_m: 0,
+      duration_s: 0,
+      lat: path.nodes[path.nodes.length - 1].lat,
+      lng: path.nodes[path.nodes.length - 1].lng
+    });
+
+    // Consecutive steps are on different streets
+    steps.slice(1).forEach((step, i) => assert.notEqual(step.name, steps[i].name));
+
+    const total = steps.reduce((sum, step) => sum + step.distance_m, 0);
+    const direct = path.edges.reduce((sum, edge) => sum + edge.length, 0);
+    assert.ok(Math.abs(total - direct) <= steps.length);
+    assert.ok(direct >= metresBetween(path.nodes[0], path.nodes[path.nodes.length - 1]));
+  });
+});
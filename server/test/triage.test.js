@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TRIAGE_RULES } from '../config/triageRules.js';
+import { triage } from '../services/triage.js';
+import { MIN_ACCURACY, evaluateCorpus, readCorpus } from '../services/triageEvaluation.js';
+
+// The labelled corpus in server/data/triage_corpus.jsonl scored with the
+// default rules, as `npm run triage:evaluate` does for a deployment's rules.
+
+describe('triage corpus', () => {
+  it(`scores at least ${MIN_ACCURACY * 100}% of the items with their expected priority`, async () => {
+    const { accuracy, misses } = evaluateCorpus(await readCorpus(), TRIAGE_RULES);
+
+    assert.ok(accuracy >= MIN_ACCURACY, `accuracy ${accuracy.toFixed(3)}, mismatches: ${misses.map(({ entry }) => entry.id).join(', ')}`);
+  });
+
+  it('scores no urgent item below high', async () => {
+    const { misses } = evaluateCorpus(await readCorpus(), TRIAGE_RULES);
+    const missedUrgent = misses
+      .filter(({ entry, result }) => entry.expected === 'urgent' && !['urgent', 'high'].includes(result.priority))
+      .map(({ entry }) => entry.id);
+
+    assert.deepEqual(missedUrgent, []);
+  });
+});
+
+describe('triage', () => {
+  it('does not count negated life-safety phrases', () => {
+    const trapped = triage({ content: 'People trapped in the basement, water rising' }, { rules: TRIAGE_RULES });
+    const safe = triage({ content: 'Nobody is trapped, everyone got out safely' }, { rules: TRIAGE_RULES });
+
+    assert.ok(trapped.score > safe.score);
+    assert.ok(trapped.reasons.some(reason => reason.points > 0));
+  });
+});
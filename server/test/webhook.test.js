@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import http from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import { WebhookChannel, isPublicAddress, publicLookup, publicUrlProblem, signPayload } from '../services/channels/webhook.js';
+import { validateSubscription } from '../services/notifications.js';
+
+describe('isPublicAddress', () => {
+  it('rejects loopback, private, link-local and reserved addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1', 'not an address']
+      .forEach(address => assert.equal(isPublicAddress(address), false, address));
+  });
+
+  it('accepts public addresses', () => {
+    ['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700:4700::1111']
+      .forEach(address => assert.equal(isPublicAddress(address), true, address));
+  });
+});
+
+describe('publicUrlProblem', () => {
+  it('requires https unless http is allowed', () => {
+    assert.equal(publicUrlProblem('https://hooks.example.com/alerts'), null);
+    assert.equal(publicUrlProblem('http://hooks.example.com/alerts'), 'must use https');
+    assert.equal(publicUrlProblem('http://hooks.example.com/alerts', { allowHttp: true }), null);
+    assert.equal(publicUrlProblem('ftp://hooks.example.com/alerts', { allowHttp: true }), 'must use http or https');
+    assert.equal(publicUrlProblem('not a url'), 'must be a valid URL');
+  });
+
+  it('rejects local hosts and private address literals', () => {
+    ['https://localhost/hook', 'https://api.localhost/hook', 'https://127.0.0.1:8443/hook', 'https://[::1]/hook',
+      'https://169.254.169.254/latest/meta-data', 'https://[::ffff:7f00:1]/hook', 'https://2130706433/hook']
+      .forEach(target => assert.equal(publicUrlProblem(target), 'must not point to a private or local address', target));
+  });
+});
+
+describe('publicLookup', () => {
+  it('fails for a host that resolves to a private address', (_, done) => {
+    publicLookup('localhost', {}, error => {
+      assert.match(error.message, /resolves to a private or local address/);
+      done();
+    });
+  });
+});
+
+describe('WebhookChannel', () => {
+  let server;
+  let received = 0;
+  before(async () => {
+    server = http.createServer((req, res) => {
+      received++;
+      res.end('ok');
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+  after(() => server.close());
+
+  const message = { id: 'delivery-1', event_type: 'priority_alert', secret: 'secret', payload: { priority: 'urgent' } };
+
+  it('does not post to a private address, even with http allowed', async () => {
+    const channel = new WebhookChannel({ allowHttp: true, timeoutSeconds: 2 });
+    const { port } = server.address();
+
+    await assert.rejects(channel.send({ ...message, target: `http://127.0.0.1:${port}/hook` }), /private or local address/);
+    await assert.rejects(channel.send({ ...message, target: `http://localhost:${port}/hook` }), /private or local address/);
+    assert.equal(received, 0);
+  });
+
+  it('does not post over plain http by default', async () => {
+    await assert.rejects(new WebhookChannel().send({ ...message, target: 'http://hooks.example.com/alerts' }), /must use https/);
+  });
+});
+
+describe('signPayload', () => {
+  it('is the HMAC-SHA256 of the timestamp and body', () => {
+    const body = JSON.stringify({ priority: 'urgent' });
+    const expected = createHmac('sha256', 'secret').update(`1750950000.${body}`).digest('hex');
+
+    assert.equal(signPayload('secret', 1750950000, body), `sha256=${expected}`);
+  });
+});
+
+describe('validateSubscription', () => {
+  const webhook = target => validateSubscription({ name: 'Ops', channel: 'webhook', target });
+
+  it('accepts public https webhook URLs', () => {
+    const { errors, values } = webhook('https://hooks.example.com/alerts');
+    assert.deepEqual(errors, []);
+    assert.equal(values.target, 'https://hooks.example.com/alerts');
+  });
+
+  it('rejects webhook URLs that are not https or point inside the network', () => {
+    assert.deepEqual(webhook('http://hooks.example.com/alerts').errors, ['target must use https']);
+    assert.deepEqual(webhook('https://10.0.0.5/alerts').errors, ['target must not point to a private or local address']);
+  });
+});
@@ -1,11 +1,30 @@
-import React, { useState, useEffect } from 'react';
-import { AlertTriangle, MapPin, Users, MessageCircle, Shield, Plus, Search, RefreshCw, Map, Activity } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { AlertTriangle, MapPin, Users, MessageCircle, Shield, Plus, Search, RefreshCw, Map, Activity, LogOut, Download, Upload, WifiOff, Camera, X, ClipboardCheck, History, HeartHandshake, HandHelping, Bell } from 'lucide-react';
 import { io } from 'socket.io-client';
+import type { MultiPolygon, Polygon } from 'geojson';
 import { MapView } from './components/MapView';
 import { SocialMediaFeed } from './components/SocialMediaFeed';
+import { LoginScreen } from './components/LoginScreen';
+import { SyncStatus } from './components/SyncStatus';
+import { AlertSubscriptions } from './components/AlertSubscriptions';
+import { Verification, VerificationResult } from './components/VerificationResult';
+import { ModerationQueue, ModerationReport } from './components/ModerationQueue';
+import { GlobalSearch, SearchResult } from './components/GlobalSearch';
+import { DisasterHistory } from './components/DisasterHistory';
+import { VolunteersPanel } from './components/VolunteersPanel';
+import { InventoryPanel } from './components/InventoryPanel';
+import { NeedsBoard } from './components/NeedsBoard';
+import { DisasterStatus, DisasterStatusBadge, DisasterStatusControl } from './components/DisasterStatus';
+import { Resource, ResourceChange, ResourceQuery, ResourcesPanel } from './components/ResourcesPanel';
+import { useAuth } from './context/AuthContext';
+import { SOCKET_URL, apiFetch, getSession, refreshSession } from './lib/api';
+import { loadSnapshot, saveSnapshot } from './lib/offlineStore';
+import { sendOrQueue } from './lib/outbox';
 
-const API_BASE = 'https://dist-resp.onrender.com/api';
-const socket = io('https://dist-resp.onrender.com/');
+// The handshake reads the current access token on every (re)connect
+const socket = io(SOCKET_URL, {
+  auth: (cb) => cb({ token: getSession()?.access_token })
+});
 
 interface Disaster {
   id: string;
@@ -15,6 +34,14 @@ interface Disaster {
   tags: string[];
   owner_id: string;
   created_at: string;
+  lat?: number | null;
+  lng?: number | null;
+  severity?: string;
+  urgency?: string;
+  certainty?: string;
+  footprint?: MultiPolygon | Polygon | null;
+  status?: DisasterStatus;
+  status_changed_at?: string | null;
 }
 
 interface SocialMediaReport {
@@ -32,15 +59,15 @@ interface SocialMediaReport {
     shares: number;
     replies: number;
   };
+  url?: string | null;
 }
 
-interface Resource {
-  id: string;
-  name: string;
-  location_name: string;
-  type: string;
-  availability_status: string;
-  distance_km?: number;
+interface ReviewNotice {
+  report_id: string;
+  disaster_id: string;
+  decision: string;
+  note: string | null;
+  reviewed_at: string;
 }
 
 interface OfficialUpdate {
@@ -48,21 +75,61 @@ interface OfficialUpdate {
   source: string;
   title: string;
   content: string;
-  timestamp: string;
+  timestamp: string | null;
   priority: string;
+  url?: string | null;
+  area?: string | null;
 }
 
+const RESOURCE_PAGE_SIZE = 20;
+// Mirrors the server's checks so a wrong file is caught before it is queued
+const REPORT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_REPORT_IMAGE_MB = 10;
+const defaultResourceQuery: ResourceQuery = { mode: 'radius', radius: 10, center: null, type: '', status: '', offset: 0 };
+
+const REVIEW_OUTCOMES: Record<string, string> = {
+  approve: 'approved',
+  reject: 'rejected',
+  duplicate: 'marked as a duplicate',
+  escalate: 'escalated for further review'
+};
+
+// Timestamps of offline copies on screen; the notice shows the oldest
+const olderOf = (current: string | null, savedAt: string) => (current && current < savedAt ? current : savedAt);
+
 function App() {
+  const { user, logout } = useAuth();
   const [disasters, setDisasters] = useState<Disaster[]>([]);
   const [selectedDisaster, setSelectedDisaster] = useState<Disaster | null>(null);
   const [socialReports, setSocialReports] = useState<SocialMediaReport[]>([]);
+  const [newSocialIds, setNewSocialIds] = useState<Set<string>>(new Set());
   const [resources, setResources] = useState<Resource[]>([]);
   const [updates, setUpdates] = useState<OfficialUpdate[]>([]);
   const [loading, setLoading] = useState(false);
   const [socialLoading, setSocialLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'disasters' | 'reports' | 'resources' | 'updates' | 'map'>('disasters');
+  const [activeTab, setActiveTab] = useState<'disasters' | 'reports' | 'resources' | 'needs' | 'volunteers' | 'updates' | 'review' | 'history' | 'map'>('disasters');
   const [showMap, setShowMap] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [disasterPermissions, setDisasterPermissions] = useState<string[]>([]);
+  const selectedDisasterRef = useRef<Disaster | null>(null);
+  const [resourceQuery, setResourceQuery] = useState<ResourceQuery>(defaultResourceQuery);
+  const [resourceTotal, setResourceTotal] = useState(0);
+  const [resourceCenter, setResourceCenter] = useState<{ lat: number; lng: number } | null>(null);
+  // Set while copies saved on this device are shown instead of live data
+  const [offlineCopyAt, setOfflineCopyAt] = useState<string | null>(null);
+  // Bumped when a reviewer decides on a report, so open review queues reload
+  const [moderationVersion, setModerationVersion] = useState(0);
+  // Bumped on volunteer task changes, so the volunteers panel reloads
+  const [volunteerVersion, setVolunteerVersion] = useState(0);
+  // Bumped when a need on the open disaster changes, so the board and map reload
+  const [needsVersion, setNeedsVersion] = useState(0);
+  const [inventoryVersion, setInventoryVersion] = useState(0);
+  // Outcomes of the signed-in user's reports, until dismissed
+  const [reviewNotices, setReviewNotices] = useState<ReviewNotice[]>([]);
+  // Archived disasters are only listed on request; the ref serves socket handlers
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const includeArchivedRef = useRef(false);
 
   // Form states
   const [newDisaster, setNewDisaster] = useState({
@@ -75,55 +142,171 @@ function App() {
     content: '',
     image_url: ''
   });
+  const [reportImage, setReportImage] = useState<File | null>(null);
+  const [reportImagePreview, setReportImagePreview] = useState<string | null>(null);
   const [geocodeInput, setGeocodeInput] = useState('');
-  const [verificationResult, setVerificationResult] = useState<any>(null);
+  const [verificationResult, setVerificationResult] = useState<Verification | null>(null);
+  // A report opened from the search results
+  const [openedReport, setOpenedReport] = useState<ModerationReport | null>(null);
 
   useEffect(() => {
-    loadDisasters();
-    
     // Socket listeners
     socket.on('disaster_updated', (data) => {
       console.log('Disaster update received:', data);
-      if (data.action === 'create') {
-        setDisasters(prev => [data.disaster, ...prev]);
+      const hidden = data.disaster.status === 'archived' && !includeArchivedRef.current;
+      if (data.action === 'create' || data.action === 'restore') {
+        if (!hidden) {
+          setDisasters(prev => [data.disaster, ...prev.filter(d => d.id !== data.disaster.id)]);
+        }
       } else if (data.action === 'update') {
-        setDisasters(prev => prev.map(d => d.id === data.disaster.id ? data.disaster : d));
+        setDisasters(prev => (hidden
+          ? prev.filter(d => d.id !== data.disaster.id)
+          : prev.map(d => d.id === data.disaster.id ? data.disaster : d)));
+        if (selectedDisasterRef.current?.id === data.disaster.id) {
+          selectedDisasterRef.current = data.disaster;
+          setSelectedDisaster(data.disaster);
+        }
       } else if (data.action === 'delete') {
         setDisasters(prev => prev.filter(d => d.id !== data.disaster.id));
+        if (selectedDisasterRef.current?.id === data.disaster.id) {
+          clearSelection();
+        }
       }
     });
 
     socket.on('social_media_updated', (data) => {
       console.log('Social media update received:', data);
-      setSocialReports(data.reports || []);
+      if (data.disaster_id !== selectedDisasterRef.current?.id) return;
+      // Only newly ingested posts are broadcast; append them to the feed
+      const incoming: SocialMediaReport[] = data.reports || [];
+      setSocialReports(prev => {
+        const known = new Set(prev.map(report => report.id));
+        return [...incoming.filter(report => !known.has(report.id)), ...prev];
+      });
+      setNewSocialIds(prev => new Set([...prev, ...incoming.map(report => report.id)]));
+    });
+
+    socket.on('official_updates_updated', (data) => {
+      if (data.disaster_id !== selectedDisasterRef.current?.id) return;
+      const incoming: OfficialUpdate[] = data.updates || [];
+      setUpdates(prev => {
+        const known = new Set(prev.map(update => update.id));
+        return [...incoming.filter(update => !known.has(update.id)), ...prev];
+      });
     });
 
     socket.on('resources_updated', (data) => {
       console.log('Resources update received:', data);
-      if (data.resources) {
-        setResources(data.resources);
+      if (data.resource && data.disaster_id === selectedDisasterRef.current?.id) {
+        applyResourceChange(data.action === 'delete' ? 'delete' : 'update', data.resource);
+      }
+    });
+
+    socket.on('report_moderated', (data) => {
+      if (data.disaster_id === selectedDisasterRef.current?.id) {
+        setModerationVersion(version => version + 1);
+      }
+    });
+
+    socket.on('report_reviewed', (data: ReviewNotice) => {
+      setReviewNotices(prev => [data, ...prev.filter(notice => notice.report_id !== data.report_id)]);
+    });
+
+    // Task changes on the open disaster, and tasks this user was offered or
+    // took on any disaster
+    socket.on('volunteer_task_updated', () => {
+      setVolunteerVersion(version => version + 1);
+    });
+
+    socket.on('task_offered', () => {
+      setVolunteerVersion(version => version + 1);
+    });
+
+    socket.on('need_updated', (data) => {
+      if (data.disaster_id === selectedDisasterRef.current?.id) {
+        setNeedsVersion(version => version + 1);
       }
     });
 
+    // Stock movements, shipments and low-stock alerts on the open disaster
+    const refreshInventory = (data: { disaster_id: string }) => {
+      if (data.disaster_id === selectedDisasterRef.current?.id) {
+        setInventoryVersion(version => version + 1);
+      }
+    };
+    socket.on('inventory_updated', refreshInventory);
+    socket.on('inventory_low_stock', refreshInventory);
+    socket.on('shipment_updated', refreshInventory);
+
     // Listen for map disaster selection
     const handleMapDisasterSelect = (event: any) => {
       selectDisaster(event.detail);
     };
     window.addEventListener('selectDisaster', handleMapDisasterSelect);
 
+    // Replace offline copies with live data once the connection is back; a
+    // fresh query object makes the resources effect load again
+    const handleOnline = () => {
+      loadDisasters();
+      setResourceQuery(query => ({ ...query }));
+    };
+    window.addEventListener('online', handleOnline);
+
     return () => {
       socket.off('disaster_updated');
       socket.off('social_media_updated');
+      socket.off('official_updates_updated');
       socket.off('resources_updated');
+      socket.off('report_moderated');
+      socket.off('report_reviewed');
+      socket.off('volunteer_task_updated');
+      socket.off('task_offered');
+      socket.off('need_updated');
+      socket.off('inventory_updated');
+      socket.off('inventory_low_stock');
+      socket.off('shipment_updated');
       window.removeEventListener('selectDisaster', handleMapDisasterSelect);
+      window.removeEventListener('online', handleOnline);
     };
   }, []);
 
+  // Re-authenticate the socket whenever the signed-in user changes
+  useEffect(() => {
+    socket.disconnect().connect();
+
+    const handleConnectError = async (err: Error) => {
+      if (err.message === 'Unauthorized' && await refreshSession()) {
+        socket.connect();
+      }
+    };
+    socket.on('connect_error', handleConnectError);
+
+    return () => {
+      socket.off('connect_error', handleConnectError);
+    };
+  }, [user?.id]);
+
+  useEffect(() => {
+    includeArchivedRef.current = includeArchived;
+    loadDisasters();
+  }, [includeArchived]);
+
+  useEffect(() => {
+    if (!reportImage) {
+      setReportImagePreview(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(reportImage);
+    setReportImagePreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [reportImage]);
+
   const loadDisasters = async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch(`${API_BASE}/disasters`);
+      const response = await apiFetch(includeArchivedRef.current ? '/disasters?include_archived=true' : '/disasters');
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -133,6 +316,8 @@ function App() {
       
       if (Array.isArray(data)) {
         setDisasters(data);
+        setOfflineCopyAt(null);
+        saveSnapshot('disasters', data);
       } else {
         console.error('API returned non-array data:', data);
         setDisasters([]);
@@ -140,8 +325,14 @@ function App() {
       }
     } catch (error) {
       console.error('Error loading disasters:', error);
-      setError(`Failed to load disasters: ${error.message}`);
-      setDisasters([]);
+      const saved = await loadSnapshot<Disaster[]>('disasters');
+      if (saved) {
+        setDisasters(saved.data);
+        setOfflineCopyAt(prev => olderOf(prev, saved.saved_at));
+      } else {
+        setError(`Failed to load disasters: ${error.message}`);
+        setDisasters([]);
+      }
     } finally {
       setLoading(false);
     }
@@ -156,7 +347,7 @@ function App() {
       let locationData = null;
       if (newDisaster.description) {
         try {
-          const geocodeResponse = await fetch(`${API_BASE}/geocoding/geocode`, {
+          const geocodeResponse = await apiFetch('/geocoding/geocode', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json'
@@ -175,11 +366,10 @@ function App() {
         }
       }
 
-      const response = await fetch(`${API_BASE}/disasters`, {
+      const response = await apiFetch('/disasters', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': 'netrunnerX'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           ...newDisaster,
@@ -206,60 +396,273 @@ function App() {
     }
   };
 
+  // Disasters created by the import arrive through the disaster_updated socket event
+  const importCap = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      const response = await apiFetch('/disasters/import/cap', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/xml' },
+        body: await file.text()
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import CAP alert');
+      }
+
+      const skipped = (data.skipped || []).map((s: { identifier: string | null; reason: string }) => `${s.identifier || 'alert'}: ${s.reason}`);
+      alert(`Imported ${data.imported.length} disaster(s)${skipped.length ? `\nSkipped:\n${skipped.join('\n')}` : ''}`);
+
+      if (data.imported.length > 0) {
+        selectDisaster(data.imported[0]);
+      }
+    } catch (error) {
+      console.error('Error importing CAP alert:', error);
+      setError(`Failed to import CAP alert: ${(error as Error).message}`);
+    }
+  };
+
+  const downloadCap = async (disaster: Disaster) => {
+    try {
+      const response = await apiFetch(`/disasters/${disaster.id}/cap`);
+      if (!response.ok) {
+        throw new Error('Failed to export CAP alert');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `disaster-${disaster.id}.cap.xml`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting CAP alert:', error);
+      setError(`Failed to export CAP alert: ${(error as Error).message}`);
+    }
+  };
+
+  // The map's draw toolbar saves every change; the new footprint comes back
+  // through the disaster_updated socket event as well
+  const saveFootprint = async (footprint: MultiPolygon | null) => {
+    if (!selectedDisaster) return;
+
+    try {
+      const response = await apiFetch(`/disasters/${selectedDisaster.id}/footprint`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ footprint })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save affected area');
+      }
+
+      selectedDisasterRef.current = data;
+      setSelectedDisaster(data);
+    } catch (error) {
+      console.error('Error saving footprint:', error);
+      setError(`Failed to save affected area: ${(error as Error).message}`);
+    }
+  };
+
+  // Resources created by the import arrive through the resources_updated socket event
+  const importResources = async (layer: object) => {
+    if (!selectedDisaster) return;
+
+    const response = await apiFetch(`/resources/disasters/${selectedDisaster.id}/resources/import/geojson?default_type=other`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/geo+json' },
+      body: JSON.stringify(layer)
+    });
+    const data = await response.json();
+
+    const rejected = (data.errors || []).map((e: { index: number | null; error: string }) =>
+      e.index === null ? e.error : `Feature ${e.index + 1}: ${e.error}`
+    );
+
+    if (!response.ok) {
+      throw new Error([data.error || 'Failed to import resources', ...rejected.slice(0, 3)].join(' - '));
+    }
+
+    alert(`Imported ${data.imported.length} resource(s)${rejected.length ? `\nRejected:\n${rejected.join('\n')}` : ''}`);
+  };
+
   const selectDisaster = async (disaster: Disaster) => {
+    const previous = selectedDisasterRef.current;
+    if (previous && previous.id !== disaster.id) {
+      socket.emit('leave_disaster', previous.id);
+    }
+    selectedDisasterRef.current = disaster;
+
     setSelectedDisaster(disaster);
+    setDisasterPermissions([]);
+    setResourceQuery(defaultResourceQuery);
+    setVerificationResult(null);
+    setOpenedReport(null);
     socket.emit('join_disaster', disaster.id);
     
-    // Load associated data
+    // Load associated data (resources load from the effect below)
     await Promise.all([
+      loadDisasterPermissions(disaster.id),
       loadSocialReports(disaster.id),
-      loadResources(disaster.id),
       loadUpdates(disaster.id)
     ]);
   };
 
+  // Used when the selected disaster is deleted, here or elsewhere
+  const clearSelection = () => {
+    if (selectedDisasterRef.current) {
+      socket.emit('leave_disaster', selectedDisasterRef.current.id);
+    }
+    selectedDisasterRef.current = null;
+    setSelectedDisaster(null);
+    setDisasterPermissions([]);
+    setVerificationResult(null);
+    setOpenedReport(null);
+  };
+
+  // Selects the disaster a search result belongs to and shows the result in it
+  const openSearchResult = async (result: SearchResult) => {
+    if (!result.disaster_id) return;
+
+    try {
+      let disaster = disasters.find(d => d.id === result.disaster_id);
+      if (!disaster) {
+        const response = await apiFetch(`/disasters/${result.disaster_id}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load the disaster');
+        disaster = data as Disaster;
+      }
+
+      if (selectedDisasterRef.current?.id !== disaster.id) {
+        await selectDisaster(disaster);
+      }
+
+      if (result.kind === 'official_update') setActiveTab('updates');
+      if (result.kind === 'social_post') setActiveTab('reports');
+      if (result.kind === 'report') {
+        const response = await apiFetch(`/verification/disasters/${disaster.id}/reports/${result.id}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load the report');
+        setOpenedReport(data);
+      }
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  // Kept offline as well so a field team can still file reports without a connection
+  const loadDisasterPermissions = async (disasterId: string) => {
+    try {
+      const response = await apiFetch(`/disasters/${disasterId}/permissions`);
+      if (response.ok) {
+        const data = await response.json();
+        setDisasterPermissions(data.actions || []);
+        saveSnapshot(`permissions:${disasterId}`, data.actions || []);
+      }
+    } catch (error) {
+      console.error('Error loading permissions:', error);
+      const saved = await loadSnapshot<string[]>(`permissions:${disasterId}`);
+      if (saved) setDisasterPermissions(saved.data);
+    }
+  };
+
+  // Platform-wide actions come from the user's role; actions on the selected
+  // disaster also include per-disaster role assignments.
+  const canGlobally = (action: string) => user?.permissions?.includes(action) ?? false;
+  const canOnDisaster = (action: string) => disasterPermissions.includes(action);
+  const canSubmitReport = canOnDisaster(newReport.image_url ? 'verification:submit' : 'reports:create');
+
   const loadSocialReports = async (disasterId: string) => {
     try {
       setSocialLoading(true);
-      const response = await fetch(`${API_BASE}/social-media/disasters/${disasterId}/social-media`);
+      const response = await apiFetch(`/social-media/disasters/${disasterId}/social-media`);
       if (response.ok) {
         const data = await response.json();
-        // Enhance reports with additional data for better display
-        const enhancedReports = (data.reports || []).map((report: any) => ({
-          ...report,
-          platform: report.platform || 'Twitter',
-          verified: report.verified !== undefined ? report.verified : Math.random() > 0.7,
-          engagement: report.engagement || {
-            likes: Math.floor(Math.random() * 100),
-            shares: Math.floor(Math.random() * 50),
-            replies: Math.floor(Math.random() * 25)
-          }
-        }));
-        setSocialReports(enhancedReports);
+        setSocialReports(data.reports || []);
+        setNewSocialIds(new Set());
       }
     } catch (error) {
       console.error('Error loading social reports:', error);
       setSocialReports([]);
+      setNewSocialIds(new Set());
     } finally {
       setSocialLoading(false);
     }
   };
 
-  const loadResources = async (disasterId: string) => {
+  // Without an explicit centre the server searches around the disaster location
+  const loadResources = useCallback(async () => {
+    if (!selectedDisaster) return null;
+
+    const params = new URLSearchParams({
+      radius: String(resourceQuery.radius),
+      limit: String(RESOURCE_PAGE_SIZE),
+      offset: String(resourceQuery.offset)
+    });
+    if (resourceQuery.center) {
+      params.set('lat', String(resourceQuery.center.lat));
+      params.set('lon', String(resourceQuery.center.lng));
+    }
+    if (resourceQuery.mode === 'footprint' && selectedDisaster.footprint) params.set('mode', 'footprint');
+    if (resourceQuery.type) params.set('type', resourceQuery.type);
+    if (resourceQuery.status) params.set('availability_status', resourceQuery.status);
+
+    // Offline, the last search made for this disaster is shown whatever the query
+    const snapshotKey = `resources:${selectedDisaster.id}`;
     try {
-      const response = await fetch(`${API_BASE}/resources/disasters/${disasterId}/resources?lat=40.7128&lon=-74.0060`);
-      if (response.ok) {
-        const data = await response.json();
-        setResources(data.resources || []);
-      }
+      const response = await apiFetch(`/resources/disasters/${selectedDisaster.id}/resources?${params}`);
+      if (!response.ok) return null;
+      const data = await response.json();
+      saveSnapshot(snapshotKey, data);
+      return data;
     } catch (error) {
       console.error('Error loading resources:', error);
+      const saved = await loadSnapshot<Record<string, unknown>>(snapshotKey);
+      if (!saved) return null;
+      setOfflineCopyAt(prev => olderOf(prev, saved.saved_at));
+      return saved.data;
     }
+  }, [selectedDisaster, resourceQuery]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadResources().then(data => {
+      if (cancelled || !data) return;
+      const { lat, lon } = data.search_params || {};
+      setResources(data.resources || []);
+      setResourceTotal(data.total ?? (data.resources || []).length);
+      setResourceCenter(typeof lat === 'number' && typeof lon === 'number' ? { lat, lng: lon } : null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadResources]);
+
+  // Creates and updates are upserts so local changes and their socket echo agree
+  const applyResourceChange = (action: ResourceChange, resource: Resource) => {
+    setResources(prev => {
+      if (action === 'delete') {
+        return prev.filter(r => r.id !== resource.id);
+      }
+      if (prev.some(r => r.id === resource.id)) {
+        return prev.map(r => r.id === resource.id ? { ...r, ...resource } : r);
+      }
+      return [resource, ...prev];
+    });
   };
 
   const loadUpdates = async (disasterId: string) => {
     try {
-      const response = await fetch(`${API_BASE}/updates/disasters/${disasterId}/official-updates`);
+      const response = await apiFetch(`/updates/disasters/${disasterId}/official-updates`);
       if (response.ok) {
         const data = await response.json();
         setUpdates(data.updates || []);
@@ -269,32 +672,109 @@ function App() {
     }
   };
 
+  // Shown in the feed straight away; verification happens once it is sent
+  const addQueuedReport = (id: string, disaster: Disaster) => {
+    setSocialReports(prev => [{
+      id: `user_report_${id}`,
+      user: user?.username || 'me',
+      content: newReport.content,
+      timestamp: new Date().toISOString(),
+      priority: 'medium',
+      location: disaster.location_name || 'Unknown',
+      keywords: ['user_report', 'queued'],
+      platform: 'User Report (waiting to sync)',
+      verified: false,
+      engagement: { likes: 0, shares: 0, replies: 0 }
+    }, ...prev]);
+
+    alert('You are offline. The report was saved on this device and will be sent when the connection returns.');
+  };
+
+  const pickReportImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!REPORT_IMAGE_TYPES.includes(file.type)) {
+      setError('Photos must be JPEG, PNG or WebP images');
+    } else if (file.size > MAX_REPORT_IMAGE_MB * 1024 * 1024) {
+      setError(`Photos must be at most ${MAX_REPORT_IMAGE_MB} MB`);
+    } else {
+      setError(null);
+      setReportImage(file);
+      setNewReport({ ...newReport, image_url: '' });
+    }
+  };
+
   const submitReport = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedDisaster) return;
+    if (!selectedDisaster || !canSubmitReport) return;
 
     try {
       setError(null);
+
+      // Without a connection the report waits in the outbox; the id makes
+      // its later replay safe to repeat
+      const reportId = crypto.randomUUID();
+      const sendReport = (path: string, files?: Record<string, Blob>) => sendOrQueue({
+        id: reportId,
+        label: `Report on ${selectedDisaster.title}`,
+        method: 'POST',
+        path: `/verification/disasters/${selectedDisaster.id}${path}`,
+        body: { ...newReport, id: reportId },
+        files
+      });
       
-      // If image URL is provided, verify it first
-      if (newReport.image_url) {
-        const verifyResponse = await fetch(`${API_BASE}/verification/disasters/${selectedDisaster.id}/verify-image`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-user-id': 'citizen1'
-          },
-          body: JSON.stringify(newReport)
-        });
-        
-        if (verifyResponse.ok) {
+      // An uploaded photo is stored with the report; its EXIF position, when
+      // it has one, becomes the report location
+      if (reportImage) {
+        const response = await sendReport('/reports', { image: reportImage });
+
+        if (!response) {
+          addQueuedReport(reportId, selectedDisaster);
+        } else {
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.error || 'Failed to upload photo');
+          }
+
+          setVerificationResult({
+            status: data.verification_status,
+            score: data.verification_analysis?.score ?? null,
+            analysis: data.verification_analysis
+          });
+
+          setSocialReports(prev => [{
+            id: `user_report_${data.id}`,
+            user: user?.username || 'me',
+            content: newReport.content,
+            timestamp: new Date().toISOString(),
+            priority: 'medium',
+            location: selectedDisaster.location_name || 'Unknown',
+            keywords: ['user_report', 'photo'],
+            platform: 'User Report',
+            verified: data.verification_status === 'authentic',
+            engagement: { likes: 0, shares: 0, replies: 0 }
+          }, ...prev]);
+
+          alert(data.location_source === 'exif'
+            ? `Report submitted with photo.\nLocation taken from the photo: ${data.lat?.toFixed(5)}, ${data.lng?.toFixed(5)}`
+            : 'Report submitted with photo.');
+        }
+      } else if (newReport.image_url) {
+        // If image URL is provided, verify it first
+        const verifyResponse = await sendReport('/verify-image');
+
+        if (!verifyResponse) {
+          addQueuedReport(reportId, selectedDisaster);
+        } else if (verifyResponse.ok) {
           const verifyData = await verifyResponse.json();
           setVerificationResult(verifyData.verification);
           
           // Create a new report entry for the social feed
           const newSocialReport: SocialMediaReport = {
             id: `user_report_${Date.now()}`,
-            user: 'citizen1',
+            user: user?.username || 'me',
             content: newReport.content,
             timestamp: new Date().toISOString(),
             priority: 'medium',
@@ -308,24 +788,19 @@ function App() {
           // Add to social reports immediately
           setSocialReports(prev => [newSocialReport, ...prev]);
           
-          alert(`Report submitted and verified!\nImage verification: ${verifyData.verification.status}\nAnalysis: ${verifyData.verification.analysis}`);
+          alert(`Report submitted and verified!\nImage verification: ${verifyData.verification.analysis?.summary || verifyData.verification.status}`);
         }
       } else {
         // Submit report without image
-        const response = await fetch(`${API_BASE}/verification/disasters/${selectedDisaster.id}/reports`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-user-id': 'citizen1'
-          },
-          body: JSON.stringify(newReport)
-        });
-        
-        if (response.ok) {
+        const response = await sendReport('/reports');
+
+        if (!response) {
+          addQueuedReport(reportId, selectedDisaster);
+        } else if (response.ok) {
           // Create a new report entry for the social feed
           const newSocialReport: SocialMediaReport = {
             id: `user_report_${Date.now()}`,
-            user: 'citizen1',
+            user: user?.username || 'me',
             content: newReport.content,
             timestamp: new Date().toISOString(),
             priority: 'medium',
@@ -344,6 +819,7 @@ function App() {
       }
       
       setNewReport({ content: '', image_url: '' });
+      setReportImage(null);
     } catch (error) {
       console.error('Error submitting report:', error);
       setError(`Failed to submit report: ${error.message}`);
@@ -352,7 +828,7 @@ function App() {
 
   const testGeocode = async () => {
     try {
-      const response = await fetch(`${API_BASE}/geocoding/geocode`, {
+      const response = await apiFetch('/geocoding/geocode', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -390,6 +866,19 @@ function App() {
     }
   };
 
+  const getSeverityColor = (severity?: string) => {
+    switch (severity) {
+      case 'Extreme': return 'text-red-700 bg-red-100';
+      case 'Severe': return 'text-orange-700 bg-orange-100';
+      case 'Moderate': return 'text-yellow-700 bg-yellow-100';
+      default: return 'text-gray-700 bg-gray-100';
+    }
+  };
+
+  if (!user) {
+    return <LoginScreen />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -401,6 +890,7 @@ function App() {
               <h1 className="text-2xl font-bold text-gray-900">Disaster Response Platform</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <GlobalSearch onSelect={openSearchResult} onError={setError} />
               <button
                 onClick={() => setShowMap(!showMap)}
                 className={`flex items-center space-x-2 px-3 py-2 rounded-md transition-colors ${
@@ -410,9 +900,29 @@ function App() {
                 <Map className="h-4 w-4" />
                 <span>{showMap ? 'Hide Map' : 'Show Map'}</span>
               </button>
-              <div className="flex items-center space-x-2 text-sm text-gray-600">
-                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                <span>Real-time Connected</span>
+              <button
+                onClick={() => setShowAlerts(!showAlerts)}
+                className={`flex items-center space-x-2 px-3 py-2 rounded-md transition-colors ${
+                  showAlerts ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                title="Alert subscriptions"
+              >
+                <Bell className="h-4 w-4" />
+                <span>Alerts</span>
+              </button>
+              <SyncStatus />
+              <div className="flex items-center space-x-3 pl-4 border-l border-gray-200">
+                <div className="text-right">
+                  <div className="text-sm font-medium text-gray-900">{user.username}</div>
+                  <div className="text-xs text-gray-500">{user.role.replace(/_/g, ' ')}</div>
+                </div>
+                <button
+                  onClick={logout}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
+                  title="Sign out"
+                >
+                  <LogOut className="h-4 w-4" />
+                </button>
               </div>
             </div>
           </div>
@@ -433,6 +943,40 @@ function App() {
           </div>
         )}
 
+        {offlineCopyAt && (
+          <div className="mb-6 bg-orange-50 border border-orange-200 rounded-md p-4 flex items-center space-x-3 text-sm text-orange-800">
+            <WifiOff className="h-5 w-5 text-orange-500" />
+            <span>
+              Showing data saved on this device on {new Date(offlineCopyAt).toLocaleString()}. It refreshes when the connection returns.
+            </span>
+          </div>
+        )}
+
+        {reviewNotices.map(notice => (
+          <div key={notice.report_id} className="mb-4 bg-blue-50 border border-blue-200 rounded-md p-4 flex items-start justify-between text-sm text-blue-800">
+            <div>
+              <span className="font-medium">
+                Your report on {disasters.find(d => d.id === notice.disaster_id)?.title || 'a disaster'} was {REVIEW_OUTCOMES[notice.decision] || notice.decision}
+              </span>
+              {notice.note && <div className="mt-1 text-blue-700">{notice.note}</div>}
+            </div>
+            <button
+              onClick={() => setReviewNotices(prev => prev.filter(n => n.report_id !== notice.report_id))}
+              className="p-1 text-blue-500 hover:text-blue-800"
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+
+        {/* Alert subscriptions */}
+        {showAlerts && (
+          <div className="mb-8">
+            <AlertSubscriptions disasters={disasters} onError={setError} />
+          </div>
+        )}
+
         {/* Map View */}
         {showMap && (
           <div className="mb-8">
@@ -440,10 +984,16 @@ function App() {
               disasters={disasters}
               resources={resources}
               selectedDisaster={selectedDisaster}
+              searchCenter={selectedDisaster ? resourceCenter : null}
+              searchRadiusKm={resourceQuery.radius}
+              onSearchRadiusChange={(radius) => setResourceQuery({ ...resourceQuery, radius, offset: 0 })}
               onLocationSelect={(lat, lng) => {
-                console.log('Location selected:', lat, lng);
-                // You can use this for adding resources or other location-based features
+                // Re-centre the resource search on the clicked point
+                setResourceQuery({ ...resourceQuery, center: { lat, lng }, offset: 0 });
               }}
+              onFootprintChange={selectedDisaster && canOnDisaster('disasters:update') ? saveFootprint : undefined}
+              onImportResources={selectedDisaster && canOnDisaster('resources:create') ? importResources : undefined}
+              refreshKey={needsVersion}
             />
           </div>
         )}
@@ -454,56 +1004,69 @@ function App() {
             <div className="bg-white rounded-lg shadow-sm border">
               <div className="p-6">
                 <div className="flex items-center justify-between mb-6">
-                  <h2 className="text-lg font-semibold text-gray-900">Active Disasters</h2>
-                  <button
-                    onClick={loadDisasters}
-                    className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
-                    disabled={loading}
-                  >
-                    <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-                  </button>
+                  <h2 className="text-lg font-semibold text-gray-900">Disasters</h2>
+                  <div className="flex items-center space-x-3">
+                    <label className="flex items-center space-x-1 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={includeArchived}
+                        onChange={(e) => setIncludeArchived(e.target.checked)}
+                        className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                      />
+                      <span>Include archived</span>
+                    </label>
+                    <button
+                      onClick={loadDisasters}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
+                      disabled={loading}
+                    >
+                      <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                  </div>
                 </div>
 
                 {/* Create Disaster Form */}
-                <form onSubmit={createDisaster} className="mb-6 space-y-4">
-                  <input
-                    type="text"
-                    placeholder="Disaster title"
-                    value={newDisaster.title}
-                    onChange={(e) => setNewDisaster({...newDisaster, title: e.target.value})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                    required
-                  />
-                  <input
-                    type="text"
-                    placeholder="Location name (optional - will be extracted from description)"
-                    value={newDisaster.location_name}
-                    onChange={(e) => setNewDisaster({...newDisaster, location_name: e.target.value})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                  />
-                  <textarea
-                    placeholder="Description (include location details for automatic extraction)"
-                    value={newDisaster.description}
-                    onChange={(e) => setNewDisaster({...newDisaster, description: e.target.value})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                    rows={3}
-                    required
-                  />
-                  <input
-                    type="text"
-                    placeholder="Tags (comma-separated)"
-                    value={newDisaster.tags}
-                    onChange={(e) => setNewDisaster({...newDisaster, tags: e.target.value})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                  />
-                  <button
-                    type="submit"
-                    className="w-full bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors flex items-center justify-center space-x-2"
-                  >
-                    <Plus className="h-4 w-4" />
-                    <span>Create Disaster</span>
-                  </button>
-                </form>
+                {canGlobally('disasters:create') && (
+                  <form onSubmit={createDisaster} className="mb-6 space-y-4">
+                    <input
+                      type="text"
+                      placeholder="Disaster title"
+                      value={newDisaster.title}
+                      onChange={(e) => setNewDisaster({...newDisaster, title: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      required
+                    />
+                    <input
+                      type="text"
+                      placeholder="Location name (optional - will be extracted from description)"
+                      value={newDisaster.location_name}
+                      onChange={(e) => setNewDisaster({...newDisaster, location_name: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                    <textarea
+                      placeholder="Description (include location details for automatic extraction)"
+                      value={newDisaster.description}
+                      onChange={(e) => setNewDisaster({...newDisaster, description: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      rows={3}
+                      required
+                    />
+                    <input
+                      type="text"
+                      placeholder="Tags (comma-separated)"
+                      value={newDisaster.tags}
+                      onChange={(e) => setNewDisaster({...newDisaster, tags: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                    <button
+                      type="submit"
+                      className="w-full bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors flex items-center justify-center space-x-2"
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span>Create Disaster</span>
+                    </button>
+                  </form>
+                )}
 
                 {/* Disasters List */}
                 <div className="space-y-3">
@@ -531,7 +1094,10 @@ function App() {
                           : 'border-gray-200 hover:border-gray-300'
                       }`}
                     >
-                      <h3 className="font-medium text-gray-900 mb-1">{disaster.title}</h3>
+                      <div className="flex items-start justify-between mb-1">
+                        <h3 className="font-medium text-gray-900">{disaster.title}</h3>
+                        <DisasterStatusBadge status={disaster.status} />
+                      </div>
                       {disaster.location_name && (
                         <div className="flex items-center text-sm text-gray-600 mb-2">
                           <MapPin className="h-3 w-3 mr-1" />
@@ -592,16 +1158,102 @@ function App() {
                         </div>
                       )}
                       <p className="text-gray-700">{selectedDisaster.description}</p>
+                      {[selectedDisaster.severity, selectedDisaster.urgency, selectedDisaster.certainty].some(value => value && value !== 'Unknown') && (
+                        <div className="flex flex-wrap gap-2 mt-3 text-xs">
+                          <span className={`px-2 py-1 rounded-full ${getSeverityColor(selectedDisaster.severity)}`}>
+                            Severity: {selectedDisaster.severity || 'Unknown'}
+                          </span>
+                          <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                            Urgency: {selectedDisaster.urgency || 'Unknown'}
+                          </span>
+                          <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                            Certainty: {selectedDisaster.certainty || 'Unknown'}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <DisasterStatusControl
+                        disasterId={selectedDisaster.id}
+                        status={selectedDisaster.status}
+                        canUpdate={canOnDisaster('disasters:update')}
+                        canDelete={canOnDisaster('disasters:delete')}
+                        onChanged={(changed) => {
+                          const updated = changed as Disaster;
+                          selectedDisasterRef.current = updated;
+                          setSelectedDisaster(updated);
+                        }}
+                        onDeleted={clearSelection}
+                        onError={setError}
+                      />
+                      {canGlobally('disasters:create') && (
+                        <label
+                          className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 cursor-pointer transition-colors"
+                          title="Create disasters from a CAP 1.2 alert file"
+                        >
+                          <Upload className="h-4 w-4" />
+                          <span>Import CAP</span>
+                          <input type="file" accept=".xml,.cap,application/xml,text/xml" onChange={importCap} className="hidden" />
+                        </label>
+                      )}
+                      <button
+                        onClick={() => downloadCap(selectedDisaster)}
+                        className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                        title="Download this disaster as a CAP 1.2 alert"
+                      >
+                        <Download className="h-4 w-4" />
+                        <span>CAP</span>
+                      </button>
                     </div>
                   </div>
 
+                  {openedReport && (
+                    <div className="border rounded-lg p-4 mb-6 bg-gray-50">
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="text-xs text-gray-500">
+                          Report by {openedReport.user_id} · {new Date(openedReport.created_at).toLocaleString()}
+                          {openedReport.priority && ` · ${openedReport.priority} priority`}
+                          {` · ${openedReport.moderation_status}`}
+                        </div>
+                        <button onClick={() => setOpenedReport(null)} className="p-1 text-gray-500 hover:text-gray-800" title="Close">
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <p className="text-gray-800 mb-3">{openedReport.content}</p>
+                      {(openedReport.image_thumbnail_url || openedReport.image_url) && (
+                        <a href={openedReport.image_url || undefined} target="_blank" rel="noopener noreferrer">
+                          <img
+                            src={openedReport.image_thumbnail_url || openedReport.image_url || undefined}
+                            alt="Report"
+                            className="h-32 rounded-md border mb-3"
+                          />
+                        </a>
+                      )}
+                      {openedReport.verification_analysis && (
+                        <VerificationResult
+                          verification={{
+                            status: openedReport.verification_status,
+                            score: openedReport.verification_analysis.score ?? null,
+                            analysis: openedReport.verification_analysis
+                          }}
+                        />
+                      )}
+                    </div>
+                  )}
+
                   {/* Tab Navigation */}
                   <div className="border-b border-gray-200 mb-6">
                     <nav className="flex space-x-8">
                       {[
                         { id: 'reports', label: 'Social Reports', icon: MessageCircle, count: socialReports.length },
-                        { id: 'resources', label: 'Resources', icon: Users, count: resources.length },
-                        { id: 'updates', label: 'Official Updates', icon: Shield, count: updates.length }
+                        { id: 'resources', label: 'Resources', icon: Users, count: resourceTotal },
+                        { id: 'needs', label: 'Needs', icon: HandHelping, count: 0 },
+                        { id: 'volunteers', label: 'Volunteers', icon: HeartHandshake, count: 0 },
+                        { id: 'updates', label: 'Official Updates', icon: Shield, count: updates.length },
+                        { id: 'history', label: 'History', icon: History, count: 0 },
+                        ...(canOnDisaster('verification:review')
+                          ? [{ id: 'review', label: 'Review Queue', icon: ClipboardCheck, count: 0 }]
+                          : [])
                       ].map((tab) => (
                         <button
                           key={tab.id}
@@ -644,17 +1296,54 @@ function App() {
                             placeholder="Image URL (optional - will be verified for authenticity)"
                             value={newReport.image_url}
                             onChange={(e) => setNewReport({...newReport, image_url: e.target.value})}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+                            disabled={!!reportImage}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 disabled:bg-gray-100"
                           />
+                          {reportImagePreview && reportImage ? (
+                            <div className="flex items-center space-x-3">
+                              <img src={reportImagePreview} alt="Selected photo" className="h-20 w-20 object-cover rounded-md border" />
+                              <div className="text-sm text-gray-600">
+                                <div>{reportImage.name}</div>
+                                <div className="text-xs text-gray-500">{(reportImage.size / 1024 / 1024).toFixed(1)} MB</div>
+                              </div>
+                              <button
+                                type="button"
+                                onClick={() => setReportImage(null)}
+                                className="p-1 text-gray-500 hover:text-gray-800"
+                                title="Remove photo"
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                            </div>
+                          ) : (
+                            <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer w-fit px-3 py-2 border border-dashed border-gray-300 rounded-md hover:bg-gray-100">
+                              <Camera className="h-4 w-4" />
+                              <span>Attach photo (its GPS position and capture time are read automatically)</span>
+                              <input type="file" accept={REPORT_IMAGE_TYPES.join(',')} onChange={pickReportImage} className="hidden" />
+                            </label>
+                          )}
                           <button
                             type="submit"
-                            className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors"
+                            disabled={!canSubmitReport}
+                            className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                           >
                             Submit Report
                           </button>
+                          {!canSubmitReport && (
+                            <p className="text-sm text-gray-500">
+                              Your role on this disaster does not allow submitting {newReport.image_url ? 'images for verification' : 'reports'}.
+                            </p>
+                          )}
                         </div>
                       </form>
 
+                      {verificationResult && (
+                        <VerificationResult
+                          verification={verificationResult}
+                          onClose={() => setVerificationResult(null)}
+                        />
+                      )}
+
                       {/* Social Media Feed */}
                       <div className="flex items-center justify-between mb-4">
                         <h3 className="font-medium text-gray-900">Live Social Media Reports</h3>
@@ -671,6 +1360,8 @@ function App() {
                       <SocialMediaFeed
                         reports={socialReports}
                         loading={socialLoading}
+                        newReportIds={newSocialIds}
+                        onShowNew={() => setNewSocialIds(new Set())}
                         onReportClick={(report) => {
                           console.log('Report clicked:', report);
                           // You can add more functionality here
@@ -680,41 +1371,75 @@ function App() {
                   )}
 
                   {activeTab === 'resources' && (
-                    <div className="space-y-4">
-                      {resources.length === 0 ? (
-                        <div className="text-center py-8">
-                          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                          <p className="text-gray-500">No resources found for this disaster</p>
-                        </div>
-                      ) : (
-                        resources.map((resource) => (
-                          <div key={resource.id} className="border rounded-lg p-4">
-                            <div className="flex items-start justify-between mb-2">
-                              <h3 className="font-medium text-gray-900">{resource.name}</h3>
-                              <span className={`px-2 py-1 text-xs rounded-full ${
-                                resource.availability_status === 'available' ? 'bg-green-100 text-green-800' :
-                                resource.availability_status === 'limited' ? 'bg-yellow-100 text-yellow-800' :
-                                'bg-red-100 text-red-800'
-                              }`}>
-                                {resource.availability_status}
-                              </span>
-                            </div>
-                            <div className="flex items-center text-sm text-gray-600 mb-1">
-                              <MapPin className="h-3 w-3 mr-1" />
-                              {resource.location_name}
-                              {resource.distance_km && (
-                                <span className="ml-2 text-gray-500">
-                                  ({resource.distance_km.toFixed(1)} km away)
-                                </span>
-                              )}
-                            </div>
-                            <div className="text-sm text-gray-600">
-                              Type: {resource.type}
-                            </div>
-                          </div>
-                        ))
-                      )}
-                    </div>
+                    <ResourcesPanel
+                      disasterId={selectedDisaster.id}
+                      resources={resources}
+                      canCreate={canOnDisaster('resources:create')}
+                      canUpdate={canOnDisaster('resources:update')}
+                      canDelete={canOnDisaster('resources:delete')}
+                      query={resourceQuery}
+                      total={resourceTotal}
+                      pageSize={RESOURCE_PAGE_SIZE}
+                      searchCenter={resourceCenter}
+                      hasFootprint={Boolean(selectedDisaster.footprint)}
+                      onQueryChange={setResourceQuery}
+                      onChange={applyResourceChange}
+                      onError={setError}
+                    />
+                  )}
+
+                  {activeTab === 'resources' && (
+                    <InventoryPanel
+                      disasterId={selectedDisaster.id}
+                      resources={resources}
+                      canUpdate={canOnDisaster('inventory:update')}
+                      refreshKey={inventoryVersion}
+                      onError={setError}
+                    />
+                  )}
+
+                  {activeTab === 'needs' && (
+                    <NeedsBoard
+                      disasterId={selectedDisaster.id}
+                      resources={resources}
+                      canCreate={canOnDisaster('needs:create')}
+                      canUpdate={canOnDisaster('needs:update')}
+                      refreshKey={needsVersion}
+                      onError={setError}
+                    />
+                  )}
+
+                  {activeTab === 'volunteers' && (
+                    <VolunteersPanel
+                      disasterId={selectedDisaster.id}
+                      resources={resources}
+                      canCreate={canOnDisaster('tasks:create')}
+                      canUpdate={canOnDisaster('tasks:update')}
+                      refreshKey={volunteerVersion}
+                      onError={setError}
+                    />
+                  )}
+
+                  {activeTab === 'review' && canOnDisaster('verification:review') && (
+                    <ModerationQueue
+                      disasterId={selectedDisaster.id}
+                      refreshKey={moderationVersion}
+                      onError={setError}
+                    />
+                  )}
+
+                  {activeTab === 'history' && (
+                    <DisasterHistory
+                      disasterId={selectedDisaster.id}
+                      canRevert={canOnDisaster('disasters:revert')}
+                      onReverted={(disaster) => {
+                        const reverted = disaster as Disaster;
+                        selectedDisasterRef.current = reverted;
+                        setSelectedDisaster(reverted);
+                        setDisasters(prev => prev.map(d => d.id === reverted.id ? reverted : d));
+                      }}
+                      onError={setError}
+                    />
                   )}
 
                   {activeTab === 'updates' && (
@@ -735,11 +1460,23 @@ function App() {
                                 </span>
                               </div>
                               <span className="text-sm text-gray-500">
-                                {new Date(update.timestamp).toLocaleString()}
+                                {update.timestamp ? new Date(update.timestamp).toLocaleString() : 'Date unknown'}
                               </span>
                             </div>
-                            <h3 className="font-medium text-gray-900 mb-2">{update.title}</h3>
+                            <h3 className="font-medium text-gray-900 mb-2">
+                              {update.url ? (
+                                <a href={update.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600 hover:underline">
+                                  {update.title}
+                                </a>
+                              ) : update.title}
+                            </h3>
                             <p className="text-gray-700">{update.content}</p>
+                            {update.area && (
+                              <p className="text-xs text-gray-500 mt-2 flex items-center space-x-1">
+                                <MapPin className="h-3 w-3" />
+                                <span>{update.area}</span>
+                              </p>
+                            )}
                           </div>
                         ))
                       )}
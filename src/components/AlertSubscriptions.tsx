@@ -0,0 +1,563 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Bell, Mail, Smartphone, Webhook, Plus, Send, Pencil, Trash2, RefreshCw, X } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+
+// Mirror NOTIFICATION_CHANNELS, EVENT_TYPES and PRIORITIES on the server
+type Channel = 'email' | 'sms' | 'webhook';
+type EventType = 'priority_alert' | 'official_update' | 'disaster_status';
+const PRIORITIES = ['urgent', 'high', 'medium', 'low'];
+
+const CHANNELS: Record<Channel, { label: string; placeholder: string; icon: React.ElementType }> = {
+  email: { label: 'Email', placeholder: 'you@example.org', icon: Mail },
+  sms: { label: 'SMS', placeholder: '+15551234567', icon: Smartphone },
+  webhook: { label: 'Webhook', placeholder: 'https://example.org/hooks/alerts', icon: Webhook },
+};
+
+const EVENT_LABELS: Record<EventType, string> = {
+  priority_alert: 'Priority alerts',
+  official_update: 'Official updates',
+  disaster_status: 'Status changes',
+};
+
+interface Subscription {
+  id: string;
+  name: string;
+  channel: Channel;
+  target: string;
+  event_types: EventType[];
+  disaster_id: string | null;
+  area: { type: string } | null;
+  tags: string[];
+  min_priority: string;
+  active: boolean;
+  // Only returned when a webhook subscription is created
+  secret?: string;
+}
+
+interface Delivery {
+  id: string;
+  subscription_id: string | null;
+  subscription_name: string | null;
+  channel: Channel;
+  target: string;
+  event_type: EventType | 'test';
+  subject: string;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+interface AlertSubscriptionsProps {
+  disasters: { id: string; title: string }[];
+  onError: (message: string) => void;
+}
+
+// 'current' keeps the area of the subscription being edited
+type AreaMode = 'any' | 'circle' | 'current';
+
+const emptyForm = {
+  name: '',
+  channel: 'email' as Channel,
+  target: '',
+  event_types: ['priority_alert', 'official_update', 'disaster_status'] as EventType[],
+  disaster_id: '',
+  tags: '',
+  min_priority: 'high',
+  area: 'any' as AreaMode,
+  lat: '',
+  lon: '',
+  radius_km: '5',
+};
+
+type SubscriptionForm = typeof emptyForm;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500';
+
+const STATUS_STYLES: Record<Delivery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// The signed-in user's alert subscriptions: what to be told about (event
+// types, one disaster or all, tags, an area, a minimum priority) and where
+// (email, SMS or a signed webhook), with a test send and the delivery log.
+export const AlertSubscriptions: React.FC<AlertSubscriptionsProps> = ({ disasters, onError }) => {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<Subscription | 'new' | null>(null);
+  const [form, setForm] = useState<SubscriptionForm>(emptyForm);
+  const [newSecret, setNewSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await apiFetch(`/notifications${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`);
+    return data;
+  };
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [subscriptionResponse, deliveryResponse] = await Promise.all([
+        apiFetch('/notifications/subscriptions'),
+        apiFetch(`/notifications/deliveries?limit=50${statusFilter ? `&status=${statusFilter}` : ''}`)
+      ]);
+      const [subscriptionData, deliveryData] = await Promise.all([
+        subscriptionResponse.json(),
+        deliveryResponse.json()
+      ]);
+      if (!subscriptionResponse.ok) throw new Error(subscriptionData.error || 'Failed to load subscriptions');
+      if (!deliveryResponse.ok) throw new Error(deliveryData.error || 'Failed to load deliveries');
+      setSubscriptions(subscriptionData.subscriptions);
+      setDeliveries(deliveryData.deliveries);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, onError]);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  const startEditing = (subscription: Subscription | 'new') => {
+    setEditing(subscription);
+    setForm(subscription === 'new' ? emptyForm : {
+      ...emptyForm,
+      name: subscription.name,
+      channel: subscription.channel,
+      target: subscription.target,
+      event_types: subscription.event_types,
+      disaster_id: subscription.disaster_id || '',
+      tags: subscription.tags.join(', '),
+      min_priority: subscription.min_priority,
+      area: subscription.area ? 'current' : 'any',
+    });
+  };
+
+  const toggleEventType = (type: EventType) => {
+    setForm({
+      ...form,
+      event_types: form.event_types.includes(type)
+        ? form.event_types.filter(t => t !== type)
+        : [...form.event_types, type]
+    });
+  };
+
+  const submitSubscription = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const body: Record<string, unknown> = {
+      name: form.name,
+      channel: form.channel,
+      target: form.target,
+      event_types: form.event_types,
+      disaster_id: form.disaster_id || null,
+      tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      min_priority: form.min_priority,
+    };
+    if (form.area === 'any') {
+      body.area = null;
+    } else if (form.area === 'circle') {
+      body.area = { lat: Number(form.lat), lon: Number(form.lon), radius_km: Number(form.radius_km) };
+    }
+
+    try {
+      setBusy(true);
+      const saved: Subscription = editing === 'new'
+        ? await request('/subscriptions', { method: 'POST', body: JSON.stringify(body) })
+        : await request(`/subscriptions/${editing.id}`, { method: 'PATCH', body: JSON.stringify(body) });
+      if (saved.secret) setNewSecret({ name: saved.name, secret: saved.secret });
+      setEditing(null);
+      await loadSubscriptions();
+    } catch (error) {
+      onError(`Failed to save subscription: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleActive = async (subscription: Subscription) => {
+    try {
+      setBusy(true);
+      await request(`/subscriptions/${subscription.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ active: !subscription.active })
+      });
+      await loadSubscriptions();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteSubscription = async (subscription: Subscription) => {
+    if (!window.confirm(`Stop sending "${subscription.name}" alerts to ${subscription.target}?`)) return;
+    try {
+      setBusy(true);
+      await request(`/subscriptions/${subscription.id}`, { method: 'DELETE' });
+      await loadSubscriptions();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendTest = async (subscription: Subscription) => {
+    try {
+      setBusy(true);
+      const delivery: Delivery = await request(`/subscriptions/${subscription.id}/test`, { method: 'POST' });
+      if (delivery.status === 'pending' && delivery.last_error) {
+        onError(`Test to ${subscription.target} failed and will be retried: ${delivery.last_error}`);
+      }
+      await loadSubscriptions();
+    } catch (error) {
+      onError(`Failed to send test: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const retryDelivery = async (delivery: Delivery) => {
+    try {
+      setBusy(true);
+      await request(`/deliveries/${delivery.id}/retry`, { method: 'POST' });
+      await loadSubscriptions();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const disasterTitle = (id: string | null) =>
+    id ? disasters.find(d => d.id === id)?.title || 'One disaster' : 'All disasters';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <Bell className="h-5 w-5 mr-2" />
+            Alert Subscriptions
+          </h2>
+          {loading && <RefreshCw className="h-4 w-4 text-gray-400 animate-spin" />}
+        </div>
+        {!editing && (
+          <button
+            onClick={() => startEditing('new')}
+            className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New subscription</span>
+          </button>
+        )}
+      </div>
+
+      {newSecret && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-900 flex items-start justify-between">
+          <div>
+            <div className="font-medium">Signing secret for "{newSecret.name}"</div>
+            <div className="mt-1">
+              Webhook requests carry an <code>X-Alert-Signature</code> header, the HMAC-SHA256 of
+              {' '}<code>timestamp.body</code> with this secret. It is shown only once:
+            </div>
+            <code className="mt-2 block break-all bg-white border border-yellow-200 rounded px-2 py-1">{newSecret.secret}</code>
+          </div>
+          <button onClick={() => setNewSecret(null)} className="p-1 text-yellow-600 hover:text-yellow-900" title="Dismiss">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {editing && (
+        <form onSubmit={submitSubscription} className="bg-gray-50 p-4 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              placeholder="Name, e.g. Flooding near home"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+              required
+            />
+            <select
+              value={form.channel}
+              onChange={(e) => setForm({ ...form, channel: e.target.value as Channel, target: '' })}
+              className={inputClass}
+            >
+              {(Object.keys(CHANNELS) as Channel[]).map(channel => (
+                <option key={channel} value={channel}>{CHANNELS[channel].label}</option>
+              ))}
+            </select>
+            <input
+              type={form.channel === 'email' ? 'email' : form.channel === 'webhook' ? 'url' : 'tel'}
+              placeholder={CHANNELS[form.channel].placeholder}
+              value={form.target}
+              onChange={(e) => setForm({ ...form, target: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            {(Object.keys(EVENT_LABELS) as EventType[]).map(type => (
+              <label key={type} className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={form.event_types.includes(type)}
+                  onChange={() => toggleEventType(type)}
+                />
+                <span>{EVENT_LABELS[type]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={form.disaster_id}
+              onChange={(e) => setForm({ ...form, disaster_id: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">All disasters</option>
+              {disasters.map(disaster => (
+                <option key={disaster.id} value={disaster.id}>{disaster.title}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Tags (comma separated, optional)"
+              value={form.tags}
+              onChange={(e) => setForm({ ...form, tags: e.target.value })}
+              className={inputClass}
+            />
+            <select
+              value={form.min_priority}
+              onChange={(e) => setForm({ ...form, min_priority: e.target.value })}
+              className={inputClass}
+            >
+              {PRIORITIES.map(priority => (
+                <option key={priority} value={priority}>{priority} and above</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <select
+              value={form.area}
+              onChange={(e) => setForm({ ...form, area: e.target.value as AreaMode })}
+              className={inputClass}
+            >
+              <option value="any">Anywhere</option>
+              <option value="circle">Within a radius of…</option>
+              {editing !== 'new' && editing.area && <option value="current">Current area</option>}
+            </select>
+            {form.area === 'circle' && (
+              <>
+                <input
+                  type="number"
+                  step="any"
+                  placeholder="Latitude"
+                  value={form.lat}
+                  onChange={(e) => setForm({ ...form, lat: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="number"
+                  step="any"
+                  placeholder="Longitude"
+                  value={form.lon}
+                  onChange={(e) => setForm({ ...form, lon: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="number"
+                  min="0.1"
+                  max="500"
+                  step="any"
+                  placeholder="Radius (km)"
+                  value={form.radius_km}
+                  onChange={(e) => setForm({ ...form, radius_km: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </>
+            )}
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={busy || form.event_types.length === 0}
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              {editing === 'new' ? 'Subscribe' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {subscriptions.length === 0 && !loading ? (
+        <p className="text-sm text-gray-500">
+          No subscriptions yet. Subscribe to be told about priority alerts, official updates and status changes by email, SMS or webhook.
+        </p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {subscriptions.map(subscription => {
+            const ChannelIcon = CHANNELS[subscription.channel].icon;
+            return (
+              <div key={subscription.id} className="p-4 flex items-start justify-between">
+                <div className={subscription.active ? '' : 'opacity-50'}>
+                  <div className="flex items-center space-x-2">
+                    <ChannelIcon className="h-4 w-4 text-gray-500" />
+                    <span className="font-medium text-gray-900">{subscription.name}</span>
+                    <span className="text-sm text-gray-500">{subscription.target}</span>
+                    {!subscription.active && <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">paused</span>}
+                  </div>
+                  <div className="mt-1 text-sm text-gray-600">
+                    {subscription.event_types.map(type => EVENT_LABELS[type]).join(', ')}
+                    {' · '}{disasterTitle(subscription.disaster_id)}
+                    {' · '}{subscription.min_priority} and above
+                    {subscription.tags.length > 0 && <> · tags {subscription.tags.join(', ')}</>}
+                    {subscription.area && <> · in an area</>}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => sendTest(subscription)}
+                    disabled={busy}
+                    className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md disabled:opacity-50"
+                    title="Send a test message"
+                  >
+                    <Send className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => toggleActive(subscription)}
+                    disabled={busy}
+                    className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md disabled:opacity-50"
+                  >
+                    {subscription.active ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => startEditing(subscription)}
+                    className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md"
+                    title="Edit"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteSubscription(subscription)}
+                    disabled={busy}
+                    className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-md disabled:opacity-50"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">Delivery log</h3>
+          <div className="flex items-center space-x-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              <option value="">All</option>
+              <option value="pending">Pending</option>
+              <option value="sent">Sent</option>
+              <option value="failed">Failed</option>
+            </select>
+            <button
+              onClick={loadSubscriptions}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md"
+              title="Refresh"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing sent yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">When</th>
+                  <th className="py-2 pr-4 font-medium">Message</th>
+                  <th className="py-2 pr-4 font-medium">To</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id} className="align-top">
+                    <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">{new Date(delivery.created_at).toLocaleString()}</td>
+                    <td className="py-2 pr-4">
+                      <div className="text-gray-900">{delivery.subject}</div>
+                      <div className="text-xs text-gray-500">
+                        {delivery.event_type === 'test' ? 'Test' : EVENT_LABELS[delivery.event_type]}
+                        {delivery.subscription_name && <> · {delivery.subscription_name}</>}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">{CHANNELS[delivery.channel].label}: {delivery.target}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                      <span className="ml-2 text-xs text-gray-500">
+                        {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                      </span>
+                      {delivery.last_error && delivery.status !== 'sent' && (
+                        <div className="mt-1 text-xs text-red-700">{delivery.last_error}</div>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {delivery.status === 'failed' && (
+                        <button
+                          onClick={() => retryDelivery(delivery)}
+                          disabled={busy}
+                          className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, RefreshCw, RotateCcw, Plus, Pencil, Trash2 } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+
+type EntityType = 'disaster' | 'resource' | 'report';
+type Snapshot = Record<string, unknown>;
+
+interface AuditEntry {
+  id: number;
+  entity_type: EntityType;
+  entity_id: string;
+  action: string;
+  user_id: string | null;
+  changed_fields: string[] | null;
+  before: Snapshot | null;
+  after: Snapshot | null;
+  created_at: string;
+}
+
+interface DisasterHistoryProps {
+  disasterId: string;
+  canRevert: boolean;
+  onReverted: (disaster: unknown) => void;
+  onError: (message: string) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ENTITY_FILTERS: { type: EntityType; label: string }[] = [
+  { type: 'disaster', label: 'Disaster' },
+  { type: 'resource', label: 'Resources' },
+  { type: 'report', label: 'Reports' }
+];
+
+// Fields that change with every write and say nothing on their own
+const HIDDEN_FIELDS = ['updated_at'];
+
+const entityName = (entry: AuditEntry) => {
+  const row = entry.after || entry.before || {};
+  const name = row.title || row.name || row.content;
+  return typeof name === 'string' ? name.slice(0, 80) : entry.entity_id;
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'footprint') return 'area';
+  if (field === 'location' && typeof value === 'object') {
+    const { lat, lng } = value as { lat: number; lng: number };
+    return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+  }
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+const ActionIcon: React.FC<{ action: string }> = ({ action }) => {
+  if (action === 'create' || action === 'import' || action === 'import_cap') return <Plus className="h-4 w-4 text-green-600" />;
+  if (action === 'delete') return <Trash2 className="h-4 w-4 text-red-600" />;
+  if (action === 'revert') return <RotateCcw className="h-4 w-4 text-purple-600" />;
+  return <Pencil className="h-4 w-4 text-blue-600" />;
+};
+
+// Timeline of recorded changes to a disaster and its resources and reports.
+// Each change lists its fields before and after; admins can restore the
+// disaster as it was after any of its own changes.
+export const DisasterHistory: React.FC<DisasterHistoryProps> = ({ disasterId, canRevert, onReverted, onError }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [entityTypes, setEntityTypes] = useState<EntityType[]>(['disaster', 'resource', 'report']);
+  const [loading, setLoading] = useState(false);
+  const [reverting, setReverting] = useState<number | null>(null);
+
+  const load = useCallback(async (offset = 0) => {
+    if (entityTypes.length === 0) {
+      setEntries([]);
+      setTotal(0);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ entity: entityTypes.join(','), limit: String(PAGE_SIZE), offset: String(offset) });
+      const response = await apiFetch(`/disasters/${disasterId}/history?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load the history');
+
+      setEntries(prev => (offset === 0 ? data.entries : [...prev, ...data.entries]));
+      setTotal(data.total);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [disasterId, entityTypes, onError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleType = (type: EntityType) => {
+    setEntityTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
+
+  const revert = async (entry: AuditEntry) => {
+    if (!confirm(`Restore the disaster as it was on ${new Date(entry.created_at).toLocaleString()}?`)) return;
+
+    try {
+      setReverting(entry.id);
+      const response = await apiFetch(`/disasters/${disasterId}/history/${entry.id}/revert`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to revert');
+
+      onReverted(data.disaster);
+      await load();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {ENTITY_FILTERS.map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                entityTypes.includes(type) ? 'bg-red-50 border-red-300 text-red-700' : 'border-gray-300 text-gray-500'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => load()}
+          disabled={loading}
+          className="flex items-center space-x-2 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-8">
+          <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">{loading ? 'Loading…' : 'No recorded changes'}</p>
+        </div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {entries.map(entry => {
+            const fields = (entry.changed_fields || []).filter(field => !HIDDEN_FIELDS.includes(field));
+
+            return (
+              <li key={entry.id} className="ml-6">
+                <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white border rounded-full">
+                  <ActionIcon action={entry.action} />
+                </span>
+                <div className="flex items-start justify-between">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">{entry.action.replace(/_/g, ' ')}</span>
+                    <span className="text-gray-500"> {entry.entity_type} </span>
+                    <span className="text-gray-800">{entityName(entry)}</span>
+                    <div className="text-xs text-gray-500">
+                      {new Date(entry.created_at).toLocaleString()}{entry.user_id ? ` by ${entry.user_id}` : ''}
+                    </div>
+                  </div>
+                  {canRevert && entry.entity_type === 'disaster' && entry.after && (
+                    <button
+                      onClick={() => revert(entry)}
+                      disabled={reverting !== null}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      title="Restore the disaster as it was after this change"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      <span>Revert to this version</span>
+                    </button>
+                  )}
+                </div>
+
+                {fields.length > 0 && entry.before && entry.after && (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {fields.map(field => (
+                      <li key={field} className="flex flex-wrap gap-1">
+                        <span className="font-medium text-gray-700">{field}:</span>
+                        <span className="text-red-700 line-through">{formatValue(field, entry.before?.[field])}</span>
+                        <span className="text-gray-400">→</span>
+                        <span className="text-green-700">{formatValue(field, entry.after?.[field])}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {fields.length > 0 && !entry.before && (
+                  <div className="mt-1 text-xs text-gray-500">Changed: {fields.join(', ')}</div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {entries.length < total && (
+        <button
+          onClick={() => load(entries.length)}
+          disabled={loading}
+          className="w-full py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          Show older changes
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+
+export type DisasterStatus = 'reported' | 'active' | 'contained' | 'recovery' | 'closed' | 'archived';
+
+// Mirrors the server's lifecycle; the server has the final say
+const TRANSITIONS: Record<DisasterStatus, DisasterStatus[]> = {
+  reported: ['active', 'closed'],
+  active: ['contained', 'closed'],
+  contained: ['active', 'recovery'],
+  recovery: ['contained', 'closed'],
+  closed: ['active', 'archived'],
+  archived: ['closed']
+};
+
+const STATUS_STYLES: Record<DisasterStatus, string> = {
+  reported: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-red-100 text-red-800',
+  contained: 'bg-orange-100 text-orange-800',
+  recovery: 'bg-blue-100 text-blue-800',
+  closed: 'bg-green-100 text-green-800',
+  archived: 'bg-gray-100 text-gray-600'
+};
+
+export const DisasterStatusBadge: React.FC<{ status?: DisasterStatus }> = ({ status = 'reported' }) => (
+  <span className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[status]}`}>
+    {status}
+  </span>
+);
+
+interface DisasterStatusControlProps {
+  disasterId: string;
+  status?: DisasterStatus;
+  canUpdate: boolean;
+  canDelete: boolean;
+  onChanged: (disaster: unknown) => void;
+  onDeleted: () => void;
+  onError: (message: string) => void;
+}
+
+// Moves a disaster to the next step of its lifecycle, or deletes it. Deleted
+// disasters keep their reports and resources and can be restored.
+export const DisasterStatusControl: React.FC<DisasterStatusControlProps> = ({
+  disasterId, status = 'reported', canUpdate, canDelete, onChanged, onDeleted, onError
+}) => {
+  const [saving, setSaving] = useState(false);
+
+  const changeStatus = async (next: DisasterStatus) => {
+    const note = prompt(`Why is this disaster now ${next}? (optional)`);
+    if (note === null) return;
+
+    try {
+      setSaving(true);
+      const response = await apiFetch(`/disasters/${disasterId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: next, note })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to change the status');
+
+      onChanged(data);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm('Delete this disaster? Its reports and resources are kept and it can be restored.')) return;
+
+    try {
+      setSaving(true);
+      const response = await apiFetch(`/disasters/${disasterId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete the disaster');
+      }
+
+      onDeleted();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <DisasterStatusBadge status={status} />
+      {canUpdate && (
+        <select
+          value=""
+          disabled={saving}
+          onChange={(e) => changeStatus(e.target.value as DisasterStatus)}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md text-gray-700 disabled:opacity-50"
+          title="Move this disaster to another stage"
+        >
+          <option value="" disabled>Move to…</option>
+          {TRANSITIONS[status].map(next => (
+            <option key={next} value={next} className="capitalize">{next}</option>
+          ))}
+        </select>
+      )}
+      {canDelete && (
+        <button
+          onClick={remove}
+          disabled={saving}
+          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50"
+          title="Delete this disaster"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Search, X, RefreshCw } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+
+export type SearchKind = 'disaster' | 'report' | 'official_update' | 'social_post';
+
+export interface SearchResult {
+  kind: SearchKind;
+  id: string;
+  disaster_id: string | null;
+  title: string;
+  snippet: string;
+  tags: string[] | null;
+  status: string | null;
+  priority: string | null;
+  source: string | null;
+  occurred_at: string | null;
+  lat: number | null;
+  lng: number | null;
+  rank: number;
+}
+
+type Facet = 'kind' | 'tag' | 'status' | 'priority' | 'source';
+type FacetCounts = Record<Facet, Record<string, number>>;
+
+interface GlobalSearchProps {
+  onSelect: (result: SearchResult) => void;
+  onError: (message: string) => void;
+}
+
+const PAGE_SIZE = 20;
+const DEBOUNCE_MS = 300;
+
+const KIND_LABELS: Record<SearchKind, string> = {
+  disaster: 'Disasters',
+  report: 'Reports',
+  official_update: 'Official updates',
+  social_post: 'Social posts'
+};
+
+// Facets offered as filters, in display order; `kind` maps to the kinds
+// parameter and the others to their own
+const FACETS: { facet: Facet; label: string; param: string }[] = [
+  { facet: 'kind', label: 'Type', param: 'kinds' },
+  { facet: 'tag', label: 'Tag', param: 'tag' },
+  { facet: 'status', label: 'Status', param: 'status' },
+  { facet: 'priority', label: 'Priority', param: 'priority' },
+  { facet: 'source', label: 'Source', param: 'source' }
+];
+
+const emptyFilters = (): Record<Facet, string[]> => ({ kind: [], tag: [], status: [], priority: [], source: [] });
+
+// ts_headline marks matches with <mark>; the snippet is split on the markers
+// instead of being rendered as HTML, since it is user-submitted text
+const Snippet: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/(<mark>.*?<\/mark>)/g).map((part, index) => (
+      part.startsWith('<mark>')
+        ? <mark key={index} className="bg-yellow-100 text-gray-900">{part.slice(6, -7)}</mark>
+        : <React.Fragment key={index}>{part}</React.Fragment>
+    ))}
+  </>
+);
+
+// Header search across disasters, reports, official updates and social posts.
+// Results are grouped by type; facet counts narrow them by tag, status,
+// priority and source, and a date range limits when they happened.
+export const GlobalSearch: React.FC<GlobalSearchProps> = ({ onSelect, onError }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState(emptyFilters);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<FacetCounts | null>(null);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const search = useCallback(async (offset = 0) => {
+    const params = new URLSearchParams({ q: query.trim(), limit: String(PAGE_SIZE), offset: String(offset) });
+    FACETS.forEach(({ facet, param }) => {
+      if (filters[facet].length > 0) params.set(param, filters[facet].join(','));
+    });
+    if (from) params.set('from', from);
+    if (to) params.set('to', `${to}T23:59:59`);
+
+    try {
+      setLoading(true);
+      const response = await apiFetch(`/search?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Search failed');
+
+      setResults(prev => (offset === 0 ? data.results : [...prev, ...data.results]));
+      setFacets(data.facets);
+      setTotal(data.total);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [query, filters, from, to, onError]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      setFacets(null);
+      setTotal(0);
+      return;
+    }
+
+    const timer = setTimeout(() => search(), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, search]);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const toggleFilter = (facet: Facet, value: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [facet]: prev[facet].includes(value) ? prev[facet].filter(v => v !== value) : [...prev[facet], value]
+    }));
+  };
+
+  const clear = () => {
+    setQuery('');
+    setFilters(emptyFilters());
+    setFrom('');
+    setTo('');
+  };
+
+  const select = (result: SearchResult) => {
+    setOpen(false);
+    onSelect(result);
+  };
+
+  const groups = (Object.keys(KIND_LABELS) as SearchKind[])
+    .map(kind => ({ kind, items: results.filter(result => result.kind === kind) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center px-3 py-2 bg-gray-100 rounded-md focus-within:ring-2 focus-within:ring-red-500">
+        <Search className="h-4 w-4 text-gray-500" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onFocus={() => setOpen(true)}
+          placeholder="Search disasters, reports, updates…"
+          className="ml-2 w-64 bg-transparent text-sm focus:outline-none"
+        />
+        {loading && <RefreshCw className="h-4 w-4 text-gray-400 animate-spin" />}
+        {query && !loading && (
+          <button onClick={clear} className="text-gray-400 hover:text-gray-700" title="Clear search">
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {open && query.trim().length >= 2 && (
+        <div className="absolute right-0 z-[1000] mt-2 w-[36rem] max-h-[32rem] overflow-y-auto bg-white border rounded-lg shadow-lg p-4 space-y-4">
+          {facets && (
+            <div className="space-y-2 text-xs">
+              {FACETS.map(({ facet, label }) => {
+                const values = Object.entries(facets[facet] || {});
+                const selected = filters[facet].filter(value => !(value in (facets[facet] || {})));
+                if (values.length === 0 && selected.length === 0) return null;
+
+                return (
+                  <div key={facet} className="flex flex-wrap items-center gap-1">
+                    <span className="w-14 font-medium text-gray-500">{label}</span>
+                    {[...values, ...selected.map(value => [value, 0] as [string, number])].map(([value, count]) => (
+                      <button
+                        key={value}
+                        onClick={() => toggleFilter(facet, value)}
+                        className={`px-2 py-0.5 rounded-full border ${
+                          filters[facet].includes(value) ? 'bg-red-50 border-red-300 text-red-700' : 'border-gray-300 text-gray-600'
+                        }`}
+                      >
+                        {facet === 'kind' ? KIND_LABELS[value as SearchKind] : value} ({count})
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+              <div className="flex items-center gap-2">
+                <span className="w-14 font-medium text-gray-500">Date</span>
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="px-2 py-0.5 border border-gray-300 rounded" />
+                <span className="text-gray-400">to</span>
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="px-2 py-0.5 border border-gray-300 rounded" />
+              </div>
+            </div>
+          )}
+
+          {!loading && results.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No matches</p>
+          )}
+
+          {groups.map(({ kind, items }) => (
+            <div key={kind}>
+              <h4 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+                {KIND_LABELS[kind]} ({facets?.kind[kind] ?? items.length})
+              </h4>
+              <ul className="divide-y">
+                {items.map(result => (
+                  <li key={`${result.kind}-${result.id}`}>
+                    <button
+                      onClick={() => select(result)}
+                      disabled={!result.disaster_id}
+                      className="w-full text-left py-2 px-1 hover:bg-gray-50 disabled:cursor-default disabled:hover:bg-white"
+                      title={result.disaster_id ? undefined : 'Not linked to a disaster'}
+                    >
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-gray-900 truncate">{result.title}</span>
+                        <span className="ml-2 flex-shrink-0 text-xs text-gray-500">
+                          {[result.status, result.priority, result.source].filter(Boolean).join(' · ')}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-600 line-clamp-2"><Snippet text={result.snippet} /></p>
+                      {result.occurred_at && (
+                        <span className="text-xs text-gray-400">{new Date(result.occurred_at).toLocaleString()}</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          {results.length < total && (
+            <button
+              onClick={() => search(results.length)}
+              disabled={loading}
+              className="w-full py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              Show more ({total - results.length} left)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
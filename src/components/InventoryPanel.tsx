@@ -0,0 +1,615 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Package, Plus, RefreshCw, ArrowRightLeft, History, Truck, AlertTriangle, X } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { Resource } from './ResourcesPanel';
+
+// Mirrors ITEM_CATEGORIES on the server
+const ITEM_CATEGORIES = ['food', 'water', 'medical', 'hygiene', 'bedding', 'clothing', 'fuel', 'equipment', 'other'];
+
+const NEW_ITEM = 'new';
+
+interface InventoryItem {
+  id: string;
+  name: string;
+  category: string;
+  unit: string;
+}
+
+export interface Stock {
+  id: string;
+  resource_id: string;
+  item_id: string;
+  quantity: number;
+  low_stock_threshold: number | null;
+  expires_at: string | null;
+  low_stock: boolean;
+  expiring: boolean;
+  item: InventoryItem;
+  resource: { id: string; name: string; type: string };
+}
+
+interface LedgerEntry {
+  id: number;
+  kind: 'receipt' | 'consumption' | 'adjustment' | 'transfer_out' | 'transfer_in';
+  quantity: number;
+  balance_after: number;
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+interface Shipment {
+  id: string;
+  origin: string | null;
+  items: { item_id: string; quantity: number }[];
+  expected_at: string | null;
+  resource: { name: string } | null;
+}
+
+interface InventoryPanelProps {
+  disasterId: string;
+  resources: Resource[];
+  canUpdate: boolean;
+  // Bumped when stock or shipments change elsewhere, so the panel reloads
+  refreshKey: number;
+  onError: (message: string) => void;
+}
+
+// An inline stock action open on one row
+type RowAction = { stockId: string; kind: 'consumption' | 'adjustment' | 'threshold' | 'history' };
+
+const emptyReceipt = { resource_id: '', item_id: '', name: '', unit: 'each', category: 'other', quantity: '', expires_at: '', note: '' };
+
+type ReceiptForm = typeof emptyReceipt;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500';
+const smallInputClass = 'px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500';
+
+const KIND_LABELS: Record<LedgerEntry['kind'], string> = {
+  receipt: 'Received',
+  consumption: 'Used',
+  adjustment: 'Counted',
+  transfer_out: 'Sent',
+  transfer_in: 'Arrived',
+};
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+// Stock held at the disaster's resources, grouped by site, with receipts,
+// consumption, stock counts, transfers between sites, low-stock thresholds,
+// each row's ledger and the shipments still on their way.
+export const InventoryPanel: React.FC<InventoryPanelProps> = ({
+  disasterId,
+  resources,
+  canUpdate,
+  refreshKey,
+  onError
+}) => {
+  const [stock, setStock] = useState<Stock[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [lowOnly, setLowOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [receiving, setReceiving] = useState(false);
+  const [receipt, setReceipt] = useState<ReceiptForm>(emptyReceipt);
+  const [rowAction, setRowAction] = useState<RowAction | null>(null);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [transferring, setTransferring] = useState<Stock | null>(null);
+  const [transfer, setTransfer] = useState({ to_resource_id: '', quantity: '', note: '' });
+  const [busy, setBusy] = useState(false);
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await apiFetch(`/inventory${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`);
+    return data;
+  };
+
+  const loadInventory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [stockResponse, itemResponse, shipmentResponse] = await Promise.all([
+        apiFetch(`/inventory/disasters/${disasterId}/stock${lowOnly ? '?low=true' : ''}`),
+        apiFetch('/inventory/items'),
+        apiFetch(`/inventory/disasters/${disasterId}/shipments?status=in_transit`)
+      ]);
+      const [stockData, itemData, shipmentData] = await Promise.all([
+        stockResponse.json(),
+        itemResponse.json(),
+        shipmentResponse.json()
+      ]);
+      if (!stockResponse.ok) throw new Error(stockData.error || 'Failed to load stock');
+      if (!itemResponse.ok) throw new Error(itemData.error || 'Failed to load items');
+      if (!shipmentResponse.ok) throw new Error(shipmentData.error || 'Failed to load shipments');
+      setStock(stockData.stock);
+      setItems(itemData.items);
+      setShipments(shipmentData.shipments);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [disasterId, lowOnly, onError]);
+
+  useEffect(() => {
+    loadInventory();
+  }, [loadInventory, refreshKey]);
+
+  // Stock rows per resource, sites in name order
+  const sites = useMemo(() => {
+    const grouped = new Map<string, { name: string; rows: Stock[] }>();
+    stock.forEach(row => {
+      const site = grouped.get(row.resource_id) ?? { name: row.resource.name, rows: [] };
+      site.rows.push(row);
+      grouped.set(row.resource_id, site);
+    });
+    return [...grouped.entries()].sort(([, a], [, b]) => a.name.localeCompare(b.name));
+  }, [stock]);
+
+  const lowCount = stock.filter(row => row.low_stock).length;
+  const expiringCount = stock.filter(row => row.expiring && row.quantity > 0).length;
+  const itemName = (id: string) => items.find(item => item.id === id)?.name ?? 'Unknown item';
+
+  const openAction = async (row: Stock, kind: RowAction['kind']) => {
+    if (rowAction?.stockId === row.id && rowAction.kind === kind) {
+      setRowAction(null);
+      return;
+    }
+    setAmount(kind === 'threshold' ? String(row.low_stock_threshold ?? '') : kind === 'adjustment' ? String(row.quantity) : '');
+    setNote('');
+    if (kind === 'history') {
+      try {
+        const data = await request(`/disasters/${disasterId}/ledger?resource_id=${row.resource_id}&item_id=${row.item_id}&limit=20`);
+        setLedger(data.entries);
+      } catch (error) {
+        onError((error as Error).message);
+        return;
+      }
+    }
+    setRowAction({ stockId: row.id, kind });
+  };
+
+  const submitAction = async (e: React.FormEvent, row: Stock) => {
+    e.preventDefault();
+    if (!rowAction) return;
+    const path = `/disasters/${disasterId}/resources/${row.resource_id}/stock/${row.item_id}`;
+    try {
+      setBusy(true);
+      if (rowAction.kind === 'threshold') {
+        await request(path, {
+          method: 'PATCH',
+          body: JSON.stringify({ low_stock_threshold: amount === '' ? null : Number(amount) })
+        });
+      } else {
+        await request(`${path}/movements`, {
+          method: 'POST',
+          body: JSON.stringify(rowAction.kind === 'adjustment'
+            ? { kind: 'adjustment', counted: Number(amount), note }
+            : { kind: 'consumption', quantity: Number(amount), note: note || null })
+        });
+      }
+      setRowAction(null);
+      await loadInventory();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const receiveStock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setBusy(true);
+      let itemId = receipt.item_id;
+      if (itemId === NEW_ITEM) {
+        const item = await request('/items', {
+          method: 'POST',
+          body: JSON.stringify({ name: receipt.name, unit: receipt.unit, category: receipt.category })
+        });
+        itemId = item.id;
+      }
+      await request(`/disasters/${disasterId}/resources/${receipt.resource_id}/stock/${itemId}/movements`, {
+        method: 'POST',
+        body: JSON.stringify({
+          kind: 'receipt',
+          quantity: Number(receipt.quantity),
+          note: receipt.note || null,
+          ...(receipt.expires_at ? { expires_at: receipt.expires_at } : {})
+        })
+      });
+      setReceipt(emptyReceipt);
+      setReceiving(false);
+      await loadInventory();
+    } catch (error) {
+      onError(`Failed to add stock: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openTransfer = (row: Stock) => {
+    setTransfer({ to_resource_id: '', quantity: String(row.quantity), note: '' });
+    setTransferring(row);
+  };
+
+  const submitTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transferring) return;
+    try {
+      setBusy(true);
+      await request(`/disasters/${disasterId}/transfers`, {
+        method: 'POST',
+        body: JSON.stringify({
+          from_resource_id: transferring.resource_id,
+          to_resource_id: transfer.to_resource_id,
+          item_id: transferring.item_id,
+          quantity: Number(transfer.quantity),
+          note: transfer.note || null
+        })
+      });
+      setTransferring(null);
+      await loadInventory();
+    } catch (error) {
+      onError(`Failed to transfer: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const settleShipment = async (shipment: Shipment, action: 'receive' | 'cancel') => {
+    try {
+      setBusy(true);
+      await request(`/disasters/${disasterId}/shipments/${shipment.id}/${action}`, { method: 'POST' });
+      await loadInventory();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Package className="h-5 w-5 mr-2" />
+            Stock
+          </h3>
+          {lowCount > 0 && (
+            <span className="flex items-center px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {lowCount} low
+            </span>
+          )}
+          {expiringCount > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">{expiringCount} expiring</span>
+          )}
+          {loading && <RefreshCw className="h-4 w-4 text-gray-400 animate-spin" />}
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center space-x-1 text-sm text-gray-600">
+            <input type="checkbox" checked={lowOnly} onChange={(e) => setLowOnly(e.target.checked)} />
+            <span>Low stock only</span>
+          </label>
+          {canUpdate && !receiving && (
+            <button
+              onClick={() => setReceiving(true)}
+              className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add stock</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {receiving && (
+        <form onSubmit={receiveStock} className="bg-gray-50 p-4 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={receipt.resource_id}
+              onChange={(e) => setReceipt({ ...receipt, resource_id: e.target.value })}
+              className={inputClass}
+              required
+            >
+              <option value="">Resource…</option>
+              {resources.map(resource => (
+                <option key={resource.id} value={resource.id}>{resource.name}</option>
+              ))}
+            </select>
+            <select
+              value={receipt.item_id}
+              onChange={(e) => setReceipt({ ...receipt, item_id: e.target.value })}
+              className={inputClass}
+              required
+            >
+              <option value="">Item…</option>
+              {items.map(item => (
+                <option key={item.id} value={item.id}>{item.name} ({item.unit})</option>
+              ))}
+              <option value={NEW_ITEM}>New item…</option>
+            </select>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              placeholder="Quantity received"
+              value={receipt.quantity}
+              onChange={(e) => setReceipt({ ...receipt, quantity: e.target.value })}
+              className={inputClass}
+              required
+            />
+            {receipt.item_id === NEW_ITEM && (
+              <>
+                <input
+                  type="text"
+                  placeholder="Item name, e.g. Bottled water 1.5L"
+                  value={receipt.name}
+                  onChange={(e) => setReceipt({ ...receipt, name: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="text"
+                  placeholder="Unit, e.g. bottles"
+                  value={receipt.unit}
+                  onChange={(e) => setReceipt({ ...receipt, unit: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                <select
+                  value={receipt.category}
+                  onChange={(e) => setReceipt({ ...receipt, category: e.target.value })}
+                  className={`${inputClass} capitalize`}
+                >
+                  {ITEM_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </>
+            )}
+            <label className="text-sm text-gray-600">
+              Expires
+              <input
+                type="date"
+                value={receipt.expires_at}
+                onChange={(e) => setReceipt({ ...receipt, expires_at: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <input
+              type="text"
+              placeholder="Note, e.g. delivered by Red Cross"
+              value={receipt.note}
+              onChange={(e) => setReceipt({ ...receipt, note: e.target.value })}
+              className={`${inputClass} md:col-span-2 self-end`}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <button type="submit" disabled={busy} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50">
+              Add stock
+            </button>
+            <button type="button" onClick={() => setReceiving(false)} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {sites.length === 0 && !loading && (
+        <p className="text-sm text-gray-500">{lowOnly ? 'Nothing is low on stock' : 'No stock recorded at these resources'}</p>
+      )}
+
+      {sites.map(([resourceId, site]) => (
+        <div key={resourceId} className="border rounded-lg">
+          <div className="px-4 py-2 bg-gray-50 text-sm font-medium text-gray-900 rounded-t-lg">{site.name}</div>
+          <div className="divide-y">
+            {site.rows.map(row => (
+              <div key={row.id} className="px-4 py-2 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="font-medium text-gray-900">{row.item.name}</span>
+                    <span className={row.low_stock ? 'text-red-700 font-semibold' : 'text-gray-700'}>
+                      {row.quantity} {row.item.unit}
+                    </span>
+                    {row.low_stock && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Low</span>
+                    )}
+                    {row.expiring && row.quantity > 0 && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">
+                        Expires {new Date(row.expires_at as string).toLocaleDateString()}
+                      </span>
+                    )}
+                    {row.low_stock_threshold != null && (
+                      <span className="text-xs text-gray-500">alert at {row.low_stock_threshold}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {canUpdate && (
+                      <>
+                        <button
+                          onClick={() => openAction(row, 'consumption')}
+                          disabled={row.quantity <= 0}
+                          className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Use
+                        </button>
+                        <button onClick={() => openAction(row, 'adjustment')} className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50">
+                          Count
+                        </button>
+                        <button onClick={() => openAction(row, 'threshold')} className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50">
+                          Alert level
+                        </button>
+                        <button
+                          onClick={() => openTransfer(row)}
+                          disabled={row.quantity <= 0}
+                          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                          title="Transfer to another resource"
+                        >
+                          <ArrowRightLeft className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                    <button onClick={() => openAction(row, 'history')} className="p-1 text-gray-500 hover:text-gray-800" title="History">
+                      <History className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {rowAction?.stockId === row.id && rowAction.kind === 'history' && (
+                  ledger.length === 0 ? (
+                    <p className="text-xs text-gray-500">No movements yet</p>
+                  ) : (
+                    <ul className="text-xs text-gray-600 space-y-0.5">
+                      {ledger.map(entry => (
+                        <li key={entry.id}>
+                          {KIND_LABELS[entry.kind]} {signed(entry.quantity)} → {entry.balance_after} {row.item.unit}
+                          {entry.note && <span className="text-gray-500"> · {entry.note}</span>}
+                          <span className="text-gray-400"> · {new Date(entry.created_at).toLocaleString()}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )
+                )}
+
+                {rowAction?.stockId === row.id && rowAction.kind !== 'history' && (
+                  <form onSubmit={(e) => submitAction(e, row)} className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      placeholder={rowAction.kind === 'threshold' ? 'No alert' : row.item.unit}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className={`${smallInputClass} w-28`}
+                      required={rowAction.kind !== 'threshold'}
+                    />
+                    {rowAction.kind !== 'threshold' && (
+                      <input
+                        type="text"
+                        placeholder={rowAction.kind === 'adjustment' ? 'Why the count differs' : 'Note'}
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        className={`${smallInputClass} flex-1`}
+                        required={rowAction.kind === 'adjustment'}
+                      />
+                    )}
+                    <button type="submit" disabled={busy} className="px-3 py-1 text-xs bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50">
+                      {rowAction.kind === 'consumption' ? 'Record use' : rowAction.kind === 'adjustment' ? 'Record count' : 'Save'}
+                    </button>
+                  </form>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {shipments.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900 flex items-center">
+            <Truck className="h-4 w-4 mr-2" />
+            On the way
+          </h4>
+          {shipments.map(shipment => (
+            <div key={shipment.id} className="flex items-center justify-between border rounded-lg px-4 py-2 text-sm">
+              <div>
+                <div className="text-gray-900">
+                  To {shipment.resource?.name || 'a removed resource'}
+                  {shipment.origin && <span className="text-gray-500"> from {shipment.origin}</span>}
+                  {shipment.expected_at && (
+                    <span className="text-gray-500"> · expected {new Date(shipment.expected_at).toLocaleString()}</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600">
+                  {shipment.items.map(line => `${line.quantity} ${itemName(line.item_id)}`).join(', ')}
+                </div>
+              </div>
+              {canUpdate && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => settleShipment(shipment, 'receive')}
+                    disabled={busy}
+                    className="px-3 py-1 text-xs bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Receive
+                  </button>
+                  <button
+                    onClick={() => window.confirm('Cancel this shipment?') && settleShipment(shipment, 'cancel')}
+                    disabled={busy}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Cancel shipment"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {transferring && (
+        <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-[1000]">
+          <form onSubmit={submitTransfer} className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Transfer {transferring.item.name}</h3>
+              <button type="button" onClick={() => setTransferring(null)} className="p-1 text-gray-500 hover:text-gray-800">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              {transferring.quantity} {transferring.item.unit} at {transferring.resource.name}
+            </p>
+            <select
+              value={transfer.to_resource_id}
+              onChange={(e) => setTransfer({ ...transfer, to_resource_id: e.target.value })}
+              className={inputClass}
+              required
+            >
+              <option value="">Send to…</option>
+              {resources
+                .filter(resource => resource.id !== transferring.resource_id)
+                .map(resource => (
+                  <option key={resource.id} value={resource.id}>{resource.name}</option>
+                ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              max={transferring.quantity}
+              step="any"
+              placeholder={`Quantity (${transferring.item.unit})`}
+              value={transfer.quantity}
+              onChange={(e) => setTransfer({ ...transfer, quantity: e.target.value })}
+              className={inputClass}
+              required
+            />
+            <input
+              type="text"
+              placeholder="Note, e.g. truck 3"
+              value={transfer.note}
+              onChange={(e) => setTransfer({ ...transfer, note: e.target.value })}
+              className={inputClass}
+            />
+            <div className="flex space-x-2">
+              <button type="submit" disabled={busy} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50">
+                Transfer
+              </button>
+              <button type="button" onClick={() => setTransferring(null)} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { AlertTriangle, LogIn, UserPlus } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+
+export const LoginScreen: React.FC = () => {
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [form, setForm] = useState({ username: '', email: '', password: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      if (mode === 'login') {
+        await login(form.username, form.password);
+      } else {
+        await register({
+          username: form.username,
+          email: form.email || undefined,
+          password: form.password
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Authentication failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-sm border p-8">
+        <div className="flex items-center space-x-3 mb-6">
+          <AlertTriangle className="h-8 w-8 text-red-600" />
+          <h1 className="text-xl font-bold text-gray-900">Disaster Response Platform</h1>
+        </div>
+
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+          {mode === 'login' ? 'Sign in' : 'Create an account'}
+        </h2>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="text"
+            placeholder={mode === 'login' ? 'Username or email' : 'Username'}
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            autoComplete="username"
+            required
+          />
+          {mode === 'register' && (
+            <input
+              type="email"
+              placeholder="Email (optional)"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              autoComplete="email"
+            />
+          )}
+          <input
+            type="password"
+            placeholder="Password"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+          />
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            {mode === 'login' ? <LogIn className="h-4 w-4" /> : <UserPlus className="h-4 w-4" />}
+            <span>{submitting ? 'Please wait...' : mode === 'login' ? 'Sign in' : 'Register'}</span>
+          </button>
+        </form>
+
+        <button
+          onClick={() => {
+            setMode(mode === 'login' ? 'register' : 'login');
+            setError(null);
+          }}
+          className="mt-4 w-full text-sm text-gray-600 hover:text-gray-900"
+        >
+          {mode === 'login' ? "Don't have an account? Register" : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+};
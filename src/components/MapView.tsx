@@ -1,14 +1,94 @@
-import React, { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMapEvents, useMap } from 'react-leaflet';
-import { Icon, LatLngTuple } from 'leaflet';
-import { MapPin, Navigation, Layers, Zap, AlertTriangle, Users, Building } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Circle, GeoJSON, LayersControl, Polyline, useMapEvents, useMap } from 'react-leaflet';
+import MarkerClusterGroup from 'react-leaflet-cluster';
+import { Control, DivIcon, FeatureGroup, HeatLatLngTuple, Icon, LatLngTuple, Layer, Polygon, heatLayer, latLngBounds, geoJSON } from 'leaflet';
+import type { FeatureCollection, MultiPolygon, Polygon as PolygonGeometry } from 'geojson';
+import { MapPin, Navigation, Layers, Zap, AlertTriangle, Users, Building, Download, Upload, X, Flame, FileText, HardDriveDownload, Route } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { MapStyle, TILE_LAYERS, cacheTiles, tileUrlsForBounds } from '../lib/tiles';
 import 'leaflet/dist/leaflet.css';
+import 'leaflet-draw';
+import 'leaflet-draw/dist/leaflet.draw.css';
+import 'leaflet.heat';
 
 interface MapViewProps {
   disasters: any[];
   resources: any[];
   selectedDisaster: any;
+  searchCenter?: { lat: number; lng: number } | null;
+  searchRadiusKm?: number;
+  onSearchRadiusChange?: (radiusKm: number) => void;
   onLocationSelect?: (lat: number, lng: number) => void;
+  // Saves an imported layer as resources of the selected disaster; the
+  // action is only offered when this is set
+  onImportResources?: (layer: FeatureCollection) => Promise<void>;
+  // Saves the selected disaster's affected area (null clears it); the draw
+  // toolbar is only shown when this is set
+  onFootprintChange?: (footprint: MultiPolygon | null) => void;
+  // Bumped when needs change, which the resources prop does not reflect
+  refreshKey?: number;
+}
+
+// A point from the viewport query. Below the server's aggregation zoom a point
+// may stand for a grid cell of `point_count` items, which has no id or label.
+interface MapPoint {
+  kind: 'disaster' | 'resource' | 'report' | 'social_post' | 'need';
+  id: string | null;
+  label: string | null;
+  category: string | null;
+  status: string | null;
+  details: {
+    location_name?: string;
+    capacity?: number | null;
+    occupancy?: number | null;
+    image_url?: string | null;
+    quantity?: number;
+    quantity_met?: number;
+  } | null;
+  weight: number;
+  lat: number;
+  lng: number;
+  point_count: number;
+}
+
+interface Viewport {
+  bbox: string;
+  zoom: number;
+}
+
+type RoutingMode = 'walking' | 'driving';
+
+interface RouteStep {
+  maneuver: string;
+  instruction: string;
+  distance_m: number;
+  duration_s: number;
+  lat: number;
+  lng: number;
+}
+
+// A route from /routing/shelter-route; geometry positions are [lng, lat]
+interface ShelterRoute {
+  mode: RoutingMode;
+  distance_m: number;
+  duration_s: number;
+  approach_m: number;
+  geometry: { coordinates: [number, number][] };
+  steps: RouteStep[];
+  shelter: { id: string; name: string; location_name?: string | null; availability_status: string };
+  closures: {
+    id: string;
+    reason: string;
+    radius_m: number;
+    lat: number;
+    lng: number;
+    path: { coordinates: [number, number][] } | null;
+  }[];
+}
+
+interface ImportedLayer {
+  name: string;
+  data: FeatureCollection;
 }
 
 // Unicode-safe base64 encoding function
@@ -33,14 +113,40 @@ const createCustomIcon = (color: string, symbol: string) => new Icon({
 
 const disasterIcon = createCustomIcon('#dc2626', '🚨');
 const selectedDisasterIcon = createCustomIcon('#991b1b', '🚨');
-const resourceIcons = {
-  shelter: createCustomIcon('#10b981', '🏠'),
-  medical: createCustomIcon('#059669', '🏥'),
-  food: createCustomIcon('#0891b2', '🍽️'),
-  emergency_services: createCustomIcon('#dc2626', '🚑'),
-  transportation: createCustomIcon('#7c3aed', '🚌'),
-  default: createCustomIcon('#6b7280', '📍')
+const reportIcon = createCustomIcon('#f59e0b', '📝');
+
+// Unmet needs, coloured by urgency
+const NEED_COLORS: Record<string, string> = {
+  urgent: '#b91c1c',
+  high: '#ea580c',
+  medium: '#d97706',
+  low: '#65a30d',
 };
+const needIcons: Record<string, Icon> = Object.fromEntries(
+  Object.entries(NEED_COLORS).map(([urgency, color]) => [urgency, createCustomIcon(color, '🆘')])
+);
+
+// One map layer per resource type, each toggled in the layer control
+const RESOURCE_LAYERS = [
+  { type: 'shelter', label: 'Shelters', color: '#10b981', symbol: '🏠' },
+  { type: 'medical', label: 'Medical', color: '#059669', symbol: '🏥' },
+  { type: 'food', label: 'Food', color: '#0891b2', symbol: '🍽️' },
+  { type: 'emergency_services', label: 'Emergency services', color: '#dc2626', symbol: '🚑' },
+  { type: 'transportation', label: 'Transportation', color: '#7c3aed', symbol: '🚌' },
+  { type: 'other', label: 'Other resources', color: '#6b7280', symbol: '📍' },
+];
+
+const resourceIcons: Record<string, Icon> = Object.fromEntries(
+  RESOURCE_LAYERS.map(({ type, color, symbol }) => [type, createCustomIcon(color, symbol)])
+);
+
+// Count bubble for a grid cell aggregated by the server
+const cellIcon = (count: number, color: string) => new DivIcon({
+  html: `<div style="background:${color};color:white;border:2px solid white;border-radius:9999px;width:36px;height:36px;display:flex;align-items:center;justify-content:center;font-size:12px;font-weight:600;box-shadow:0 1px 4px rgba(0,0,0,.4)">${count}</div>`,
+  className: '',
+  iconSize: [36, 36],
+  iconAnchor: [18, 18],
+});
 
 const userLocationIcon = createCustomIcon('#3b82f6', '📍');
 const clickedLocationIcon = createCustomIcon('#8b5cf6', '📌');
@@ -48,12 +154,21 @@ const clickedLocationIcon = createCustomIcon('#8b5cf6', '📌');
 // Component to handle map clicks
 function MapClickHandler({ onLocationSelect }: { onLocationSelect?: (lat: number, lng: number) => void }) {
   const [clickedPosition, setClickedPosition] = useState<LatLngTuple | null>(null);
+  const [coveringDisasters, setCoveringDisasters] = useState<{ id: string; title: string }[] | null>(null);
 
   useMapEvents({
-    click: (e) => {
+    click: async (e) => {
       const { lat, lng } = e.latlng;
       setClickedPosition([lat, lng]);
+      setCoveringDisasters(null);
       onLocationSelect?.(lat, lng);
+
+      try {
+        const response = await apiFetch(`/disasters/at?lat=${lat}&lon=${lng}`);
+        if (response.ok) setCoveringDisasters((await response.json()).disasters);
+      } catch (error) {
+        console.error('Error looking up disasters at point:', error);
+      }
     },
   });
 
@@ -64,14 +179,203 @@ function MapClickHandler({ onLocationSelect }: { onLocationSelect?: (lat: number
           <strong>Selected Location</strong><br />
           Lat: {clickedPosition[0].toFixed(6)}<br />
           Lng: {clickedPosition[1].toFixed(6)}
+          {coveringDisasters && (
+            <div className="mt-2 text-xs">
+              {coveringDisasters.length === 0
+                ? 'Outside every disaster area'
+                : `Inside: ${coveringDisasters.map(disaster => disaster.title).join(', ')}`}
+            </div>
+          )}
         </div>
       </Popup>
     </Marker>
   ) : null;
 }
 
+// Items without stored coordinates are not plotted
+const getPosition = (item: { lat?: number | null; lng?: number | null }): LatLngTuple | null =>
+  typeof item.lat === 'number' && typeof item.lng === 'number' ? [item.lat, item.lng] : null;
+
+const formatDistance = (metres: number) => (metres < 1000 ? `${metres} m` : `${(metres / 1000).toFixed(1)} km`);
+const formatDuration = (seconds: number) => `${Math.max(1, Math.round(seconds / 60))} min`;
+
+const downloadJson = (data: unknown, filename: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data)], { type: 'application/geo+json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Point features for the plotted disasters and resources, used when no
+// disaster is selected and there is no server export to download
+const toFeatureCollection = (disasters: MapViewProps['disasters'], resources: MapViewProps['resources']): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: [
+    ...disasters.map(({ lat, lng, footprint, ...properties }) => ({
+      type: 'Feature' as const,
+      geometry: footprint || (getPosition({ lat, lng }) ? { type: 'Point' as const, coordinates: [lng, lat] } : null),
+      properties: { feature_type: 'disaster', ...properties },
+    })),
+    ...resources.flatMap(({ lat, lng, ...properties }) => getPosition({ lat, lng }) ? [{
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [lng, lat] },
+      properties: { feature_type: 'resource', ...properties },
+    }] : []),
+  ],
+});
+
+// Accepts a FeatureCollection or a single Feature
+const parseLayer = (text: string): FeatureCollection => {
+  const data = JSON.parse(text);
+  if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) return data;
+  if (data?.type === 'Feature') return { type: 'FeatureCollection', features: [data] };
+  throw new Error('File is not a GeoJSON Feature or FeatureCollection');
+};
+
+// Zooms to an imported layer once when it is added
+function FitLayer({ layer }: { layer: FeatureCollection }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const bounds = geoJSON(layer).getBounds();
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 });
+  }, [layer, map]);
+
+  return null;
+}
+
+const footprintStyle = { color: '#dc2626', weight: 2, fillOpacity: 0.12 };
+
+// Polygons of a Polygon or MultiPolygon, as Leaflet lat/lng rings
+const toLeafletPolygons = (footprint: MultiPolygon | PolygonGeometry) =>
+  (footprint.type === 'Polygon' ? [footprint.coordinates] : footprint.coordinates)
+    .map(polygon => polygon.map(ring => ring.map(([lng, lat]) => [lat, lng] as LatLngTuple)));
+
+// Leaflet.draw toolbar editing the selected disaster's footprint. Each polygon
+// is its own layer so they can be edited and deleted one at a time; every
+// change reports the whole area as one MultiPolygon.
+function FootprintEditor({ footprint, onChange }: {
+  footprint: MultiPolygon | PolygonGeometry | null;
+  onChange: (footprint: MultiPolygon | null) => void;
+}) {
+  const map = useMap();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const drawnItems = new FeatureGroup();
+    if (footprint) {
+      toLeafletPolygons(footprint).forEach(rings => drawnItems.addLayer(new Polygon(rings, footprintStyle)));
+    }
+    map.addLayer(drawnItems);
+
+    const control = new Control.Draw({
+      position: 'topleft',
+      draw: {
+        polygon: { allowIntersection: false, shapeOptions: footprintStyle },
+        rectangle: { shapeOptions: footprintStyle },
+        polyline: false,
+        circle: false,
+        circlemarker: false,
+        marker: false,
+      },
+      edit: { featureGroup: drawnItems },
+    });
+    map.addControl(control);
+
+    const report = () => {
+      const polygons = drawnItems.getLayers().flatMap(layer => {
+        const { geometry } = (layer as Polygon).toGeoJSON();
+        if (geometry.type === 'Polygon') return [geometry.coordinates];
+        if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+        return [];
+      });
+      onChangeRef.current(polygons.length > 0 ? { type: 'MultiPolygon', coordinates: polygons } : null);
+    };
+    const handleCreated = (e: { layer: Layer }) => {
+      drawnItems.addLayer(e.layer);
+      report();
+    };
+
+    map.on('draw:created', handleCreated as never);
+    map.on('draw:edited draw:deleted', report);
+
+    return () => {
+      map.off('draw:created', handleCreated as never);
+      map.off('draw:edited draw:deleted', report);
+      map.removeControl(control);
+      map.removeLayer(drawnItems);
+    };
+  }, [footprint, map]);
+
+  return null;
+}
+
+// Reports the visible bounds and zoom after every pan or zoom, and once on load
+function ViewportWatcher({ onChange }: { onChange: (viewport: Viewport) => void }) {
+  const map = useMapEvents({
+    moveend: () => onChange({ bbox: map.getBounds().toBBoxString(), zoom: map.getZoom() }),
+  });
+
+  useEffect(() => {
+    onChange({ bbox: map.getBounds().toBBoxString(), zoom: map.getZoom() });
+  }, [map, onChange]);
+
+  return null;
+}
+
+// Density of social media posts and reports, weighted by priority
+function HeatmapLayer({ points }: { points: MapPoint[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const latLngs: HeatLatLngTuple[] = points.map(point => [point.lat, point.lng, point.weight]);
+    // Aggregated cells carry the summed weight of their points
+    const max = Math.max(1, ...latLngs.map(([, , weight]) => weight));
+    const layer = heatLayer(latLngs, { radius: 25, blur: 18, maxZoom: 16, max }).addTo(map);
+
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [points, map]);
+
+  return null;
+}
+
+// A server-aggregated cell; clicking zooms in until it splits into points
+function CellMarker({ point, color }: { point: MapPoint; color: string }) {
+  const map = useMap();
+
+  return (
+    <Marker
+      position={[point.lat, point.lng]}
+      icon={cellIcon(point.point_count, color)}
+      eventHandlers={{ click: () => map.setView([point.lat, point.lng], map.getZoom() + 2) }}
+    />
+  );
+}
+
+// Component to fit the map to the visible markers
+function FitBounds({ positions }: { positions: LatLngTuple[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (positions.length === 0) return;
+
+    if (positions.length === 1) {
+      map.setView(positions[0], Math.max(map.getZoom(), 13));
+    } else {
+      map.fitBounds(latLngBounds(positions), { padding: [40, 40], maxZoom: 15 });
+    }
+  }, [positions, map]);
+
+  return null;
+}
+
 // Component to handle map style changes
-function MapStyleController({ mapStyle }: { mapStyle: string }) {
+function MapStyleController({ mapStyle }: { mapStyle: MapStyle }) {
   const map = useMap();
 
   useEffect(() => {
@@ -83,25 +387,8 @@ function MapStyleController({ mapStyle }: { mapStyle: string }) {
     });
 
     // Add new tile layer based on style
-    let tileLayer;
-    switch (mapStyle) {
-      case 'satellite':
-        tileLayer = L.tileLayer('https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}', {
-          attribution: '&copy; Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community'
-        });
-        break;
-      case 'terrain':
-        tileLayer = L.tileLayer('https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png', {
-          attribution: 'Map data: &copy; OpenStreetMap contributors, SRTM | Map style: &copy; OpenTopoMap (CC-BY-SA)'
-        });
-        break;
-      default: // roadmap
-        tileLayer = L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-          attribution: '&copy; OpenStreetMap contributors'
-        });
-    }
-
-    tileLayer.addTo(map);
+    const { url, attribution } = TILE_LAYERS[mapStyle];
+    L.tileLayer(url, { attribution }).addTo(map);
   }, [mapStyle, map]);
 
   return null;
@@ -111,10 +398,29 @@ export const MapView: React.FC<MapViewProps> = ({
   disasters, 
   resources, 
   selectedDisaster, 
-  onLocationSelect 
+  searchCenter,
+  searchRadiusKm,
+  onSearchRadiusChange,
+  onLocationSelect,
+  onImportResources,
+  onFootprintChange,
+  refreshKey
 }) => {
-  const [mapStyle, setMapStyle] = useState<'roadmap' | 'satellite' | 'terrain'>('roadmap');
+  const [mapStyle, setMapStyle] = useState<MapStyle>('roadmap');
   const [userLocation, setUserLocation] = useState<LatLngTuple | null>(null);
+  const [importedLayer, setImportedLayer] = useState<ImportedLayer | null>(null);
+  const [layerError, setLayerError] = useState<string | null>(null);
+  const [savingLayer, setSavingLayer] = useState(false);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const [viewportPoints, setViewportPoints] = useState<MapPoint[] | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [savingArea, setSavingArea] = useState(false);
+  const [areaMessage, setAreaMessage] = useState<string | null>(null);
+  const [selectedPoint, setSelectedPoint] = useState<LatLngTuple | null>(null);
+  const [routeMode, setRouteMode] = useState<RoutingMode>('walking');
+  const [route, setRoute] = useState<ShelterRoute | null>(null);
+  const [routing, setRouting] = useState(false);
+  const [routeError, setRouteError] = useState<string | null>(null);
 
   const defaultCenter: LatLngTuple = [40.7128, -74.0060]; // NYC
 
@@ -131,21 +437,201 @@ export const MapView: React.FC<MapViewProps> = ({
     }
   }, []);
 
-  const getDisasterPosition = (index: number): LatLngTuple => {
-    const positions: LatLngTuple[] = [
-      [40.7589, -73.9851], [40.6892, -74.0445],
-      [40.7505, -73.9934], [40.7282, -73.7949],
-    ];
-    return positions[index % positions.length] || defaultCenter;
+  const plottedDisasters = useMemo(
+    () => disasters.flatMap(disaster => {
+      const position = getPosition(disaster);
+      return position ? [{ disaster, position }] : [];
+    }),
+    [disasters]
+  );
+
+  const plottedResources = useMemo(
+    () => resources.flatMap(resource => {
+      const position = getPosition(resource);
+      return position ? [{ resource, position }] : [];
+    }),
+    [resources]
+  );
+
+  // Debounced so a fling or a zoom animation loads the view once
+  const viewportTimer = useRef<ReturnType<typeof setTimeout>>();
+  const handleViewportChange = useCallback((next: Viewport) => {
+    clearTimeout(viewportTimer.current);
+    viewportTimer.current = setTimeout(() => setViewport(next), 300);
+  }, []);
+
+  // Resources, reports, social posts and unmet needs in view are loaded from
+  // the server; the resources prop changing (search, live updates) also
+  // triggers a reload
+  const selectedDisasterId = selectedDisaster?.id;
+  useEffect(() => {
+    if (!viewport) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      bbox: viewport.bbox,
+      zoom: String(viewport.zoom),
+      kinds: 'resource,report,social_post,need',
+    });
+    if (selectedDisasterId) params.set('disaster_id', selectedDisasterId);
+
+    apiFetch(`/map/points?${params}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`Map query failed with status ${response.status}`);
+        const data = await response.json();
+        if (!cancelled) setViewportPoints(data.points);
+      })
+      .catch((error) => {
+        console.error('Error loading map points:', error);
+        if (!cancelled) setViewportPoints(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewport, selectedDisasterId, resources, refreshKey]);
+
+  // Without the viewport query the map falls back to the searched resources
+  const resourcePoints = useMemo<MapPoint[]>(
+    () => viewportPoints
+      ? viewportPoints.filter(point => point.kind === 'resource')
+      : plottedResources.map(({ resource, position }) => ({
+        kind: 'resource',
+        id: resource.id,
+        label: resource.name,
+        category: resource.type,
+        status: resource.availability_status,
+        details: resource,
+        weight: 1,
+        lat: position[0],
+        lng: position[1],
+        point_count: 1,
+      })),
+    [viewportPoints, plottedResources]
+  );
+  const reportPoints = useMemo(
+    () => (viewportPoints || []).filter(point => point.kind === 'report'),
+    [viewportPoints]
+  );
+  const needPoints = useMemo(
+    () => (viewportPoints || []).filter(point => point.kind === 'need'),
+    [viewportPoints]
+  );
+  const heatPoints = useMemo(
+    () => (viewportPoints || []).filter(point => point.kind === 'social_post' || point.kind === 'report'),
+    [viewportPoints]
+  );
+
+  // The footprint being edited is drawn by the editor instead
+  const editingFootprintOf = onFootprintChange ? selectedDisaster?.id : null;
+  const footprints = useMemo(
+    () => disasters.filter(disaster => disaster.footprint && disaster.id !== editingFootprintOf),
+    [disasters, editingFootprintOf]
+  );
+
+  const routePositions = useMemo<LatLngTuple[]>(
+    () => (route ? route.geometry.coordinates.map(([lng, lat]) => [lat, lng]) : []),
+    [route]
+  );
+
+  const handleLocationSelect = useCallback((lat: number, lng: number) => {
+    setSelectedPoint([lat, lng]);
+    onLocationSelect?.(lat, lng);
+  }, [onLocationSelect]);
+
+  // Routes from the clicked point, or from the user's location before the
+  // map has been clicked
+  const findShelterRoute = async () => {
+    const start = selectedPoint ?? userLocation;
+    if (!start) return;
+
+    setRouteError(null);
+    setRouting(true);
+    try {
+      const params = new URLSearchParams({ lat: String(start[0]), lon: String(start[1]), mode: routeMode });
+      const response = await apiFetch(`/routing/shelter-route?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to find a route');
+      setRoute(data);
+    } catch (error) {
+      setRoute(null);
+      setRouteError((error as Error).message);
+    } finally {
+      setRouting(false);
+    }
+  };
+
+  const visiblePositions = useMemo(
+    () => [
+      ...plottedDisasters.map(({ position }) => position),
+      ...plottedResources.map(({ position }) => position),
+    ],
+    [plottedDisasters, plottedResources]
+  );
+
+  // The server export includes the selected disaster's footprint, all of its
+  // resources and its reports; without a selection the plotted items are saved
+  const exportGeoJson = async () => {
+    setLayerError(null);
+    try {
+      if (!selectedDisaster) {
+        downloadJson(toFeatureCollection(disasters, resources), 'disasters.geojson');
+        return;
+      }
+
+      const response = await apiFetch(`/disasters/${selectedDisaster.id}/geojson`);
+      if (!response.ok) {
+        throw new Error('Failed to export map');
+      }
+      downloadJson(await response.json(), `disaster-${selectedDisaster.id}.geojson`);
+    } catch (error) {
+      setLayerError((error as Error).message);
+    }
+  };
+
+  // Stores the base map tiles of the current view and the next zoom levels
+  // so the area can still be viewed without a connection
+  const saveAreaOffline = async () => {
+    if (!viewport) return;
+
+    setAreaMessage(null);
+    setSavingArea(true);
+    try {
+      const urls = tileUrlsForBounds(mapStyle, viewport.bbox, viewport.zoom);
+      const cached = await cacheTiles(urls);
+      setAreaMessage(`Saved ${cached} of ${urls.length} map tiles for offline use`);
+    } catch (error) {
+      setAreaMessage((error as Error).message);
+    } finally {
+      setSavingArea(false);
+    }
   };
 
-  const getResourcePosition = (index: number): LatLngTuple => {
-    const positions: LatLngTuple[] = [
-      [40.7614, -73.9776], [40.7061, -74.0087],
-      [40.7831, -73.9712], [40.7282, -73.7949],
-      [40.6782, -73.9442],
-    ];
-    return positions[index % positions.length] || defaultCenter;
+  const importLayer = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLayerError(null);
+    try {
+      setImportedLayer({ name: file.name, data: parseLayer(await file.text()) });
+    } catch (error) {
+      setLayerError(`${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const saveLayer = async () => {
+    if (!importedLayer || !onImportResources) return;
+
+    setSavingLayer(true);
+    try {
+      await onImportResources(importedLayer.data);
+      setImportedLayer(null);
+    } catch (error) {
+      setLayerError((error as Error).message);
+    } finally {
+      setSavingLayer(false);
+    }
   };
 
   if (!userLocation) {
@@ -186,10 +672,23 @@ export const MapView: React.FC<MapViewProps> = ({
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            {searchRadiusKm !== undefined && onSearchRadiusChange && (
+              <label className="flex items-center space-x-2 text-xs text-gray-700 mr-2">
+                <span>Search radius</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={50}
+                  value={searchRadiusKm}
+                  onChange={(e) => onSearchRadiusChange(Number(e.target.value))}
+                />
+                <span className="w-10">{searchRadiusKm} km</span>
+              </label>
+            )}
             {['roadmap', 'satellite', 'terrain'].map(style => (
               <button
                 key={style}
-                onClick={() => setMapStyle(style as typeof mapStyle)}
+                onClick={() => setMapStyle(style as MapStyle)}
                 className={`px-3 py-1 text-xs rounded-md transition-all ${
                   mapStyle === style
                     ? 'bg-blue-600 text-white shadow-md'
@@ -199,15 +698,91 @@ export const MapView: React.FC<MapViewProps> = ({
                 {style.charAt(0).toUpperCase() + style.slice(1)}
               </button>
             ))}
+            <button
+              onClick={() => setShowHeatmap(!showHeatmap)}
+              className={`flex items-center space-x-1 px-3 py-1 text-xs rounded-md transition-all ${
+                showHeatmap ? 'bg-orange-500 text-white shadow-md' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+              title="Density of social media posts and reports, weighted by priority"
+            >
+              <Flame className="h-3 w-3" />
+              <span>Heatmap</span>
+            </button>
             <Layers className="h-4 w-4 text-gray-500" />
           </div>
         </div>
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+          <button
+            onClick={exportGeoJson}
+            className="flex items-center space-x-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+            title={selectedDisaster ? 'Download the selected disaster with its resources and reports' : 'Download the disasters and resources on the map'}
+          >
+            <Download className="h-3 w-3" />
+            <span>Export map as GeoJSON</span>
+          </button>
+          <label className="flex items-center space-x-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 cursor-pointer">
+            <Upload className="h-3 w-3" />
+            <span>Import layer</span>
+            <input type="file" accept=".geojson,.json,application/geo+json,application/json" onChange={importLayer} className="hidden" />
+          </label>
+          {importedLayer && (
+            <span className="flex items-center space-x-2 px-2 py-1 rounded-md bg-orange-50 border border-orange-200 text-orange-800">
+              <span>{importedLayer.name} ({importedLayer.data.features.length} features)</span>
+              {onImportResources && (
+                <button
+                  onClick={saveLayer}
+                  disabled={savingLayer}
+                  className="px-2 py-0.5 rounded bg-orange-600 text-white hover:bg-orange-700 disabled:opacity-50"
+                >
+                  {savingLayer ? 'Saving...' : 'Save as resources'}
+                </button>
+              )}
+              <button onClick={() => setImportedLayer(null)} title="Remove layer">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          )}
+          <button
+            onClick={saveAreaOffline}
+            disabled={!viewport || savingArea}
+            className="flex items-center space-x-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            title="Keep the map tiles of this view for use without a connection"
+          >
+            <HardDriveDownload className="h-3 w-3" />
+            <span>{savingArea ? 'Saving area...' : 'Save area offline'}</span>
+          </button>
+          <span className="flex items-center space-x-1">
+            <select
+              value={routeMode}
+              onChange={(e) => setRouteMode(e.target.value as RoutingMode)}
+              className="px-2 py-1 rounded-md bg-white border border-gray-300 text-gray-700"
+            >
+              <option value="walking">Walking</option>
+              <option value="driving">Driving</option>
+            </select>
+            <button
+              onClick={findShelterRoute}
+              disabled={routing}
+              className="flex items-center space-x-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              title={selectedPoint ? 'Route from the selected point to the nearest open shelter' : 'Route from your location to the nearest open shelter; click the map to start elsewhere'}
+            >
+              <Route className="h-3 w-3" />
+              <span>{routing ? 'Finding route...' : 'Route to shelter'}</span>
+            </button>
+          </span>
+          {areaMessage && <span className="text-gray-600">{areaMessage}</span>}
+          {layerError && <span className="text-red-600">{layerError}</span>}
+          {routeError && <span className="text-red-600">{routeError}</span>}
+        </div>
       </div>
 
       <div className="relative">
         <MapContainer center={userLocation} zoom={12} style={{ height: '400px', width: '100%' }} className="z-0">
           <MapStyleController mapStyle={mapStyle} />
-          <MapClickHandler onLocationSelect={onLocationSelect} />
+          <MapClickHandler onLocationSelect={handleLocationSelect} />
+          <FitBounds positions={visiblePositions} />
+          <ViewportWatcher onChange={handleViewportChange} />
+          {showHeatmap && <HeatmapLayer points={heatPoints} />}
 
           {/* User Marker */}
           <Marker position={userLocation} icon={userLocationIcon}>
@@ -219,76 +794,206 @@ export const MapView: React.FC<MapViewProps> = ({
             </Popup>
           </Marker>
 
-          {/* Disasters */}
-          {disasters.map((disaster, index) => (
-            <Marker
-              key={disaster.id}
-              position={getDisasterPosition(index)}
-              icon={selectedDisaster?.id === disaster.id ? selectedDisasterIcon : disasterIcon}
-              eventHandlers={{
-                click: () => window.dispatchEvent(new CustomEvent('selectDisaster', { detail: disaster })),
-              }}
-            >
-              <Popup>
-                <div className="min-w-[200px]">
-                  <div className="flex items-center space-x-2 mb-2">
-                    <AlertTriangle className="h-4 w-4 text-red-600" />
-                    <strong className="text-red-800">{disaster.title}</strong>
-                  </div>
-                  <div className="text-sm text-gray-700">
-                    <div className="flex items-center space-x-1">
-                      <MapPin className="h-3 w-3 text-gray-500" />
-                      <span>{disaster.location_name || 'Unknown'}</span>
-                    </div>
-                    <p>{disaster.description}</p>
-                    {disaster.tags?.length > 0 && (
-                      <div className="flex flex-wrap gap-1 mt-2">
-                        {disaster.tags.map((tag: string, idx: number) => (
-                          <span key={idx} className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full">{tag}</span>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                </div>
-              </Popup>
-            </Marker>
+          {/* Resource search area */}
+          {searchCenter && searchRadiusKm !== undefined && (
+            <Circle
+              center={[searchCenter.lat, searchCenter.lng]}
+              radius={searchRadiusKm * 1000}
+              pathOptions={{ color: '#10b981', weight: 1, fillOpacity: 0.05 }}
+            />
+          )}
+
+          {/* Disaster affected areas */}
+          {footprints.map(disaster => (
+            <GeoJSON
+              key={`${disaster.id}:${JSON.stringify(disaster.footprint).length}:${disaster.updated_at ?? ''}`}
+              data={disaster.footprint}
+              style={selectedDisaster?.id === disaster.id ? { ...footprintStyle, weight: 3 } : footprintStyle}
+            />
           ))}
+          {onFootprintChange && selectedDisaster && (
+            <FootprintEditor footprint={selectedDisaster.footprint ?? null} onChange={onFootprintChange} />
+          )}
 
-          {/* Resources */}
-          {resources.map((resource, index) => {
-            const icon = resourceIcons[resource.type as keyof typeof resourceIcons] || resourceIcons.default;
-            return (
-              <Marker key={resource.id} position={getResourcePosition(index)} icon={icon}>
-                <Popup>
-                  <div className="min-w-[200px]">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <Users className="h-4 w-4 text-green-600" />
-                      <strong className="text-green-800">{resource.name}</strong>
-                    </div>
-                    <div className="text-sm space-y-1 text-gray-700">
-                      <div className="flex items-center space-x-1">
-                        <MapPin className="h-3 w-3 text-gray-500" />
-                        <span>{resource.location_name}</span>
-                      </div>
-                      <div className="capitalize">
-                        Type: {resource.type.replace('_', ' ')}
+          {/* Evacuation route and the closed roads it keeps off */}
+          {route && (
+            <>
+              <Polyline positions={routePositions} pathOptions={{ color: '#2563eb', weight: 5, opacity: 0.8 }} />
+              {route.closures.map(closure => closure.path ? (
+                <Polyline
+                  key={closure.id}
+                  positions={closure.path.coordinates.map(([lng, lat]) => [lat, lng] as LatLngTuple)}
+                  pathOptions={{ color: '#111827', weight: 6, dashArray: '6 6' }}
+                >
+                  <Popup>Closed: {closure.reason}</Popup>
+                </Polyline>
+              ) : (
+                <Circle
+                  key={closure.id}
+                  center={[closure.lat, closure.lng]}
+                  radius={closure.radius_m}
+                  pathOptions={{ color: '#111827', weight: 2, dashArray: '4 4', fillOpacity: 0.3 }}
+                >
+                  <Popup>Closed: {closure.reason}</Popup>
+                </Circle>
+              ))}
+              <FitBounds positions={routePositions} />
+            </>
+          )}
+
+          {/* Imported layer, drawn as-is until it is removed or saved */}
+          {importedLayer && (
+            <>
+              <GeoJSON
+                key={importedLayer.name + importedLayer.data.features.length}
+                data={importedLayer.data}
+                style={{ color: '#ea580c', weight: 2, fillOpacity: 0.15 }}
+                onEachFeature={(feature, layer) => {
+                  const label = feature.properties?.name ?? feature.properties?.NAME ?? feature.properties?.title;
+                  if (label) layer.bindPopup(String(label));
+                }}
+              />
+              <FitLayer layer={importedLayer.data} />
+            </>
+          )}
+
+          <LayersControl position="topright">
+            <LayersControl.Overlay checked name="Disasters">
+              <MarkerClusterGroup chunkedLoading>
+                {plottedDisasters.map(({ disaster, position }) => (
+                  <Marker
+                    key={disaster.id}
+                    position={position}
+                    icon={selectedDisaster?.id === disaster.id ? selectedDisasterIcon : disasterIcon}
+                    eventHandlers={{
+                      click: () => window.dispatchEvent(new CustomEvent('selectDisaster', { detail: disaster })),
+                    }}
+                  >
+                    <Popup>
+                      <div className="min-w-[200px]">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <AlertTriangle className="h-4 w-4 text-red-600" />
+                          <strong className="text-red-800">{disaster.title}</strong>
+                        </div>
+                        <div className="text-sm text-gray-700">
+                          <div className="flex items-center space-x-1">
+                            <MapPin className="h-3 w-3 text-gray-500" />
+                            <span>{disaster.location_name || 'Unknown'}</span>
+                          </div>
+                          <p>{disaster.description}</p>
+                          {disaster.tags?.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {disaster.tags.map((tag: string, idx: number) => (
+                                <span key={idx} className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full">{tag}</span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
                       </div>
-                      <span className={`px-2 py-1 text-xs rounded-full ${
-                        resource.availability_status === 'available' ? 'bg-green-100 text-green-800' :
-                        resource.availability_status === 'limited' ? 'bg-yellow-100 text-yellow-800' :
-                        'bg-red-100 text-red-800'
-                      }`}>
-                        {resource.availability_status}
-                      </span>
-                      {resource.distance_km && (
-                        <div>Distance: {resource.distance_km.toFixed(1)} km</div>
-                      )}
-                    </div>
-                  </div>
-                </Popup>
-              </Marker>
-            );
-          })}
+                    </Popup>
+                  </Marker>
+                ))}
+              </MarkerClusterGroup>
+            </LayersControl.Overlay>
+
+            {/* Resources, one layer per type */}
+            {RESOURCE_LAYERS.map(({ type, label, color }) => (
+              <LayersControl.Overlay key={type} checked name={label}>
+                <MarkerClusterGroup chunkedLoading>
+                  {resourcePoints.filter(point => point.category === type).map((point, idx) =>
+                    point.point_count > 1 ? (
+                      <CellMarker key={`cell-${idx}`} point={point} color={color} />
+                    ) : (
+                      <Marker key={point.id} position={[point.lat, point.lng]} icon={resourceIcons[type]}>
+                        <Popup>
+                          <div className="min-w-[200px]">
+                            <div className="flex items-center space-x-2 mb-2">
+                              <Users className="h-4 w-4 text-green-600" />
+                              <strong className="text-green-800">{point.label}</strong>
+                            </div>
+                            <div className="text-sm space-y-1 text-gray-700">
+                              <div className="flex items-center space-x-1">
+                                <MapPin className="h-3 w-3 text-gray-500" />
+                                <span>{point.details?.location_name}</span>
+                              </div>
+                              <div className="capitalize">
+                                Type: {type.replace('_', ' ')}
+                              </div>
+                              <span className={`px-2 py-1 text-xs rounded-full ${
+                                point.status === 'available' ? 'bg-green-100 text-green-800' :
+                                point.status === 'limited' ? 'bg-yellow-100 text-yellow-800' :
+                                'bg-red-100 text-red-800'
+                              }`}>
+                                {point.status}
+                              </span>
+                              {point.details?.capacity != null && (
+                                <div>Occupancy: {point.details.occupancy ?? 0} / {point.details.capacity}</div>
+                              )}
+                            </div>
+                          </div>
+                        </Popup>
+                      </Marker>
+                    )
+                  )}
+                </MarkerClusterGroup>
+              </LayersControl.Overlay>
+            ))}
+
+            <LayersControl.Overlay checked name="Reports">
+              <MarkerClusterGroup chunkedLoading>
+                {reportPoints.map((point, idx) =>
+                  point.point_count > 1 ? (
+                    <CellMarker key={`cell-${idx}`} point={point} color="#f59e0b" />
+                  ) : (
+                    <Marker key={point.id} position={[point.lat, point.lng]} icon={reportIcon}>
+                      <Popup>
+                        <div className="min-w-[200px] text-sm text-gray-700">
+                          <div className="flex items-center space-x-2 mb-2">
+                            <FileText className="h-4 w-4 text-amber-600" />
+                            <strong className="text-amber-800">Report</strong>
+                            <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100">{point.status}</span>
+                          </div>
+                          <p>{point.label}</p>
+                        </div>
+                      </Popup>
+                    </Marker>
+                  )
+                )}
+              </MarkerClusterGroup>
+            </LayersControl.Overlay>
+
+            <LayersControl.Overlay checked name="Unmet needs">
+              <MarkerClusterGroup chunkedLoading>
+                {needPoints.map((point, idx) =>
+                  point.point_count > 1 ? (
+                    <CellMarker key={`cell-${idx}`} point={point} color={NEED_COLORS.urgent} />
+                  ) : (
+                    <Marker key={point.id} position={[point.lat, point.lng]} icon={needIcons[point.status || 'medium']}>
+                      <Popup>
+                        <div className="min-w-[200px] text-sm text-gray-700">
+                          <div className="flex items-center space-x-2 mb-2">
+                            <AlertTriangle className="h-4 w-4 text-red-600" />
+                            <strong className="text-red-800 capitalize">{point.category} need</strong>
+                            <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100">{point.status}</span>
+                          </div>
+                          <p>{point.label}</p>
+                          {point.details?.location_name && (
+                            <div className="flex items-center space-x-1 mt-1">
+                              <MapPin className="h-3 w-3 text-gray-500" />
+                              <span>{point.details.location_name}</span>
+                            </div>
+                          )}
+                          {point.details?.quantity != null && (
+                            <div className="mt-1">Met: {point.details.quantity_met ?? 0} / {point.details.quantity}</div>
+                          )}
+                        </div>
+                      </Popup>
+                    </Marker>
+                  )
+                )}
+              </MarkerClusterGroup>
+            </LayersControl.Overlay>
+          </LayersControl>
         </MapContainer>
 
         {/* Legend */}
@@ -299,12 +1004,65 @@ export const MapView: React.FC<MapViewProps> = ({
           </div>
           <div className="space-y-2 text-gray-700">
             <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-red-500 rounded-full"></div>Disasters</div>
-            <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-green-500 rounded-full"></div>Resources</div>
+            {RESOURCE_LAYERS.map(({ type, label, color }) => (
+              <div key={type} className="flex items-center space-x-3"><div className="w-4 h-4 rounded-full" style={{ backgroundColor: color }}></div>{label}</div>
+            ))}
+            <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-amber-500 rounded-full"></div>Reports</div>
+            <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-red-700 rounded-full"></div>Unmet Needs</div>
             <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-blue-500 rounded-full"></div>Your Location</div>
             <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-purple-500 rounded-full"></div>Selected Point</div>
+            <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-red-100 border-2 border-red-600"></div>Affected Area</div>
+            {route && (
+              <>
+                <div className="flex items-center space-x-3"><div className="w-4 h-1 bg-blue-600"></div>Route to Shelter</div>
+                <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-gray-300 border-2 border-dashed border-gray-900 rounded-full"></div>Road Closure</div>
+              </>
+            )}
+            {importedLayer && (
+              <div className="flex items-center space-x-3"><div className="w-4 h-4 bg-orange-500 rounded-full"></div>Imported Layer</div>
+            )}
           </div>
         </div>
       </div>
+
+      {/* Turn-by-turn directions for the route on the map */}
+      {route && (
+        <div className="p-4 border-t text-sm">
+          <div className="flex items-center justify-between mb-2">
+            <div>
+              <div className="font-semibold text-gray-900">
+                {route.mode === 'walking' ? 'Walk' : 'Drive'} to {route.shelter.name}
+                <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                  route.shelter.availability_status === 'available' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                }`}>
+                  {route.shelter.availability_status}
+                </span>
+              </div>
+              <div className="text-xs text-gray-600">
+                {formatDistance(route.distance_m)} · about {formatDuration(route.duration_s)}
+                {route.shelter.location_name && ` · ${route.shelter.location_name}`}
+                {route.closures.length > 0 && ` · avoiding ${route.closures.length} closed road${route.closures.length === 1 ? '' : 's'}`}
+              </div>
+            </div>
+            <button onClick={() => setRoute(null)} className="p-1 text-gray-500 hover:text-gray-800" title="Clear route">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ol className="space-y-1 list-decimal list-inside text-gray-700">
+            {route.steps.map((step, index) => (
+              <li key={index}>
+                {step.instruction}
+                {step.distance_m > 0 && (
+                  <span className="text-xs text-gray-500"> · {formatDistance(step.distance_m)}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+          {route.approach_m > 50 && (
+            <p className="mt-2 text-xs text-gray-500">Plus {formatDistance(route.approach_m)} off-road to and from the nearest mapped road</p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircle, XCircle, Copy, ArrowUpCircle, RefreshCw, Image as ImageIcon, MapPin } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { VerificationCheck, VerificationResult } from './VerificationResult';
+import type { TriageReason } from './SocialMediaFeed';
+
+export interface ModerationReport {
+  id: string;
+  disaster_id: string;
+  user_id: string;
+  content: string;
+  priority?: string;
+  triage_score?: number | null;
+  triage_reasons?: TriageReason[];
+  image_url?: string | null;
+  image_thumbnail_url?: string | null;
+  captured_at?: string | null;
+  location_source?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  verification_status: string;
+  verification_analysis?: {
+    summary: string;
+    score?: number | null;
+    checks?: VerificationCheck[];
+  } | null;
+  moderation_status: string;
+  created_at: string;
+}
+
+interface Review {
+  id: string;
+  reviewer_id: string;
+  decision: string;
+  note: string | null;
+  created_at: string;
+}
+
+type Decision = 'approve' | 'reject' | 'duplicate' | 'escalate';
+
+interface ModerationQueueProps {
+  disasterId: string;
+  // Changes whenever another reviewer decides on a report of this disaster
+  refreshKey: number;
+  onError: (message: string) => void;
+}
+
+const DECISION_BUTTONS: { decision: Decision; label: string; icon: React.ElementType; className: string }[] = [
+  { decision: 'approve', label: 'Approve', icon: CheckCircle, className: 'bg-green-600 hover:bg-green-700 text-white' },
+  { decision: 'reject', label: 'Reject', icon: XCircle, className: 'bg-red-600 hover:bg-red-700 text-white' },
+  { decision: 'duplicate', label: 'Duplicate', icon: Copy, className: 'bg-gray-600 hover:bg-gray-700 text-white' },
+  { decision: 'escalate', label: 'Escalate', icon: ArrowUpCircle, className: 'bg-orange-500 hover:bg-orange-600 text-white' }
+];
+
+const PRIORITY_COLORS: Record<string, string> = {
+  urgent: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+// Reviewer view: the queue of reports waiting for a decision, most urgent
+// first, with the selected report's image beside its automated verification
+export const ModerationQueue: React.FC<ModerationQueueProps> = ({ disasterId, refreshKey, onError }) => {
+  const [reports, setReports] = useState<ModerationReport[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [candidates, setCandidates] = useState<ModerationReport[]>([]);
+  const [note, setNote] = useState('');
+  const [duplicateOf, setDuplicateOf] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const selected = reports.find(report => report.id === selectedId) || null;
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch(`/moderation/disasters/${disasterId}/queue`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load the review queue');
+
+      setReports(data.reports);
+      setTotal(data.total);
+      setSelectedId(current => (data.reports.some((r: ModerationReport) => r.id === current) ? current : data.reports[0]?.id ?? null));
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [disasterId, onError]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue, refreshKey]);
+
+  // Reports a duplicate can point at: every other report on the disaster
+  useEffect(() => {
+    apiFetch(`/verification/disasters/${disasterId}/reports`)
+      .then(response => (response.ok ? response.json() : { reports: [] }))
+      .then(data => setCandidates(data.reports || []))
+      .catch(() => setCandidates([]));
+  }, [disasterId, refreshKey]);
+
+  useEffect(() => {
+    setNote('');
+    setDuplicateOf('');
+    setReviews([]);
+    if (!selectedId) return;
+
+    apiFetch(`/moderation/disasters/${disasterId}/reports/${selectedId}/reviews`)
+      .then(response => (response.ok ? response.json() : { reviews: [] }))
+      .then(data => setReviews(data.reviews || []))
+      .catch(() => setReviews([]));
+  }, [disasterId, selectedId]);
+
+  const decide = async (decision: Decision) => {
+    if (!selected) return;
+
+    try {
+      setSubmitting(true);
+      const response = await apiFetch(`/moderation/disasters/${disasterId}/reports/${selected.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note, duplicate_of: decision === 'duplicate' ? duplicateOf : undefined })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save the decision');
+
+      await loadQueue();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-gray-900">Reports waiting for review ({total})</h3>
+        <button
+          onClick={loadQueue}
+          disabled={loading}
+          className="flex items-center space-x-2 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {reports.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">{loading ? 'Loading…' : 'Nothing to review.'}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <ul className="space-y-2 max-h-[36rem] overflow-y-auto">
+            {reports.map(report => (
+              <li key={report.id}>
+                <button
+                  onClick={() => setSelectedId(report.id)}
+                  className={`w-full text-left border rounded-md p-3 text-sm ${report.id === selectedId ? 'border-red-500 bg-red-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs ${PRIORITY_COLORS[report.priority || 'low']}`}
+                      title={report.triage_reasons?.map(reason => `${reason.points > 0 ? '+' : ''}${reason.points}  ${reason.detail}`).join('\n')}
+                    >
+                      {report.priority || 'low'}
+                      {report.triage_score != null && ` ${report.triage_score}`}
+                    </span>
+                    <span className="text-xs text-gray-500">{report.verification_status}</span>
+                    {report.moderation_status === 'escalated' && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800">escalated</span>
+                    )}
+                    {report.image_url && <ImageIcon className="h-3 w-3 text-gray-400" />}
+                  </div>
+                  <p className="text-gray-800 line-clamp-2">{report.content}</p>
+                  <p className="text-xs text-gray-500 mt-1">{new Date(report.created_at).toLocaleString()}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="lg:col-span-2 border rounded-lg p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  {selected.image_url ? (
+                    <a href={selected.image_url} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={selected.image_url}
+                        alt="Reported"
+                        className="w-full max-h-80 object-contain rounded-md border bg-gray-50"
+                      />
+                    </a>
+                  ) : (
+                    <div className="h-40 flex items-center justify-center rounded-md border bg-gray-50 text-sm text-gray-500">
+                      No image
+                    </div>
+                  )}
+                  <p className="text-sm text-gray-800 mt-3">{selected.content}</p>
+                  <div className="text-xs text-gray-500 mt-2 space-y-1">
+                    <div>Submitted {new Date(selected.created_at).toLocaleString()} by {selected.user_id}</div>
+                    {selected.captured_at && <div>Photo taken {new Date(selected.captured_at).toLocaleString()}</div>}
+                    {selected.lat != null && selected.lng != null && (
+                      <div className="flex items-center space-x-1">
+                        <MapPin className="h-3 w-3" />
+                        <span>
+                          {selected.lat.toFixed(5)}, {selected.lng.toFixed(5)}
+                          {selected.location_source === 'exif' ? ' (from the photo)' : ''}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <VerificationResult
+                  verification={{
+                    status: selected.verification_status,
+                    score: selected.verification_analysis?.score ?? null,
+                    analysis: selected.verification_analysis ?? null
+                  }}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Note (required to reject or escalate)"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+                <select
+                  value={duplicateOf}
+                  onChange={(e) => setDuplicateOf(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Duplicate of… (only to mark as duplicate)</option>
+                  {candidates.filter(report => report.id !== selected.id).map(report => (
+                    <option key={report.id} value={report.id}>
+                      {new Date(report.created_at).toLocaleString()} – {report.content.slice(0, 80)}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex flex-wrap gap-2">
+                  {DECISION_BUTTONS.map(({ decision, label, icon: Icon, className }) => (
+                    <button
+                      key={decision}
+                      onClick={() => decide(decision)}
+                      disabled={submitting || (decision === 'duplicate' && !duplicateOf)}
+                      className={`flex items-center space-x-1 px-3 py-2 text-sm rounded-md disabled:opacity-50 ${className}`}
+                    >
+                      <Icon className="h-4 w-4" />
+                      <span>{label}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {reviews.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-1">Earlier decisions</h4>
+                  <ul className="space-y-1 text-xs text-gray-600">
+                    {reviews.map(review => (
+                      <li key={review.id}>
+                        {new Date(review.created_at).toLocaleString()} – {review.reviewer_id}: <strong>{review.decision}</strong>
+                        {review.note ? ` – ${review.note}` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
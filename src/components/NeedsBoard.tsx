@@ -0,0 +1,489 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { HandHelping, Plus, X, MapPin, Phone, RefreshCw, RotateCcw } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { Resource } from './ResourcesPanel';
+
+// Mirrors NEED_CATEGORIES and CATEGORY_RESOURCE_TYPES on the server
+const CATEGORY_RESOURCE_TYPES: Record<string, string[]> = {
+  shelter: ['shelter'],
+  medical: ['medical'],
+  food: ['food'],
+  water: ['food', 'other'],
+  rescue: ['emergency_services'],
+  transportation: ['transportation'],
+  supplies: ['other', 'food'],
+  other: ['other'],
+};
+const CATEGORIES = Object.keys(CATEGORY_RESOURCE_TYPES);
+const URGENCIES = ['urgent', 'high', 'medium', 'low'];
+
+const STATUS_FILTERS = [
+  { value: 'open,partially_met', label: 'Unmet' },
+  { value: 'met', label: 'Met' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: '', label: 'All' },
+];
+
+interface NeedAllocation {
+  id: string;
+  resource_id: string | null;
+  resource_name: string | null;
+  quantity: number;
+  created_at: string;
+}
+
+export interface Need {
+  id: string;
+  disaster_id: string;
+  category: string;
+  description: string;
+  quantity: number;
+  quantity_met: number;
+  urgency: 'urgent' | 'high' | 'medium' | 'low';
+  location_name?: string | null;
+  contact?: string | null;
+  status: 'open' | 'partially_met' | 'met' | 'cancelled';
+  created_at: string;
+  allocations: NeedAllocation[];
+}
+
+interface ResourceMatch {
+  id: string;
+  name: string;
+  type: string;
+  location_name: string | null;
+  capacity: number;
+  occupancy: number;
+  remaining: number;
+  covers: boolean;
+  distance_km: number | null;
+}
+
+interface NeedsBoardProps {
+  disasterId: string;
+  resources: Resource[];
+  canCreate: boolean;
+  canUpdate: boolean;
+  // Bumped when a need changes elsewhere, so the board reloads
+  refreshKey: number;
+  onError: (message: string) => void;
+}
+
+const emptyNeed = { category: 'shelter', description: '', quantity: '1', urgency: 'medium', location_name: '', contact: '', lat: '', lon: '' };
+
+type NeedForm = typeof emptyNeed;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500';
+
+const URGENCY_COLORS: Record<string, string> = {
+  urgent: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-green-100 text-green-800',
+};
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+// Supply/demand board for a disaster: structured needs with how much of each
+// is met, the capacity left in matching resources, and for coordinators the
+// resources proposed for a need and confirming an allocation.
+export const NeedsBoard: React.FC<NeedsBoardProps> = ({
+  disasterId,
+  resources,
+  canCreate,
+  canUpdate,
+  refreshKey,
+  onError
+}) => {
+  const [needs, setNeeds] = useState<Need[]>([]);
+  const [statusFilter, setStatusFilter] = useState(STATUS_FILTERS[0].value);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState<NeedForm>(emptyNeed);
+  const [matchingFor, setMatchingFor] = useState<string | null>(null);
+  const [matches, setMatches] = useState<ResourceMatch[]>([]);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await apiFetch(`/needs/disasters/${disasterId}/needs${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`);
+    return data;
+  };
+
+  const loadNeeds = useCallback(async () => {
+    try {
+      setLoading(true);
+      const query = statusFilter ? `?status=${statusFilter}` : '';
+      const response = await apiFetch(`/needs/disasters/${disasterId}/needs${query}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load needs');
+      setNeeds(data.needs);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [disasterId, statusFilter, onError]);
+
+  useEffect(() => {
+    loadNeeds();
+  }, [loadNeeds, refreshKey]);
+
+  // Outstanding demand per category against the capacity left in the listed
+  // resources that could meet it
+  const board = useMemo(() => CATEGORIES.map(category => {
+    const demand = needs
+      .filter(need => need.category === category && (need.status === 'open' || need.status === 'partially_met'))
+      .reduce((sum, need) => sum + need.quantity - need.quantity_met, 0);
+    const supply = resources
+      .filter(resource => CATEGORY_RESOURCE_TYPES[category].includes(resource.type)
+        && resource.availability_status !== 'closed' && resource.capacity != null)
+      .reduce((sum, resource) => sum + Math.max((resource.capacity ?? 0) - (resource.occupancy ?? 0), 0), 0);
+    return { category, demand, supply };
+  }).filter(row => row.demand > 0), [needs, resources]);
+
+  const fillMyLocation = () => {
+    navigator.geolocation?.getCurrentPosition(
+      position => setForm(current => ({
+        ...current,
+        lat: position.coords.latitude.toFixed(5),
+        lon: position.coords.longitude.toFixed(5)
+      })),
+      () => onError('Your location is not available')
+    );
+  };
+
+  const createNeed = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await request('', {
+        method: 'POST',
+        body: JSON.stringify({
+          category: form.category,
+          description: form.description,
+          quantity: Number(form.quantity),
+          urgency: form.urgency,
+          location_name: form.location_name || null,
+          contact: form.contact || null,
+          ...(form.lat && form.lon ? { lat: Number(form.lat), lon: Number(form.lon) } : {})
+        })
+      });
+      setForm(emptyNeed);
+      setCreating(false);
+      await loadNeeds();
+    } catch (error) {
+      onError(`Failed to raise need: ${(error as Error).message}`);
+    }
+  };
+
+  const setStatus = async (need: Need, status: 'open' | 'cancelled') => {
+    try {
+      setBusyId(need.id);
+      await request(`/${need.id}`, { method: 'PATCH', body: JSON.stringify({ status }) });
+      await loadNeeds();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const showMatches = async (need: Need) => {
+    if (matchingFor === need.id) {
+      setMatchingFor(null);
+      return;
+    }
+    try {
+      setBusyId(need.id);
+      const data = await request(`/${need.id}/matches`);
+      setMatches(data.matches);
+      setAmounts(Object.fromEntries(data.matches.map((match: ResourceMatch) => [
+        match.id,
+        String(Math.min(match.remaining, data.outstanding))
+      ])));
+      setMatchingFor(need.id);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const allocate = async (need: Need, match: ResourceMatch) => {
+    try {
+      setBusyId(need.id);
+      await request(`/${need.id}/allocations`, {
+        method: 'POST',
+        body: JSON.stringify({ resource_id: match.id, quantity: Number(amounts[match.id]) })
+      });
+      setMatchingFor(null);
+      await loadNeeds();
+    } catch (error) {
+      onError(`Failed to allocate: ${(error as Error).message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Demand against supply per category */}
+      {board.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {board.map(({ category, demand, supply }) => (
+            <div key={category} className="bg-gray-50 rounded-lg p-3">
+              <div className="text-xs text-gray-500 capitalize">{label(category)}</div>
+              <div className="text-lg font-semibold text-gray-900">{demand} needed</div>
+              <div className={`text-xs ${supply >= demand ? 'text-green-700' : 'text-red-700'}`}>
+                {supply} capacity left in listed resources
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            {STATUS_FILTERS.map(filter => (
+              <option key={filter.label} value={filter.value}>{filter.label}</option>
+            ))}
+          </select>
+          {loading && <RefreshCw className="h-4 w-4 text-gray-400 animate-spin" />}
+        </div>
+        {canCreate && !creating && (
+          <button
+            onClick={() => setCreating(true)}
+            className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Raise a need</span>
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <form onSubmit={createNeed} className="bg-gray-50 p-4 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              className={`${inputClass} capitalize`}
+            >
+              {CATEGORIES.map(category => (
+                <option key={category} value={category}>{label(category)}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              placeholder="How many (people, doses, meals…)"
+              value={form.quantity}
+              onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              className={inputClass}
+              required
+            />
+            <select
+              value={form.urgency}
+              onChange={(e) => setForm({ ...form, urgency: e.target.value })}
+              className={`${inputClass} capitalize`}
+            >
+              {URGENCIES.map(urgency => (
+                <option key={urgency} value={urgency}>{urgency}</option>
+              ))}
+            </select>
+            <textarea
+              placeholder="What is needed, e.g. 12 people need shelter tonight"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={`${inputClass} md:col-span-3`}
+              rows={2}
+              required
+            />
+            <input
+              type="text"
+              placeholder="Where"
+              value={form.location_name}
+              onChange={(e) => setForm({ ...form, location_name: e.target.value })}
+              className={inputClass}
+            />
+            <div className="flex space-x-2 md:col-span-2">
+              <input
+                type="number"
+                step="any"
+                placeholder="Latitude"
+                value={form.lat}
+                onChange={(e) => setForm({ ...form, lat: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                step="any"
+                placeholder="Longitude"
+                value={form.lon}
+                onChange={(e) => setForm({ ...form, lon: e.target.value })}
+                className={inputClass}
+              />
+              <button type="button" onClick={fillMyLocation} className="px-3 text-sm border border-gray-300 rounded-md hover:bg-white" title="Use my location">
+                <MapPin className="h-4 w-4" />
+              </button>
+            </div>
+            <input
+              type="text"
+              placeholder="Contact on site (name, phone)"
+              value={form.contact}
+              onChange={(e) => setForm({ ...form, contact: e.target.value })}
+              className={`${inputClass} md:col-span-3`}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <button type="submit" className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700">Raise need</button>
+            <button type="button" onClick={() => setCreating(false)} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {needs.length === 0 && !loading && (
+        <div className="text-center py-8">
+          <HandHelping className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No needs here</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {needs.map(need => {
+          const unmet = need.status === 'open' || need.status === 'partially_met';
+
+          return (
+            <div key={need.id} className="border rounded-lg p-4 space-y-2">
+              <div className="flex items-start justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${URGENCY_COLORS[need.urgency]}`}>{need.urgency}</span>
+                    <span className="text-sm font-medium text-gray-900 capitalize">{label(need.category)}</span>
+                    <span className="text-xs text-gray-500">{label(need.status)}</span>
+                  </div>
+                  <p className="text-sm text-gray-700">{need.description}</p>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                    {need.location_name && (
+                      <span className="flex items-center"><MapPin className="h-3 w-3 mr-1" />{need.location_name}</span>
+                    )}
+                    {need.contact && (
+                      <span className="flex items-center"><Phone className="h-3 w-3 mr-1" />{need.contact}</span>
+                    )}
+                    <span>{new Date(need.created_at).toLocaleString()}</span>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {canUpdate && unmet && (
+                    <>
+                      <button
+                        onClick={() => showMatches(need)}
+                        disabled={busyId === need.id}
+                        className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {matchingFor === need.id ? 'Hide matches' : 'Find resources'}
+                      </button>
+                      <button
+                        onClick={() => window.confirm('Cancel this need?') && setStatus(need, 'cancelled')}
+                        disabled={busyId === need.id}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title="Cancel need"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                  {canUpdate && need.status === 'cancelled' && (
+                    <button
+                      onClick={() => setStatus(need, 'open')}
+                      disabled={busyId === need.id}
+                      className="p-1 text-gray-500 hover:text-gray-800"
+                      title="Reopen need"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>{need.quantity_met} of {need.quantity} met</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${need.status === 'met' ? 'bg-green-500' : 'bg-red-500'}`}
+                    style={{ width: `${Math.min(100, (need.quantity_met / need.quantity) * 100)}%` }}
+                  />
+                </div>
+              </div>
+
+              {need.allocations.length > 0 && (
+                <ul className="text-xs text-gray-600 space-y-0.5">
+                  {need.allocations.map(allocation => (
+                    <li key={allocation.id}>
+                      {allocation.quantity} at {allocation.resource_name || 'a removed resource'}
+                      <span className="text-gray-400"> · {new Date(allocation.created_at).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {matchingFor === need.id && (
+                <div className="border-t pt-2 space-y-2">
+                  {matches.length === 0 ? (
+                    <p className="text-sm text-gray-500">No nearby resources of this kind have capacity left</p>
+                  ) : (
+                    matches.map(match => (
+                      <div key={match.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <span className="font-medium text-gray-900">{match.name}</span>
+                          <span className="ml-2 text-xs text-gray-500">
+                            {[
+                              `${match.remaining} left`,
+                              match.distance_km != null ? `${match.distance_km.toFixed(1)} km` : match.location_name,
+                              match.covers ? 'covers the rest' : null
+                            ].filter(Boolean).join(' · ')}
+                          </span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="number"
+                            min={1}
+                            max={match.remaining}
+                            value={amounts[match.id] ?? ''}
+                            onChange={(e) => setAmounts({ ...amounts, [match.id]: e.target.value })}
+                            className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+                          />
+                          <button
+                            onClick={() => allocate(need, match)}
+                            disabled={busyId === need.id || !amounts[match.id]}
+                            className="px-3 py-1 text-xs bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Allocate
+                          </button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,537 @@
+import React, { useState } from 'react';
+import { MapPin, Users, Plus, Pencil, Trash2, UserPlus, UserMinus, Phone, X, Crosshair } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { sendOrQueue } from '../lib/outbox';
+
+export interface Resource {
+  id: string;
+  disaster_id?: string;
+  name: string;
+  location_name: string;
+  type: string;
+  availability_status: string;
+  description?: string;
+  contact_info?: { phone?: string; email?: string };
+  capacity?: number | null;
+  occupancy?: number;
+  distance_km?: number;
+  lat?: number | null;
+  lng?: number | null;
+  updated_at?: string;
+}
+
+export type ResourceChange = 'create' | 'update' | 'delete';
+
+export interface ResourceQuery {
+  // `footprint` searches inside the disaster's affected area instead of a radius
+  mode: 'radius' | 'footprint';
+  radius: number;
+  center: { lat: number; lng: number } | null;
+  type: string;
+  status: string;
+  offset: number;
+}
+
+interface ResourcesPanelProps {
+  disasterId: string;
+  resources: Resource[];
+  canCreate: boolean;
+  canUpdate: boolean;
+  canDelete: boolean;
+  query: ResourceQuery;
+  total: number;
+  pageSize: number;
+  searchCenter: { lat: number; lng: number } | null;
+  hasFootprint: boolean;
+  onQueryChange: (query: ResourceQuery) => void;
+  onChange: (action: ResourceChange, resource: Resource) => void;
+  onError: (message: string) => void;
+}
+
+const RESOURCE_TYPES = ['shelter', 'medical', 'food', 'emergency_services', 'transportation', 'other'];
+const AVAILABILITY_STATUSES = ['available', 'limited', 'full', 'closed'];
+
+const emptyForm = {
+  name: '',
+  type: 'shelter',
+  location_name: '',
+  description: '',
+  capacity: '',
+  availability_status: 'available',
+  phone: '',
+  lat: '',
+  lon: ''
+};
+
+type ResourceForm = typeof emptyForm;
+
+const toForm = (resource: Resource): ResourceForm => ({
+  name: resource.name,
+  type: resource.type,
+  location_name: resource.location_name || '',
+  description: resource.description || '',
+  capacity: resource.capacity != null ? String(resource.capacity) : '',
+  availability_status: resource.availability_status,
+  phone: resource.contact_info?.phone || '',
+  lat: resource.lat != null ? String(resource.lat) : '',
+  lon: resource.lng != null ? String(resource.lng) : ''
+});
+
+const toPayload = (form: ResourceForm) => ({
+  name: form.name,
+  type: form.type,
+  location_name: form.location_name,
+  description: form.description,
+  capacity: form.capacity === '' ? null : Number(form.capacity),
+  availability_status: form.availability_status,
+  contact_info: form.phone ? { phone: form.phone } : {},
+  ...(form.lat && form.lon ? { lat: Number(form.lat), lon: Number(form.lon) } : {})
+});
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'available': return 'bg-green-100 text-green-800';
+    case 'limited': return 'bg-yellow-100 text-yellow-800';
+    default: return 'bg-red-100 text-red-800';
+  }
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500';
+
+function ResourceFormFields({ form, setForm }: { form: ResourceForm; setForm: (form: ResourceForm) => void }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <input
+        type="text"
+        placeholder="Name"
+        value={form.name}
+        onChange={(e) => setForm({ ...form, name: e.target.value })}
+        className={inputClass}
+        required
+      />
+      <select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value })} className={inputClass}>
+        {RESOURCE_TYPES.map(type => (
+          <option key={type} value={type}>{type.replace('_', ' ')}</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="Location name"
+        value={form.location_name}
+        onChange={(e) => setForm({ ...form, location_name: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        type="tel"
+        placeholder="Contact phone"
+        value={form.phone}
+        onChange={(e) => setForm({ ...form, phone: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        type="number"
+        step="any"
+        placeholder="Latitude"
+        value={form.lat}
+        onChange={(e) => setForm({ ...form, lat: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        type="number"
+        step="any"
+        placeholder="Longitude"
+        value={form.lon}
+        onChange={(e) => setForm({ ...form, lon: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        type="number"
+        min={0}
+        placeholder="Capacity"
+        value={form.capacity}
+        onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+        className={inputClass}
+      />
+      <select
+        value={form.availability_status}
+        onChange={(e) => setForm({ ...form, availability_status: e.target.value })}
+        className={inputClass}
+      >
+        {AVAILABILITY_STATUSES.map(status => (
+          <option key={status} value={status}>{status}</option>
+        ))}
+      </select>
+      <textarea
+        placeholder="Description"
+        value={form.description}
+        onChange={(e) => setForm({ ...form, description: e.target.value })}
+        className={`${inputClass} md:col-span-2`}
+        rows={2}
+      />
+    </div>
+  );
+}
+
+export const ResourcesPanel: React.FC<ResourcesPanelProps> = ({
+  disasterId,
+  resources,
+  canCreate,
+  canUpdate,
+  canDelete,
+  query,
+  total,
+  pageSize,
+  searchCenter,
+  hasFootprint,
+  onQueryChange,
+  onChange,
+  onError
+}) => {
+  const [creating, setCreating] = useState(false);
+  const [createForm, setCreateForm] = useState<ResourceForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<ResourceForm>(emptyForm);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const request = async (path: string, init: RequestInit) => {
+    const response = await apiFetch(`/resources/disasters/${disasterId}/resources${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    return parseResponse(response);
+  };
+
+  // Updates made offline go to the outbox (null is returned) and are shown
+  // locally until they sync
+  const requestOrQueue = async (label: string, path: string, method: string, body: Record<string, unknown>) => {
+    const response = await sendOrQueue({
+      label,
+      method,
+      path: `/resources/disasters/${disasterId}/resources${path}`,
+      body
+    });
+    return response && parseResponse(response);
+  };
+
+  const parseResponse = async (response: Response) => {
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+
+    return response.status === 204 ? null : response.json();
+  };
+
+  const createResource = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const resource = await request('', { method: 'POST', body: JSON.stringify(toPayload(createForm)) });
+      onChange('create', resource);
+      setCreateForm(emptyForm);
+      setCreating(false);
+    } catch (error) {
+      onError(`Failed to create resource: ${(error as Error).message}`);
+    }
+  };
+
+  const saveResource = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const original = resources.find(r => r.id === editingId);
+    if (!original) return;
+
+    try {
+      const payload = toPayload(editForm);
+      // The server refuses the edit if the resource changed since it was loaded
+      const resource = await requestOrQueue(`Update ${original.name}`, `/${original.id}`, 'PATCH', {
+        ...payload,
+        expected_updated_at: original.updated_at
+      });
+      onChange('update', resource ?? {
+        ...original,
+        ...payload,
+        ...('lat' in payload ? { lat: payload.lat, lng: payload.lon } : {})
+      });
+      setEditingId(null);
+    } catch (error) {
+      onError(`Failed to update resource: ${(error as Error).message}`);
+    }
+  };
+
+  const deleteResource = async (resource: Resource) => {
+    if (!window.confirm(`Delete ${resource.name}?`)) return;
+
+    try {
+      await request(`/${resource.id}`, { method: 'DELETE' });
+      onChange('delete', resource);
+    } catch (error) {
+      onError(`Failed to delete resource: ${(error as Error).message}`);
+    }
+  };
+
+  const adjustOccupancy = async (resource: Resource, direction: 'check-in' | 'check-out') => {
+    try {
+      setBusyId(resource.id);
+      const updated = await requestOrQueue(
+        `${direction === 'check-in' ? 'Check in at' : 'Check out of'} ${resource.name}`,
+        `/${resource.id}/${direction}`,
+        'POST',
+        { count: 1 }
+      );
+      const occupancy = Math.max((resource.occupancy ?? 0) + (direction === 'check-in' ? 1 : -1), 0);
+      onChange('update', updated ?? { ...resource, occupancy });
+    } catch (error) {
+      onError(`Failed to ${direction.replace('-', ' ')}: ${(error as Error).message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Any filter change starts again from the first page
+  const updateQuery = (changes: Partial<ResourceQuery>) => {
+    onQueryChange({ ...query, offset: 0, ...changes });
+  };
+
+  const insideFootprint = hasFootprint && query.mode === 'footprint';
+  const pageStart = total === 0 ? 0 : query.offset + 1;
+  const pageEnd = Math.min(query.offset + resources.length, total);
+
+  return (
+    <div className="space-y-4">
+      {/* Search controls */}
+      <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          {hasFootprint && (
+            <select
+              value={query.mode}
+              onChange={(e) => updateQuery({ mode: e.target.value as ResourceQuery['mode'] })}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              <option value="radius">Within radius</option>
+              <option value="footprint">Inside affected area</option>
+            </select>
+          )}
+          {!insideFootprint && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Radius</span>
+              <input
+                type="range"
+                min={1}
+                max={50}
+                value={query.radius}
+                onChange={(e) => updateQuery({ radius: Number(e.target.value) })}
+              />
+              <span className="w-12 text-gray-900">{query.radius} km</span>
+            </label>
+          )}
+          <select
+            value={query.type}
+            onChange={(e) => updateQuery({ type: e.target.value })}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">All types</option>
+            {RESOURCE_TYPES.map(type => (
+              <option key={type} value={type}>{type.replace('_', ' ')}</option>
+            ))}
+          </select>
+          <select
+            value={query.status}
+            onChange={(e) => updateQuery({ status: e.target.value })}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">Any availability</option>
+            {AVAILABILITY_STATUSES.map(status => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <div className="flex items-center space-x-1">
+            <Crosshair className="h-3 w-3" />
+            {insideFootprint ? (
+              <span>Resources inside the affected area{searchCenter ? ', nearest first' : ''}</span>
+            ) : searchCenter ? (
+              <span>
+                Centred on {query.center ? 'selected map point' : 'disaster location'} ({searchCenter.lat.toFixed(4)}, {searchCenter.lng.toFixed(4)})
+              </span>
+            ) : (
+              <span>Disaster has no location; showing all resources</span>
+            )}
+            {query.center && (
+              <button onClick={() => updateQuery({ center: null })} className="ml-2 text-blue-600 hover:underline">
+                Reset to disaster
+              </button>
+            )}
+          </div>
+          <span className="text-gray-500">Click the map to search around another point</span>
+        </div>
+      </div>
+
+      {canCreate && (
+        creating ? (
+          <form onSubmit={createResource} className="bg-gray-50 p-4 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-900">Add Resource</h3>
+              <button type="button" onClick={() => setCreating(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <ResourceFormFields form={createForm} setForm={setCreateForm} />
+            <button type="submit" className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors">
+              Add Resource
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setCreating(true)}
+            className="flex items-center space-x-2 px-3 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Resource</span>
+          </button>
+        )
+      )}
+
+      {resources.length === 0 ? (
+        <div className="text-center py-8">
+          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No resources found for this disaster</p>
+        </div>
+      ) : (
+        resources.map((resource) => (
+          editingId === resource.id ? (
+            <form key={resource.id} onSubmit={saveResource} className="border rounded-lg p-4 space-y-3">
+              <ResourceFormFields form={editForm} setForm={setEditForm} />
+              <div className="flex space-x-2">
+                <button type="submit" className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors">
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div key={resource.id} className="border rounded-lg p-4">
+              <div className="flex items-start justify-between mb-2">
+                <h3 className="font-medium text-gray-900">{resource.name}</h3>
+                <div className="flex items-center space-x-2">
+                  <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(resource.availability_status)}`}>
+                    {resource.availability_status}
+                  </span>
+                  {canUpdate && (
+                    <button
+                      onClick={() => {
+                        setEditingId(resource.id);
+                        setEditForm(toForm(resource));
+                      }}
+                      className="p-1 text-gray-500 hover:text-gray-900"
+                      title="Edit resource"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={() => deleteResource(resource)}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      title="Delete resource"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center text-sm text-gray-600 mb-1">
+                <MapPin className="h-3 w-3 mr-1" />
+                {resource.location_name}
+                {resource.distance_km != null && (
+                  <span className="ml-2 text-gray-500">
+                    ({resource.distance_km.toFixed(1)} km away)
+                  </span>
+                )}
+              </div>
+              <div className="text-sm text-gray-600">
+                Type: {resource.type}
+              </div>
+              {resource.description && (
+                <p className="text-sm text-gray-700 mt-1">{resource.description}</p>
+              )}
+              {resource.contact_info?.phone && (
+                <div className="flex items-center text-sm text-gray-600 mt-1">
+                  <Phone className="h-3 w-3 mr-1" />
+                  {resource.contact_info.phone}
+                </div>
+              )}
+
+              {resource.capacity != null && resource.capacity > 0 && (
+                <div className="mt-3">
+                  <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                    <span>Occupancy</span>
+                    <span>{resource.occupancy ?? 0} / {resource.capacity}</span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-2 ${
+                        resource.availability_status === 'available' ? 'bg-green-500' :
+                        resource.availability_status === 'limited' ? 'bg-yellow-500' :
+                        'bg-red-500'
+                      }`}
+                      style={{ width: `${Math.min(100, ((resource.occupancy ?? 0) / resource.capacity) * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {canUpdate && (
+                <div className="flex space-x-2 mt-3">
+                  <button
+                    onClick={() => adjustOccupancy(resource, 'check-in')}
+                    disabled={busyId === resource.id || ['full', 'closed'].includes(resource.availability_status)}
+                    className="flex items-center space-x-1 px-3 py-1 text-xs bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <UserPlus className="h-3 w-3" />
+                    <span>Check in</span>
+                  </button>
+                  <button
+                    onClick={() => adjustOccupancy(resource, 'check-out')}
+                    disabled={busyId === resource.id || !resource.occupancy}
+                    className="flex items-center space-x-1 px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    <UserMinus className="h-3 w-3" />
+                    <span>Check out</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          )
+        ))
+      )}
+
+      {total > pageSize && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>Showing {pageStart}-{pageEnd} of {total}</span>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onQueryChange({ ...query, offset: Math.max(0, query.offset - pageSize) })}
+              disabled={query.offset === 0}
+              className="px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => onQueryChange({ ...query, offset: query.offset + pageSize })}
+              disabled={query.offset + pageSize >= total}
+              className="px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { MessageCircle, AlertTriangle, MapPin, Clock, User, ExternalLink } from 'lucide-react';
 
+// One rule that added or removed triage points
+export interface TriageReason {
+  rule: string;
+  points: number;
+  detail: string;
+}
+
 interface SocialMediaReport {
   id: string;
   user: string;
   content: string;
   timestamp: string;
   priority: string;
+  // 0-100 from the server's triage engine; missing on posts stored before it
+  triage_score?: number | null;
+  triage_reasons?: TriageReason[];
   location: string;
   keywords: string[];
   platform?: string;
@@ -16,22 +26,30 @@ interface SocialMediaReport {
     shares: number;
     replies: number;
   };
+  url?: string | null;
 }
 
 interface SocialMediaFeedProps {
   reports: SocialMediaReport[];
   onReportClick?: (report: SocialMediaReport) => void;
   loading?: boolean;
+  // Posts pushed by the server since the feed was loaded
+  newReportIds?: Set<string>;
+  onShowNew?: () => void;
 }
 
 export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({ 
   reports, 
   onReportClick,
-  loading = false 
+  loading = false,
+  newReportIds,
+  onShowNew
 }) => {
+  const listRef = useRef<HTMLDivElement>(null);
   const [filteredReports, setFilteredReports] = useState<SocialMediaReport[]>(reports);
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
   const [keywordFilter, setKeywordFilter] = useState<string>('');
+  const [sortBy, setSortBy] = useState<'newest' | 'triage'>('newest');
 
   useEffect(() => {
     let filtered = reports;
@@ -51,8 +69,15 @@ export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({
       );
     }
 
+    if (sortBy === 'triage') {
+      filtered = [...filtered].sort((a, b) =>
+        (b.triage_score ?? -1) - (a.triage_score ?? -1) ||
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+    }
+
     setFilteredReports(filtered);
-  }, [reports, priorityFilter, keywordFilter]);
+  }, [reports, priorityFilter, keywordFilter, sortBy]);
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -72,6 +97,15 @@ export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({
     }
   };
 
+  // Tooltip for the priority badge: why the post scored what it did
+  const describeTriage = (report: SocialMediaReport) => {
+    if (report.triage_score == null) return undefined;
+
+    const reasons = (report.triage_reasons || [])
+      .map(reason => `${reason.points > 0 ? '+' : ''}${reason.points}  ${reason.detail}`);
+    return [`Triage score ${report.triage_score}/100`, ...reasons].join('\n');
+  };
+
   const formatTimeAgo = (timestamp: string) => {
     const now = new Date();
     const time = new Date(timestamp);
@@ -119,6 +153,17 @@ export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({
               {filteredReports.length} reports
             </span>
           </div>
+          {newReportIds && newReportIds.size > 0 && (
+            <button
+              onClick={() => {
+                listRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+                onShowNew?.();
+              }}
+              className="bg-blue-600 text-white px-3 py-1 text-xs rounded-full hover:bg-blue-700 transition-colors"
+            >
+              {newReportIds.size} new {newReportIds.size === 1 ? 'post' : 'posts'}
+            </button>
+          )}
         </div>
 
         {/* Filters */}
@@ -138,6 +183,18 @@ export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({
             </select>
           </div>
           
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">Sort:</label>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as 'newest' | 'triage')}
+              className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="newest">Newest</option>
+              <option value="triage">Triage score</option>
+            </select>
+          </div>
+
           <div className="flex items-center space-x-2">
             <label className="text-sm font-medium text-gray-700">Search:</label>
             <input
@@ -151,7 +208,7 @@ export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({
         </div>
       </div>
 
-      <div className="max-h-96 overflow-y-auto">
+      <div ref={listRef} className="max-h-96 overflow-y-auto">
         {filteredReports.length === 0 ? (
           <div className="p-8 text-center">
             <MessageCircle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -169,7 +226,9 @@ export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({
               <div
                 key={report.id}
                 onClick={() => onReportClick?.(report)}
-                className="p-4 hover:bg-gray-50 cursor-pointer transition-colors"
+                className={`p-4 hover:bg-gray-50 cursor-pointer transition-colors ${
+                  newReportIds?.has(report.id) ? 'bg-blue-50 border-l-4 border-blue-400' : ''
+                }`}
               >
                 <div className="flex items-start space-x-3">
                   <div className="flex-shrink-0">
@@ -184,8 +243,12 @@ export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({
                       {report.verified && (
                         <span className="text-blue-500 text-xs">✓</span>
                       )}
-                      <span className={`px-2 py-1 text-xs rounded-full border ${getPriorityColor(report.priority)}`}>
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full border ${getPriorityColor(report.priority)}`}
+                        title={describeTriage(report)}
+                      >
                         {getPriorityIcon(report.priority)} {report.priority}
+                        {report.triage_score != null && <span className="ml-1 font-semibold">{report.triage_score}</span>}
                       </span>
                       <span className="text-xs text-gray-500 flex items-center">
                         <Clock className="h-3 w-3 mr-1" />
@@ -203,12 +266,23 @@ export const SocialMediaFeed: React.FC<SocialMediaFeedProps> = ({
                           <MapPin className="h-3 w-3" />
                           <span>{report.location}</span>
                         </div>
-                        {report.platform && (
+                        {report.platform && (report.url ? (
+                          <a
+                            href={report.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="flex items-center space-x-1 hover:text-blue-600"
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                            <span>{report.platform}</span>
+                          </a>
+                        ) : (
                           <div className="flex items-center space-x-1">
                             <ExternalLink className="h-3 w-3" />
                             <span>{report.platform}</span>
                           </div>
-                        )}
+                        ))}
                       </div>
                       
                       {report.engagement && (
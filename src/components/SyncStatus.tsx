@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Wifi, WifiOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { OutboxEntry, discardEntry, listOutbox, onOutboxChange, retryEntry, syncOutbox } from '../lib/outbox';
+
+// navigator.onLine is only a hint, so waiting writes are also retried on a timer
+const SYNC_INTERVAL_MS = 30000;
+
+// Header indicator for the connection and the offline outbox. Writes rejected
+// on replay are listed with their reason; conflicts can overwrite the
+// server's copy or be discarded.
+export const SyncStatus: React.FC = () => {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [open, setOpen] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = onOutboxChange(setEntries);
+    listOutbox().then(setEntries);
+    syncOutbox();
+
+    const handleOnline = () => {
+      setOnline(true);
+      syncOutbox();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const timer = setInterval(syncOutbox, SYNC_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(timer);
+    };
+  }, []);
+
+  const syncNow = async () => {
+    setSyncing(true);
+    await syncOutbox();
+    setSyncing(false);
+  };
+
+  const pending = entries.filter(entry => entry.status === 'pending').length;
+  const problems = entries.length - pending;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-2 text-sm text-gray-600 px-2 py-1 rounded-md hover:bg-gray-100"
+        title="Connection and offline changes"
+      >
+        {online ? <Wifi className="h-4 w-4 text-green-600" /> : <WifiOff className="h-4 w-4 text-orange-600" />}
+        <span>{online ? 'Online' : 'Offline'}</span>
+        {pending > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 text-xs">{pending} pending</span>
+        )}
+        {problems > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 text-xs">{problems} need attention</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border rounded-lg shadow-lg z-[1000] p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900">Offline changes</h3>
+            <button
+              onClick={syncNow}
+              disabled={syncing || entries.length === 0}
+              className="flex items-center space-x-1 px-2 py-1 text-xs rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-3 w-3 ${syncing ? 'animate-spin' : ''}`} />
+              <span>Sync now</span>
+            </button>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500">Everything is synced.</p>
+          ) : (
+            <ul className="space-y-2 max-h-80 overflow-y-auto">
+              {entries.map(entry => (
+                <li key={entry.id} className="border rounded-md p-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">{entry.label}</span>
+                    <span className={`text-xs ${entry.status === 'pending' ? 'text-orange-700' : 'text-red-700'}`}>
+                      {entry.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">Saved {new Date(entry.created_at).toLocaleString()}</div>
+                  {entry.error && (
+                    <div className="flex items-start space-x-1 mt-1 text-xs text-red-700">
+                      <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                      <span>{entry.error}</span>
+                    </div>
+                  )}
+                  {entry.current?.updated_at && (
+                    <div className="text-xs text-gray-500">
+                      Changed on the server {new Date(entry.current.updated_at).toLocaleString()}
+                    </div>
+                  )}
+                  {entry.status !== 'pending' && (
+                    <div className="flex space-x-2 mt-2">
+                      <button
+                        onClick={() => retryEntry(entry.id, { overwrite: entry.status === 'conflict' })}
+                        className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700"
+                        title={entry.status === 'conflict' ? "Replace the server's copy with this change" : 'Send again'}
+                      >
+                        {entry.status === 'conflict' ? 'Overwrite' : 'Retry'}
+                      </button>
+                      <button
+                        onClick={() => discardEntry(entry.id)}
+                        className="px-2 py-1 text-xs rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle, XCircle, MinusCircle, X } from 'lucide-react';
+
+export interface VerificationCheck {
+  name: string;
+  status: 'pass' | 'warn' | 'fail' | 'skipped';
+  score: number | null;
+  weight: number;
+  detail: string;
+}
+
+export interface Verification {
+  status: string;
+  score: number | null;
+  analysis: {
+    summary: string;
+    checks?: VerificationCheck[];
+  } | null;
+}
+
+const CHECK_LABELS: Record<string, string> = {
+  capture_time: 'Capture time',
+  capture_location: 'Capture location',
+  reuse: 'Earlier use',
+  error_level: 'Error-level analysis',
+  content: 'Image content'
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  authentic: 'bg-green-100 text-green-800',
+  suspicious: 'bg-yellow-100 text-yellow-800',
+  manipulated: 'bg-red-100 text-red-800'
+};
+
+const CheckIcon: React.FC<{ status: VerificationCheck['status'] }> = ({ status }) => {
+  if (status === 'pass') return <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />;
+  if (status === 'warn') return <AlertTriangle className="h-4 w-4 text-yellow-600 flex-shrink-0" />;
+  if (status === 'fail') return <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />;
+  return <MinusCircle className="h-4 w-4 text-gray-400 flex-shrink-0" />;
+};
+
+// Outcome of an image verification with the reason behind each check, so a
+// reporter sees why an image was flagged rather than only a verdict
+export const VerificationResult: React.FC<{ verification: Verification; onClose?: () => void }> = ({ verification, onClose }) => (
+  <div className="border rounded-lg p-4 mb-6 bg-white">
+    <div className="flex items-center justify-between mb-2">
+      <div className="flex items-center space-x-2">
+        <h3 className="font-medium text-gray-900">Image verification</h3>
+        <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_COLORS[verification.status] || 'bg-gray-100 text-gray-800'}`}>
+          {verification.status}
+        </span>
+        {verification.score !== null && (
+          <span className="text-xs text-gray-500">score {verification.score.toFixed(2)}</span>
+        )}
+      </div>
+      {onClose && (
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" title="Dismiss">
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+
+    {verification.analysis?.checks?.length ? (
+      <ul className="space-y-1">
+        {verification.analysis.checks.map(check => (
+          <li key={check.name} className="flex items-start space-x-2 text-sm">
+            <CheckIcon status={check.status} />
+            <span className="font-medium text-gray-700 w-40 flex-shrink-0">{CHECK_LABELS[check.name] || check.name}</span>
+            <span className={check.status === 'skipped' ? 'text-gray-400' : 'text-gray-600'}>{check.detail}</span>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-sm text-gray-600">{verification.analysis?.summary}</p>
+    )}
+  </div>
+);
@@ -0,0 +1,774 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { HeartHandshake, Plus, X, Check, Clock, MapPin, Users, UserPlus, RefreshCw } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { Resource } from './ResourcesPanel';
+
+// Mirrors VOLUNTEER_SKILLS on the server
+const SKILLS = [
+  'first_aid', 'medical', 'search_and_rescue', 'driving', 'heavy_vehicles', 'boat_operation',
+  'cooking', 'food_distribution', 'logistics', 'shelter_management', 'childcare', 'elder_care',
+  'counselling', 'translation', 'construction', 'communications', 'animal_care', 'general_labour'
+];
+
+interface AvailabilityWindow {
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface Volunteer {
+  id: string;
+  display_name: string;
+  phone?: string | null;
+  skills: string[];
+  availability: AvailabilityWindow[];
+  location_name?: string | null;
+  max_distance_km?: number | null;
+  active: boolean;
+  lat?: number | null;
+  lng?: number | null;
+}
+
+interface TaskAssignment {
+  id: string;
+  volunteer_id: string;
+  user_id: string | null;
+  display_name: string | null;
+  skills: string[];
+  status: 'offered' | 'accepted' | 'declined' | 'completed';
+}
+
+export interface VolunteerTask {
+  id: string;
+  disaster_id: string;
+  resource_id: string | null;
+  title: string;
+  description?: string | null;
+  required_skills: string[];
+  headcount: number;
+  filled_count: number;
+  location_name?: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  status: 'open' | 'filled' | 'completed' | 'cancelled';
+  assignments: TaskAssignment[];
+}
+
+interface MyAssignment {
+  id: string;
+  status: 'offered' | 'accepted';
+  task: Pick<VolunteerTask, 'id' | 'disaster_id' | 'title' | 'location_name' | 'starts_at' | 'ends_at' | 'status'>;
+}
+
+interface Suggestion {
+  volunteer_id: string;
+  display_name: string;
+  matched_skills: string[];
+  skill_match: number;
+  available: boolean | null;
+  distance_km: number | null;
+  location_name: string | null;
+}
+
+interface VolunteersPanelProps {
+  disasterId: string;
+  resources: Resource[];
+  canCreate: boolean;
+  canUpdate: boolean;
+  // Bumped when a task changes elsewhere, so the panel reloads
+  refreshKey: number;
+  onError: (message: string) => void;
+}
+
+const emptyProfile = { display_name: '', phone: '', skills: [] as string[], availability: [] as AvailabilityWindow[], location_name: '', lat: '', lon: '', max_distance_km: '' };
+const emptyTask = { title: '', description: '', required_skills: [] as string[], headcount: '1', resource_id: '', location_name: '', starts_at: '', ends_at: '' };
+
+type ProfileForm = typeof emptyProfile;
+type TaskForm = typeof emptyTask;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500';
+
+const STATUS_COLORS: Record<string, string> = {
+  open: 'bg-green-100 text-green-800',
+  filled: 'bg-blue-100 text-blue-800',
+  completed: 'bg-gray-100 text-gray-700',
+  cancelled: 'bg-red-100 text-red-800',
+  offered: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-blue-100 text-blue-800',
+  declined: 'bg-gray-100 text-gray-500'
+};
+
+const skillLabel = (skill: string) => skill.replace(/_/g, ' ');
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const formatWhen = (startsAt: string | null, endsAt: string | null) => {
+  if (!startsAt) return 'Any time';
+  const start = new Date(startsAt).toLocaleString();
+  return endsAt ? `${start} – ${new Date(endsAt).toLocaleTimeString()}` : start;
+};
+
+const toProfileForm = (volunteer: Volunteer): ProfileForm => ({
+  display_name: volunteer.display_name,
+  phone: volunteer.phone || '',
+  skills: volunteer.skills,
+  availability: volunteer.availability.map(window => ({ starts_at: toLocalInput(window.starts_at), ends_at: toLocalInput(window.ends_at) })),
+  location_name: volunteer.location_name || '',
+  lat: volunteer.lat != null ? String(volunteer.lat) : '',
+  lon: volunteer.lng != null ? String(volunteer.lng) : '',
+  max_distance_km: volunteer.max_distance_km != null ? String(volunteer.max_distance_km) : ''
+});
+
+function SkillPicker({ selected, onChange }: { selected: string[]; onChange: (skills: string[]) => void }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {SKILLS.map(skill => (
+        <button
+          key={skill}
+          type="button"
+          onClick={() => onChange(selected.includes(skill) ? selected.filter(s => s !== skill) : [...selected, skill])}
+          className={`px-2 py-0.5 rounded-full border text-xs ${
+            selected.includes(skill) ? 'bg-red-50 border-red-300 text-red-700' : 'border-gray-300 text-gray-600'
+          }`}
+        >
+          {skillLabel(skill)}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Volunteer registry and task dispatch for a disaster. Everyone can register
+// as a volunteer and answer the tasks offered to them; coordinators create
+// tasks, get volunteers suggested by skills and distance and offer them the task.
+export const VolunteersPanel: React.FC<VolunteersPanelProps> = ({
+  disasterId,
+  resources,
+  canCreate,
+  canUpdate,
+  refreshKey,
+  onError
+}) => {
+  const [volunteer, setVolunteer] = useState<Volunteer | null>(null);
+  const [myAssignments, setMyAssignments] = useState<MyAssignment[]>([]);
+  const [tasks, setTasks] = useState<VolunteerTask[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingProfile, setEditingProfile] = useState(false);
+  const [profileForm, setProfileForm] = useState<ProfileForm>(emptyProfile);
+  const [creatingTask, setCreatingTask] = useState(false);
+  const [taskForm, setTaskForm] = useState<TaskForm>(emptyTask);
+  const [suggestingFor, setSuggestingFor] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [chosen, setChosen] = useState<Set<string>>(new Set());
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await apiFetch(`/volunteers${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`);
+    return data;
+  };
+
+  const loadProfile = useCallback(async () => {
+    const response = await apiFetch('/volunteers/me');
+    if (response.status === 404) {
+      setVolunteer(null);
+      setMyAssignments([]);
+      return;
+    }
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load your volunteer profile');
+    setVolunteer(data.volunteer);
+    setMyAssignments(data.assignments);
+  }, []);
+
+  const loadTasks = useCallback(async () => {
+    const response = await apiFetch(`/volunteers/disasters/${disasterId}/tasks`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load tasks');
+    setTasks(data.tasks);
+  }, [disasterId]);
+
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true);
+      await Promise.all([loadProfile(), loadTasks()]);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [loadProfile, loadTasks, onError]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const saved = await request('/me', {
+        method: 'PUT',
+        body: JSON.stringify({
+          display_name: profileForm.display_name,
+          phone: profileForm.phone,
+          skills: profileForm.skills,
+          availability: profileForm.availability
+            .filter(window => window.starts_at && window.ends_at)
+            .map(window => ({ starts_at: fromLocalInput(window.starts_at), ends_at: fromLocalInput(window.ends_at) })),
+          location_name: profileForm.location_name,
+          max_distance_km: profileForm.max_distance_km === '' ? null : Number(profileForm.max_distance_km),
+          ...(profileForm.lat && profileForm.lon ? { lat: Number(profileForm.lat), lon: Number(profileForm.lon) } : {})
+        })
+      });
+      setVolunteer(saved);
+      setEditingProfile(false);
+    } catch (error) {
+      onError(`Failed to save your volunteer profile: ${(error as Error).message}`);
+    }
+  };
+
+  const setActive = async (active: boolean) => {
+    try {
+      setVolunteer(await request('/me', { method: 'PUT', body: JSON.stringify({ active }) }));
+    } catch (error) {
+      onError((error as Error).message);
+    }
+  };
+
+  const fillMyLocation = () => {
+    navigator.geolocation?.getCurrentPosition(
+      position => setProfileForm(form => ({
+        ...form,
+        lat: position.coords.latitude.toFixed(5),
+        lon: position.coords.longitude.toFixed(5)
+      })),
+      () => onError('Your location is not available')
+    );
+  };
+
+  const createTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await request(`/disasters/${disasterId}/tasks`, {
+        method: 'POST',
+        body: JSON.stringify({
+          title: taskForm.title,
+          description: taskForm.description,
+          required_skills: taskForm.required_skills,
+          headcount: Number(taskForm.headcount),
+          resource_id: taskForm.resource_id || null,
+          location_name: taskForm.location_name || null,
+          starts_at: fromLocalInput(taskForm.starts_at),
+          ends_at: fromLocalInput(taskForm.ends_at)
+        })
+      });
+      setTaskForm(emptyTask);
+      setCreatingTask(false);
+      await loadTasks();
+    } catch (error) {
+      onError(`Failed to create task: ${(error as Error).message}`);
+    }
+  };
+
+  const setTaskStatus = async (task: VolunteerTask, status: 'open' | 'completed' | 'cancelled') => {
+    try {
+      setBusyId(task.id);
+      await request(`/disasters/${disasterId}/tasks/${task.id}`, { method: 'PATCH', body: JSON.stringify({ status }) });
+      await loadTasks();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const respond = async (taskDisasterId: string, taskId: string, response: 'accept' | 'decline' | 'complete') => {
+    try {
+      setBusyId(taskId);
+      await request(`/disasters/${taskDisasterId}/tasks/${taskId}/${response}`, { method: 'POST' });
+      await reload();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const showSuggestions = async (task: VolunteerTask) => {
+    if (suggestingFor === task.id) {
+      setSuggestingFor(null);
+      return;
+    }
+    try {
+      setBusyId(task.id);
+      const data = await request(`/disasters/${disasterId}/tasks/${task.id}/suggestions`);
+      setSuggestions(data.suggestions);
+      setChosen(new Set());
+      setSuggestingFor(task.id);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const offerTask = async (task: VolunteerTask) => {
+    try {
+      setBusyId(task.id);
+      await request(`/disasters/${disasterId}/tasks/${task.id}/offers`, {
+        method: 'POST',
+        body: JSON.stringify({ volunteer_ids: [...chosen] })
+      });
+      setSuggestingFor(null);
+      await loadTasks();
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const resourceName = (resourceId: string | null) => resources.find(resource => resource.id === resourceId)?.name;
+  const myAssignmentOn = (task: VolunteerTask) => task.assignments.find(assignment => assignment.volunteer_id === volunteer?.id);
+
+  return (
+    <div className="space-y-6">
+      {/* The signed-in user as a volunteer */}
+      <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-gray-900 flex items-center space-x-2">
+            <HeartHandshake className="h-4 w-4 text-red-600" />
+            <span>{volunteer ? `Volunteering as ${volunteer.display_name}` : 'Volunteer with us'}</span>
+          </h3>
+          <div className="flex items-center space-x-3">
+            {loading && <RefreshCw className="h-4 w-4 text-gray-400 animate-spin" />}
+            {volunteer && !editingProfile && (
+              <>
+                <label className="flex items-center space-x-1 text-sm text-gray-600">
+                  <input type="checkbox" checked={volunteer.active} onChange={(e) => setActive(e.target.checked)} />
+                  <span>Available for tasks</span>
+                </label>
+                <button
+                  onClick={() => { setProfileForm(toProfileForm(volunteer)); setEditingProfile(true); }}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Edit profile
+                </button>
+              </>
+            )}
+            {!volunteer && !editingProfile && (
+              <button
+                onClick={() => { setProfileForm(emptyProfile); setEditingProfile(true); }}
+                className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+              >
+                <UserPlus className="h-4 w-4" />
+                <span>Register</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {volunteer && !editingProfile && (
+          <div className="flex flex-wrap gap-1">
+            {volunteer.skills.map(skill => (
+              <span key={skill} className="px-2 py-0.5 bg-white border text-gray-600 text-xs rounded-full">{skillLabel(skill)}</span>
+            ))}
+            {volunteer.skills.length === 0 && <span className="text-xs text-gray-500">No skills listed</span>}
+          </div>
+        )}
+
+        {editingProfile && (
+          <form onSubmit={saveProfile} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                placeholder="Name shown to coordinators"
+                value={profileForm.display_name}
+                onChange={(e) => setProfileForm({ ...profileForm, display_name: e.target.value })}
+                className={inputClass}
+                required
+              />
+              <input
+                type="tel"
+                placeholder="Phone"
+                value={profileForm.phone}
+                onChange={(e) => setProfileForm({ ...profileForm, phone: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                placeholder="Home area"
+                value={profileForm.location_name}
+                onChange={(e) => setProfileForm({ ...profileForm, location_name: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={1}
+                placeholder="Will travel up to (km)"
+                value={profileForm.max_distance_km}
+                onChange={(e) => setProfileForm({ ...profileForm, max_distance_km: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                step="any"
+                placeholder="Home latitude"
+                value={profileForm.lat}
+                onChange={(e) => setProfileForm({ ...profileForm, lat: e.target.value })}
+                className={inputClass}
+              />
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  step="any"
+                  placeholder="Home longitude"
+                  value={profileForm.lon}
+                  onChange={(e) => setProfileForm({ ...profileForm, lon: e.target.value })}
+                  className={inputClass}
+                />
+                <button type="button" onClick={fillMyLocation} className="px-3 text-sm border border-gray-300 rounded-md hover:bg-white" title="Use my location">
+                  <MapPin className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Skills</p>
+              <SkillPicker selected={profileForm.skills} onChange={(skills) => setProfileForm({ ...profileForm, skills })} />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">When you are available</p>
+              {profileForm.availability.map((window, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="datetime-local"
+                    value={window.starts_at}
+                    onChange={(e) => setProfileForm({
+                      ...profileForm,
+                      availability: profileForm.availability.map((w, i) => (i === index ? { ...w, starts_at: e.target.value } : w))
+                    })}
+                    className={inputClass}
+                  />
+                  <span className="text-gray-400">to</span>
+                  <input
+                    type="datetime-local"
+                    value={window.ends_at}
+                    onChange={(e) => setProfileForm({
+                      ...profileForm,
+                      availability: profileForm.availability.map((w, i) => (i === index ? { ...w, ends_at: e.target.value } : w))
+                    })}
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setProfileForm({ ...profileForm, availability: profileForm.availability.filter((_, i) => i !== index) })}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setProfileForm({ ...profileForm, availability: [...profileForm.availability, { starts_at: '', ends_at: '' }] })}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                + Add a time window
+              </button>
+            </div>
+
+            <div className="flex space-x-2">
+              <button type="submit" className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700">Save</button>
+              <button type="button" onClick={() => setEditingProfile(false)} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {myAssignments.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Your tasks</p>
+            {myAssignments.map(assignment => (
+              <div key={assignment.id} className="flex items-center justify-between bg-white border rounded-md p-2 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{assignment.task.title}</span>
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${STATUS_COLORS[assignment.status]}`}>{assignment.status}</span>
+                  {assignment.task.disaster_id !== disasterId && <span className="ml-2 text-xs text-gray-500">other disaster</span>}
+                  <div className="text-xs text-gray-500">{formatWhen(assignment.task.starts_at, assignment.task.ends_at)}</div>
+                </div>
+                <div className="flex space-x-2">
+                  {assignment.status === 'offered' && (
+                    <button
+                      onClick={() => respond(assignment.task.disaster_id, assignment.task.id, 'accept')}
+                      disabled={busyId === assignment.task.id}
+                      className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                  )}
+                  {assignment.status === 'accepted' && (
+                    <button
+                      onClick={() => respond(assignment.task.disaster_id, assignment.task.id, 'complete')}
+                      disabled={busyId === assignment.task.id}
+                      className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Done
+                    </button>
+                  )}
+                  <button
+                    onClick={() => respond(assignment.task.disaster_id, assignment.task.id, 'decline')}
+                    disabled={busyId === assignment.task.id}
+                    className="px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Tasks on this disaster */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-gray-900">Tasks</h3>
+          {canCreate && !creatingTask && (
+            <button
+              onClick={() => setCreatingTask(true)}
+              className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New task</span>
+            </button>
+          )}
+        </div>
+
+        {creatingTask && (
+          <form onSubmit={createTask} className="bg-gray-50 p-4 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                placeholder="What needs doing, e.g. Staff food distribution"
+                value={taskForm.title}
+                onChange={(e) => setTaskForm({ ...taskForm, title: e.target.value })}
+                className={`${inputClass} md:col-span-2`}
+                required
+              />
+              <select
+                value={taskForm.resource_id}
+                onChange={(e) => setTaskForm({ ...taskForm, resource_id: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">No resource</option>
+                {resources.map(resource => (
+                  <option key={resource.id} value={resource.id}>{resource.name}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                placeholder="People needed"
+                value={taskForm.headcount}
+                onChange={(e) => setTaskForm({ ...taskForm, headcount: e.target.value })}
+                className={inputClass}
+                required
+              />
+              <input
+                type="datetime-local"
+                value={taskForm.starts_at}
+                onChange={(e) => setTaskForm({ ...taskForm, starts_at: e.target.value })}
+                className={inputClass}
+                title="Starts"
+              />
+              <input
+                type="datetime-local"
+                value={taskForm.ends_at}
+                onChange={(e) => setTaskForm({ ...taskForm, ends_at: e.target.value })}
+                className={inputClass}
+                title="Ends"
+              />
+              <input
+                type="text"
+                placeholder="Where (defaults to the resource or disaster)"
+                value={taskForm.location_name}
+                onChange={(e) => setTaskForm({ ...taskForm, location_name: e.target.value })}
+                className={`${inputClass} md:col-span-2`}
+              />
+              <textarea
+                placeholder="Details"
+                value={taskForm.description}
+                onChange={(e) => setTaskForm({ ...taskForm, description: e.target.value })}
+                className={`${inputClass} md:col-span-2`}
+                rows={2}
+              />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Required skills</p>
+              <SkillPicker selected={taskForm.required_skills} onChange={(required_skills) => setTaskForm({ ...taskForm, required_skills })} />
+            </div>
+            <div className="flex space-x-2">
+              <button type="submit" className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700">Create task</button>
+              <button type="button" onClick={() => setCreatingTask(false)} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {tasks.length === 0 && !loading && (
+          <div className="text-center py-8">
+            <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No volunteer tasks yet</p>
+          </div>
+        )}
+
+        {tasks.map(task => {
+          const mine = myAssignmentOn(task);
+          const closed = task.status === 'completed' || task.status === 'cancelled';
+
+          return (
+            <div key={task.id} className="border rounded-lg p-4 space-y-2">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h4 className="font-medium text-gray-900">{task.title}</h4>
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_COLORS[task.status]}`}>{task.status}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mt-1">
+                    <span className="flex items-center"><Clock className="h-3 w-3 mr-1" />{formatWhen(task.starts_at, task.ends_at)}</span>
+                    {(task.location_name || resourceName(task.resource_id)) && (
+                      <span className="flex items-center"><MapPin className="h-3 w-3 mr-1" />{task.location_name || resourceName(task.resource_id)}</span>
+                    )}
+                    <span className="flex items-center"><Users className="h-3 w-3 mr-1" />{task.filled_count}/{task.headcount}</span>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  {volunteer && !closed && mine?.status === 'offered' && task.status === 'open' && (
+                    <button
+                      onClick={() => respond(task.disaster_id, task.id, 'accept')}
+                      disabled={busyId === task.id}
+                      className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                  )}
+                  {canUpdate && !closed && (
+                    <>
+                      <button
+                        onClick={() => showSuggestions(task)}
+                        disabled={busyId === task.id}
+                        className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {suggestingFor === task.id ? 'Hide suggestions' : 'Find volunteers'}
+                      </button>
+                      <button
+                        onClick={() => setTaskStatus(task, 'completed')}
+                        disabled={busyId === task.id}
+                        className="p-1 text-gray-500 hover:text-green-700"
+                        title="Mark completed"
+                      >
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => window.confirm(`Cancel ${task.title}?`) && setTaskStatus(task, 'cancelled')}
+                        disabled={busyId === task.id}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title="Cancel task"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                  {canUpdate && closed && (
+                    <button
+                      onClick={() => setTaskStatus(task, 'open')}
+                      disabled={busyId === task.id}
+                      className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Reopen
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {task.description && <p className="text-sm text-gray-700">{task.description}</p>}
+
+              {task.required_skills.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {task.required_skills.map(skill => (
+                    <span key={skill} className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full">{skillLabel(skill)}</span>
+                  ))}
+                </div>
+              )}
+
+              {task.assignments.length > 0 && (
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {task.assignments.map(assignment => (
+                    <span key={assignment.id} className={`px-2 py-0.5 rounded-full ${STATUS_COLORS[assignment.status]}`}>
+                      {assignment.display_name || 'Volunteer'} · {assignment.status}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {suggestingFor === task.id && (
+                <div className="border-t pt-2 space-y-2">
+                  {suggestions.length === 0 ? (
+                    <p className="text-sm text-gray-500">No matching volunteers nearby</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {suggestions.map(suggestion => (
+                        <li key={suggestion.volunteer_id} className="flex items-center space-x-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={chosen.has(suggestion.volunteer_id)}
+                            onChange={() => setChosen(prev => {
+                              const next = new Set(prev);
+                              if (next.has(suggestion.volunteer_id)) next.delete(suggestion.volunteer_id);
+                              else next.add(suggestion.volunteer_id);
+                              return next;
+                            })}
+                          />
+                          <span className="font-medium text-gray-900">{suggestion.display_name}</span>
+                          <span className="text-xs text-gray-500">
+                            {[
+                              task.required_skills.length > 0 ? `${Math.round(suggestion.skill_match * 100)}% skills` : null,
+                              suggestion.distance_km != null ? `${suggestion.distance_km.toFixed(1)} km` : suggestion.location_name,
+                              suggestion.available ? 'available' : null
+                            ].filter(Boolean).join(' · ')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {chosen.size > 0 && (
+                    <button
+                      onClick={() => offerTask(task)}
+                      disabled={busyId === task.id}
+                      className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Offer to {chosen.size} {chosen.size === 1 ? 'volunteer' : 'volunteers'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { AuthUser } from '../lib/api';
+
+export interface RegisterInput {
+  username: string;
+  email?: string;
+  password: string;
+}
+
+export interface AuthContextValue {
+  user: AuthUser | null;
+  login: (username: string, password: string) => Promise<void>;
+  register: (input: RegisterInput) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
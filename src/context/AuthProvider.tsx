@@ -0,0 +1,53 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AuthContext, RegisterInput } from './AuthContext';
+import { API_BASE, AuthSession, getSession, onSessionChange, setSession } from '../lib/api';
+
+async function requestSession(path: string, body: object): Promise<AuthSession> {
+  const response = await fetch(`${API_BASE}/auth/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Authentication failed');
+  }
+  return data;
+}
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState(getSession()?.user ?? null);
+
+  // Keep React state in sync with refreshes and expiries handled by apiFetch
+  useEffect(() => onSessionChange(session => setUser(session?.user ?? null)), []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    setSession(await requestSession('login', { username, password }));
+  }, []);
+
+  const register = useCallback(async (input: RegisterInput) => {
+    setSession(await requestSession('register', input));
+  }, []);
+
+  const logout = useCallback(async () => {
+    const refreshToken = getSession()?.refresh_token;
+    setSession(null);
+
+    if (refreshToken) {
+      try {
+        await fetch(`${API_BASE}/auth/logout`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refresh_token: refreshToken })
+        });
+      } catch (error) {
+        console.error('Error revoking session:', error);
+      }
+    }
+  }, []);
+
+  const value = useMemo(() => ({ user, login, register, logout }), [user, login, register, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
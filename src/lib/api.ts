@@ -0,0 +1,100 @@
+export const API_BASE = 'https://dist-resp.onrender.com/api';
+export const SOCKET_URL = 'https://dist-resp.onrender.com/';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  email?: string | null;
+  role: string;
+  permissions?: string[];
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  access_token: string;
+  refresh_token: string;
+}
+
+const SESSION_KEY = 'drp_session';
+
+type SessionListener = (session: AuthSession | null) => void;
+
+const listeners = new Set<SessionListener>();
+let session: AuthSession | null = loadSession();
+let refreshInFlight: Promise<boolean> | null = null;
+
+function loadSession(): AuthSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export const getSession = () => session;
+
+export function setSession(next: AuthSession | null) {
+  session = next;
+  if (next) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  listeners.forEach(listener => listener(next));
+}
+
+export function onSessionChange(listener: SessionListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Exchanges the stored refresh token for a new pair. Concurrent callers share
+// one request so a burst of 401s only rotates the token once.
+export function refreshSession(): Promise<boolean> {
+  if (!session?.refresh_token) return Promise.resolve(false);
+
+  if (!refreshInFlight) {
+    refreshInFlight = fetch(`${API_BASE}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: session.refresh_token })
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          setSession(null);
+          return false;
+        }
+        setSession(await response.json());
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+
+  return refreshInFlight;
+}
+
+// fetch() against the API with the access token attached. A 401 triggers one
+// refresh-and-retry before the response is handed back to the caller.
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    if (session) {
+      headers.set('Authorization', `Bearer ${session.access_token}`);
+    }
+    return fetch(`${API_BASE}${path}`, { ...init, headers });
+  };
+
+  const response = await send();
+
+  if (response.status === 401 && session?.refresh_token && await refreshSession()) {
+    return send();
+  }
+
+  return response;
+}
@@ -0,0 +1,82 @@
+// IndexedDB storage for working without a connection: the last copy of data
+// fetched from the API ("snapshots") and the outbox of writes waiting to be
+// sent. Every helper resolves to an empty result when IndexedDB is
+// unavailable (private browsing in some browsers) so callers need no checks.
+
+const DB_NAME = 'drp_offline';
+const DB_VERSION = 1;
+
+const SNAPSHOTS = 'snapshots';
+const OUTBOX = 'outbox';
+
+export interface Snapshot<T> {
+  key: string;
+  data: T;
+  saved_at: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveSnapshot<T>(key: string, data: T): Promise<void> {
+  try {
+    await run(SNAPSHOTS, 'readwrite', store => store.put({ key, data, saved_at: new Date().toISOString() }));
+  } catch (error) {
+    console.error(`Error saving offline copy of ${key}:`, error);
+  }
+}
+
+export async function loadSnapshot<T>(key: string): Promise<Snapshot<T> | null> {
+  try {
+    return (await run<Snapshot<T> | undefined>(SNAPSHOTS, 'readonly', store => store.get(key))) ?? null;
+  } catch (error) {
+    console.error(`Error reading offline copy of ${key}:`, error);
+    return null;
+  }
+}
+
+export async function readOutbox<T>(): Promise<T[]> {
+  try {
+    return await run<T[]>(OUTBOX, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.error('Error reading outbox:', error);
+    return [];
+  }
+}
+
+// Unlike snapshots, a lost outbox write loses the user's work, so failures
+// are passed on to the caller
+export async function writeOutboxEntry<T>(entry: T): Promise<void> {
+  await run(OUTBOX, 'readwrite', store => store.put(entry));
+}
+
+export async function deleteOutboxEntry(id: string): Promise<void> {
+  await run(OUTBOX, 'readwrite', store => store.delete(id));
+}
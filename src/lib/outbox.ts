@@ -0,0 +1,201 @@
+import { apiFetch, getSession } from './api';
+import { deleteOutboxEntry, readOutbox, writeOutboxEntry } from './offlineStore';
+
+// Writes made without a connection wait in an IndexedDB outbox and are
+// replayed in order once the API is reachable again. Replays are safe to
+// repeat: reports carry the id they were queued under, and resource edits
+// carry the `updated_at` they were based on so the server can reject them
+// (409) when someone else changed the resource in the meantime.
+
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  user_id: string;
+  label: string;
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+  // Sent as multipart/form-data alongside the body fields when present
+  files?: Record<string, Blob>;
+  created_at: string;
+  attempts: number;
+  status: OutboxStatus;
+  error?: string;
+  // The server's copy of the record when the write was rejected as a conflict
+  current?: { updated_at?: string } | null;
+}
+
+export interface OutboxRequest {
+  // Defaults to a new UUID; pass the id the body creates a record with
+  id?: string;
+  label: string;
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+  files?: Record<string, Blob>;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let syncQueue: Promise<void> = Promise.resolve();
+
+export function onOutboxChange(listener: OutboxListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Entries of the signed-in user, oldest first. Another user's entries stay
+// queued until they sign in again, so nothing is sent with the wrong token.
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const userId = getSession()?.user.id;
+  const entries = await readOutbox<OutboxEntry>();
+  return entries
+    .filter(entry => entry.user_id === userId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+async function notify() {
+  const entries = await listOutbox();
+  listeners.forEach(listener => listener(entries));
+}
+
+// Files are kept in IndexedDB as Blobs, so photos queued offline are
+// uploaded as they were picked
+const send = (entry: OutboxEntry) => {
+  if (!entry.files) {
+    return apiFetch(entry.path, {
+      method: entry.method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(entry.body)
+    });
+  }
+
+  const form = new FormData();
+  Object.entries(entry.body).forEach(([name, value]) => {
+    if (value !== undefined && value !== null) form.append(name, String(value));
+  });
+  Object.entries(entry.files).forEach(([name, file]) => form.append(name, file));
+  return apiFetch(entry.path, { method: entry.method, body: form });
+};
+
+// fetch() only rejects when no response arrived at all
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+// Sends a write now, or queues it when the browser is offline or the request
+// never reached the server. Resolves to the response, or null when queued.
+export async function sendOrQueue(request: OutboxRequest): Promise<Response | null> {
+  const entry: OutboxEntry = {
+    id: request.id ?? crypto.randomUUID(),
+    user_id: getSession()?.user.id ?? '',
+    label: request.label,
+    method: request.method,
+    path: request.path,
+    body: request.body,
+    files: request.files,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending'
+  };
+
+  if (navigator.onLine) {
+    try {
+      return await send(entry);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await writeOutboxEntry(entry);
+  await notify();
+  return null;
+}
+
+// Edits of one record queued one after another were all based on the version
+// loaded before going offline. Once the first is saved the others follow the
+// version it produced instead of conflicting with it.
+async function rebase(entry: OutboxEntry, response: Response, later: OutboxEntry[]) {
+  const expected = entry.body.expected_updated_at;
+  if (expected === undefined) return;
+
+  const saved = await response.json().catch(() => null);
+  if (!saved?.updated_at) return;
+
+  for (const next of later) {
+    if (next.path === entry.path && next.body.expected_updated_at === expected) {
+      next.body = { ...next.body, expected_updated_at: saved.updated_at };
+      await writeOutboxEntry(next);
+    }
+  }
+}
+
+async function drain() {
+  try {
+    const entries = await listOutbox();
+    for (const [index, entry] of entries.entries()) {
+      if (entry.status !== 'pending') continue;
+
+      let response: Response;
+      try {
+        response = await send(entry);
+      } catch {
+        // Still offline; the rest of the queue waits for the next sync
+        break;
+      }
+
+      if (response.ok) {
+        await deleteOutboxEntry(entry.id);
+        await rebase(entry, response, entries.slice(index + 1));
+        continue;
+      }
+
+      const data = await response.json().catch(() => ({}));
+      const error = data.error || `Request failed with status ${response.status}`;
+
+      // Server trouble or an expired session: keep the entry and retry later
+      if (response.status >= 500 || response.status === 401) {
+        await writeOutboxEntry({ ...entry, attempts: entry.attempts + 1, error });
+        break;
+      }
+
+      await writeOutboxEntry({
+        ...entry,
+        attempts: entry.attempts + 1,
+        status: response.status === 409 ? 'conflict' : 'failed',
+        error,
+        current: data.resource
+      });
+    }
+  } catch (error) {
+    console.error('Error syncing outbox:', error);
+  }
+
+  await notify();
+}
+
+// Syncs run one after another so an entry is never sent twice at once
+export function syncOutbox(): Promise<void> {
+  syncQueue = syncQueue.then(drain);
+  return syncQueue;
+}
+
+// Puts a conflicting or failed entry back in the queue. `overwrite` drops the
+// edit's precondition so it replaces whatever the server has now.
+export async function retryEntry(id: string, { overwrite = false } = {}) {
+  const entry = (await listOutbox()).find(e => e.id === id);
+  if (!entry) return;
+
+  const body = { ...entry.body };
+  if (overwrite) delete body.expected_updated_at;
+
+  await writeOutboxEntry({ ...entry, body, status: 'pending', error: undefined, current: undefined });
+  await syncOutbox();
+}
+
+export async function discardEntry(id: string) {
+  await deleteOutboxEntry(id);
+  await notify();
+}
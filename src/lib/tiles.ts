@@ -0,0 +1,84 @@
+// Base map tile sources and saving an area's tiles for offline use. The
+// service worker (public/sw.js) keeps every tile the map loads; saving an
+// area fetches the tiles of a few zoom levels up front.
+
+export type MapStyle = 'roadmap' | 'satellite' | 'terrain';
+
+export const TILE_LAYERS: Record<MapStyle, { url: string; attribution: string }> = {
+  roadmap: {
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; OpenStreetMap contributors'
+  },
+  satellite: {
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: '&copy; Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community'
+  },
+  terrain: {
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: 'Map data: &copy; OpenStreetMap contributors, SRTM | Map style: &copy; OpenTopoMap (CC-BY-SA)'
+  }
+};
+
+// Keeps a saved area to a size tile servers tolerate
+export const MAX_OFFLINE_TILES = 600;
+const MAX_OFFLINE_ZOOM = 17;
+const SUBDOMAINS = 'abc';
+
+function tileX(lng: number, zoom: number) {
+  return Math.floor(((lng + 180) / 360) * 2 ** zoom);
+}
+
+function tileY(lat: number, zoom: number) {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+}
+
+// Tile URLs covering a `minLng,minLat,maxLng,maxLat` box from `fromZoom`
+// upwards, stopping before the zoom level that would pass MAX_OFFLINE_TILES.
+// Subdomains are chosen the way Leaflet does so the cached URLs match.
+export function tileUrlsForBounds(style: MapStyle, bbox: string, fromZoom: number, levels = 3): string[] {
+  const [minLng, minLat, maxLng, maxLat] = bbox.split(',').map(Number);
+  const template = TILE_LAYERS[style].url;
+  const urls: string[] = [];
+
+  for (let zoom = fromZoom; zoom < fromZoom + levels && zoom <= MAX_OFFLINE_ZOOM; zoom++) {
+    const last = 2 ** zoom - 1;
+    const [x0, x1] = [tileX(minLng, zoom), tileX(maxLng, zoom)].map(x => Math.min(Math.max(x, 0), last));
+    const [y0, y1] = [tileY(maxLat, zoom), tileY(minLat, zoom)].map(y => Math.min(Math.max(y, 0), last));
+
+    if (urls.length + (x1 - x0 + 1) * (y1 - y0 + 1) > MAX_OFFLINE_TILES) break;
+
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        urls.push(template
+          .replace('{s}', SUBDOMAINS[(x + y) % SUBDOMAINS.length])
+          .replace('{z}', String(zoom))
+          .replace('{x}', String(x))
+          .replace('{y}', String(y)));
+      }
+    }
+  }
+
+  return urls;
+}
+
+// Asks the service worker to fetch and keep the given tiles. Resolves to the
+// number of tiles stored.
+export function cacheTiles(urls: string[]): Promise<number> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) {
+    return Promise.reject(new Error('Offline maps need the installed app; reload the page once online'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => {
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.cached);
+      }
+    };
+    worker.postMessage({ type: 'cache-tiles', urls }, [channel.port2]);
+  });
+}
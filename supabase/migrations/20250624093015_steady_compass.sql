@@ -0,0 +1,84 @@
+/*
+# Disaster and resource coordinates
+
+## Overview
+Disasters and resources are plotted on the map at their stored PostGIS
+location. This migration exposes those coordinates through the nearby
+resources search and backfills positions for the sample data.
+
+## Changes
+- `find_nearby_resources` now returns `lat` and `lng` for each resource and
+  measures distance on the geography type (metres) instead of planar degrees
+- Sample disasters and resources receive real coordinates
+*/
+
+DROP FUNCTION IF EXISTS find_nearby_resources(uuid, double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION find_nearby_resources(
+  target_disaster_id uuid,
+  center_lat double precision,
+  center_lon double precision,
+  radius_km double precision DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  disaster_id uuid,
+  name text,
+  location_name text,
+  type text,
+  description text,
+  availability_status text,
+  lat double precision,
+  lng double precision,
+  distance_km double precision,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    r.id,
+    r.disaster_id,
+    r.name,
+    r.location_name,
+    r.type,
+    r.description,
+    r.availability_status,
+    ST_Y(r.location::geometry) AS lat,
+    ST_X(r.location::geometry) AS lng,
+    ST_Distance(
+      r.location,
+      ST_SetSRID(ST_Point(center_lon, center_lat), 4326)::geography
+    ) / 1000 AS distance_km,
+    r.created_at
+  FROM resources r
+  WHERE r.disaster_id = target_disaster_id
+    AND r.location IS NOT NULL
+    AND ST_DWithin(
+      r.location,
+      ST_SetSRID(ST_Point(center_lon, center_lat), 4326)::geography,
+      radius_km * 1000
+    )
+  ORDER BY distance_km ASC;
+END;
+$$;
+
+-- Backfill coordinates for the sample data
+UPDATE disasters SET location = ST_SetSRID(ST_Point(-74.0110, 40.7075), 4326)::geography
+  WHERE id = '550e8400-e29b-41d4-a716-446655440000' AND location IS NULL;
+UPDATE disasters SET location = ST_SetSRID(ST_Point(-73.9969, 40.7061), 4326)::geography
+  WHERE id = '550e8400-e29b-41d4-a716-446655440001' AND location IS NULL;
+UPDATE disasters SET location = ST_SetSRID(ST_Point(-73.7949, 40.7282), 4326)::geography
+  WHERE id = '550e8400-e29b-41d4-a716-446655440002' AND location IS NULL;
+
+UPDATE resources SET location = ST_SetSRID(ST_Point(-73.9840, 40.7150), 4326)::geography
+  WHERE id = '660e8400-e29b-41d4-a716-446655440000' AND location IS NULL;
+UPDATE resources SET location = ST_SetSRID(ST_Point(-74.0090, 40.7060), 4326)::geography
+  WHERE id = '660e8400-e29b-41d4-a716-446655440001' AND location IS NULL;
+UPDATE resources SET location = ST_SetSRID(ST_Point(-73.9970, 40.7158), 4326)::geography
+  WHERE id = '660e8400-e29b-41d4-a716-446655440002' AND location IS NULL;
+UPDATE resources SET location = ST_SetSRID(ST_Point(-73.9932, 40.6959), 4326)::geography
+  WHERE id = '660e8400-e29b-41d4-a716-446655440003' AND location IS NULL;
+UPDATE resources SET location = ST_SetSRID(ST_Point(-73.9235, 40.7644), 4326)::geography
+  WHERE id = '660e8400-e29b-41d4-a716-446655440004' AND location IS NULL;
@@ -0,0 +1,70 @@
+/*
+# Users and sessions
+
+## Overview
+Replaces the hard-coded mock users with a real identity store. The API signs
+its own JWT access and refresh tokens; the `sub` claim is the `users.id`
+value, matching the `auth.jwt() ->> 'sub'` checks in the existing policies.
+
+## Tables Created
+1. **users** - Accounts with bcrypt password hashes and a platform role
+2. **refresh_tokens** - Issued refresh tokens, revoked on rotation and logout
+
+## First Admin
+No accounts are seeded. Create the first admin with
+`npm run users:create-admin` in `server/` (see the readme).
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Users table (ids are text so existing owner_id/user_id values keep working)
+CREATE TABLE IF NOT EXISTS users (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  username text NOT NULL UNIQUE,
+  email text UNIQUE,
+  password_hash text NOT NULL,
+  role text NOT NULL DEFAULT 'contributor' CHECK (role IN ('admin', 'contributor')),
+  created_at timestamptz DEFAULT now(),
+  last_login_at timestamptz
+);
+
+-- Refresh tokens table
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id uuid PRIMARY KEY,
+  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS refresh_tokens_user_idx ON refresh_tokens (user_id);
+CREATE INDEX IF NOT EXISTS refresh_tokens_expires_idx ON refresh_tokens (expires_at);
+
+-- Enable Row Level Security
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (service role only, the API owns these tables)
+CREATE POLICY "Service role can manage users"
+  ON users
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage refresh tokens"
+  ON refresh_tokens
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Function to clean expired refresh tokens
+CREATE OR REPLACE FUNCTION clean_expired_refresh_tokens()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM refresh_tokens WHERE expires_at < now();
+END;
+$$;
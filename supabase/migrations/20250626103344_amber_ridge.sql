@@ -0,0 +1,54 @@
+/*
+# Role-based permissions
+
+## Overview
+Replaces the admin/contributor split with the response team roles used by
+the permission matrix in `server/config/permissions.js`.
+
+## Roles
+- **admin** - Full access
+- **incident_commander** - Runs a disaster: edits it, assigns roles, manages resources and reviews reports
+- **field_responder** - Files reports and updates resource status on the ground
+- **verifier** - Reviews submitted reports and image verification results
+- **resource_coordinator** - Manages shelters, medical stations and other resources
+- **citizen** - Public users who report disasters and submit reports
+
+## Tables Created
+1. **disaster_role_assignments** - Per-disaster role grants; a user's effective
+   roles on a disaster are their platform role plus these assignments
+*/
+
+-- Platform roles
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+UPDATE users SET role = 'citizen' WHERE role = 'contributor';
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'citizen';
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('admin', 'incident_commander', 'field_responder', 'verifier', 'resource_coordinator', 'citizen'));
+
+-- Per-disaster role assignments
+CREATE TABLE IF NOT EXISTS disaster_role_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('incident_commander', 'field_responder', 'verifier', 'resource_coordinator')),
+  assigned_by text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (disaster_id, user_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS disaster_role_assignments_user_idx ON disaster_role_assignments (user_id);
+
+ALTER TABLE disaster_role_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read role assignments"
+  ON disaster_role_assignments
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage role assignments"
+  ON disaster_role_assignments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,110 @@
+/*
+# Resource lifecycle
+
+## Overview
+Resources can now be edited, deleted and track how many people they hold.
+Check-ins and check-outs adjust `occupancy` atomically and move
+`availability_status` as capacity fills.
+
+## Changes
+- `resources.occupancy` - Current number of people checked in
+- `adjust_resource_occupancy` - Atomic check-in/check-out that recomputes status
+  (`limited` from 80% of capacity, `full` at capacity; `closed` is never changed)
+- `find_nearby_resources` also returns capacity, occupancy, contact info and
+  timestamps so clients can edit what they list
+*/
+
+ALTER TABLE resources ADD COLUMN IF NOT EXISTS occupancy integer NOT NULL DEFAULT 0 CHECK (occupancy >= 0);
+
+-- Function to check people in (positive delta) or out (negative delta)
+-- Returns no row when a check-in would exceed capacity or the resource is closed
+CREATE OR REPLACE FUNCTION adjust_resource_occupancy(
+  target_resource_id uuid,
+  delta integer
+)
+RETURNS SETOF resources
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE resources r
+  SET
+    occupancy = GREATEST(r.occupancy + delta, 0),
+    availability_status = CASE
+      WHEN r.availability_status = 'closed' THEN 'closed'
+      WHEN r.capacity IS NULL OR r.capacity <= 0 THEN r.availability_status
+      WHEN GREATEST(r.occupancy + delta, 0) >= r.capacity THEN 'full'
+      WHEN GREATEST(r.occupancy + delta, 0) >= CEIL(r.capacity * 0.8) THEN 'limited'
+      ELSE 'available'
+    END
+  WHERE r.id = target_resource_id
+    AND (
+      delta <= 0
+      OR (
+        r.availability_status <> 'closed'
+        AND (r.capacity IS NULL OR r.occupancy + delta <= r.capacity)
+      )
+    )
+  RETURNING r.*;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS find_nearby_resources(uuid, double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION find_nearby_resources(
+  target_disaster_id uuid,
+  center_lat double precision,
+  center_lon double precision,
+  radius_km double precision DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  disaster_id uuid,
+  name text,
+  location_name text,
+  type text,
+  description text,
+  contact_info jsonb,
+  capacity integer,
+  occupancy integer,
+  availability_status text,
+  lat double precision,
+  lng double precision,
+  distance_km double precision,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    r.id,
+    r.disaster_id,
+    r.name,
+    r.location_name,
+    r.type,
+    r.description,
+    r.contact_info,
+    r.capacity,
+    r.occupancy,
+    r.availability_status,
+    ST_Y(r.location::geometry) AS lat,
+    ST_X(r.location::geometry) AS lng,
+    ST_Distance(
+      r.location,
+      ST_SetSRID(ST_Point(center_lon, center_lat), 4326)::geography
+    ) / 1000 AS distance_km,
+    r.created_at,
+    r.updated_at
+  FROM resources r
+  WHERE r.disaster_id = target_disaster_id
+    AND r.location IS NOT NULL
+    AND ST_DWithin(
+      r.location,
+      ST_SetSRID(ST_Point(center_lon, center_lat), 4326)::geography,
+      radius_km * 1000
+    )
+  ORDER BY distance_km ASC;
+END;
+$$;
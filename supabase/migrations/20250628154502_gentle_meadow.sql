@@ -0,0 +1,86 @@
+/*
+# Filtered and paginated nearby resource search
+
+## Overview
+`find_nearby_resources` gains filters for resource type and availability,
+a sort option and pagination. Every row carries `total_count`, the number of
+matches before pagination, so the API can page without a second query.
+
+## Parameters
+- `resource_types` / `statuses` - Optional filters (NULL means no filter)
+- `sort_by` - `distance` (default) or `name`; distance is the tie-breaker
+- `result_limit` / `result_offset` - Pagination
+*/
+
+DROP FUNCTION IF EXISTS find_nearby_resources(uuid, double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION find_nearby_resources(
+  target_disaster_id uuid,
+  center_lat double precision,
+  center_lon double precision,
+  radius_km double precision DEFAULT 10,
+  resource_types text[] DEFAULT NULL,
+  statuses text[] DEFAULT NULL,
+  sort_by text DEFAULT 'distance',
+  result_limit integer DEFAULT 50,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  disaster_id uuid,
+  name text,
+  location_name text,
+  type text,
+  description text,
+  contact_info jsonb,
+  capacity integer,
+  occupancy integer,
+  availability_status text,
+  lat double precision,
+  lng double precision,
+  distance_km double precision,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.disaster_id,
+    r.name,
+    r.location_name,
+    r.type,
+    r.description,
+    r.contact_info,
+    r.capacity,
+    r.occupancy,
+    r.availability_status,
+    ST_Y(r.location::geometry) AS lat,
+    ST_X(r.location::geometry) AS lng,
+    ST_Distance(
+      r.location,
+      ST_SetSRID(ST_Point(center_lon, center_lat), 4326)::geography
+    ) / 1000 AS distance_km,
+    r.created_at,
+    r.updated_at,
+    count(*) OVER () AS total_count
+  FROM resources r
+  WHERE r.disaster_id = target_disaster_id
+    AND r.location IS NOT NULL
+    AND ST_DWithin(
+      r.location,
+      ST_SetSRID(ST_Point(center_lon, center_lat), 4326)::geography,
+      radius_km * 1000
+    )
+    AND (resource_types IS NULL OR r.type = ANY (resource_types))
+    AND (statuses IS NULL OR r.availability_status = ANY (statuses))
+  ORDER BY
+    CASE WHEN sort_by = 'name' THEN r.name END ASC,
+    distance_km ASC
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$;
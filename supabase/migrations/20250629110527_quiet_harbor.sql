@@ -0,0 +1,94 @@
+/*
+# Social media ingestion
+
+## Overview
+Social media posts are fetched by pluggable connectors (Twitter/X, Bluesky,
+Mastodon and a local JSONL replay source), stored once and attached to every
+disaster they match by tag and location.
+
+## Changes
+- `social_posts` - Normalized posts, unique per (source, external_id);
+  `content_hash` catches the same text arriving under a different id
+- `disaster_social_posts` - Which posts are attached to which disaster and why
+- `social_ingest_cursors` - Per connector and disaster position in the feed,
+  so each poll only asks for newer posts
+*/
+
+CREATE TABLE IF NOT EXISTS social_posts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL,
+  external_id text NOT NULL,
+  platform text NOT NULL,
+  author text NOT NULL,
+  author_verified boolean NOT NULL DEFAULT false,
+  content text NOT NULL,
+  content_hash text NOT NULL,
+  url text,
+  keywords text[] NOT NULL DEFAULT '{}',
+  location_name text,
+  location geography(POINT, 4326),
+  engagement jsonb NOT NULL DEFAULT '{"likes": 0, "shares": 0, "replies": 0}',
+  priority text NOT NULL DEFAULT 'low' CHECK (priority IN ('urgent', 'high', 'medium', 'low')),
+  posted_at timestamptz NOT NULL,
+  ingested_at timestamptz DEFAULT now(),
+  UNIQUE (source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS social_posts_content_hash_idx ON social_posts (content_hash);
+CREATE INDEX IF NOT EXISTS social_posts_posted_at_idx ON social_posts (posted_at DESC);
+
+CREATE TABLE IF NOT EXISTS disaster_social_posts (
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES social_posts(id) ON DELETE CASCADE,
+  matched_tags text[] NOT NULL DEFAULT '{}',
+  location_match boolean,
+  matched_at timestamptz DEFAULT now(),
+  PRIMARY KEY (disaster_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS disaster_social_posts_post_idx ON disaster_social_posts (post_id);
+
+CREATE TABLE IF NOT EXISTS social_ingest_cursors (
+  source text NOT NULL,
+  scope text NOT NULL,
+  cursor text,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (source, scope)
+);
+
+ALTER TABLE social_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE disaster_social_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE social_ingest_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read social posts"
+  ON social_posts
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage social posts"
+  ON social_posts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can read disaster social posts"
+  ON disaster_social_posts
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage disaster social posts"
+  ON disaster_social_posts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage ingest cursors"
+  ON social_ingest_cursors
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,77 @@
+/*
+# Official updates
+
+## Overview
+Official updates are read from a registry of sources (scraped pages, RSS/Atom
+feeds and CAP alerts), stored once with their real publish time and attached
+to every disaster they match by region and keywords.
+
+## Changes
+- `official_updates` - Parsed updates, unique per (source_id, external_id);
+  `content_hash` (of the title) catches the same announcement from two sources.
+  CAP alerts keep their event, area, severity, urgency and certainty
+- `disaster_official_updates` - Which updates are attached to which disaster
+  and the keywords that matched
+*/
+
+CREATE TABLE IF NOT EXISTS official_updates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id text NOT NULL,
+  source_name text NOT NULL,
+  external_id text NOT NULL,
+  title text NOT NULL,
+  content text NOT NULL DEFAULT '',
+  content_hash text NOT NULL,
+  url text,
+  published_at timestamptz,
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('urgent', 'high', 'medium', 'low')),
+  area text,
+  event text,
+  severity text,
+  urgency text,
+  certainty text,
+  fetched_at timestamptz DEFAULT now(),
+  UNIQUE (source_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS official_updates_content_hash_idx ON official_updates (content_hash);
+CREATE INDEX IF NOT EXISTS official_updates_published_at_idx ON official_updates (published_at DESC NULLS LAST);
+
+CREATE TABLE IF NOT EXISTS disaster_official_updates (
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  update_id uuid NOT NULL REFERENCES official_updates(id) ON DELETE CASCADE,
+  matched_keywords text[] NOT NULL DEFAULT '{}',
+  matched_at timestamptz DEFAULT now(),
+  PRIMARY KEY (disaster_id, update_id)
+);
+
+CREATE INDEX IF NOT EXISTS disaster_official_updates_update_idx ON disaster_official_updates (update_id);
+
+ALTER TABLE official_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE disaster_official_updates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read official updates"
+  ON official_updates
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage official updates"
+  ON official_updates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can read disaster official updates"
+  ON disaster_official_updates
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage disaster official updates"
+  ON disaster_official_updates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
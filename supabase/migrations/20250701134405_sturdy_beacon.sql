@@ -0,0 +1,26 @@
+/*
+# CAP fields for disasters
+
+## Overview
+Disasters can be imported from and exported as Common Alerting Protocol 1.2
+alerts, so they carry CAP's classification and the alert area.
+
+## Changes
+- `disasters.severity`, `urgency`, `certainty` - CAP values, `Unknown` by default
+- `disasters.footprint` - Alert area; CAP polygons and circles (approximated
+  as polygons) are stored as one multipolygon
+- `disasters.cap_identifier` - Identifier of the alert a disaster was imported
+  from, so the same alert is not imported twice
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS severity text NOT NULL DEFAULT 'Unknown'
+    CHECK (severity IN ('Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown')),
+  ADD COLUMN IF NOT EXISTS urgency text NOT NULL DEFAULT 'Unknown'
+    CHECK (urgency IN ('Immediate', 'Expected', 'Future', 'Past', 'Unknown')),
+  ADD COLUMN IF NOT EXISTS certainty text NOT NULL DEFAULT 'Unknown'
+    CHECK (certainty IN ('Observed', 'Likely', 'Possible', 'Unlikely', 'Unknown')),
+  ADD COLUMN IF NOT EXISTS footprint geography(MULTIPOLYGON, 4326),
+  ADD COLUMN IF NOT EXISTS cap_identifier text UNIQUE;
+
+CREATE INDEX IF NOT EXISTS disasters_footprint_idx ON disasters USING GIST (footprint);
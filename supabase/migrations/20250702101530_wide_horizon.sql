@@ -0,0 +1,249 @@
+/*
+# Disaster footprints and point-in-area queries
+
+## Overview
+Floods and wildfires cover areas rather than points. A disaster's current
+footprint stays in `disasters.footprint`; every change is also recorded in
+`disaster_footprints` so the spread of an event can be replayed. Reports can
+now carry a location so they can be placed inside (or outside) an area.
+
+## Changes
+- `disaster_footprints` - Footprint history with each version's area in km²;
+  `footprint` is NULL when the area was cleared
+- `reports.location` - Optional point where the report was made
+- `find_nearby_resources` - New `search_mode`: `radius` (default, as before)
+  or `footprint`, which returns resources inside the disaster's footprint.
+  In footprint mode the centre is optional and only used for `distance_km`
+- `find_reports_in_footprint` / `find_social_posts_in_footprint` - Reports and
+  located social posts inside a disaster's footprint
+- `find_disasters_at_point` - Disasters whose footprint covers a point
+*/
+
+CREATE TABLE IF NOT EXISTS disaster_footprints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  footprint geography(MULTIPOLYGON, 4326),
+  area_km2 double precision GENERATED ALWAYS AS (ST_Area(footprint) / 1000000) STORED,
+  note text,
+  recorded_by text NOT NULL,
+  recorded_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS disaster_footprints_disaster_idx ON disaster_footprints (disaster_id, recorded_at);
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS location geography(POINT, 4326);
+
+CREATE INDEX IF NOT EXISTS reports_location_idx ON reports USING GIST (location);
+CREATE INDEX IF NOT EXISTS social_posts_location_idx ON social_posts USING GIST (location);
+
+ALTER TABLE disaster_footprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read disaster footprints"
+  ON disaster_footprints
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage disaster footprints"
+  ON disaster_footprints
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP FUNCTION IF EXISTS find_nearby_resources(uuid, double precision, double precision, double precision, text[], text[], text, integer, integer);
+
+CREATE OR REPLACE FUNCTION find_nearby_resources(
+  target_disaster_id uuid,
+  center_lat double precision DEFAULT NULL,
+  center_lon double precision DEFAULT NULL,
+  radius_km double precision DEFAULT 10,
+  resource_types text[] DEFAULT NULL,
+  statuses text[] DEFAULT NULL,
+  sort_by text DEFAULT 'distance',
+  result_limit integer DEFAULT 50,
+  result_offset integer DEFAULT 0,
+  search_mode text DEFAULT 'radius'
+)
+RETURNS TABLE (
+  id uuid,
+  disaster_id uuid,
+  name text,
+  location_name text,
+  type text,
+  description text,
+  contact_info jsonb,
+  capacity integer,
+  occupancy integer,
+  availability_status text,
+  lat double precision,
+  lng double precision,
+  distance_km double precision,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  center geography := CASE
+    WHEN center_lat IS NULL OR center_lon IS NULL THEN NULL
+    ELSE ST_SetSRID(ST_Point(center_lon, center_lat), 4326)::geography
+  END;
+  area geography;
+BEGIN
+  IF search_mode = 'footprint' THEN
+    SELECT d.footprint INTO area FROM disasters d WHERE d.id = target_disaster_id;
+    IF area IS NULL THEN
+      RETURN;
+    END IF;
+  ELSIF center IS NULL THEN
+    RAISE EXCEPTION 'center_lat and center_lon are required in radius mode';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.disaster_id,
+    r.name,
+    r.location_name,
+    r.type,
+    r.description,
+    r.contact_info,
+    r.capacity,
+    r.occupancy,
+    r.availability_status,
+    ST_Y(r.location::geometry) AS lat,
+    ST_X(r.location::geometry) AS lng,
+    ST_Distance(r.location, center) / 1000 AS distance_km,
+    r.created_at,
+    r.updated_at,
+    count(*) OVER () AS total_count
+  FROM resources r
+  WHERE r.disaster_id = target_disaster_id
+    AND r.location IS NOT NULL
+    AND CASE
+      WHEN search_mode = 'footprint' THEN ST_Covers(area, r.location)
+      ELSE ST_DWithin(r.location, center, radius_km * 1000)
+    END
+    AND (resource_types IS NULL OR r.type = ANY (resource_types))
+    AND (statuses IS NULL OR r.availability_status = ANY (statuses))
+  ORDER BY
+    CASE WHEN sort_by = 'name' THEN r.name END ASC,
+    distance_km ASC NULLS LAST,
+    r.name ASC
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION find_reports_in_footprint(target_disaster_id uuid)
+RETURNS TABLE (
+  id uuid,
+  disaster_id uuid,
+  user_id text,
+  content text,
+  image_url text,
+  verification_status text,
+  lat double precision,
+  lng double precision,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r.id,
+    r.disaster_id,
+    r.user_id,
+    r.content,
+    r.image_url,
+    r.verification_status,
+    ST_Y(r.location::geometry) AS lat,
+    ST_X(r.location::geometry) AS lng,
+    r.created_at
+  FROM reports r
+  JOIN disasters d ON d.id = target_disaster_id
+  WHERE r.location IS NOT NULL
+    AND d.footprint IS NOT NULL
+    AND ST_Covers(d.footprint, r.location)
+  ORDER BY r.created_at DESC;
+$$;
+
+-- Posts are matched by place, so posts not (yet) attached to the disaster are
+-- included; `attached` says whether they are
+CREATE OR REPLACE FUNCTION find_social_posts_in_footprint(target_disaster_id uuid, result_limit integer DEFAULT 200)
+RETURNS TABLE (
+  id uuid,
+  source text,
+  platform text,
+  author text,
+  content text,
+  url text,
+  priority text,
+  lat double precision,
+  lng double precision,
+  posted_at timestamptz,
+  attached boolean
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.source,
+    p.platform,
+    p.author,
+    p.content,
+    p.url,
+    p.priority,
+    ST_Y(p.location::geometry) AS lat,
+    ST_X(p.location::geometry) AS lng,
+    p.posted_at,
+    EXISTS (
+      SELECT 1 FROM disaster_social_posts dsp
+      WHERE dsp.disaster_id = target_disaster_id AND dsp.post_id = p.id
+    ) AS attached
+  FROM social_posts p
+  JOIN disasters d ON d.id = target_disaster_id
+  WHERE p.location IS NOT NULL
+    AND d.footprint IS NOT NULL
+    AND ST_Covers(d.footprint, p.location)
+  ORDER BY p.posted_at DESC
+  LIMIT result_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION find_disasters_at_point(point_lat double precision, point_lon double precision)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  location_name text,
+  tags text[],
+  severity text,
+  urgency text,
+  certainty text,
+  lat double precision,
+  lng double precision,
+  area_km2 double precision,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    d.id,
+    d.title,
+    d.location_name,
+    d.tags,
+    d.severity,
+    d.urgency,
+    d.certainty,
+    ST_Y(d.location::geometry) AS lat,
+    ST_X(d.location::geometry) AS lng,
+    ST_Area(d.footprint) / 1000000 AS area_km2,
+    d.created_at
+  FROM disasters d
+  WHERE d.footprint IS NOT NULL
+    AND ST_Covers(d.footprint, ST_SetSRID(ST_Point(point_lon, point_lat), 4326)::geography)
+  ORDER BY area_km2 ASC;
+$$;
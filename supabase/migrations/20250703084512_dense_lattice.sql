@@ -0,0 +1,144 @@
+/*
+# Viewport queries for the map
+
+## Overview
+The map loads only what is inside its current view. At low zoom levels points
+are aggregated into grid cells so a city-wide incident with thousands of
+points stays a small response.
+
+## Changes
+- `map_points_in_view` - Every point inside a bounding box, used by
+  `find_map_points`
+- `find_map_points` - Disasters, resources, located reports and located social
+  posts inside a bounding box, optionally limited to one disaster. Each point
+  has a `weight` for the density heatmap: social posts by priority (urgent 1,
+  high 0.75, medium 0.5, low 0.25) and reports 0.5. With `cell_size` (degrees)
+  points are snapped to a grid and grouped per kind and category; a cell's
+  weight is the sum of its points and only single-point cells keep their id,
+  label and details
+*/
+
+CREATE OR REPLACE FUNCTION map_points_in_view(
+  min_lat double precision,
+  min_lon double precision,
+  max_lat double precision,
+  max_lon double precision,
+  target_disaster_id uuid,
+  kinds text[]
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  label text,
+  category text,
+  status text,
+  details jsonb,
+  weight double precision,
+  geom geometry
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bbox AS (
+    SELECT ST_MakeEnvelope(min_lon, min_lat, max_lon, max_lat, 4326) AS geom
+  )
+  SELECT 'disaster', d.id, d.title, NULL, d.severity,
+    jsonb_build_object('location_name', d.location_name, 'tags', d.tags),
+    1.0::double precision, d.location::geometry
+  FROM disasters d, bbox
+  WHERE 'disaster' = ANY (kinds)
+    AND d.location IS NOT NULL
+    AND (target_disaster_id IS NULL OR d.id = target_disaster_id)
+    AND d.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'resource', r.id, r.name, r.type, r.availability_status,
+    jsonb_build_object('disaster_id', r.disaster_id, 'location_name', r.location_name, 'capacity', r.capacity, 'occupancy', r.occupancy),
+    1.0, r.location::geometry
+  FROM resources r, bbox
+  WHERE 'resource' = ANY (kinds)
+    AND r.location IS NOT NULL
+    AND (target_disaster_id IS NULL OR r.disaster_id = target_disaster_id)
+    AND r.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'report', r.id, left(r.content, 120), NULL, r.verification_status,
+    jsonb_build_object('disaster_id', r.disaster_id, 'image_url', r.image_url, 'created_at', r.created_at),
+    0.5, r.location::geometry
+  FROM reports r, bbox
+  WHERE 'report' = ANY (kinds)
+    AND r.location IS NOT NULL
+    AND (target_disaster_id IS NULL OR r.disaster_id = target_disaster_id)
+    AND r.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'social_post', p.id, left(p.content, 120), p.platform, p.priority,
+    jsonb_build_object('author', p.author, 'url', p.url, 'posted_at', p.posted_at),
+    CASE p.priority WHEN 'urgent' THEN 1.0 WHEN 'high' THEN 0.75 WHEN 'medium' THEN 0.5 ELSE 0.25 END,
+    p.location::geometry
+  FROM social_posts p, bbox
+  WHERE 'social_post' = ANY (kinds)
+    AND p.location IS NOT NULL
+    AND (target_disaster_id IS NULL OR EXISTS (
+      SELECT 1 FROM disaster_social_posts dsp
+      WHERE dsp.post_id = p.id AND dsp.disaster_id = target_disaster_id
+    ))
+    AND p.location::geometry && bbox.geom;
+$$;
+
+CREATE OR REPLACE FUNCTION find_map_points(
+  min_lat double precision,
+  min_lon double precision,
+  max_lat double precision,
+  max_lon double precision,
+  cell_size double precision DEFAULT NULL,
+  target_disaster_id uuid DEFAULT NULL,
+  kinds text[] DEFAULT ARRAY['disaster', 'resource', 'report', 'social_post'],
+  point_limit integer DEFAULT 5000
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  label text,
+  category text,
+  status text,
+  details jsonb,
+  weight double precision,
+  lat double precision,
+  lng double precision,
+  point_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF cell_size IS NULL THEN
+    RETURN QUERY
+    SELECT m.kind, m.id, m.label, m.category, m.status, m.details, m.weight,
+      ST_Y(m.geom), ST_X(m.geom), 1::bigint
+    FROM map_points_in_view(min_lat, min_lon, max_lat, max_lon, target_disaster_id, kinds) m
+    ORDER BY m.weight DESC, m.id
+    LIMIT point_limit;
+  ELSE
+    RETURN QUERY
+    SELECT
+      m.kind,
+      CASE WHEN count(*) = 1 THEN (array_agg(m.id))[1] END,
+      CASE WHEN count(*) = 1 THEN min(m.label) END,
+      m.category,
+      CASE WHEN count(*) = 1 THEN min(m.status) END,
+      CASE WHEN count(*) = 1 THEN (array_agg(m.details))[1] END,
+      sum(m.weight),
+      ST_Y(ST_Centroid(ST_Collect(m.geom))),
+      ST_X(ST_Centroid(ST_Collect(m.geom))),
+      count(*)
+    FROM map_points_in_view(min_lat, min_lon, max_lat, max_lon, target_disaster_id, kinds) m
+    GROUP BY m.kind, m.category, ST_SnapToGrid(m.geom, cell_size)
+    ORDER BY count(*) DESC
+    LIMIT point_limit;
+  END IF;
+END;
+$$;
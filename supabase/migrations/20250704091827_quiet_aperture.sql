@@ -0,0 +1,22 @@
+/*
+# Uploaded report images
+
+## Overview
+Reports can carry a photo uploaded with the report instead of an image URL.
+The photo is stored by the configured storage backend (local disk or S3); the
+report keeps its URLs and what was read from the file.
+
+## Changes
+- `reports.image_thumbnail_url` - JPEG thumbnail of an uploaded image
+- `reports.image_metadata` - Storage backend and keys, content type, size,
+  dimensions and camera of an uploaded image
+- `reports.captured_at` - When the photo was taken, from its EXIF data
+- `reports.location_source` - Where `location` came from: `client` (sent
+  with the report) or `exif` (the photo's GPS position)
+*/
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS image_thumbnail_url text;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS image_metadata jsonb;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS captured_at timestamptz;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS location_source text
+  CHECK (location_source IN ('client', 'exif'));
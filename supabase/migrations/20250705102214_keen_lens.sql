@@ -0,0 +1,85 @@
+/*
+# Multi-signal image verification
+
+## Overview
+Report images are verified by several independent checks (EXIF capture time
+and position, reuse of a previously seen image, error-level analysis and an
+optional classifier) combined into one weighted score. Each check's result is
+kept with the report so reviewers can see why an image was flagged.
+
+## Changes
+- `reports.verification_analysis` - Now jsonb: `summary`, `score` and
+  `checks` (name, status, score, weight, detail and check-specific data).
+  Existing text analyses are kept as `summary`
+- `image_fingerprints` - Perceptual hash (64-bit DCT hash) of every verified
+  image with the report and disaster it came with
+- `find_similar_images` - Fingerprints within a Hamming distance of a hash,
+  nearest and oldest first
+*/
+
+ALTER TABLE reports
+  ALTER COLUMN verification_analysis TYPE jsonb
+  USING CASE
+    WHEN verification_analysis IS NULL THEN NULL
+    ELSE jsonb_build_object('summary', verification_analysis)
+  END;
+
+CREATE TABLE IF NOT EXISTS image_fingerprints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid REFERENCES reports(id) ON DELETE CASCADE,
+  disaster_id uuid REFERENCES disasters(id) ON DELETE SET NULL,
+  image_url text,
+  phash bit(64) NOT NULL,
+  seen_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS image_fingerprints_report_idx ON image_fingerprints (report_id);
+
+ALTER TABLE image_fingerprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read image fingerprints"
+  ON image_fingerprints
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage image fingerprints"
+  ON image_fingerprints
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- A sequential scan; fine for the tens of thousands of images a deployment
+-- sees, and exact where an index on a bit string would be approximate
+CREATE OR REPLACE FUNCTION find_similar_images(
+  target_hash text,
+  max_distance integer DEFAULT 10,
+  exclude_report_id uuid DEFAULT NULL,
+  result_limit integer DEFAULT 5
+)
+RETURNS TABLE (
+  report_id uuid,
+  disaster_id uuid,
+  image_url text,
+  seen_at timestamptz,
+  distance integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      f.report_id,
+      f.disaster_id,
+      f.image_url,
+      f.seen_at,
+      bit_count(f.phash # target_hash::bit(64))::integer AS distance
+    FROM image_fingerprints f
+    WHERE exclude_report_id IS NULL OR f.report_id IS DISTINCT FROM exclude_report_id
+  ) matches
+  WHERE matches.distance <= max_distance
+  ORDER BY matches.distance, matches.seen_at
+  LIMIT result_limit;
+$$;
@@ -0,0 +1,57 @@
+/*
+# Report moderation
+
+## Overview
+Reviewers work through a queue of pending and suspicious reports and approve,
+reject, mark as duplicate or escalate each one with a note. Every decision is
+kept, so a report's review history shows who decided what and when.
+
+## Changes
+- `reports.priority` - urgent, high, medium or low, from the report's content
+- `reports.moderation_status` - unreviewed, approved, rejected, duplicate or
+  escalated
+- `reports.duplicate_of` - The report a duplicate repeats
+- `reports.reviewed_by` / `reports.reviewed_at` - The latest decision
+- `report_reviews` - Every decision with its reviewer, note and the statuses
+  the report had before it
+*/
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS priority text DEFAULT 'low'
+  CHECK (priority IN ('urgent', 'high', 'medium', 'low'));
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS moderation_status text NOT NULL DEFAULT 'unreviewed'
+  CHECK (moderation_status IN ('unreviewed', 'approved', 'rejected', 'duplicate', 'escalated'));
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES reports(id) ON DELETE SET NULL;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS reviewed_by text;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS reports_moderation_idx ON reports (moderation_status, verification_status, created_at);
+
+CREATE TABLE IF NOT EXISTS report_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  disaster_id uuid REFERENCES disasters(id) ON DELETE CASCADE,
+  reviewer_id text NOT NULL,
+  decision text NOT NULL CHECK (decision IN ('approve', 'reject', 'duplicate', 'escalate')),
+  note text,
+  duplicate_of uuid REFERENCES reports(id) ON DELETE SET NULL,
+  previous_moderation_status text,
+  previous_verification_status text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS report_reviews_report_idx ON report_reviews (report_id, created_at);
+
+ALTER TABLE report_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read report reviews"
+  ON report_reviews
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage report reviews"
+  ON report_reviews
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
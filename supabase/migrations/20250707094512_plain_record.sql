@@ -0,0 +1,155 @@
+/*
+# Relational audit log
+
+## Overview
+Replaces the `audit_trail` array on disasters, which only listed the names of
+changed fields, was lost with the row and lost entries when two edits raced.
+Every insert, update and delete of a disaster, resource or report is now
+written by a trigger to an append-only table, in the same transaction as the
+change, with the row before and after it.
+
+The API says who made a change and why through two request headers, which
+PostgREST exposes to the trigger: `x-audit-user` and `x-audit-action` (e.g.
+`revert` or `check_in`; defaults to create, update or delete).
+
+## Changes
+- `audit_log` - One row per change: entity type and id, the disaster it
+  belongs to (kept after the disaster is deleted), action, user, the changed
+  fields and `before` / `after` snapshots. Updates and deletes are refused
+- `record_audit` - Trigger on disasters, resources and reports. Updates that
+  change nothing but `updated_at` are not recorded
+- Existing `audit_trail` entries are copied into `audit_log`, each disaster's
+  current state is recorded as a `baseline` version, and the column is dropped
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigserial PRIMARY KEY,
+  entity_type text NOT NULL CHECK (entity_type IN ('disaster', 'resource', 'report')),
+  entity_id uuid NOT NULL,
+  disaster_id uuid,
+  action text NOT NULL,
+  user_id text,
+  changed_fields text[],
+  before jsonb,
+  after jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_disaster_idx ON audit_log (disaster_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log (entity_type, entity_id, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read audit log"
+  ON audit_log
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can append to audit log"
+  ON audit_log
+  FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_change();
+
+-- Earlier history, then today's state as the first version that can be
+-- reverted to
+INSERT INTO audit_log (entity_type, entity_id, disaster_id, action, user_id, changed_fields, created_at)
+SELECT
+  'disaster',
+  d.id,
+  d.id,
+  coalesce(entry ->> 'action', 'update'),
+  entry ->> 'user_id',
+  CASE WHEN jsonb_typeof(entry -> 'changes') = 'array'
+    THEN ARRAY(SELECT jsonb_array_elements_text(entry -> 'changes'))
+  END,
+  coalesce((entry ->> 'timestamp')::timestamptz, d.created_at)
+FROM disasters d
+CROSS JOIN LATERAL jsonb_array_elements(coalesce(d.audit_trail, '[]'::jsonb)) AS entry;
+
+INSERT INTO audit_log (entity_type, entity_id, disaster_id, action, after, created_at)
+SELECT 'disaster', d.id, d.id, 'baseline', to_jsonb(d) - 'audit_trail', now()
+FROM disasters d;
+
+ALTER TABLE disasters DROP COLUMN IF EXISTS audit_trail;
+
+CREATE OR REPLACE FUNCTION record_audit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers jsonb := coalesce(nullif(current_setting('request.headers', true), ''), '{}')::jsonb;
+  before_row jsonb;
+  after_row jsonb;
+  row_data jsonb;
+  changed text[];
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    before_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    after_row := to_jsonb(NEW);
+  END IF;
+  row_data := coalesce(after_row, before_row);
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(changes.key ORDER BY changes.key) INTO changed
+    FROM jsonb_each(after_row) AS changes
+    WHERE changes.key <> 'updated_at'
+      AND changes.value IS DISTINCT FROM before_row -> changes.key;
+
+    IF changed IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (entity_type, entity_id, disaster_id, action, user_id, changed_fields, before, after)
+  VALUES (
+    TG_ARGV[0],
+    (row_data ->> 'id')::uuid,
+    (CASE WHEN TG_ARGV[0] = 'disaster' THEN row_data ->> 'id' ELSE row_data ->> 'disaster_id' END)::uuid,
+    coalesce(
+      headers ->> 'x-audit-action',
+      CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END
+    ),
+    headers ->> 'x-audit-user',
+    changed,
+    before_row,
+    after_row
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS disasters_audit ON disasters;
+CREATE TRIGGER disasters_audit
+  AFTER INSERT OR UPDATE OR DELETE ON disasters
+  FOR EACH ROW EXECUTE FUNCTION record_audit('disaster');
+
+DROP TRIGGER IF EXISTS resources_audit ON resources;
+CREATE TRIGGER resources_audit
+  AFTER INSERT OR UPDATE OR DELETE ON resources
+  FOR EACH ROW EXECUTE FUNCTION record_audit('resource');
+
+DROP TRIGGER IF EXISTS reports_audit ON reports;
+CREATE TRIGGER reports_audit
+  AFTER INSERT OR UPDATE OR DELETE ON reports
+  FOR EACH ROW EXECUTE FUNCTION record_audit('report');
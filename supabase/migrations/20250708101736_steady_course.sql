@@ -0,0 +1,155 @@
+/*
+# Disaster lifecycle and soft delete
+
+## Overview
+Deleting a disaster removed the row and, through `ON DELETE CASCADE`, every
+report and resource filed against it. Disasters now move through an explicit
+lifecycle (reported, active, contained, recovery, closed, archived) and a
+delete only marks the row, so it can be restored with everything under it.
+
+## Changes
+- `disasters.status` - Lifecycle status, `reported` for new disasters.
+  Existing disasters start out `active`
+- `disasters.status_changed_at`, `disasters.status_note` - When the status
+  last changed and why
+- `disasters.deleted_at`, `disasters.deleted_by` - Set by a soft delete and
+  cleared by a restore
+- `reports` and `resources` foreign keys to disasters are now
+  `ON DELETE RESTRICT`, so removing a disaster row can no longer take its
+  reports and resources with it
+- `find_disasters_at_point` and `map_points_in_view` leave out deleted
+  disasters and what belongs to them
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'reported'
+    CHECK (status IN ('reported', 'active', 'contained', 'recovery', 'closed', 'archived')),
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS status_note text,
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by text;
+
+UPDATE disasters SET status = 'active', status_changed_at = created_at;
+
+CREATE INDEX IF NOT EXISTS disasters_status_idx ON disasters (status, created_at DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS disasters_deleted_idx ON disasters (deleted_at DESC) WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE reports DROP CONSTRAINT IF EXISTS reports_disaster_id_fkey;
+ALTER TABLE reports
+  ADD CONSTRAINT reports_disaster_id_fkey
+  FOREIGN KEY (disaster_id) REFERENCES disasters(id) ON DELETE RESTRICT;
+
+ALTER TABLE resources DROP CONSTRAINT IF EXISTS resources_disaster_id_fkey;
+ALTER TABLE resources
+  ADD CONSTRAINT resources_disaster_id_fkey
+  FOREIGN KEY (disaster_id) REFERENCES disasters(id) ON DELETE RESTRICT;
+
+CREATE OR REPLACE FUNCTION find_disasters_at_point(point_lat double precision, point_lon double precision)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  location_name text,
+  tags text[],
+  severity text,
+  urgency text,
+  certainty text,
+  lat double precision,
+  lng double precision,
+  area_km2 double precision,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    d.id,
+    d.title,
+    d.location_name,
+    d.tags,
+    d.severity,
+    d.urgency,
+    d.certainty,
+    ST_Y(d.location::geometry) AS lat,
+    ST_X(d.location::geometry) AS lng,
+    ST_Area(d.footprint) / 1000000 AS area_km2,
+    d.created_at
+  FROM disasters d
+  WHERE d.footprint IS NOT NULL
+    AND d.deleted_at IS NULL
+    AND ST_Covers(d.footprint, ST_SetSRID(ST_Point(point_lon, point_lat), 4326)::geography)
+  ORDER BY area_km2 ASC;
+$$;
+
+CREATE OR REPLACE FUNCTION map_points_in_view(
+  min_lat double precision,
+  min_lon double precision,
+  max_lat double precision,
+  max_lon double precision,
+  target_disaster_id uuid,
+  kinds text[]
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  label text,
+  category text,
+  status text,
+  details jsonb,
+  weight double precision,
+  geom geometry
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bbox AS (
+    SELECT ST_MakeEnvelope(min_lon, min_lat, max_lon, max_lat, 4326) AS geom
+  )
+  SELECT 'disaster', d.id, d.title, NULL, d.severity,
+    jsonb_build_object('location_name', d.location_name, 'tags', d.tags, 'status', d.status),
+    1.0::double precision, d.location::geometry
+  FROM disasters d, bbox
+  WHERE 'disaster' = ANY (kinds)
+    AND d.location IS NOT NULL
+    AND d.deleted_at IS NULL
+    AND (target_disaster_id IS NULL OR d.id = target_disaster_id)
+    AND d.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'resource', r.id, r.name, r.type, r.availability_status,
+    jsonb_build_object('disaster_id', r.disaster_id, 'location_name', r.location_name, 'capacity', r.capacity, 'occupancy', r.occupancy),
+    1.0, r.location::geometry
+  FROM resources r, bbox
+  WHERE 'resource' = ANY (kinds)
+    AND r.location IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM disasters d WHERE d.id = r.disaster_id AND d.deleted_at IS NOT NULL)
+    AND (target_disaster_id IS NULL OR r.disaster_id = target_disaster_id)
+    AND r.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'report', r.id, left(r.content, 120), NULL, r.verification_status,
+    jsonb_build_object('disaster_id', r.disaster_id, 'image_url', r.image_url, 'created_at', r.created_at),
+    0.5, r.location::geometry
+  FROM reports r, bbox
+  WHERE 'report' = ANY (kinds)
+    AND r.location IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM disasters d WHERE d.id = r.disaster_id AND d.deleted_at IS NOT NULL)
+    AND (target_disaster_id IS NULL OR r.disaster_id = target_disaster_id)
+    AND r.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'social_post', p.id, left(p.content, 120), p.platform, p.priority,
+    jsonb_build_object('author', p.author, 'url', p.url, 'posted_at', p.posted_at),
+    CASE p.priority WHEN 'urgent' THEN 1.0 WHEN 'high' THEN 0.75 WHEN 'medium' THEN 0.5 ELSE 0.25 END,
+    p.location::geometry
+  FROM social_posts p, bbox
+  WHERE 'social_post' = ANY (kinds)
+    AND p.location IS NOT NULL
+    AND (target_disaster_id IS NULL OR EXISTS (
+      SELECT 1 FROM disaster_social_posts dsp
+      WHERE dsp.post_id = p.id AND dsp.disaster_id = target_disaster_id
+    ))
+    AND p.location::geometry && bbox.geom;
+$$;
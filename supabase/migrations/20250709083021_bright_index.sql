@@ -0,0 +1,271 @@
+/*
+# Full-text search
+
+## Overview
+One ranked search over disasters, reports, official updates and stored social
+posts, with facets and an optional bounding box. Each kind has an immutable
+function that builds its search document; the GIN indexes are built on the
+same calls so the search uses them without storing extra columns (which would
+show up in every API response and audit snapshot).
+
+Deleted disasters and the reports filed against them are never returned.
+
+## Changes
+- `disaster_search_document`, `report_search_document`,
+  `official_update_search_document`, `social_post_search_document` - Weighted
+  tsvectors (titles over tags and places over body text) and GIN indexes on them
+- `search_matches` - Every match with its kind, disaster, tags, status,
+  priority, source, date, coordinates and rank
+- `search_content` - One page of matches, best first, with a highlighted
+  snippet
+- `search_facets` - Match counts by kind, tag, status, priority and source
+*/
+
+CREATE OR REPLACE FUNCTION disaster_search_document(title text, tags text[], location_name text, description text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '') || ' ' || coalesce(location_name, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION report_search_document(content text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsvector('english', coalesce(content, ''));
+$$;
+
+CREATE OR REPLACE FUNCTION official_update_search_document(title text, event text, area text, content text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(event, '') || ' ' || coalesce(area, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION social_post_search_document(content text, keywords text[], location_name text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(array_to_string(keywords, ' '), '') || ' ' || coalesce(location_name, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C');
+$$;
+
+CREATE INDEX IF NOT EXISTS disasters_search_idx
+  ON disasters USING gin (disaster_search_document(title, tags, location_name, description));
+CREATE INDEX IF NOT EXISTS reports_search_idx
+  ON reports USING gin (report_search_document(content));
+CREATE INDEX IF NOT EXISTS official_updates_search_idx
+  ON official_updates USING gin (official_update_search_document(title, event, area, content));
+CREATE INDEX IF NOT EXISTS social_posts_search_idx
+  ON social_posts USING gin (social_post_search_document(content, keywords, location_name));
+
+-- `status` is a disaster's lifecycle status or a report's verification
+-- status; `source` is the platform of a social post or the publisher of an
+-- official update. Social posts and official updates belong to the disaster
+-- they were most recently matched to.
+CREATE OR REPLACE FUNCTION search_matches(
+  search_query text,
+  kinds text[],
+  filter_tags text[] DEFAULT NULL,
+  filter_statuses text[] DEFAULT NULL,
+  filter_priorities text[] DEFAULT NULL,
+  filter_sources text[] DEFAULT NULL,
+  date_from timestamptz DEFAULT NULL,
+  date_to timestamptz DEFAULT NULL,
+  min_lat double precision DEFAULT NULL,
+  min_lon double precision DEFAULT NULL,
+  max_lat double precision DEFAULT NULL,
+  max_lon double precision DEFAULT NULL
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  disaster_id uuid,
+  title text,
+  body text,
+  tags text[],
+  status text,
+  priority text,
+  source text,
+  occurred_at timestamptz,
+  lat double precision,
+  lng double precision,
+  rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', search_query) AS query,
+      CASE WHEN min_lat IS NOT NULL
+        THEN ST_MakeEnvelope(min_lon, min_lat, max_lon, max_lat, 4326)
+      END AS bbox
+  ),
+  matches AS (
+    SELECT 'disaster' AS kind, d.id, d.id AS disaster_id, d.title, d.description AS body, d.tags,
+      d.status, NULL::text AS priority, NULL::text AS source, d.created_at AS occurred_at, d.location,
+      ts_rank_cd(disaster_search_document(d.title, d.tags, d.location_name, d.description), q.query) AS rank
+    FROM disasters d, q
+    WHERE 'disaster' = ANY (kinds)
+      AND d.deleted_at IS NULL
+      AND disaster_search_document(d.title, d.tags, d.location_name, d.description) @@ q.query
+
+    UNION ALL
+
+    SELECT 'report', r.id, r.disaster_id, left(r.content, 120), r.content, d.tags,
+      r.verification_status, r.priority, NULL, r.created_at, r.location,
+      ts_rank_cd(report_search_document(r.content), q.query)
+    FROM reports r
+    JOIN disasters d ON d.id = r.disaster_id AND d.deleted_at IS NULL, q
+    WHERE 'report' = ANY (kinds)
+      AND report_search_document(r.content) @@ q.query
+
+    UNION ALL
+
+    SELECT 'official_update', u.id, linked.disaster_id, u.title, u.content,
+      array_remove(ARRAY[u.event], NULL), NULL, u.priority, u.source_name,
+      coalesce(u.published_at, u.fetched_at), NULL::geography,
+      ts_rank_cd(official_update_search_document(u.title, u.event, u.area, u.content), q.query)
+    FROM official_updates u
+    CROSS JOIN q
+    LEFT JOIN LATERAL (
+      SELECT dou.disaster_id
+      FROM disaster_official_updates dou
+      JOIN disasters d ON d.id = dou.disaster_id AND d.deleted_at IS NULL
+      WHERE dou.update_id = u.id
+      ORDER BY dou.matched_at DESC
+      LIMIT 1
+    ) linked ON true
+    WHERE 'official_update' = ANY (kinds)
+      AND official_update_search_document(u.title, u.event, u.area, u.content) @@ q.query
+
+    UNION ALL
+
+    SELECT 'social_post', p.id, linked.disaster_id, left(p.content, 120), p.content, p.keywords,
+      NULL, p.priority, p.platform, p.posted_at, p.location,
+      ts_rank_cd(social_post_search_document(p.content, p.keywords, p.location_name), q.query)
+    FROM social_posts p
+    CROSS JOIN q
+    LEFT JOIN LATERAL (
+      SELECT dsp.disaster_id
+      FROM disaster_social_posts dsp
+      JOIN disasters d ON d.id = dsp.disaster_id AND d.deleted_at IS NULL
+      WHERE dsp.post_id = p.id
+      ORDER BY dsp.matched_at DESC
+      LIMIT 1
+    ) linked ON true
+    WHERE 'social_post' = ANY (kinds)
+      AND social_post_search_document(p.content, p.keywords, p.location_name) @@ q.query
+  )
+  SELECT m.kind, m.id, m.disaster_id, m.title, m.body, m.tags, m.status, m.priority, m.source,
+    m.occurred_at, ST_Y(m.location::geometry), ST_X(m.location::geometry), m.rank
+  FROM matches m, q
+  WHERE (filter_tags IS NULL OR m.tags && filter_tags)
+    AND (filter_statuses IS NULL OR m.status = ANY (filter_statuses))
+    AND (filter_priorities IS NULL OR m.priority = ANY (filter_priorities))
+    AND (filter_sources IS NULL OR m.source = ANY (filter_sources))
+    AND (date_from IS NULL OR m.occurred_at >= date_from)
+    AND (date_to IS NULL OR m.occurred_at <= date_to)
+    AND (q.bbox IS NULL OR (m.location IS NOT NULL AND m.location::geometry && q.bbox));
+$$;
+
+CREATE OR REPLACE FUNCTION search_content(
+  search_query text,
+  kinds text[],
+  filter_tags text[] DEFAULT NULL,
+  filter_statuses text[] DEFAULT NULL,
+  filter_priorities text[] DEFAULT NULL,
+  filter_sources text[] DEFAULT NULL,
+  date_from timestamptz DEFAULT NULL,
+  date_to timestamptz DEFAULT NULL,
+  min_lat double precision DEFAULT NULL,
+  min_lon double precision DEFAULT NULL,
+  max_lat double precision DEFAULT NULL,
+  max_lon double precision DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  disaster_id uuid,
+  title text,
+  snippet text,
+  tags text[],
+  status text,
+  priority text,
+  source text,
+  occurred_at timestamptz,
+  lat double precision,
+  lng double precision,
+  rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH page AS (
+    SELECT m.*
+    FROM search_matches(search_query, kinds, filter_tags, filter_statuses, filter_priorities, filter_sources,
+      date_from, date_to, min_lat, min_lon, max_lat, max_lon) m
+    ORDER BY m.rank DESC, m.occurred_at DESC NULLS LAST, m.id
+    LIMIT result_limit
+    OFFSET result_offset
+  )
+  -- Snippets are only built for the page returned
+  SELECT page.kind, page.id, page.disaster_id, page.title,
+    ts_headline('english', page.body, websearch_to_tsquery('english', search_query),
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2'),
+    page.tags, page.status, page.priority, page.source, page.occurred_at,
+    page.lat, page.lng, page.rank
+  FROM page
+  ORDER BY page.rank DESC, page.occurred_at DESC NULLS LAST, page.id;
+$$;
+
+CREATE OR REPLACE FUNCTION search_facets(
+  search_query text,
+  kinds text[],
+  filter_tags text[] DEFAULT NULL,
+  filter_statuses text[] DEFAULT NULL,
+  filter_priorities text[] DEFAULT NULL,
+  filter_sources text[] DEFAULT NULL,
+  date_from timestamptz DEFAULT NULL,
+  date_to timestamptz DEFAULT NULL,
+  min_lat double precision DEFAULT NULL,
+  min_lon double precision DEFAULT NULL,
+  max_lat double precision DEFAULT NULL,
+  max_lon double precision DEFAULT NULL
+)
+RETURNS TABLE (
+  facet text,
+  value text,
+  match_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH m AS (
+    SELECT *
+    FROM search_matches(search_query, kinds, filter_tags, filter_statuses, filter_priorities, filter_sources,
+      date_from, date_to, min_lat, min_lon, max_lat, max_lon)
+  )
+  SELECT 'kind', m.kind, count(*) FROM m GROUP BY m.kind
+  UNION ALL
+  SELECT 'tag', tag, count(*) FROM m, unnest(m.tags) AS tag GROUP BY tag
+  UNION ALL
+  SELECT 'status', m.status, count(*) FROM m WHERE m.status IS NOT NULL GROUP BY m.status
+  UNION ALL
+  SELECT 'priority', m.priority, count(*) FROM m WHERE m.priority IS NOT NULL GROUP BY m.priority
+  UNION ALL
+  SELECT 'source', m.source, count(*) FROM m WHERE m.source IS NOT NULL GROUP BY m.source;
+$$;
@@ -0,0 +1,25 @@
+/*
+# Incident triage scores
+
+## Overview
+Reports and social posts are scored from 0 to 100 by the triage engine
+(server/services/triage.js) instead of a keyword list. The score sets the
+priority, and the reasons behind it are kept so responders can see why an
+item was flagged.
+
+## Changes
+- `reports.triage_score` / `social_posts.triage_score` - 0 to 100; null for
+  rows stored before triage
+- `reports.triage_reasons` / `social_posts.triage_reasons` - The rules that
+  added or removed points, each with its points and a description
+*/
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS triage_score integer
+  CHECK (triage_score BETWEEN 0 AND 100);
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS triage_reasons jsonb NOT NULL DEFAULT '[]';
+
+ALTER TABLE social_posts ADD COLUMN IF NOT EXISTS triage_score integer
+  CHECK (triage_score BETWEEN 0 AND 100);
+ALTER TABLE social_posts ADD COLUMN IF NOT EXISTS triage_reasons jsonb NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS reports_triage_idx ON reports (disaster_id, triage_score DESC);
@@ -0,0 +1,281 @@
+/*
+# Volunteers and task dispatch
+
+## Overview
+Volunteers register once with their skills, when they are available and
+where they live. Coordinators post tasks on a disaster (optionally at one of
+its resources) that need a number of people with certain skills, get
+volunteers suggested by skill match and distance, and offer them the task.
+Volunteers accept, decline and complete tasks; a task is `filled` once enough
+volunteers have accepted and `completed` when all of them are done.
+
+## Changes
+- `volunteers` - One profile per user: skills, availability windows
+  (`[{ "starts_at", "ends_at" }]`), home location and how far they will travel
+- `volunteer_tasks` - Tasks on a disaster with required skills, headcount,
+  place and time; the place defaults to the resource's, then the disaster's
+- `task_assignments` - Which volunteers were offered or took a task and where
+  each stands (`offered`, `accepted`, `declined`, `completed`)
+- `suggest_volunteers` - Active volunteers for a task, best skill match first,
+  then those whose availability covers the task, then the nearest
+- `respond_to_volunteer_task` - Accept, decline or complete a task without
+  going over its headcount
+- `refresh_volunteer_task_status` - Recomputes `open` / `filled` /
+  `completed` from the assignments
+*/
+
+CREATE TABLE IF NOT EXISTS volunteers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  display_name text NOT NULL,
+  phone text,
+  skills text[] NOT NULL DEFAULT '{}',
+  availability jsonb NOT NULL DEFAULT '[]',
+  location geography(POINT, 4326),
+  location_name text,
+  max_distance_km double precision CHECK (max_distance_km > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS volunteers_location_idx ON volunteers USING GIST (location);
+CREATE INDEX IF NOT EXISTS volunteers_skills_idx ON volunteers USING GIN (skills);
+
+CREATE TABLE IF NOT EXISTS volunteer_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE RESTRICT,
+  resource_id uuid REFERENCES resources(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  description text,
+  required_skills text[] NOT NULL DEFAULT '{}',
+  headcount integer NOT NULL DEFAULT 1 CHECK (headcount > 0),
+  location geography(POINT, 4326),
+  location_name text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'completed', 'cancelled')),
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS volunteer_tasks_disaster_idx ON volunteer_tasks (disaster_id, status, created_at);
+
+CREATE TABLE IF NOT EXISTS task_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES volunteer_tasks(id) ON DELETE CASCADE,
+  volunteer_id uuid NOT NULL REFERENCES volunteers(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'offered' CHECK (status IN ('offered', 'accepted', 'declined', 'completed')),
+  offered_by text,
+  responded_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (task_id, volunteer_id)
+);
+
+CREATE INDEX IF NOT EXISTS task_assignments_volunteer_idx ON task_assignments (volunteer_id, status);
+
+CREATE TRIGGER update_volunteers_updated_at
+  BEFORE UPDATE ON volunteers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_volunteer_tasks_updated_at
+  BEFORE UPDATE ON volunteer_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Profiles hold phone numbers and home locations, so only the API reads them
+ALTER TABLE volunteers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE volunteer_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage volunteers"
+  ON volunteers
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can read volunteer tasks"
+  ON volunteer_tasks
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage volunteer tasks"
+  ON volunteer_tasks
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage task assignments"
+  ON task_assignments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- `available` is true when one of the volunteer's windows covers the task's
+-- time, and null when the task has no time or the volunteer gave no windows;
+-- volunteers whose windows miss the task are left out, as are those who were
+-- already offered it and those the task is further away than they travel.
+-- Volunteers without a home location are listed last.
+CREATE OR REPLACE FUNCTION suggest_volunteers(
+  target_task_id uuid,
+  radius_km double precision DEFAULT 50,
+  result_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  volunteer_id uuid,
+  user_id text,
+  display_name text,
+  skills text[],
+  matched_skills text[],
+  skill_match double precision,
+  available boolean,
+  distance_km double precision,
+  location_name text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH task AS (
+    SELECT t.id, t.required_skills, t.starts_at, coalesce(t.ends_at, t.starts_at) AS ends_at,
+      coalesce(t.location, r.location, d.location) AS place
+    FROM volunteer_tasks t
+    JOIN disasters d ON d.id = t.disaster_id
+    LEFT JOIN resources r ON r.id = t.resource_id
+    WHERE t.id = target_task_id
+  ),
+  candidates AS (
+    SELECT v.*,
+      ARRAY(SELECT unnest(v.skills) INTERSECT SELECT unnest(task.required_skills)) AS matched,
+      cardinality(task.required_skills) AS required,
+      ST_Distance(v.location, task.place) / 1000 AS distance,
+      CASE
+        WHEN task.starts_at IS NULL OR jsonb_array_length(v.availability) = 0 THEN NULL
+        ELSE EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(v.availability) w
+          WHERE (w->>'starts_at')::timestamptz <= task.starts_at
+            AND (w->>'ends_at')::timestamptz >= task.ends_at
+        )
+      END AS covers
+    FROM volunteers v, task
+    WHERE v.active
+      AND NOT EXISTS (
+        SELECT 1 FROM task_assignments a WHERE a.task_id = task.id AND a.volunteer_id = v.id
+      )
+      AND (v.location IS NULL OR task.place IS NULL OR ST_DWithin(v.location, task.place, radius_km * 1000))
+  )
+  SELECT c.id, c.user_id, c.display_name, c.skills, c.matched,
+    CASE WHEN c.required = 0 THEN 1 ELSE cardinality(c.matched)::double precision / c.required END AS skill_match,
+    c.covers, c.distance, c.location_name
+  FROM candidates c
+  WHERE (c.required = 0 OR cardinality(c.matched) > 0)
+    AND c.covers IS NOT FALSE
+    AND (c.max_distance_km IS NULL OR c.distance IS NULL OR c.distance <= c.max_distance_km)
+  ORDER BY skill_match DESC, c.covers DESC NULLS LAST, c.distance ASC NULLS LAST, c.display_name
+  LIMIT result_limit;
+$$;
+
+-- Open while fewer volunteers than the headcount have accepted, filled once
+-- enough have, completed when every one who took it is done. Cancelled and
+-- completed tasks are left alone.
+CREATE OR REPLACE FUNCTION refresh_volunteer_task_status(target_task_id uuid)
+RETURNS SETOF volunteer_tasks
+LANGUAGE sql
+AS $$
+  UPDATE volunteer_tasks t
+  SET status = CASE
+    WHEN counts.completed >= t.headcount AND counts.accepted = 0 THEN 'completed'
+    WHEN counts.accepted + counts.completed >= t.headcount THEN 'filled'
+    ELSE 'open'
+  END
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE a.status = 'accepted') AS accepted,
+      count(*) FILTER (WHERE a.status = 'completed') AS completed
+    FROM task_assignments a
+    WHERE a.task_id = target_task_id
+  ) counts
+  WHERE t.id = target_task_id
+    AND t.status NOT IN ('completed', 'cancelled')
+  RETURNING t.*;
+$$;
+
+-- `response` is accept, decline or complete. Returns the volunteer's updated
+-- assignment, or no row when the response is not allowed: the task is
+-- cancelled, completed or already has enough volunteers, or the assignment
+-- is not in a state the response applies to. A volunteer may accept an open
+-- task they were not offered.
+CREATE OR REPLACE FUNCTION respond_to_volunteer_task(
+  target_task_id uuid,
+  target_volunteer_id uuid,
+  response text
+)
+RETURNS SETOF task_assignments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  task volunteer_tasks;
+  assignment task_assignments;
+  taken integer;
+BEGIN
+  -- Locking the task serializes responses so the headcount is never exceeded
+  SELECT * INTO task FROM volunteer_tasks t WHERE t.id = target_task_id FOR UPDATE;
+  IF NOT FOUND OR task.status IN ('completed', 'cancelled') THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO assignment
+  FROM task_assignments a
+  WHERE a.task_id = target_task_id AND a.volunteer_id = target_volunteer_id;
+
+  IF response = 'accept' THEN
+    IF assignment.status IN ('accepted', 'completed') THEN
+      RETURN;
+    END IF;
+
+    SELECT count(*) INTO taken
+    FROM task_assignments a
+    WHERE a.task_id = target_task_id AND a.status IN ('accepted', 'completed');
+    IF taken >= task.headcount THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO task_assignments AS a (task_id, volunteer_id, status, responded_at)
+    VALUES (target_task_id, target_volunteer_id, 'accepted', now())
+    ON CONFLICT (task_id, volunteer_id)
+    DO UPDATE SET status = 'accepted', responded_at = now()
+    RETURNING a.* INTO assignment;
+  ELSIF response = 'decline' THEN
+    IF assignment.status IS NULL OR assignment.status NOT IN ('offered', 'accepted') THEN
+      RETURN;
+    END IF;
+
+    UPDATE task_assignments a
+    SET status = 'declined', responded_at = now()
+    WHERE a.id = assignment.id
+    RETURNING a.* INTO assignment;
+  ELSIF response = 'complete' THEN
+    IF assignment.status IS DISTINCT FROM 'accepted' THEN
+      RETURN;
+    END IF;
+
+    UPDATE task_assignments a
+    SET status = 'completed', completed_at = now()
+    WHERE a.id = assignment.id
+    RETURNING a.* INTO assignment;
+  ELSE
+    RAISE EXCEPTION 'response must be accept, decline or complete';
+  END IF;
+
+  PERFORM refresh_volunteer_task_status(target_task_id);
+  RETURN NEXT assignment;
+END;
+$$;
@@ -0,0 +1,270 @@
+/*
+# Needs and resource matching
+
+## Overview
+Besides free-text reports, people can now raise a structured need: what
+kind of help, how much of it, how urgent and where ("12 people need shelter
+at X", "insulin needed"). Coordinators get the nearest resources of the
+disaster that can still take it proposed, and confirm an allocation, which
+takes the amount off the resource's remaining capacity.
+
+## Changes
+- `needs` - Needs on a disaster with category, quantity, how much of it has
+  been met, urgency (`urgent`, `high`, `medium`, `low`), location and status
+  (`open`, `partially_met`, `met`, `cancelled`)
+- `need_allocations` - Amounts of a need confirmed against a resource, with
+  who confirmed them
+- `match_need_resources` - Resources of the need's disaster of the given
+  types with capacity left, those that can cover the rest of the need first,
+  then the nearest
+- `allocate_need_resource` - Confirms an allocation: checks the need still
+  wants that much, checks people in at the resource through
+  `adjust_resource_occupancy` and moves the need to `partially_met` or `met`
+- `map_points_in_view` also returns unmet needs (kind `need`), weighted by
+  urgency
+*/
+
+CREATE TABLE IF NOT EXISTS needs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE RESTRICT,
+  category text NOT NULL
+    CHECK (category IN ('shelter', 'medical', 'food', 'water', 'rescue', 'transportation', 'supplies', 'other')),
+  description text NOT NULL,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  quantity_met integer NOT NULL DEFAULT 0 CHECK (quantity_met >= 0),
+  urgency text NOT NULL DEFAULT 'medium' CHECK (urgency IN ('urgent', 'high', 'medium', 'low')),
+  location geography(POINT, 4326),
+  location_name text,
+  contact text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'partially_met', 'met', 'cancelled')),
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS needs_disaster_idx ON needs (disaster_id, status, created_at);
+CREATE INDEX IF NOT EXISTS needs_location_idx ON needs USING GIST (location);
+
+CREATE TABLE IF NOT EXISTS need_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  need_id uuid NOT NULL REFERENCES needs(id) ON DELETE CASCADE,
+  resource_id uuid REFERENCES resources(id) ON DELETE SET NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  allocated_by text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS need_allocations_need_idx ON need_allocations (need_id, created_at);
+
+CREATE TRIGGER update_needs_updated_at
+  BEFORE UPDATE ON needs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Needs carry a contact for the people in need, so only the API reads them
+ALTER TABLE needs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE need_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage needs"
+  ON needs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage need allocations"
+  ON need_allocations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Only resources with a capacity set are proposed, as only those can be
+-- drawn down. Distances are measured from the need, or from the disaster
+-- when the need has no location; resources without a location come last.
+CREATE OR REPLACE FUNCTION match_need_resources(
+  target_need_id uuid,
+  resource_types text[],
+  radius_km double precision DEFAULT 25,
+  result_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  type text,
+  location_name text,
+  availability_status text,
+  capacity integer,
+  occupancy integer,
+  remaining integer,
+  covers boolean,
+  distance_km double precision,
+  lat double precision,
+  lng double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH need AS (
+    SELECT n.id, n.disaster_id, n.quantity - n.quantity_met AS outstanding,
+      coalesce(n.location, d.location) AS place
+    FROM needs n
+    JOIN disasters d ON d.id = n.disaster_id
+    WHERE n.id = target_need_id
+  )
+  SELECT
+    r.id,
+    r.name,
+    r.type,
+    r.location_name,
+    r.availability_status,
+    r.capacity,
+    r.occupancy,
+    r.capacity - r.occupancy AS remaining,
+    r.capacity - r.occupancy >= need.outstanding AS covers,
+    ST_Distance(r.location, need.place) / 1000 AS distance_km,
+    ST_Y(r.location::geometry) AS lat,
+    ST_X(r.location::geometry) AS lng
+  FROM resources r, need
+  WHERE r.disaster_id = need.disaster_id
+    AND r.type = ANY (resource_types)
+    AND r.availability_status <> 'closed'
+    AND r.capacity IS NOT NULL
+    AND r.capacity > r.occupancy
+    AND (r.location IS NULL OR need.place IS NULL OR ST_DWithin(r.location, need.place, radius_km * 1000))
+  ORDER BY covers DESC, distance_km ASC NULLS LAST, remaining DESC, r.name
+  LIMIT result_limit;
+$$;
+
+-- Returns the new allocation, or no row when it is not possible: the need is
+-- met or cancelled, asks for less than `amount`, or the resource is closed or
+-- does not have `amount` of capacity left.
+CREATE OR REPLACE FUNCTION allocate_need_resource(
+  target_need_id uuid,
+  target_resource_id uuid,
+  amount integer,
+  allocated_by text
+)
+RETURNS SETOF need_allocations
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  need needs;
+  allocation need_allocations;
+BEGIN
+  -- Locking the need serializes allocations so it is never over-met
+  SELECT * INTO need FROM needs n WHERE n.id = target_need_id FOR UPDATE;
+  IF NOT FOUND
+    OR need.status NOT IN ('open', 'partially_met')
+    OR amount <= 0
+    OR amount > need.quantity - need.quantity_met THEN
+    RETURN;
+  END IF;
+
+  PERFORM 1 FROM adjust_resource_occupancy(target_resource_id, amount);
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO need_allocations AS a (need_id, resource_id, quantity, allocated_by)
+  VALUES (target_need_id, target_resource_id, amount, allocated_by)
+  RETURNING a.* INTO allocation;
+
+  UPDATE needs n
+  SET
+    quantity_met = n.quantity_met + amount,
+    status = CASE WHEN n.quantity_met + amount >= n.quantity THEN 'met' ELSE 'partially_met' END
+  WHERE n.id = target_need_id;
+
+  RETURN NEXT allocation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION map_points_in_view(
+  min_lat double precision,
+  min_lon double precision,
+  max_lat double precision,
+  max_lon double precision,
+  target_disaster_id uuid,
+  kinds text[]
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  label text,
+  category text,
+  status text,
+  details jsonb,
+  weight double precision,
+  geom geometry
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bbox AS (
+    SELECT ST_MakeEnvelope(min_lon, min_lat, max_lon, max_lat, 4326) AS geom
+  )
+  SELECT 'disaster', d.id, d.title, NULL, d.severity,
+    jsonb_build_object('location_name', d.location_name, 'tags', d.tags, 'status', d.status),
+    1.0::double precision, d.location::geometry
+  FROM disasters d, bbox
+  WHERE 'disaster' = ANY (kinds)
+    AND d.location IS NOT NULL
+    AND d.deleted_at IS NULL
+    AND (target_disaster_id IS NULL OR d.id = target_disaster_id)
+    AND d.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'resource', r.id, r.name, r.type, r.availability_status,
+    jsonb_build_object('disaster_id', r.disaster_id, 'location_name', r.location_name, 'capacity', r.capacity, 'occupancy', r.occupancy),
+    1.0, r.location::geometry
+  FROM resources r, bbox
+  WHERE 'resource' = ANY (kinds)
+    AND r.location IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM disasters d WHERE d.id = r.disaster_id AND d.deleted_at IS NOT NULL)
+    AND (target_disaster_id IS NULL OR r.disaster_id = target_disaster_id)
+    AND r.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'report', r.id, left(r.content, 120), NULL, r.verification_status,
+    jsonb_build_object('disaster_id', r.disaster_id, 'image_url', r.image_url, 'created_at', r.created_at),
+    0.5, r.location::geometry
+  FROM reports r, bbox
+  WHERE 'report' = ANY (kinds)
+    AND r.location IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM disasters d WHERE d.id = r.disaster_id AND d.deleted_at IS NOT NULL)
+    AND (target_disaster_id IS NULL OR r.disaster_id = target_disaster_id)
+    AND r.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'social_post', p.id, left(p.content, 120), p.platform, p.priority,
+    jsonb_build_object('author', p.author, 'url', p.url, 'posted_at', p.posted_at),
+    CASE p.priority WHEN 'urgent' THEN 1.0 WHEN 'high' THEN 0.75 WHEN 'medium' THEN 0.5 ELSE 0.25 END,
+    p.location::geometry
+  FROM social_posts p, bbox
+  WHERE 'social_post' = ANY (kinds)
+    AND p.location IS NOT NULL
+    AND (target_disaster_id IS NULL OR EXISTS (
+      SELECT 1 FROM disaster_social_posts dsp
+      WHERE dsp.post_id = p.id AND dsp.disaster_id = target_disaster_id
+    ))
+    AND p.location::geometry && bbox.geom
+
+  UNION ALL
+
+  SELECT 'need', n.id, left(n.description, 120), n.category, n.urgency,
+    jsonb_build_object('disaster_id', n.disaster_id, 'location_name', n.location_name,
+      'quantity', n.quantity, 'quantity_met', n.quantity_met, 'status', n.status),
+    CASE n.urgency WHEN 'urgent' THEN 1.0 WHEN 'high' THEN 0.75 WHEN 'medium' THEN 0.5 ELSE 0.25 END,
+    n.location::geometry
+  FROM needs n, bbox
+  WHERE 'need' = ANY (kinds)
+    AND n.location IS NOT NULL
+    AND n.status IN ('open', 'partially_met')
+    AND NOT EXISTS (SELECT 1 FROM disasters d WHERE d.id = n.disaster_id AND d.deleted_at IS NOT NULL)
+    AND (target_disaster_id IS NULL OR n.disaster_id = target_disaster_id)
+    AND n.location::geometry && bbox.geom;
+$$;
@@ -0,0 +1,327 @@
+/*
+# Inventory at resource sites
+
+## Overview
+Resources described places but not what they hold. Each resource now keeps
+stock of items from a shared catalogue, and every change to it, whether a
+delivery, consumption, stock count or transfer, is written to an
+append-only ledger with the balance after it. Inbound shipments are
+recorded when they are sent and booked into stock when they arrive.
+
+## Changes
+- `inventory_items` - Item catalogue: name (unique, any case), category and
+  unit
+- `resource_stock` - Quantity of each item at a resource, its low-stock
+  threshold and the earliest expiry of what is on hand
+- `inventory_transactions` - The ledger: one row per movement with the signed
+  quantity and the balance after it. Transfers write a `transfer_out` and a
+  `transfer_in` row sharing a `transfer_id`. Updates and deletes are refused,
+  and rows outlive the resource they were written for
+- `inventory_shipments` - Inbound shipments to a resource with their lines
+  (`[{ "item_id", "quantity", "expires_at" }]`), `in_transit` until they are
+  `received` or `cancelled`
+- `record_stock_movement` - Applies one movement under a row lock; refuses to
+  take stock below zero
+- `transfer_stock` - Moves stock between two resources in one transaction,
+  carrying the expiry along
+- `receive_shipment` - Books every line of an in-transit shipment into stock
+*/
+
+CREATE TABLE IF NOT EXISTS inventory_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  category text NOT NULL DEFAULT 'other'
+    CHECK (category IN ('food', 'water', 'medical', 'hygiene', 'bedding', 'clothing', 'fuel', 'equipment', 'other')),
+  unit text NOT NULL DEFAULT 'each',
+  description text,
+  created_by text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS inventory_items_name_idx ON inventory_items (lower(name));
+
+CREATE TABLE IF NOT EXISTS resource_stock (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id uuid NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES inventory_items(id),
+  quantity numeric NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  low_stock_threshold numeric CHECK (low_stock_threshold >= 0),
+  expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (resource_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS resource_stock_item_idx ON resource_stock (item_id);
+
+CREATE TABLE IF NOT EXISTS inventory_transactions (
+  id bigserial PRIMARY KEY,
+  disaster_id uuid NOT NULL,
+  resource_id uuid NOT NULL,
+  item_id uuid NOT NULL REFERENCES inventory_items(id),
+  kind text NOT NULL CHECK (kind IN ('receipt', 'consumption', 'adjustment', 'transfer_out', 'transfer_in')),
+  quantity numeric NOT NULL,
+  balance_after numeric NOT NULL,
+  expires_at timestamptz,
+  transfer_id uuid,
+  counterpart_resource_id uuid,
+  shipment_id uuid,
+  note text,
+  created_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS inventory_transactions_disaster_idx ON inventory_transactions (disaster_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS inventory_transactions_stock_idx ON inventory_transactions (resource_id, item_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS inventory_shipments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE RESTRICT,
+  resource_id uuid NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  origin text,
+  items jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'in_transit' CHECK (status IN ('in_transit', 'received', 'cancelled')),
+  expected_at timestamptz,
+  received_at timestamptz,
+  received_by text,
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS inventory_shipments_disaster_idx ON inventory_shipments (disaster_id, status, expected_at);
+
+CREATE TRIGGER update_resource_stock_updated_at
+  BEFORE UPDATE ON resource_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_inventory_shipments_updated_at
+  BEFORE UPDATE ON inventory_shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION prevent_ledger_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_transactions_append_only ON inventory_transactions;
+CREATE TRIGGER inventory_transactions_append_only
+  BEFORE UPDATE OR DELETE ON inventory_transactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_ledger_change();
+
+ALTER TABLE inventory_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resource_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read inventory items"
+  ON inventory_items
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage inventory items"
+  ON inventory_items
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can read resource stock"
+  ON resource_stock
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage resource stock"
+  ON resource_stock
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can read inventory transactions"
+  ON inventory_transactions
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can append inventory transactions"
+  ON inventory_transactions
+  FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage inventory shipments"
+  ON inventory_shipments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Applies `delta` to the stock of an item at a resource, or with `counted`
+-- sets it to that amount (a stock count), and writes the ledger row. Returns
+-- the ledger row, or no row when the resource does not exist or the stock
+-- would go below zero. A receipt with `expiry` keeps the earliest expiry on
+-- hand; stock that runs out loses its expiry.
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  target_resource_id uuid,
+  target_item_id uuid,
+  movement_kind text,
+  delta numeric,
+  counted numeric DEFAULT NULL,
+  actor text DEFAULT NULL,
+  movement_note text DEFAULT NULL,
+  expiry timestamptz DEFAULT NULL,
+  target_transfer_id uuid DEFAULT NULL,
+  counterpart_id uuid DEFAULT NULL,
+  target_shipment_id uuid DEFAULT NULL
+)
+RETURNS SETOF inventory_transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  owner_disaster_id uuid;
+  stock resource_stock;
+  change numeric;
+  entry inventory_transactions;
+BEGIN
+  SELECT r.disaster_id INTO owner_disaster_id FROM resources r WHERE r.id = target_resource_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO resource_stock (resource_id, item_id)
+  VALUES (target_resource_id, target_item_id)
+  ON CONFLICT (resource_id, item_id) DO NOTHING;
+
+  SELECT * INTO stock
+  FROM resource_stock s
+  WHERE s.resource_id = target_resource_id AND s.item_id = target_item_id
+  FOR UPDATE;
+
+  change := coalesce(counted - stock.quantity, delta);
+  IF change IS NULL OR stock.quantity + change < 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE resource_stock s
+  SET
+    quantity = s.quantity + change,
+    expires_at = CASE
+      WHEN s.quantity + change = 0 THEN NULL
+      WHEN change > 0 THEN LEAST(s.expires_at, expiry)
+      ELSE s.expires_at
+    END
+  WHERE s.id = stock.id
+  RETURNING s.* INTO stock;
+
+  INSERT INTO inventory_transactions AS t (
+    disaster_id, resource_id, item_id, kind, quantity, balance_after, expires_at,
+    transfer_id, counterpart_resource_id, shipment_id, note, created_by
+  )
+  VALUES (
+    owner_disaster_id, target_resource_id, target_item_id, movement_kind, change, stock.quantity, expiry,
+    target_transfer_id, counterpart_id, target_shipment_id, movement_note, coalesce(actor, 'system')
+  )
+  RETURNING t.* INTO entry;
+
+  RETURN NEXT entry;
+END;
+$$;
+
+-- Returns the transfer_out and transfer_in rows, or no row when the source
+-- does not hold `amount` of the item
+CREATE OR REPLACE FUNCTION transfer_stock(
+  source_resource_id uuid,
+  destination_resource_id uuid,
+  target_item_id uuid,
+  amount numeric,
+  actor text,
+  movement_note text DEFAULT NULL
+)
+RETURNS SETOF inventory_transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  transfer uuid := gen_random_uuid();
+  expiry timestamptz;
+  outgoing inventory_transactions;
+  incoming inventory_transactions;
+BEGIN
+  IF amount <= 0 OR source_resource_id = destination_resource_id THEN
+    RETURN;
+  END IF;
+
+  -- Both stock rows are locked in a fixed order so opposite transfers
+  -- cannot deadlock
+  INSERT INTO resource_stock (resource_id, item_id)
+  VALUES (source_resource_id, target_item_id), (destination_resource_id, target_item_id)
+  ON CONFLICT (resource_id, item_id) DO NOTHING;
+
+  PERFORM 1
+  FROM resource_stock s
+  WHERE s.item_id = target_item_id
+    AND s.resource_id IN (source_resource_id, destination_resource_id)
+  ORDER BY s.resource_id
+  FOR UPDATE;
+
+  SELECT s.expires_at INTO expiry
+  FROM resource_stock s
+  WHERE s.resource_id = source_resource_id AND s.item_id = target_item_id;
+
+  SELECT * INTO outgoing
+  FROM record_stock_movement(source_resource_id, target_item_id, 'transfer_out', -amount, NULL, actor,
+    movement_note, NULL, transfer, destination_resource_id, NULL);
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO incoming
+  FROM record_stock_movement(destination_resource_id, target_item_id, 'transfer_in', amount, NULL, actor,
+    movement_note, expiry, transfer, source_resource_id, NULL);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer destination % does not exist', destination_resource_id;
+  END IF;
+
+  RETURN NEXT outgoing;
+  RETURN NEXT incoming;
+END;
+$$;
+
+-- Returns the received shipment, or no row when it is not in transit
+CREATE OR REPLACE FUNCTION receive_shipment(target_shipment_id uuid, actor text)
+RETURNS SETOF inventory_shipments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  shipment inventory_shipments;
+  line jsonb;
+BEGIN
+  SELECT * INTO shipment FROM inventory_shipments s WHERE s.id = target_shipment_id FOR UPDATE;
+  IF NOT FOUND OR shipment.status <> 'in_transit' THEN
+    RETURN;
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(shipment.items) LOOP
+    PERFORM 1
+    FROM record_stock_movement(shipment.resource_id, (line->>'item_id')::uuid, 'receipt',
+      (line->>'quantity')::numeric, NULL, actor,
+      CASE WHEN shipment.origin IS NULL THEN 'Shipment' ELSE 'Shipment from ' || shipment.origin END,
+      (line->>'expires_at')::timestamptz, NULL, NULL, shipment.id);
+  END LOOP;
+
+  UPDATE inventory_shipments s
+  SET status = 'received', received_at = now(), received_by = actor
+  WHERE s.id = target_shipment_id
+  RETURNING s.* INTO shipment;
+
+  RETURN NEXT shipment;
+END;
+$$;
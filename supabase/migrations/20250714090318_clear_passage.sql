@@ -0,0 +1,49 @@
+/*
+# Road closures for evacuation routing
+
+## Overview
+Evacuation routes are computed in the API on a road graph loaded from an
+OpenStreetMap extract. Besides disaster footprints, routes must keep off
+streets that responders report as closed: flooded underpasses, collapsed
+bridges, police cordons. A closure is a point with a radius, or a stretch of
+street given as a line, and every road within `radius_m` of it is left out of
+routes until the closure is lifted.
+
+## Changes
+- `road_closures` - Closures reported on a disaster, with an optional link to
+  the report that revealed them; `lifted_at` / `lifted_by` once the road is
+  open again
+*/
+
+CREATE TABLE IF NOT EXISTS road_closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE RESTRICT,
+  location geography(POINT, 4326) NOT NULL,
+  path geography(LINESTRING, 4326),
+  radius_m integer NOT NULL DEFAULT 30 CHECK (radius_m BETWEEN 5 AND 2000),
+  reason text NOT NULL,
+  report_id uuid REFERENCES reports(id) ON DELETE SET NULL,
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  lifted_at timestamptz,
+  lifted_by text
+);
+
+CREATE INDEX IF NOT EXISTS road_closures_disaster_idx ON road_closures (disaster_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS road_closures_active_idx ON road_closures (disaster_id) WHERE lifted_at IS NULL;
+CREATE INDEX IF NOT EXISTS road_closures_location_idx ON road_closures USING GIST (location);
+
+ALTER TABLE road_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read road closures"
+  ON road_closures
+  FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE POLICY "Service role can manage road closures"
+  ON road_closures
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,98 @@
+/*
+# Alert subscriptions and outbound notifications
+
+## Overview
+Priority alerts, official updates and disaster status changes only reached
+people with the dashboard open. Users, and external systems through
+webhooks, can now subscribe to a disaster, an area or tags above a minimum
+priority, and every matching event is sent to them by email, SMS or a signed
+webhook. Each message is one row in a delivery log, which the API retries
+with backoff until it is sent or runs out of attempts.
+
+## Changes
+- `notification_subscriptions` - What a user wants to hear about (event
+  types, disaster, area, tags, minimum priority) and where to send it
+  (`email`, `sms` or `webhook` target, with the secret webhooks are signed
+  with)
+- `notification_deliveries` - One row per message: the channel and target it
+  went to, the event it was for, attempts, the last error and when it was
+  sent. An event is delivered once per subscription
+*/
+
+CREATE TABLE IF NOT EXISTS notification_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  name text NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'sms', 'webhook')),
+  target text NOT NULL,
+  secret text,
+  event_types text[] NOT NULL DEFAULT '{priority_alert,official_update,disaster_status}'
+    CHECK (cardinality(event_types) > 0 AND event_types <@ ARRAY['priority_alert', 'official_update', 'disaster_status']),
+  disaster_id uuid REFERENCES disasters(id) ON DELETE CASCADE,
+  area geography(MULTIPOLYGON, 4326),
+  tags text[] NOT NULL DEFAULT '{}',
+  min_priority text NOT NULL DEFAULT 'high' CHECK (min_priority IN ('urgent', 'high', 'medium', 'low')),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (channel <> 'webhook' OR secret IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS notification_subscriptions_user_idx ON notification_subscriptions (user_id, created_at);
+CREATE INDEX IF NOT EXISTS notification_subscriptions_active_idx ON notification_subscriptions USING GIN (event_types) WHERE active;
+
+CREATE TRIGGER update_notification_subscriptions_updated_at
+  BEFORE UPDATE ON notification_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The channel and target are copied so the log still reads after the
+-- subscription is changed or deleted
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid REFERENCES notification_subscriptions(id) ON DELETE SET NULL,
+  user_id text NOT NULL,
+  channel text NOT NULL,
+  target text NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN ('priority_alert', 'official_update', 'disaster_status', 'test')),
+  event_key text NOT NULL,
+  disaster_id uuid,
+  subject text NOT NULL,
+  body text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (subscription_id, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_user_idx ON notification_deliveries (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notification_deliveries_due_idx ON notification_deliveries (next_attempt_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE notification_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Targets and webhook secrets are private, so neither table is readable
+-- outside the API
+CREATE POLICY "Service role can manage notification subscriptions"
+  ON notification_subscriptions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage notification deliveries"
+  ON notification_deliveries
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
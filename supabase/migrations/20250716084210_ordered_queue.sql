@@ -0,0 +1,62 @@
+/*
+# Moderation queue order in the database
+
+## Overview
+The moderation queue was read oldest first, capped at 500 reports, and
+sorted by urgency in the API, so with a long backlog the most urgent reports
+could be missing from it and the total was never above 500. The queue is now
+ordered and paged in the database and its size is counted exactly.
+
+## Changes
+- `moderation_queue_reports` - Reports waiting for a reviewer: escalated
+  ones, and unreviewed ones that are pending or suspicious, on disasters that
+  have not been deleted, optionally on one disaster
+- `moderation_queue` - One page of the queue, most urgent first: escalated,
+  then by priority and triage score, suspicious before pending, and the
+  longest-waiting first
+- `moderation_queue_size` - How many reports the queue holds
+*/
+
+CREATE OR REPLACE FUNCTION moderation_queue_reports(target_disaster_id uuid DEFAULT NULL)
+RETURNS SETOF reports
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT r.*
+  FROM reports r
+  JOIN disasters d ON d.id = r.disaster_id
+  WHERE d.deleted_at IS NULL
+    AND (target_disaster_id IS NULL OR r.disaster_id = target_disaster_id)
+    AND (r.moderation_status = 'escalated'
+      OR (r.moderation_status = 'unreviewed' AND r.verification_status IN ('pending', 'suspicious')));
+$$;
+
+CREATE OR REPLACE FUNCTION moderation_queue(
+  target_disaster_id uuid DEFAULT NULL,
+  result_limit integer DEFAULT 50,
+  result_offset integer DEFAULT 0
+)
+RETURNS SETOF reports
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT q.*
+  FROM moderation_queue_reports(target_disaster_id) q
+  ORDER BY
+    (q.moderation_status = 'escalated') DESC,
+    CASE q.priority WHEN 'urgent' THEN 3 WHEN 'high' THEN 2 WHEN 'medium' THEN 1 ELSE 0 END DESC,
+    coalesce(q.triage_score, 0) DESC,
+    (q.verification_status = 'suspicious') DESC,
+    q.created_at ASC,
+    q.id
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION moderation_queue_size(target_disaster_id uuid DEFAULT NULL)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*) FROM moderation_queue_reports(target_disaster_id);
+$$;
@@ -0,0 +1,84 @@
+/*
+# Volunteers accept only tasks they were offered
+
+## Overview
+Accepting a task inserted an assignment when there was none, so any volunteer
+could take any open task, whether or not a coordinator had offered it to
+them. Accepting now needs an assignment in `offered`; volunteers who declined
+or were never offered the task are refused.
+
+## Changes
+- `respond_to_volunteer_task` - `accept` updates the volunteer's `offered`
+  assignment instead of upserting one
+*/
+
+-- `response` is accept, decline or complete. Returns the volunteer's updated
+-- assignment, or no row when the response is not allowed: the task is
+-- cancelled, completed or already has enough volunteers, or the assignment
+-- is not in a state the response applies to. Only an offered task can be
+-- accepted.
+CREATE OR REPLACE FUNCTION respond_to_volunteer_task(
+  target_task_id uuid,
+  target_volunteer_id uuid,
+  response text
+)
+RETURNS SETOF task_assignments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  task volunteer_tasks;
+  assignment task_assignments;
+  taken integer;
+BEGIN
+  -- Locking the task serializes responses so the headcount is never exceeded
+  SELECT * INTO task FROM volunteer_tasks t WHERE t.id = target_task_id FOR UPDATE;
+  IF NOT FOUND OR task.status IN ('completed', 'cancelled') THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO assignment
+  FROM task_assignments a
+  WHERE a.task_id = target_task_id AND a.volunteer_id = target_volunteer_id;
+
+  IF response = 'accept' THEN
+    IF assignment.status IS DISTINCT FROM 'offered' THEN
+      RETURN;
+    END IF;
+
+    SELECT count(*) INTO taken
+    FROM task_assignments a
+    WHERE a.task_id = target_task_id AND a.status IN ('accepted', 'completed');
+    IF taken >= task.headcount THEN
+      RETURN;
+    END IF;
+
+    UPDATE task_assignments a
+    SET status = 'accepted', responded_at = now()
+    WHERE a.id = assignment.id
+    RETURNING a.* INTO assignment;
+  ELSIF response = 'decline' THEN
+    IF assignment.status IS NULL OR assignment.status NOT IN ('offered', 'accepted') THEN
+      RETURN;
+    END IF;
+
+    UPDATE task_assignments a
+    SET status = 'declined', responded_at = now()
+    WHERE a.id = assignment.id
+    RETURNING a.* INTO assignment;
+  ELSIF response = 'complete' THEN
+    IF assignment.status IS DISTINCT FROM 'accepted' THEN
+      RETURN;
+    END IF;
+
+    UPDATE task_assignments a
+    SET status = 'completed', completed_at = now()
+    WHERE a.id = assignment.id
+    RETURNING a.* INTO assignment;
+  ELSE
+    RAISE EXCEPTION 'response must be accept, decline or complete';
+  END IF;
+
+  PERFORM refresh_volunteer_task_status(target_task_id);
+  RETURN NEXT assignment;
+END;
+$$;